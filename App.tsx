@@ -2,7 +2,11 @@ import 'react-native-gesture-handler';
 import React, { useEffect } from 'react';
 import { StatusBar } from 'react-native';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { ThemeProvider } from './src/components/ThemeProvider';
+import { derivedSignals } from './src/obd/derivedSignals';
+import { pidPacks } from './src/obd/pidPacks';
 import { database } from './src/storage/database';
+import { settingsPersistence } from './src/storage/settingsPersistence';
 
 function App(): React.JSX.Element {
   useEffect(() => {
@@ -11,13 +15,26 @@ function App(): React.JSX.Element {
     database.initialize().catch((err) => {
       console.warn('Database init failed (logging disabled):', err);
     });
+
+    // Saved settings (polling interval, layout, ...) must be in place before a connect;
+    // obdClient waits for them, and hydration waits for the database.
+    settingsPersistence
+      .hydrate()
+      // Imported PID packs join the protocol lookup (and the meter signal list).
+      .then(() => pidPacks.load())
+      .catch((err) => {
+        console.warn('PID packs could not be loaded:', err);
+      });
+
+    // User-defined derived signals follow the settings (hydrated ones included).
+    return derivedSignals.syncWithSettings();
   }, []);
 
   return (
-    <>
+    <ThemeProvider>
       <StatusBar hidden />
       <AppNavigator />
-    </>
+    </ThemeProvider>
   );
 }
 
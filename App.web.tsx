@@ -13,9 +13,12 @@ import { HVSystemScreen } from './src/screens/HVSystemScreen';
 import { ClimateScreen } from './src/screens/ClimateScreen';
 import { AnalysisScreen } from './src/screens/AnalysisScreen';
 import { SettingsScreen } from './src/screens/SettingsScreen';
-import { useConnectionStore } from './src/store/connectionStore';
-import { mockDataProvider } from './src/utils/mockDataProvider';
-import { THEME } from './src/utils/theme';
+import { obdClient } from './src/obd/obdClient';
+import { derivedSignals } from './src/obd/derivedSignals';
+import { database } from './src/storage/database';
+import { settingsPersistence } from './src/storage/settingsPersistence';
+import { ThemeProvider, useTheme, useThemedStyles } from './src/components/ThemeProvider';
+import type { ThemeColors } from './src/utils/theme';
 
 type TabName = 'Dashboard' | 'Battery' | 'HV System' | 'Climate' | 'Analysis' | 'Settings';
 
@@ -149,11 +152,11 @@ const TABS: TabName[] = ['Dashboard', 'Battery', 'HV System', 'Climate', 'Analys
 
 const ASPECT = 16 / 9;
 
-function App(): React.JSX.Element {
+/** 16:9 のアプリ枠とタブバー (テーマは ThemeProvider から取得する) */
+function AppShell(): React.JSX.Element {
   const [activeTab, setActiveTab] = useState<TabName>('Dashboard');
-  const setDemoMode = useConnectionStore((s) => s.setDemoMode);
-  const setDevice = useConnectionStore((s) => s.setDevice);
-  const setConnectionState = useConnectionStore((s) => s.setConnectionState);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const { width: winW, height: winH } = useWindowDimensions();
 
   // 16:9 固定サイズ計算 (letterbox)
@@ -161,17 +164,24 @@ function App(): React.JSX.Element {
   const appW = windowAspect > ASPECT ? winH * ASPECT : winW;
   const appH = windowAspect > ASPECT ? winH : winW / ASPECT;
 
-  // デモモード自動開始
+  // デモモード自動開始 (仮想ELM327経由)
   useEffect(() => {
-    setDemoMode(true);
-    setDevice({ id: 'DEMO', name: 'Demo Mode', rssi: null });
-    setConnectionState('connected');
-    mockDataProvider.start(200);
+    // obdClient は設定の復元を待ってから接続する (Web版のDBはモックなので既定値で始まる)
+    database.initialize().catch(() => undefined);
+    settingsPersistence.hydrate().catch((err) => {
+      console.warn('Failed to load settings:', err);
+    });
+    // 派生シグナルは接続前に設定から読み込む (入力シグナルをポーリング対象に含めるため)
+    const stopDerivedSignals = derivedSignals.syncWithSettings();
+    obdClient.startDemoMode();
 
     return () => {
-      mockDataProvider.stop();
+      stopDerivedSignals();
+      obdClient.disconnect().catch((err) => {
+        console.warn('Failed to disconnect:', err);
+      });
     };
-  }, [setDemoMode, setDevice, setConnectionState]);
+  }, []);
 
   const renderScreen = () => {
     switch (activeTab) {
@@ -199,7 +209,7 @@ function App(): React.JSX.Element {
       <View style={styles.tabBar}>
         {TABS.map((tabName) => {
           const isActive = activeTab === tabName;
-          const color = isActive ? THEME.tabActive : THEME.tabInactive;
+          const color = isActive ? theme.tabActive : theme.tabInactive;
           const IconComponent = TAB_ICONS[tabName];
 
           return (
@@ -214,7 +224,7 @@ function App(): React.JSX.Element {
               <View
                 style={[
                   styles.activeIndicator,
-                  { backgroundColor: isActive ? THEME.primary : 'transparent' },
+                  { backgroundColor: isActive ? theme.primary : 'transparent' },
                 ]}
               />
               <View style={styles.tabContent}>
@@ -230,7 +240,15 @@ function App(): React.JSX.Element {
   );
 }
 
-const styles = StyleSheet.create({
+function App(): React.JSX.Element {
+  return (
+    <ThemeProvider>
+      <AppShell />
+    </ThemeProvider>
+  );
+}
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   outerContainer: {
     flex: 1,
     backgroundColor: '#000',
@@ -238,18 +256,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   appContainer: {
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
     overflow: 'hidden',
   },
   content: {
     flex: 1,
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
   },
   tabBar: {
     flexDirection: 'row',
-    backgroundColor: THEME.tabBarBg,
+    backgroundColor: theme.tabBarBg,
     borderTopWidth: 1,
-    borderTopColor: THEME.tabBarBorder,
+    borderTopColor: theme.tabBarBorder,
     height: 56,
   },
   tab: {
@@ -0,0 +1,93 @@
+import {
+  BATTERY_HEALTH_PIDS,
+  batteryHealthBridge,
+  mechanicalPowerKw,
+} from '../src/obd/batteryHealthBridge';
+import { TOYOTA_PIDS } from '../src/obd/pid/toyota';
+import { STANDARD_PIDS } from '../src/obd/pid/standard';
+import { useBatteryHealthStore } from '../src/store/batteryHealthStore';
+
+describe('batteryHealthBridge', () => {
+  afterEach(() => {
+    batteryHealthBridge.stop();
+  });
+
+  test('every required signal has a PID definition', () => {
+    for (const id of BATTERY_HEALTH_PIDS) {
+      expect(TOYOTA_PIDS[id] ?? STANDARD_PIDS[id]).toBeDefined();
+    }
+  });
+
+  test('mechanicalPowerKw converts torque and rpm', () => {
+    expect(mechanicalPowerKw(100, 3000)).toBeCloseTo(31.416, 3);
+  });
+
+  test('block voltages are split into 28 modules', () => {
+    for (let i = 1; i <= 14; i++) {
+      expect(batteryHealthBridge.hasModuleVoltages()).toBe(false);
+      batteryHealthBridge.ingest(`PC_7E2_2181_V${String(i).padStart(2, '0')}`, i === 3 ? 14.4 : 15);
+    }
+    expect(batteryHealthBridge.hasModuleVoltages()).toBe(true);
+    batteryHealthBridge.update(0);
+
+    const { modules, maxMinDelta } = useBatteryHealthStore.getState().summary;
+    expect(modules).toHaveLength(28);
+    expect(modules[0].voltage).toBeCloseTo(7.5, 6);
+    expect(modules[4].voltage).toBeCloseTo(7.2, 6);
+    expect(modules[5].voltage).toBeCloseTo(7.2, 6);
+    expect(maxMinDelta).toBeCloseTo(0.3, 6);
+  });
+
+  test('power flow follows PowerFlowState sign conventions', () => {
+    batteryHealthBridge.ingest('010C', 2000);
+    batteryHealthBridge.ingest('PC_7E0_2149_ACTENGTORQ', 80);
+    batteryHealthBridge.ingest('PC_7E2_2161_MG1_RPM', 3000);
+    batteryHealthBridge.ingest('PC_7E2_2167_MG1_TORQ', -20); // generating
+    batteryHealthBridge.ingest('PC_7E2_2162_MG2_RPM', 4000);
+    batteryHealthBridge.ingest('PC_7E2_2168_MG2_TORQ', 30); // driving
+    batteryHealthBridge.ingest('PC_7E2_2181_VB', 200);
+    batteryHealthBridge.ingest('PC_7E2_2198_BTY_CURR', 10); // discharging
+    batteryHealthBridge.update(500);
+
+    const { powerFlow, engineStats } = useBatteryHealthStore.getState();
+    expect(powerFlow.evMode).toBe(false);
+    expect(powerFlow.engineKw).toBeCloseTo(mechanicalPowerKw(80, 2000), 6);
+    expect(powerFlow.mg1Kw).toBeGreaterThan(0);
+    expect(powerFlow.mg2Kw).toBeGreaterThan(0);
+    expect(powerFlow.batteryKw).toBeCloseTo(2, 6);
+    expect(engineStats.engineOnSeconds).toBeCloseTo(0.5, 6);
+  });
+
+  test('engine start after EV driving is recorded as a threshold observation', () => {
+    batteryHealthBridge.ingest('0105', 55);
+    batteryHealthBridge.ingest('010C', 0);
+    batteryHealthBridge.update(100);
+    expect(useBatteryHealthStore.getState().evThresholdLog).toHaveLength(0);
+
+    batteryHealthBridge.ingest('010C', 1100);
+    batteryHealthBridge.update(100);
+
+    const log = useBatteryHealthStore.getState().evThresholdLog;
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ coolantTemp: 55, engineRpm: 1100, wasEvMode: true });
+  });
+
+  test('pausing keeps the values and the store, stopping resets them', () => {
+    batteryHealthBridge.start();
+    for (let i = 1; i <= 14; i++) {
+      batteryHealthBridge.ingest(`PC_7E2_2181_V${String(i).padStart(2, '0')}`, 15);
+    }
+    batteryHealthBridge.update(0);
+    const { summary } = useBatteryHealthStore.getState();
+
+    batteryHealthBridge.pause();
+    batteryHealthBridge.start();
+    expect(batteryHealthBridge.hasModuleVoltages()).toBe(true);
+    expect(useBatteryHealthStore.getState().summary).toBe(summary);
+
+    batteryHealthBridge.stop();
+    expect(batteryHealthBridge.hasModuleVoltages()).toBe(false);
+    // Back to the nominal 7.2 V modules of the initial state.
+    expect(useBatteryHealthStore.getState().summary.modules[0].voltage).toBeCloseTo(7.2, 6);
+  });
+});
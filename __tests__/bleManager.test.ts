@@ -0,0 +1,122 @@
+import { BleConnectionManager } from '../src/bluetooth/BleManager';
+
+// Base64 globals (available in React Native and Node, not in the project's type libs).
+declare function btoa(input: string): string;
+declare function atob(input: string): string;
+
+type Listener = (error: Error | null, characteristic: { value: string } | null) => void;
+
+/** One fake adapter shared by the mocked react-native-ble-plx manager. */
+const adapter = {
+  notify: null as Listener | null,
+  onDisconnected: null as (() => void) | null,
+  written: [] as string[],
+  removed: 0,
+  cancelled: [] as string[],
+  /** Chunks sent back for each written command (called while the write is in flight). */
+  reply: (_command: string): string[] => [],
+  /** Deliver one notification, split wherever the adapter's MTU happens to cut. */
+  send(chunk: string) {
+    this.notify?.(null, { value: btoa(chunk) });
+  },
+};
+
+jest.mock('react-native-ble-plx', () => ({
+  BleManager: jest.fn().mockImplementation(() => ({
+    connectToDevice: async (id: string) => ({
+      id,
+      discoverAllServicesAndCharacteristics: async () => undefined,
+      monitorCharacteristicForService: (
+        _service: string,
+        _characteristic: string,
+        listener: Listener,
+      ) => {
+        adapter.notify = listener;
+        return { remove: () => adapter.removed++ };
+      },
+      writeCharacteristicWithResponseForService: async (
+        _service: string,
+        _characteristic: string,
+        value: string,
+      ) => {
+        const command = atob(value);
+        adapter.written.push(command);
+        adapter.reply(command).forEach((chunk) => adapter.send(chunk));
+      },
+    }),
+    onDeviceDisconnected: (_id: string, listener: () => void) => {
+      adapter.onDisconnected = listener;
+      return { remove: () => adapter.removed++ };
+    },
+    cancelDeviceConnection: async (id: string) => {
+      adapter.cancelled.push(id);
+    },
+    destroy: () => undefined,
+  })),
+}));
+
+describe('BleConnectionManager', () => {
+  let manager: BleConnectionManager;
+
+  beforeEach(async () => {
+    adapter.notify = null;
+    adapter.onDisconnected = null;
+    adapter.written = [];
+    adapter.removed = 0;
+    adapter.cancelled = [];
+    adapter.reply = () => [];
+    manager = new BleConnectionManager();
+    await manager.connect('AA:BB:CC:DD:EE:FF');
+  });
+
+  test('reassembles notification chunks up to the prompt', async () => {
+    const response = manager.sendCommand('2187');
+    await Promise.resolve();
+    adapter.send('7EA 10 0A 61');
+    adapter.send(' 87 01 02 03 04\r7EA 21 05');
+    adapter.send(' 06 07 08 09 0A\r\r');
+    adapter.send('>');
+
+    expect(adapter.written).toEqual(['2187\r']);
+    expect(await response).toBe('7EA 10 0A 61 87 01 02 03 04\r7EA 21 05 06 07 08 09 0A');
+  });
+
+  test('keeps a reply that arrives before the write is acknowledged', async () => {
+    adapter.reply = (command) => (command === '010C\r' ? ['41 0C 1A', ' F8\r\r>'] : []);
+
+    expect(await manager.sendCommand('010C')).toBe('41 0C 1A F8');
+    // The next command starts from an empty buffer.
+    adapter.reply = () => ['OK\r\r>'];
+    expect(await manager.sendCommand('ATH1')).toBe('OK');
+  });
+
+  test('an unexpected disconnect fails the pending command and notifies once', async () => {
+    const onDisconnect = jest.fn();
+    manager.onDisconnect(onDisconnect);
+
+    const response = manager.sendCommand('0100');
+    await Promise.resolve();
+    adapter.send('41 00 ');
+    adapter.onDisconnected?.();
+
+    await expect(response).rejects.toThrow('Device disconnected unexpectedly');
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(manager.isConnected()).toBe(false);
+    expect(adapter.removed).toBe(2);
+    await expect(manager.sendCommand('0100')).rejects.toThrow('No device connected');
+  });
+
+  test('disconnect cancels the connection and the pending command', async () => {
+    const onDisconnect = jest.fn();
+    manager.onDisconnect(onDisconnect);
+
+    const response = manager.sendCommand('ATZ');
+    await Promise.resolve();
+    await manager.disconnect();
+
+    await expect(response).rejects.toThrow('Disconnected by user');
+    expect(adapter.cancelled).toEqual(['AA:BB:CC:DD:EE:FF']);
+    expect(onDisconnect).not.toHaveBeenCalled();
+    expect(manager.getConnectionState()).toBe('disconnected');
+  });
+});
@@ -0,0 +1,52 @@
+import { Elm327 } from '../src/bluetooth/Elm327';
+import { VirtualConnectionManager } from '../src/bluetooth/VirtualManager';
+import { CHANGE_HIGHLIGHT_MS, CanFrameTable } from '../src/obd/canSniffer';
+import { OBDProtocol, type CanFrame } from '../src/obd/protocol';
+
+describe('CanFrameTable', () => {
+  test('groups frames by ID with rate, last payload and changed bytes', () => {
+    const table = new CanFrameTable();
+    table.ingest({ id: '3CB', data: [0, 0, 0, 0x8e] }, 0);
+    table.ingest({ id: '03B', data: [1, 2] }, 0);
+    for (let t = 100; t <= 1000; t += 100) {
+      table.ingest({ id: '3CB', data: [0, 0, 0, t === 1000 ? 0x8f : 0x8e] }, t);
+    }
+
+    const [first, second] = table.snapshot(1000);
+    expect(first.id).toBe('03B');
+    expect(second).toMatchObject({ id: '3CB', count: 11, data: [0, 0, 0, 0x8f] });
+    expect(second.rateHz).toBeCloseTo(10, 5);
+    expect(second.changed).toEqual([false, false, false, true]);
+
+    // The highlight fades, and a quiet ID's rate decays.
+    const later = table.snapshot(1000 + CHANGE_HIGHLIGHT_MS);
+    expect(later[1].changed[3]).toBe(false);
+    expect(later[1].rateHz).toBeCloseTo(1, 5);
+  });
+});
+
+describe('OBDProtocol.monitorFrames', () => {
+  test('streams raw frames from the virtual adapter with and without a filter', async () => {
+    const adapter = new VirtualConnectionManager({ latencyMs: 0 });
+    await adapter.connect('TEST');
+    expect(await new Elm327(adapter).initialize()).toBe(true);
+    const protocol = new OBDProtocol(adapter);
+
+    const all: CanFrame[] = [];
+    await protocol.monitorFrames(null, 200, (frame) => all.push(frame));
+    expect(new Set(all.map((frame) => frame.id))).toEqual(
+      new Set(['03B', '030', '0B4', '120', '244', '3C8', '3CB']),
+    );
+
+    const filtered: CanFrame[] = [];
+    await protocol.monitorFrames({ filter: '3C8', mask: '7FC' }, 200, (frame) => filtered.push(frame));
+    expect(new Set(filtered.map((frame) => frame.id))).toEqual(new Set(['3C8', '3CB']));
+    // No PCI length byte in front of the data (CAN auto formatting off).
+    const soc = filtered.find((frame) => frame.id === '3CB');
+    expect(soc?.data).toHaveLength(7);
+
+    // Requests work again afterwards (auto formatting and the default filter are restored).
+    const speed = await protocol.readPid('010D');
+    expect(speed.value).toBeGreaterThanOrEqual(0);
+  }, 15000);
+});
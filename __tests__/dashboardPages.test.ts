@@ -0,0 +1,55 @@
+import { useSettingsStore } from '../src/store/settingsStore';
+import { createPage, exportPages, importPages } from '../src/utils/dashboardPages';
+
+describe('dashboard pages', () => {
+  test('exported pages import again under new ids with meters kept on the grid', () => {
+    const page = createPage('Eco', [
+      {
+        id: 'm1',
+        pid: '010D',
+        type: 'digital',
+        position: { x: 11, y: 0 },
+        size: { width: 3, height: 1 },
+      },
+    ]);
+
+    const [imported] = importPages(exportPages([page]));
+    expect(imported.id).not.toBe(page.id);
+    expect(imported.name).toBe('Eco');
+    expect(imported.meters[0].position).toEqual({ x: 9, y: 0 });
+
+    // A single page object (without the export envelope) is accepted too.
+    expect(importPages(JSON.stringify({ name: 'Bare', meters: [] }))[0].name).toBe('Bare');
+  });
+
+  test('rejects files that are not page exports', () => {
+    expect(() => importPages('{nope')).toThrow('not valid JSON');
+    expect(() => importPages('{"name": 1}')).toThrow('does not contain dashboard pages');
+    expect(() =>
+      importPages(JSON.stringify({ format: 'obd-meter-dashboard', version: 99, pages: [] })),
+    ).toThrow('newer version');
+  });
+
+  test('page actions reorder, duplicate and never delete the last page', () => {
+    const store = useSettingsStore;
+    const first = store.getState().dashboardPages[0];
+    const second = createPage('Battery');
+    store.getState().addPage(second);
+    expect(store.getState().activePageId).toBe(second.id);
+
+    store.getState().movePage(second.id, 0);
+    expect(store.getState().dashboardPages.map((p) => p.id)).toEqual([second.id, first.id]);
+
+    store.getState().duplicatePage(first.id);
+    const pages = store.getState().dashboardPages;
+    expect(pages).toHaveLength(3);
+    expect(pages[2].name).toBe(`${first.name} copy`);
+    expect(pages[2].meters).toEqual(first.meters);
+
+    store.getState().removePage(second.id);
+    expect(store.getState().activePageId).toBe(first.id);
+    store.getState().removePage(pages[2].id);
+    store.getState().removePage(first.id);
+    expect(store.getState().dashboardPages.map((p) => p.id)).toEqual([first.id]);
+  });
+});
@@ -0,0 +1,85 @@
+import type { DerivedSignalDefinition } from '../src/types/obd';
+import { compileDerivedSignals, derivedSignals } from '../src/obd/derivedSignals';
+import { meterSignal } from '../src/utils/meterLayout';
+import { signalConversion } from '../src/utils/units';
+import { useSettingsStore } from '../src/store/settingsStore';
+
+const signal = (pid: string, expression: string): DerivedSignalDefinition => ({
+  pid,
+  name: pid,
+  shortName: pid,
+  unit: 'km/L',
+  min: 0,
+  max: 100,
+  expression,
+});
+
+describe('derivedSignals', () => {
+  afterEach(() => {
+    derivedSignals.configure([]);
+    derivedSignals.reset();
+  });
+
+  test('orders signals after the derived signals they read and rejects cycles', () => {
+    const { signals, errors } = compileDerivedSignals([
+      signal('CALC_B', 'VAL{CALC_A} * 2'),
+      signal('CALC_A', 'VAL{010D} + 1'),
+      signal('CALC_X', 'VAL{CALC_Y}'),
+      signal('CALC_Y', 'VAL{CALC_X} + 1'),
+      signal('CALC_Z', 'VAL{CALC_Y} * 3'),
+      signal('010D', 'VAL{010C}'),
+      signal('CALC_BAD', 'VAL{010D} *'),
+    ]);
+
+    expect(signals.map((s) => s.definition.pid)).toEqual(['CALC_A', 'CALC_B']);
+    expect(errors.CALC_X).toMatch(/Circular reference/);
+    expect(errors.CALC_Y).toMatch(/Circular reference/);
+    expect(errors.CALC_Z).toBe('Depends on CALC_Y, which has an error');
+    expect(errors['010D']).toMatch(/already a polled signal/);
+    expect(errors.CALC_BAD).toBe('Missing operand at position 12');
+  });
+
+  test('built-in signals update once all of their inputs have arrived', () => {
+    expect(derivedSignals.ingest('TOYOTA_HV_VOLTAGE', 200)).toEqual([]);
+    expect(derivedSignals.ingest('TOYOTA_HV_CURRENT', 25)).toEqual([
+      { pid: 'CALC_HV_POWER', value: 5 },
+    ]);
+
+    derivedSignals.ingest('010D', 60);
+    const [fuel] = derivedSignals.ingest('0110', 4);
+    expect(fuel.pid).toBe('CALC_INSTANT_FUEL');
+    expect(fuel.value).toBeCloseTo((60 * 14.7 * 745) / (4 * 3600), 6);
+  });
+
+  test('user signals chain through other derived signals and are offered to meters', () => {
+    derivedSignals.configure([
+      signal('CALC_HV_POWER_W', 'VAL{CALC_HV_POWER} * 1000'),
+      signal('CALC_LOOP', 'VAL{CALC_LOOP} + 1'),
+    ]);
+
+    derivedSignals.ingest('TOYOTA_HV_VOLTAGE', 200);
+    expect(derivedSignals.ingest('TOYOTA_HV_CURRENT', -10)).toEqual([
+      { pid: 'CALC_HV_POWER', value: -2 },
+      { pid: 'CALC_HV_POWER_W', value: -2000 },
+    ]);
+    expect(derivedSignals.inputSignals().sort()).toEqual(
+      ['0110', '010D', 'TOYOTA_HV_CURRENT', 'TOYOTA_HV_VOLTAGE'].sort(),
+    );
+
+    expect(meterSignal('CALC_HV_POWER_W')?.name).toBe('CALC_HV_POWER_W');
+    expect(meterSignal('CALC_LOOP')).toBeUndefined();
+    expect(signalConversion('CALC_HV_POWER_W', { system: 'imperial', fuelEconomy: 'mpg-us' }).unit)
+      .toBe('mpg');
+  });
+
+  test('follows the definitions in the settings store', () => {
+    const stop = derivedSignals.syncWithSettings();
+    useSettingsStore.getState().saveDerivedSignal(signal('CALC_DOUBLE', 'VAL{010C} * 2'));
+    expect(derivedSignals.ingest('010C', 800)).toEqual([{ pid: 'CALC_DOUBLE', value: 1600 }]);
+
+    useSettingsStore.getState().removeDerivedSignal('CALC_DOUBLE');
+    expect(derivedSignals.ingest('010C', 900)).toEqual([]);
+    expect(meterSignal('CALC_DOUBLE')).toBeUndefined();
+    stop();
+  });
+});
@@ -0,0 +1,21 @@
+import { describeDTC } from '../src/obd/dtcDescriptions';
+
+describe('describeDTC', () => {
+  test('returns bundled descriptions for generic and Toyota hybrid codes', () => {
+    expect(describeDTC('P0301')).toBe('Cylinder 1 Misfire Detected');
+    expect(describeDTC('p0a80')).toBe('Replace Hybrid Battery Pack');
+    expect(describeDTC('P3000')).toBe('HV Battery Malfunction');
+  });
+
+  test('covers battery block codes P3011..P3024', () => {
+    expect(describeDTC('P3011')).toBe('Battery Block 1 Becomes Weak');
+    expect(describeDTC('P3020')).toBe('Battery Block 10 Becomes Weak');
+    expect(describeDTC('P3024')).toBe('Battery Block 14 Becomes Weak');
+  });
+
+  test('falls back to category for unknown codes', () => {
+    expect(describeDTC('P1999')).toBe('Powertrain (manufacturer specific)');
+    expect(describeDTC('U0999')).toBe('Network (generic)');
+    expect(describeDTC('X123')).toBe('Unknown code');
+  });
+});
@@ -0,0 +1,215 @@
+import { Elm327 } from '../src/bluetooth/Elm327';
+import { Elm327Emulator } from '../src/bluetooth/Elm327Emulator';
+import { VirtualConnectionManager } from '../src/bluetooth/VirtualManager';
+import { OBDProtocol, type PidReadResult } from '../src/obd/protocol';
+import { PRIUSCHAT_METRIC_PIDS } from '../src/obd/pid/priuschatMetric';
+import { ZVW30_CAN_SIGNALS } from '../src/obd/pid/zvw30Can';
+import { discoverSignals, filterSupportedPids } from '../src/obd/signalDiscovery';
+
+/** Connected virtual adapter answering immediately. */
+async function connectVirtual(
+  options: ConstructorParameters<typeof VirtualConnectionManager>[0] = {},
+): Promise<VirtualConnectionManager> {
+  const adapter = new VirtualConnectionManager({ latencyMs: 0, ...options });
+  await adapter.connect('TEST');
+  return adapter;
+}
+
+describe('Elm327Emulator', () => {
+  test('prints adapter output with echo, spaces and headers settings', () => {
+    const emulator = new Elm327Emulator();
+
+    expect(emulator.handle('ATZ')).toBe('ATZ\r\rELM327 v1.5\r\r>');
+    expect(emulator.handle('AT E0')).toBe('OK\r\r>');
+    expect(emulator.handle('01 00')).toBe('41 00 18 3B 80 03\r\r>');
+    expect(emulator.handle('01 05 0D 5B')).toMatch(/^41 05 [0-9A-F]{2} 0D [0-9A-F]{2}\r\r>$/);
+    expect(emulator.handle('ATS0')).toBe('OK\r\r>');
+    expect(emulator.handle('ATSH7E2')).toBe('OK\r\r>');
+    expect(emulator.handle('2181')).toMatch(/^023\r0:6181[0-9A-F]{8}\r1:/);
+    expect(emulator.handle('ATH1')).toBe('OK\r\r>');
+    expect(emulator.handle('2187')).toMatch(/^7EA100A6187[0-9A-F]{8}\r7EA21[0-9A-F]{14}\r\r>$/);
+    expect(emulator.handle('2101')).toBe('7EA037F2112\r\r>');
+    expect(emulator.handle('ATSH7B8')).toBe('OK\r\r>');
+    expect(emulator.handle('0100')).toBe('NO DATA\r\r>');
+  });
+
+  test('scripted responses win over the vehicle model and can fall through', () => {
+    const emulator = new Elm327Emulator({
+      script: {
+        '7E2|015B': '41 5B 80',
+        '010D': ({ header }) => (header === '7DF' ? 'CAN ERROR' : null),
+      },
+    });
+    emulator.handle('ATE0');
+
+    expect(emulator.handle('010D')).toBe('CAN ERROR\r\r>');
+    emulator.handle('ATSH7E2');
+    expect(emulator.handle('01 5B')).toBe('41 5B 80\r\r>');
+    emulator.handle('ATSH7E0');
+    expect(emulator.handle('010D')).toMatch(/^41 0D [0-9A-F]{2}\r\r>$/);
+  });
+
+  test('recorded responses replay in order and loop', () => {
+    const emulator = new Elm327Emulator({
+      recording: [
+        { command: '01 0D', response: '41 0D 10' },
+        { command: '01 0D', response: '41 0D 20' },
+      ],
+    });
+    emulator.handle('ATE0');
+
+    expect(emulator.handle('010D')).toBe('41 0D 10\r\r>');
+    expect(emulator.handle('010D')).toBe('41 0D 20\r\r>');
+    expect(emulator.handle('010D')).toBe('41 0D 10\r\r>');
+  });
+
+  test('AT MA streams filtered broadcast frames until interrupted', () => {
+    let now = 0;
+    const emulator = new Elm327Emulator({ now: () => now });
+    emulator.handle('ATE0');
+    emulator.handle('ATH1');
+    emulator.handle('ATCAF0');
+    emulator.handle('ATCRA 3CB');
+
+    expect(emulator.handle('ATMA')).toBe('');
+    expect(emulator.isMonitoring()).toBe(true);
+
+    now = 250;
+    const lines = emulator.readMonitor().split('\r').filter(Boolean);
+    expect(lines).toHaveLength(2); // 3CB every 100 ms
+    const soc = Math.round(emulator.vehicle.current.soc * 2);
+    expect(lines[0]).toBe(`3CB 00 00 00 ${soc.toString(16).toUpperCase().padStart(2, '0')} 00 00 00`);
+
+    expect(emulator.stopMonitor()).toMatch(/\r>$/);
+    expect(emulator.isMonitoring()).toBe(false);
+
+    // Filter/mask pair and auto formatting (PCI length byte) with spaces off.
+    emulator.handle('ATS0');
+    emulator.handle('ATCAF1');
+    emulator.handle('ATCF 3C8');
+    emulator.handle('ATCM 7FC');
+    emulator.handle('ATMA');
+    now = 350;
+    const ids = emulator.readMonitor().split('\r').filter(Boolean).map((line) => line.substring(0, 3));
+    expect(new Set(ids)).toEqual(new Set(['3C8', '3CB']));
+    emulator.stopMonitor();
+    expect(emulator.handle('ATCRA')).toBe('OK\r\r>');
+  });
+});
+
+describe('VirtualConnectionManager end to end', () => {
+  test('Elm327 initialization and PID decoding go through the real protocol path', async () => {
+    const adapter = await connectVirtual();
+    expect(await new Elm327(adapter).initialize()).toBe(true);
+
+    const protocol = new OBDProtocol(adapter);
+    const supported = await protocol.querySupportedPids();
+    expect(supported).toEqual(expect.arrayContaining(['010C', '010D', '0105', '0146', '015E']));
+
+    const vehicle = adapter.getEmulator()!.vehicle.current;
+
+    const rpm = await protocol.readPid('010C');
+    expect(rpm.value).toBeCloseTo(vehicle.rpm, 0);
+
+    const soc = await protocol.readPid('TOYOTA_HV_SOC');
+    expect(soc.value).toBeCloseTo(vehicle.soc, 0);
+
+    // 2181 is a multi-frame response: 14 block voltages summed.
+    const pack = await protocol.readPid('TOYOTA_HV_VOLTAGE');
+    const moduleSum = vehicle.moduleVoltages.reduce((a, v) => a + v, 0);
+    expect(pack.value).toBeCloseTo(moduleSum, 1);
+
+    const current = await protocol.readPid('PC_7E2_2198_BTY_CURR');
+    expect(current.value).toBeCloseTo(-vehicle.hvCurrent, 1);
+
+    const cabin = await protocol.readPid('TOYOTA_CABIN_TEMP');
+    expect(Math.abs(cabin.value - adapter.getEmulator()!.vehicle.cabinTemp)).toBeLessThan(0.3);
+  }, 15000);
+
+  test('DTCs, freeze frames and clearing work against the emulated ECUs', async () => {
+    const adapter = await connectVirtual();
+    const protocol = new OBDProtocol(adapter);
+
+    const codes = await protocol.readDTCs();
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        { code: 'P0301', isPending: false, isPermanent: false },
+        { code: 'P0A80', isPending: false, isPermanent: false },
+        { code: 'P0420', isPending: true, isPermanent: false },
+      ]),
+    );
+
+    const frame = await protocol.readFreezeFrame('7E0');
+    expect(frame?.dtcCode).toBe('P0301');
+    expect(frame?.values['0105']).toBe(40); // set during the cold start
+
+    expect(await protocol.clearDTCs()).toBe(true);
+    expect(await protocol.readDTCs()).toEqual([]);
+
+    // Permanent codes survive Mode 04.
+    const scan = await protocol.scanEcuDTCs(['7E2']);
+    expect(scan[0].codes).toEqual([{ code: 'P0A80', isPending: false, isPermanent: true }]);
+  });
+
+  test('VIN and signal discovery probe each request group once', async () => {
+    const adapter = await connectVirtual({ vin: 'JTDKN3DU5A1234567' });
+    const protocol = new OBDProtocol(adapter);
+    expect(await protocol.readVin()).toBe('JTDKN3DU5A1234567');
+
+    const entries = await discoverSignals(protocol);
+    const find = (header: string, request: string) =>
+      entries.find((e) => e.header === header && e.request === request);
+    expect(find('7E2', '2181')?.supported).toBe(true);
+    expect(find('7DF', '010C')?.supported).toBe(true);
+    expect(find('7DF', '0114')?.supported).toBe(false);
+    expect(entries.some((e) => e.header === '7B0' && !e.supported)).toBe(true);
+    expect(new Set(entries.map((e) => `${e.header}|${e.request}`)).size).toBe(entries.length);
+
+    // Dead groups are dropped; signals of answered groups and unknown ids are kept.
+    const dead = entries.find((e) => e.header === '7E2' && !e.supported)!;
+    const deadPid = Object.keys(PRIUSCHAT_METRIC_PIDS).find(
+      (pid) => pid.startsWith(`PC_7E2_${dead.request}_`),
+    )!;
+    expect(
+      filterSupportedPids(['010C', '0114', 'PC_7E2_2181_VB', deadPid, 'UNKNOWN'], entries),
+    ).toEqual(['010C', 'PC_7E2_2181_VB', 'UNKNOWN']);
+
+    // The probe switched headers itself; the next request must address its ECU again.
+    const current = await protocol.readPid('PC_7E2_2198_BTY_CURR');
+    expect(current.value).toBeCloseTo(-adapter.getEmulator()!.vehicle.current.hvCurrent, 1);
+  }, 15000);
+
+  test('sniffing decodes the ZVW30 broadcasts without polling', async () => {
+    const adapter = await connectVirtual();
+    expect(await new Elm327(adapter).initialize()).toBe(true);
+
+    const protocol = new OBDProtocol(adapter);
+    const values: Record<string, PidReadResult> = {};
+    protocol.startPolling([], 1000, (pid, result) => {
+      if (result) values[pid] = result;
+    }, ZVW30_CAN_SIGNALS);
+
+    await new Promise<void>((resolve) => setTimeout(resolve, 1200));
+    protocol.stopPolling();
+    // The running monitor window still ends and flushes; compare against the final state.
+    await new Promise<void>((resolve) => setTimeout(resolve, 600));
+
+    const vehicle = adapter.getEmulator()!.vehicle.current;
+    expect(values.TOYOTA_HV_SOC.value).toBeCloseTo(vehicle.soc, 0);
+    expect(Math.abs(values['010D'].value - vehicle.speed)).toBeLessThan(2);
+    expect(values.TOYOTA_HV_VOLTAGE.value).toBeGreaterThan(100);
+    expect(values.TOYOTA_HV_CURRENT.raw).toMatch(/^03B/);
+  }, 15000);
+
+  test('simulateDisconnect notifies the client and rejects further commands', async () => {
+    const adapter = await connectVirtual();
+    const onDisconnect = jest.fn();
+    adapter.onDisconnect(onDisconnect);
+
+    adapter.simulateDisconnect();
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(adapter.isConnected()).toBe(false);
+    await expect(adapter.sendCommand('ATI')).rejects.toThrow('No device connected');
+  });
+});
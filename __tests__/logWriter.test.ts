@@ -0,0 +1,117 @@
+import { database } from '../src/storage/database';
+import { logWriter } from '../src/storage/logWriter';
+import { settingsPersistence } from '../src/storage/settingsPersistence';
+import { useOBDStore } from '../src/store/obdStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+
+// obdClient only talks to the virtual adapter here; the native transport libraries ship ESM.
+jest.mock('react-native-bluetooth-classic', () => ({}));
+jest.mock('react-native-ble-plx', () => ({ BleManager: jest.fn() }));
+jest.mock('react-native-tcp-socket', () => ({}));
+
+const { obdClient } = require('../src/obd/obdClient');
+
+/** In-memory stand-in for the session tables; inserts can be held to test stops mid-write. */
+function fakeSessionTables() {
+  const points: Array<{ sessionId: number; pid: string; value: number }> = [];
+  const ended: number[] = [];
+  let nextId = 1;
+  let hold: Promise<void> | null = null;
+
+  jest.spyOn(database, 'createSession').mockImplementation(async () => nextId++);
+  jest.spyOn(database, 'endSession').mockImplementation(async (sessionId) => {
+    ended.push(sessionId);
+  });
+  jest.spyOn(database, 'insertDataPoints').mockImplementation(async (sessionId, batch) => {
+    const written = batch.map(({ pid, value }) => ({ sessionId, pid, value }));
+    if (hold) {
+      await hold;
+    }
+    points.push(...written);
+  });
+
+  return {
+    points,
+    ended,
+    /** Keep inserts pending until the returned function is called. */
+    holdWrites(): () => void {
+      let release = () => {};
+      hold = new Promise<void>((resolve) => {
+        release = () => {
+          hold = null;
+          resolve();
+        };
+      });
+      return release;
+    },
+  };
+}
+
+describe('LogWriter', () => {
+  beforeAll(async () => {
+    // obdClient connects once the (default) settings are restored.
+    await database.initialize();
+    await settingsPersistence.hydrate();
+  });
+
+  afterEach(async () => {
+    await obdClient.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  test('persists every point of a session when it stops', async () => {
+    const db = fakeSessionTables();
+
+    const id = await logWriter.startSession('JTDKN3DU5A1234567');
+    expect(database.createSession).toHaveBeenCalledWith('JTDKN3DU5A1234567');
+    for (let i = 0; i < 120; i++) {
+      logWriter.addDataPoint('010C', i);
+    }
+    await logWriter.stopSession();
+
+    expect(db.points.map((p) => p.value)).toEqual(Array.from({ length: 120 }, (_, i) => i));
+    expect(db.points.every((p) => p.sessionId === id)).toBe(true);
+    expect(db.ended).toEqual([id]);
+    expect(logWriter.isRecording()).toBe(false);
+  });
+
+  test('keeps points added while a stop waits for a write', async () => {
+    const db = fakeSessionTables();
+
+    const id = await logWriter.startSession();
+    for (let i = 0; i < 50; i++) {
+      logWriter.addDataPoint('010D', i); // the 50th starts a batch write
+    }
+    logWriter.addDataPoint('010D', 50);
+
+    // The stop waits for that batch, then writes the rest; that write is held meanwhile.
+    const release = db.holdWrites();
+    const stopping = logWriter.stopSession();
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+    logWriter.addDataPoint('010D', 51);
+    release();
+    await stopping;
+
+    expect(db.points.map((p) => p.value)).toEqual(Array.from({ length: 52 }, (_, i) => i));
+    expect(db.ended).toEqual([id]);
+  });
+
+  test('obdClient opens an auto-log session on connect and closes it on disconnect', async () => {
+    const db = fakeSessionTables();
+    useSettingsStore.setState({ autoLog: true });
+
+    obdClient.startDemoMode();
+    for (let i = 0; i < 200 && !useOBDStore.getState().recording; i++) {
+      await new Promise<void>((resolve) => setTimeout(resolve, 50));
+    }
+    expect(useOBDStore.getState().recording).toBe(true);
+
+    await new Promise<void>((resolve) => setTimeout(resolve, 500));
+    await obdClient.disconnect();
+
+    expect(useOBDStore.getState().recording).toBe(false);
+    expect(db.ended).toHaveLength(1);
+    expect(db.points.length).toBeGreaterThan(0);
+    expect(new Set(db.points.map((p) => p.sessionId))).toEqual(new Set(db.ended));
+  }, 20000);
+});
@@ -0,0 +1,59 @@
+import type { MeterConfig } from '../src/types/obd';
+import {
+  DASHBOARD_COLUMNS,
+  DASHBOARD_ROWS,
+  DEFAULT_METERS,
+  clampMeter,
+  createMeter,
+  resolveMeter,
+} from '../src/utils/meterLayout';
+
+const meter = (overrides: Partial<MeterConfig> = {}): MeterConfig => ({
+  id: 'm1',
+  pid: '010D',
+  type: 'gauge',
+  position: { x: 0, y: 0 },
+  size: { width: 3, height: 3 },
+  ...overrides,
+});
+
+describe('meterLayout', () => {
+  test('resolveMeter falls back to the PidDefinition and keeps overrides', () => {
+    expect(resolveMeter(meter())).toEqual({ label: 'Speed', unit: 'km/h', min: 0, max: 255 });
+    expect(resolveMeter(meter({ label: 'SPD', max: 180 }))).toEqual({
+      label: 'SPD',
+      unit: 'km/h',
+      min: 0,
+      max: 180,
+    });
+    // Unknown signal: still renders with neutral defaults.
+    expect(resolveMeter(meter({ pid: 'NOPE' }))).toEqual({
+      label: 'NOPE',
+      unit: '',
+      min: 0,
+      max: 100,
+    });
+  });
+
+  test('clampMeter snaps to cells inside the grid and enforces the minimum size', () => {
+    const clamped = clampMeter(
+      meter({ position: { x: 10.6, y: -2 }, size: { width: 3.4, height: 1 } }),
+    );
+    expect(clamped.size).toEqual({ width: 3, height: 2 });
+    expect(clamped.position).toEqual({ x: DASHBOARD_COLUMNS - 3, y: 0 });
+
+    const huge = clampMeter(meter({ type: 'digital', size: { width: 40, height: 40 } }));
+    expect(huge.size).toEqual({ width: DASHBOARD_COLUMNS, height: DASHBOARD_ROWS });
+    expect(huge.position).toEqual({ x: 0, y: 0 });
+  });
+
+  test('createMeter places the new meter in the first free spot', () => {
+    const placed = createMeter('0105', 'bar', [meter({ size: { width: 6, height: 1 } })]);
+    expect(placed.pid).toBe('0105');
+    expect(placed.position).toEqual({ x: 6, y: 0 });
+    expect(placed.size).toEqual({ width: 4, height: 1 });
+
+    // The default layout fills the grid, so a new gauge lands at the origin.
+    expect(createMeter('010C', 'gauge', DEFAULT_METERS).position).toEqual({ x: 0, y: 0 });
+  });
+});
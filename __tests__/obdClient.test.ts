@@ -0,0 +1,193 @@
+import { batteryHealthBridge } from '../src/obd/batteryHealthBridge';
+import { pidPacks } from '../src/obd/pidPacks';
+import { database, type PidPackRecord } from '../src/storage/database';
+import { settingsPersistence } from '../src/storage/settingsPersistence';
+import { vehicleProfiles } from '../src/storage/vehicleProfiles';
+import { useBatteryHealthStore } from '../src/store/batteryHealthStore';
+import { useConnectionStore } from '../src/store/connectionStore';
+import { useOBDStore } from '../src/store/obdStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+import type { ConnectionState } from '../src/types/obd';
+
+// obdClient only talks to the virtual adapter here; the native transport libraries ship ESM.
+jest.mock('react-native-bluetooth-classic', () => ({}));
+jest.mock('react-native-ble-plx', () => ({ BleManager: jest.fn() }));
+jest.mock('react-native-tcp-socket', () => ({}));
+
+const { obdClient } = require('../src/obd/obdClient');
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Wait (up to 10 s) until the condition holds. */
+async function until(condition: () => boolean): Promise<boolean> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await wait(50);
+  }
+  return condition();
+}
+
+/** Wait (up to 10 s) until the signal has a polled value. */
+const polled = (pid: string) => until(() => Boolean(useOBDStore.getState().data[pid]));
+
+/** Wait (up to 10 s) until the connection reaches the state. */
+const connectionState = (state: ConnectionState) =>
+  until(() => useConnectionStore.getState().state === state);
+
+/** Wait (up to 10 s) until the signal got `count` more values. */
+function moreValues(pid: string, count: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    let seen = 0;
+    const finish = (result: boolean) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(false), 10000);
+    const unsubscribe = useOBDStore.subscribe((state, prev) => {
+      if (state.data[pid] !== prev.data[pid] && ++seen >= count) {
+        finish(true);
+      }
+    });
+  });
+}
+
+/** In-memory stand-in for the PID pack table. */
+function fakePackTable() {
+  let records: PidPackRecord[] = [];
+  jest.spyOn(database, 'getPidPacks').mockImplementation(async () => records);
+  jest.spyOn(database, 'savePidPack').mockImplementation(async (name, rows) => {
+    const id = records.length + 1;
+    records = [...records, { id, name, importedAt: Date.now(), rows }];
+    return id;
+  });
+  jest.spyOn(database, 'deletePidPack').mockImplementation(async (packId) => {
+    records = records.filter((record) => record.id !== packId);
+  });
+}
+
+describe('obdClient', () => {
+  beforeAll(async () => {
+    await database.initialize();
+    await settingsPersistence.hydrate();
+  });
+
+  afterEach(async () => {
+    await obdClient.disconnect();
+    useOBDStore.getState().clearData();
+    jest.restoreAllMocks();
+  });
+
+  test('polls the signal of a meter placed while connected', async () => {
+    obdClient.startDemoMode();
+    expect(await polled('010C')).toBe(true);
+    expect(useConnectionStore.getState().state).toBe('connected');
+    // Intake manifold pressure is not in the default set.
+    expect(useOBDStore.getState().data['010B']).toBeUndefined();
+
+    const { activePageId, addMeter } = useSettingsStore.getState();
+    addMeter(activePageId, {
+      id: 'map',
+      pid: '010B',
+      type: 'digital',
+      position: { x: 0, y: 4 },
+      size: { width: 1, height: 1 },
+    });
+
+    expect(await polled('010B')).toBe(true);
+  }, 30000);
+
+  test('polls the signal of a meter placed while reconnecting', async () => {
+    const { autoReconnect } = useSettingsStore.getState();
+    useSettingsStore.setState({ autoReconnect: true });
+    try {
+      obdClient.startDemoMode();
+      expect(await polled('010C')).toBe(true);
+
+      // The adapter goes away; the meter is placed before it is back.
+      obdClient.virtual.simulateDisconnect();
+      expect(await connectionState('reconnecting')).toBe(true);
+      const { activePageId, addMeter } = useSettingsStore.getState();
+      addMeter(activePageId, {
+        id: 'runtime',
+        pid: '011F',
+        type: 'digital',
+        position: { x: 1, y: 4 },
+        size: { width: 1, height: 1 },
+      });
+
+      expect(await connectionState('connected')).toBe(true);
+      expect(await polled('011F')).toBe(true);
+    } finally {
+      useSettingsStore.setState({ autoReconnect });
+    }
+  }, 30000);
+
+  test('keeps the battery state while reconnecting and resets it on disconnect', async () => {
+    const { autoReconnect } = useSettingsStore.getState();
+    useSettingsStore.setState({ autoReconnect: true });
+    try {
+      const initial = useBatteryHealthStore.getState().summary;
+      const moduleVoltages = () =>
+        useBatteryHealthStore.getState().summary.modules.map((module) => module.voltage);
+      const initialVoltages = moduleVoltages();
+      obdClient.startDemoMode();
+      expect(
+        await until(() => moduleVoltages().some((voltage, i) => voltage !== initialVoltages[i])),
+      ).toBe(true);
+
+      obdClient.virtual.simulateDisconnect();
+      expect(await connectionState('reconnecting')).toBe(true);
+      expect(moduleVoltages()).not.toEqual(initialVoltages);
+      expect(batteryHealthBridge.hasModuleVoltages()).toBe(true);
+
+      await obdClient.disconnect();
+      expect(useBatteryHealthStore.getState().summary).toEqual(initial);
+      expect(batteryHealthBridge.hasModuleVoltages()).toBe(false);
+    } finally {
+      useSettingsStore.setState({ autoReconnect });
+    }
+  }, 30000);
+
+  test('polls the signals of a PID pack imported while connected until it is removed', async () => {
+    fakePackTable();
+    obdClient.startDemoMode();
+    expect(await polled('010C')).toBe(true);
+
+    const { packId } = await pidPacks.import(
+      'Load',
+      'Name,ShortName,ModeAndPID,Equation,Min Value,Max Value,Units,Header\n' +
+        'Engine load,LOAD,0104,A*100/255,0,100,%,',
+    );
+    expect(await polled('TQ_7DF_0104_LOAD')).toBe(true);
+
+    await pidPacks.remove(packId);
+    expect(await until(() => !('TQ_7DF_0104_LOAD' in obdClient.getPollingStats()))).toBe(true);
+    // A pass of the previous poll set delivers at most one more batch; after two RPM values
+    // the restarted set is polling.
+    expect(await moreValues('010C', 2)).toBe(true);
+    useOBDStore.setState((state) => {
+      const data = { ...state.data };
+      delete data.TQ_7DF_0104_LOAD;
+      return { data };
+    });
+    expect(await moreValues('010C', 2)).toBe(true);
+    expect(useOBDStore.getState().data.TQ_7DF_0104_LOAD).toBeUndefined();
+  }, 30000);
+
+  test('demo mode saves no vehicle profile, signal support or battery snapshot', async () => {
+    const upsertVehicle = jest.spyOn(database, 'upsertVehicle');
+    const saveSignalSupport = jest.spyOn(database, 'saveSignalSupport').mockResolvedValue();
+    const saveBatterySnapshot = jest.spyOn(database, 'saveBatterySnapshot').mockResolvedValue(1);
+
+    obdClient.startDemoMode();
+    // Block voltages come in, so a real vehicle would get a snapshot at the end.
+    expect(await polled('PC_7E2_2181_V14')).toBe(true);
+    expect(useConnectionStore.getState().vin).toBe('JTDKN3DU0A0000001');
+    expect(vehicleProfiles.currentVin()).toBeNull();
+    await obdClient.disconnect();
+
+    expect(upsertVehicle).not.toHaveBeenCalled();
+    expect(saveSignalSupport).not.toHaveBeenCalled();
+    expect(saveBatterySnapshot).not.toHaveBeenCalled();
+  }, 30000);
+});
@@ -0,0 +1,81 @@
+import { POLL_MAX_BACKOFF_MS, PollScheduler, type PollGroup } from '../src/obd/pollScheduler';
+
+function group(request: string, periodMs: number, ids: string[] = [request]): PollGroup {
+  return { request, header: undefined, ids, periodMs };
+}
+
+/** Run the scheduler against a fake clock where every read takes `readMs`. */
+function simulate(
+  scheduler: PollScheduler,
+  durationMs: number,
+  readMs: number,
+  ok: (g: PollGroup) => boolean = () => true,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  let now = 0;
+  while (now < durationMs) {
+    const next = scheduler.next(now);
+    if (!next) {
+      now += Math.max(1, scheduler.msUntilNext(now));
+      continue;
+    }
+    now += readMs;
+    scheduler.report(next, ok(next), now);
+    counts.set(next.request, (counts.get(next.request) ?? 0) + 1);
+  }
+  return counts;
+}
+
+describe('PollScheduler', () => {
+  test('polls each group close to its target rate when the bus has capacity', () => {
+    const fast = group('010D', 100); // 10 Hz
+    const slow = group('2121', 5000); // 0.2 Hz
+    const scheduler = new PollScheduler([fast, slow], 0);
+
+    const counts = simulate(scheduler, 10000, 20);
+
+    expect(counts.get('010D')).toBeGreaterThanOrEqual(95);
+    expect(counts.get('010D')).toBeLessThanOrEqual(101);
+    expect(counts.get('2121')).toBe(2);
+
+    const stats = scheduler.getStats(10000);
+    expect(stats['010D'].targetHz).toBe(10);
+    expect(stats['010D'].achievedHz).toBeCloseTo(10, 0);
+    expect(stats['2121'].targetHz).toBeCloseTo(0.2);
+  });
+
+  test('shares an overloaded bus in proportion to the targets', () => {
+    const fast = group('010C', 100, ['010C', 'RPM_ALIAS']);
+    const slow = group('0105', 1000);
+    const scheduler = new PollScheduler([fast, slow], 0);
+
+    // 11 requests/s wanted, only 10 possible at 100 ms per read.
+    const counts = simulate(scheduler, 10000, 100);
+
+    expect(counts.get('0105')).toBeGreaterThanOrEqual(5);
+    expect(counts.get('010C')!).toBeGreaterThan(counts.get('0105')! * 5);
+
+    // Signals decoded from the same request share the statistics.
+    const stats = scheduler.getStats(10000);
+    expect(stats.RPM_ALIAS).toBe(stats['010C']);
+  });
+
+  test('backs off groups that keep returning NO DATA and recovers on success', () => {
+    const dead = group('2101', 100);
+    const live = group('010D', 100);
+    const scheduler = new PollScheduler([dead, live], 0);
+
+    const counts = simulate(scheduler, 60000, 10, (g) => g !== dead);
+
+    // Without backoff the dead request would be sent ~600 times.
+    expect(counts.get('2101')).toBeLessThanOrEqual(12);
+    const stats = scheduler.getStats(60000);
+    expect(stats['2101'].backedOff).toBe(true);
+    expect(stats['2101'].achievedHz).toBe(0);
+
+    // Period is capped, and one good answer restores the normal rate.
+    expect(scheduler.msUntilNext(60000)).toBeLessThanOrEqual(POLL_MAX_BACKOFF_MS);
+    scheduler.report(dead, true, 60010);
+    expect(scheduler.getStats(60010)['2101'].backedOff).toBe(false);
+  });
+});
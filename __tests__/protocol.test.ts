@@ -0,0 +1,252 @@
+import { parseEcuMessages, splitIsoTpMessages } from '../src/obd/isoTp';
+import {
+  OBDProtocol,
+  canFilterFor,
+  parseMonitorLine,
+  type Elm327Interface,
+} from '../src/obd/protocol';
+
+/** Adapter stub answering per "<header>|<command>" (NO DATA when not scripted). */
+function scriptedAdapter(responses: Record<string, string>): Elm327Interface & { sent: string[] } {
+  let header = '7DF';
+  const sent: string[] = [];
+  return {
+    sent,
+    isConnected: () => true,
+    sendCommand: async (command: string) => {
+      sent.push(command);
+      if (command.startsWith('ATSH ')) {
+        header = command.substring(5);
+        return 'OK';
+      }
+      return responses[`${header}|${command}`] ?? 'NO DATA';
+    },
+  };
+}
+
+describe('splitIsoTpMessages', () => {
+  test('keeps single-frame answers from several ECUs apart', () => {
+    expect(splitIsoTpMessages('43 01 03 01 \r43 00 \r\r>')).toEqual([
+      [0x43, 0x01, 0x03, 0x01],
+      [0x43, 0x00],
+    ]);
+  });
+
+  test('reassembles multi-frame answers (spaces on and off)', () => {
+    const expected = [0x43, 0x06, 0x0a, 0x80, 0x0a, 0x7f, 0x30, 0x00, 0x30, 0x11, 0x0a, 0x9c, 0x01, 0x23];
+    expect(
+      splitIsoTpMessages('00E\r0: 43 06 0A 80 0A 7F \r1: 30 00 30 11 0A 9C \r2: 01 23 00 00 00 00 \r\r>'),
+    ).toEqual([expected]);
+    expect(splitIsoTpMessages('SEARCHING...\r00E\r0:43060A800A7F\r1:300030110A9C\r2:012300000000\r>')).toEqual([
+      expected,
+    ]);
+  });
+});
+
+describe('parseEcuMessages', () => {
+  test('reassembles interleaved multi-frame answers per ECU (headers on)', () => {
+    const raw = [
+      '7EA 10 0A 61 87 01 02 03 04',
+      '7E8 03 41 0D 3C',
+      '7EA 21 05 06 07 08 00 00 00',
+      '',
+      '>',
+    ].join('\r');
+
+    expect(parseEcuMessages(raw)).toEqual([
+      { source: '7EA', payload: [0x61, 0x87, 1, 2, 3, 4, 5, 6, 7, 8] },
+      { source: '7E8', payload: [0x41, 0x0d, 0x3c] },
+    ]);
+    // Spaces off (ATS0) prints the same frames without separators.
+    expect(parseEcuMessages('7EA100A618701020304\r7E803410D3C\r7EA2105060708000000\r\r>')).toEqual(
+      parseEcuMessages(raw),
+    );
+  });
+
+  test('drops messages with a missing consecutive frame', () => {
+    const raw = '7EA 10 10 61 81 01 02 03 04\r7EA 22 0C 0D 0E 0F 10 11 12\r7E8 03 41 0D 3C';
+    expect(parseEcuMessages(raw)).toEqual([{ source: '7E8', payload: [0x41, 0x0d, 0x3c] }]);
+  });
+
+  test('falls back to headers-off parsing without a source', () => {
+    expect(parseEcuMessages('014\r0:618101020304\r1:05060708090A0B\r2:0C0D0E0F101112\r>')).toEqual([
+      { source: null, payload: [0x61, 0x81, ...Array.from({ length: 18 }, (_, i) => i + 1)] },
+    ]);
+  });
+
+  test('readPid only decodes the answer of the addressed ECU', async () => {
+    const protocol = new OBDProtocol(
+      scriptedAdapter({
+        // The engine ECU answers too (e.g. after ATCRA was cleared); SOC must come from 7EA.
+        '7E2|01 5B': '7E8 03 41 5B 10\r7EA 03 41 5B 99',
+      }),
+    );
+
+    expect((await protocol.readPid('TOYOTA_HV_SOC')).value).toBeCloseTo((0x99 * 20) / 51);
+  });
+});
+
+describe('CAN monitoring helpers', () => {
+  test('parseMonitorLine reads ATMA frames and skips status lines', () => {
+    expect(parseMonitorLine('3CB 00 00 00 8E 00 00 00')).toEqual({
+      id: '3CB',
+      data: [0, 0, 0, 0x8e, 0, 0, 0],
+    });
+    expect(parseMonitorLine('03B0FE600DC00')).toEqual({ id: '03B', data: [0x0f, 0xe6, 0, 0xdc, 0] });
+    expect(parseMonitorLine('STOPPED')).toBeNull();
+    expect(parseMonitorLine('BUFFER FULL')).toBeNull();
+    expect(parseMonitorLine('41 0D 3C')).toBeNull();
+  });
+
+  test('canFilterFor passes every requested ID', () => {
+    const ids = ['03B', '030', '0B4', '3C8', '3CB'];
+    const { filter, mask } = canFilterFor(ids);
+    const f = parseInt(filter, 16);
+    const m = parseInt(mask, 16);
+    for (const id of ids) {
+      expect(parseInt(id, 16) & m).toBe(f);
+    }
+    expect(canFilterFor(['3C8', '3CB'])).toEqual({ filter: '3C8', mask: '7FC' });
+  });
+});
+
+describe('OBDProtocol DTCs', () => {
+  test('readDTCs decodes stored and pending codes after the count byte', async () => {
+    const protocol = new OBDProtocol(
+      scriptedAdapter({
+        '7DF|03': '43 02 03 01 0A 80',
+        '7DF|07': '47 01 30 00',
+      }),
+    );
+
+    expect(await protocol.readDTCs()).toEqual([
+      { code: 'P0301', isPending: false, isPermanent: false },
+      { code: 'P0A80', isPending: false, isPermanent: false },
+      { code: 'P3000', isPending: true, isPermanent: false },
+    ]);
+  });
+
+  test('scanEcuDTCs addresses each ECU and tags the results', async () => {
+    const adapter = scriptedAdapter({
+      '7E2|03': '00A\r0: 43 04 0A 80 0A 7F \r1: 30 11 0A 9C 00 00',
+      '7E2|07': '47 00',
+      '7E2|0A': '4A 01 0A 80',
+      '7B0|03': '43 01 52 59',
+      '7B0|07': '7F 07 11',
+    });
+    const protocol = new OBDProtocol(adapter);
+
+    const results = await protocol.scanEcuDTCs(['7E2', '7B0', '7C0']);
+
+    expect(adapter.sent).toEqual(expect.arrayContaining(['ATSH 7E2', 'ATSH 7B0', 'ATSH 7C0']));
+    expect(results).toEqual([
+      {
+        header: '7E2',
+        responded: true,
+        codes: [
+          { code: 'P0A80', isPending: false, isPermanent: false },
+          { code: 'P0A7F', isPending: false, isPermanent: false },
+          { code: 'P3011', isPending: false, isPermanent: false },
+          { code: 'P0A9C', isPending: false, isPermanent: false },
+          { code: 'P0A80', isPending: false, isPermanent: true },
+        ],
+      },
+      {
+        header: '7B0',
+        responded: true,
+        codes: [{ code: 'C1259', isPending: false, isPermanent: false }],
+      },
+      { header: '7C0', responded: false, codes: [] },
+    ]);
+  });
+
+  test('readFreezeFrame decodes Mode 02 PIDs with the Mode 01 decoders', async () => {
+    const protocol = new OBDProtocol(
+      scriptedAdapter({
+        '7E2|02 02 00': '42 02 00 0A 80',
+        '7E2|02 0C 00': '42 0C 00 1C 20',
+        '7E2|02 0D 00': '42 0D 00 3C',
+        '7E2|02 05 00': '42 05 00 7B',
+      }),
+    );
+
+    const frame = await protocol.readFreezeFrame('7E2', 0, ['010C', '010D', '0105', '0104']);
+
+    expect(frame).toEqual({
+      dtcCode: 'P0A80',
+      values: { '010C': 1800, '010D': 60, '0105': 83 },
+    });
+  });
+
+  test('clearDTCs needs a 44 answer, not "44" anywhere in the reply', async () => {
+    expect(await new OBDProtocol(scriptedAdapter({ '7DF|04': '7E8 01 44' })).clearDTCs()).toBe(
+      true,
+    );
+    // Negative answers, one with 44 in its data bytes.
+    expect(
+      await new OBDProtocol(scriptedAdapter({ '7DF|04': '7E8 03 7F 04 22' })).clearDTCs(),
+    ).toBe(false);
+    expect(
+      await new OBDProtocol(scriptedAdapter({ '7DF|04': '7E8 03 7F 04 44' })).clearDTCs(),
+    ).toBe(false);
+    expect(await new OBDProtocol(scriptedAdapter({})).clearDTCs()).toBe(false);
+  });
+
+  test('readFreezeFrame returns null when no frame is stored', async () => {
+    const protocol = new OBDProtocol(scriptedAdapter({ '7DF|02 02 00': '42 02 00 00 00' }));
+    expect(await protocol.readFreezeFrame()).toBeNull();
+  });
+});
+
+describe('OBDProtocol polling', () => {
+  /** Poll until `count` callbacks have arrived, then stop. */
+  async function pollOnce(
+    protocol: OBDProtocol,
+    pids: string[],
+    count: number,
+  ): Promise<Record<string, number | null>> {
+    const values: Record<string, number | null> = {};
+    let received = 0;
+    await new Promise<void>((resolve) => {
+      protocol.startPolling(pids, 1000, (pid, result) => {
+        values[pid] = result?.value ?? null;
+        if (++received === count) resolve();
+      });
+    });
+    protocol.stopPolling();
+    return values;
+  }
+
+  test('combines Mode 01 PIDs into one request and splits the reply', async () => {
+    const adapter = scriptedAdapter({
+      '7DF|01 0C 0D 11 05': '41 0C 1A F8 0D 3C 11 33 05 7B',
+    });
+    const protocol = new OBDProtocol(adapter);
+
+    const values = await pollOnce(protocol, ['010C', '010D', '0111', '0105'], 4);
+
+    expect(values).toEqual({ '010C': 1726, '010D': 60, '0111': 20, '0105': 83 });
+    expect(adapter.sent.filter((c) => c.startsWith('01'))).toEqual(['01 0C 0D 11 05']);
+  });
+
+  test('falls back to single requests when the ECU rejects combined ones', async () => {
+    const adapter = scriptedAdapter({
+      '7DF|01 0C 0D': '7F 01 12',
+      '7DF|01 0C': '41 0C 1A F8',
+      '7DF|01 0D': '41 0D 3C',
+    });
+    const protocol = new OBDProtocol(adapter);
+
+    // Two passes: the first tries the combined request, the second goes straight to singles.
+    const values = await pollOnce(protocol, ['010C', '010D'], 4);
+
+    expect(values).toEqual({ '010C': 1726, '010D': 60 });
+    expect(adapter.sent.filter((c) => c.startsWith('01'))).toEqual([
+      '01 0C 0D',
+      '01 0C',
+      '01 0D',
+      '01 0C',
+      '01 0D',
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { ReconnectSupervisor, reconnectDelayMs } from '../src/obd/reconnectSupervisor';
+import { useConnectionStore } from '../src/store/connectionStore';
+
+/** Let the awaited reconnect() promise and the follow-up scheduling run. */
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('reconnectDelayMs', () => {
+  test('doubles from the base delay and stops at the cap', () => {
+    expect([1, 2, 3, 4].map((n) => reconnectDelayMs(n, 1000, 30000))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+    expect(reconnectDelayMs(6, 1000, 30000)).toBe(30000);
+    expect(reconnectDelayMs(50, 1000, 30000)).toBe(30000);
+  });
+});
+
+describe('ReconnectSupervisor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useConnectionStore.getState().setReconnectStatus(0, null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('retries with backoff and publishes each attempt to the connection store', async () => {
+    const reconnect = jest
+      .fn<Promise<boolean>, [number]>()
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    const onGiveUp = jest.fn();
+    const supervisor = new ReconnectSupervisor({ reconnect, onGiveUp, baseDelayMs: 100 });
+
+    supervisor.start();
+    expect(useConnectionStore.getState().reconnectAttempt).toBe(1);
+    expect(useConnectionStore.getState().nextReconnectAt).not.toBeNull();
+
+    jest.advanceTimersByTime(99);
+    expect(reconnect).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(reconnect).toHaveBeenLastCalledWith(1);
+    expect(useConnectionStore.getState().reconnectAttempt).toBe(2);
+
+    // Second attempt waits twice as long.
+    jest.advanceTimersByTime(199);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(reconnect).toHaveBeenLastCalledWith(2);
+
+    jest.advanceTimersByTime(400);
+    await flushPromises();
+    expect(reconnect).toHaveBeenLastCalledWith(3);
+
+    expect(supervisor.isActive()).toBe(false);
+    expect(onGiveUp).not.toHaveBeenCalled();
+    expect(useConnectionStore.getState().reconnectAttempt).toBe(0);
+    expect(useConnectionStore.getState().nextReconnectAt).toBeNull();
+  });
+
+  test('gives up after maxAttempts', async () => {
+    const reconnect = jest.fn<Promise<boolean>, [number]>().mockRejectedValue(new Error('timeout'));
+    const onGiveUp = jest.fn();
+    const supervisor = new ReconnectSupervisor({
+      reconnect,
+      onGiveUp,
+      baseDelayMs: 10,
+      maxDelayMs: 10,
+      maxAttempts: 3,
+    });
+
+    supervisor.start();
+    for (let i = 0; i < 3; i++) {
+      jest.advanceTimersByTime(10);
+      await flushPromises();
+    }
+
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    expect(onGiveUp).toHaveBeenCalledWith(3);
+    expect(supervisor.isActive()).toBe(false);
+    expect(useConnectionStore.getState().reconnectAttempt).toBe(0);
+  });
+
+  test('cancel stops pending attempts and ignores one already running', async () => {
+    let finishAttempt: (done: boolean) => void = () => undefined;
+    const reconnect = jest.fn(
+      () =>
+        new Promise<boolean>((resolve) => {
+          finishAttempt = resolve;
+        }),
+    );
+    const onGiveUp = jest.fn();
+    const supervisor = new ReconnectSupervisor({ reconnect, onGiveUp, baseDelayMs: 10 });
+
+    supervisor.start();
+    jest.advanceTimersByTime(10);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+
+    supervisor.cancel();
+    finishAttempt(false);
+    await flushPromises();
+    jest.advanceTimersByTime(1000);
+
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    expect(supervisor.isActive()).toBe(false);
+    expect(useConnectionStore.getState().reconnectAttempt).toBe(0);
+  });
+});
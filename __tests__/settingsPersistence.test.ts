@@ -0,0 +1,127 @@
+import { database } from '../src/storage/database';
+import {
+  SETTINGS_SCHEMA_VERSION,
+  restoreSettings,
+  settingsPersistence,
+} from '../src/storage/settingsPersistence';
+import { useConnectionStore } from '../src/store/connectionStore';
+import { useOBDStore } from '../src/store/obdStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+
+// obdClient only talks to the virtual adapter here; the native transport libraries ship ESM.
+jest.mock('react-native-bluetooth-classic', () => ({}));
+jest.mock('react-native-ble-plx', () => ({ BleManager: jest.fn() }));
+jest.mock('react-native-tcp-socket', () => ({}));
+
+const { obdClient } = require('../src/obd/obdClient');
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('restoreSettings', () => {
+  test('restores valid values and drops broken or invalid ones', () => {
+    const layout = {
+      id: 'page-1',
+      name: 'Commute',
+      meters: [
+        {
+          id: 'm1',
+          pid: '010D',
+          type: 'gauge',
+          position: { x: 0, y: 0 },
+          size: { width: 2, height: 2 },
+        },
+      ],
+    };
+    const restored = restoreSettings({
+      schemaVersion: String(SETTINGS_SCHEMA_VERSION),
+      pollingInterval: '400',
+      unit: '"imperial"',
+      autoLog: 'true',
+      dashboardPages: JSON.stringify([layout]),
+      theme: '"sepia"', // not a theme
+      autoReconnect: '{broken',
+      logBufferSize: '12', // runtime only, never restored
+    });
+
+    expect(restored).toEqual({
+      pollingInterval: 400,
+      unit: 'imperial',
+      autoLog: true,
+      dashboardPages: [layout],
+    });
+  });
+
+  test('runs the migrations from the saved version up to the current one', () => {
+    const migrations = {
+      [SETTINGS_SCHEMA_VERSION - 1]: (s: Record<string, unknown>) => ({
+        ...s,
+        pollingInterval: Number(s.pollMs),
+      }),
+    };
+
+    expect(
+      restoreSettings(
+        { schemaVersion: String(SETTINGS_SCHEMA_VERSION - 1), pollMs: '"300"' },
+        migrations,
+      ),
+    ).toEqual({ pollingInterval: 300 });
+    // Already current: the migration does not run again.
+    expect(
+      restoreSettings(
+        { schemaVersion: String(SETTINGS_SCHEMA_VERSION), pollMs: '"300"' },
+        migrations,
+      ),
+    ).toEqual({});
+  });
+
+  test('replaces the empty version 1 layout with the default meters', () => {
+    const emptyLayout = JSON.stringify({ name: 'Default', meters: [] });
+    expect(restoreSettings({ dashboardLayout: emptyLayout, autoLog: 'true' })).toEqual({
+      autoLog: true,
+    });
+  });
+
+  test('turns the single version 2 layout into the first dashboard page', () => {
+    const layout = { name: 'Mine', meters: [] };
+    expect(
+      restoreSettings({ schemaVersion: '2', dashboardLayout: JSON.stringify(layout) }),
+    ).toEqual({
+      dashboardPages: [{ id: 'page-1', name: 'Mine', meters: [] }],
+      activePageId: 'page-1',
+    });
+  });
+});
+
+describe('settingsPersistence', () => {
+  afterEach(async () => {
+    await obdClient.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  test('a connect during startup waits for the saved settings', async () => {
+    jest.spyOn(database, 'getSettings').mockResolvedValue({
+      schemaVersion: String(SETTINGS_SCHEMA_VERSION),
+      pollingInterval: '400',
+      acquisitionMode: '"combined"',
+    });
+    jest.spyOn(database, 'saveSettings').mockResolvedValue();
+
+    // Connect before hydration has even been asked for (e.g. an early reconnect).
+    obdClient.startDemoMode();
+    await wait(50);
+    settingsPersistence.hydrate();
+    await wait(50);
+    // The database is still opening; nothing may run with the defaults meanwhile.
+    expect(useConnectionStore.getState().state).toBe('connecting');
+    expect(useOBDStore.getState().pollingActive).toBe(false);
+
+    await database.initialize();
+    for (let i = 0; i < 100 && !useOBDStore.getState().pollingActive; i++) {
+      await wait(50);
+    }
+
+    expect(useSettingsStore.getState().acquisitionMode).toBe('combined');
+    expect(useOBDStore.getState().pollingActive).toBe(true);
+    expect(useOBDStore.getState().pollingInterval).toBe(400);
+  }, 20000);
+});
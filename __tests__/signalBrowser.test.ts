@@ -0,0 +1,32 @@
+import { PRIUSCHAT_METRIC_PIDS } from '../src/obd/pid/priuschatMetric';
+import { STANDARD_PIDS } from '../src/obd/pid/standard';
+import { groupSignalsByHeader } from '../src/utils/signalBrowser';
+
+const ALL_SIGNALS = Object.values(PRIUSCHAT_METRIC_PIDS);
+
+describe('groupSignalsByHeader', () => {
+  test('groups every PriusChat signal by ECU header', () => {
+    const groups = groupSignalsByHeader(ALL_SIGNALS, '');
+
+    expect(groups.map((group) => group.header)).toEqual(['7B0', '7C0', '7C4', '7E0', '7E2']);
+    expect(groups.find((group) => group.header === '7E2')?.title).toBe('7E2 Hybrid');
+    expect(groups.reduce((sum, group) => sum + group.signals.length, 0)).toBe(ALL_SIGNALS.length);
+
+    const requests = groups[0].signals.map((signal) => signal.request ?? '');
+    expect(requests).toEqual([...requests].sort());
+  });
+
+  test('matches every search term against id, name, unit and request', () => {
+    const groups = groupSignalsByHeader(ALL_SIGNALS, 'mg1 rpm');
+    const pids = groups.flatMap((group) => group.signals.map((signal) => signal.pid));
+
+    expect(pids).toContain('PC_7E2_2161_MG1_RPM');
+    expect(groups.map((group) => group.header)).toEqual(['7E2']);
+    expect(groupSignalsByHeader(ALL_SIGNALS, 'no such signal')).toEqual([]);
+  });
+
+  test('puts signals without a header in the functional group', () => {
+    const [group] = groupSignalsByHeader([STANDARD_PIDS['010C']], '');
+    expect(group).toMatchObject({ header: '7DF', title: '7DF' });
+  });
+});
@@ -0,0 +1,213 @@
+import { TOYOTA_PIDS } from '../src/obd/pid/toyota';
+import { pidPacks } from '../src/obd/pidPacks';
+import { OBDProtocol, type Elm327Interface } from '../src/obd/protocol';
+import {
+  discoverSignals,
+  filterSupportedPids,
+  loadSignalSupport,
+  signalGroupKey,
+  type SignalSupportEntry,
+} from '../src/obd/signalDiscovery';
+import { database } from '../src/storage/database';
+
+/**
+ * Adapter stub answering per "<header>|<command>" (NO DATA when not scripted). A function
+ * answers each attempt in turn; a thrown error is what the adapter layer does on failures.
+ */
+function scriptedAdapter(
+  responses: Record<string, string | ((attempt: number) => string)>,
+): Elm327Interface & { sent: string[] } {
+  let header = '7DF';
+  const sent: string[] = [];
+  const attempts = new Map<string, number>();
+  return {
+    sent,
+    isConnected: () => true,
+    sendCommand: async (command: string) => {
+      sent.push(command);
+      if (command.startsWith('ATSH ')) {
+        header = command.substring(5);
+        return 'OK';
+      }
+      const key = `${header}|${command}`;
+      const response = responses[key] ?? 'NO DATA';
+      if (typeof response === 'string') {
+        return response;
+      }
+      const attempt = attempts.get(key) ?? 0;
+      attempts.set(key, attempt + 1);
+      return response(attempt);
+    },
+  };
+}
+
+/** First PriusChat signal read with `request` from the hybrid ECU. */
+const hybridSignal = (request: string) =>
+  Object.keys(TOYOTA_PIDS).find((pid) => pid.startsWith(`PC_7E2_${request}_`))!;
+
+const group = (entries: SignalSupportEntry[], header: string, request: string) =>
+  entries.find((entry) => entry.header === header && entry.request === request);
+
+describe('signalGroupKey', () => {
+  test('keys signals by header and request', () => {
+    expect(signalGroupKey('010C')).toBe('7DF|010C');
+    expect(signalGroupKey('TOYOTA_HV_SOC')).toBe('7E2|015B');
+    expect(signalGroupKey(hybridSignal('2181'))).toBe('7E2|2181');
+    expect(signalGroupKey('UNKNOWN')).toBeNull();
+  });
+
+  test('keys PID pack signals like built-in ones', () => {
+    jest.spyOn(pidPacks, 'definition').mockImplementation((pid) =>
+      pid === 'TQ_7C4_2175_FAN'
+        ? {
+            pid,
+            request: '21 75',
+            header: '7c4 ',
+            name: 'Fan',
+            shortName: 'FAN',
+            unit: '',
+            min: 0,
+            max: 255,
+            decode: () => 0,
+          }
+        : undefined,
+    );
+    expect(signalGroupKey('TQ_7C4_2175_FAN')).toBe('7C4|2175');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('discoverSignals', () => {
+  test('reports answered and dead groups, and leaves groups without an answer out', async () => {
+    const adapter = scriptedAdapter({
+      '7DF|01 00': '41 00 18 00 00 00', // 0104 and 0105
+      '7E2|21 81': '7EA 10 0A 61 81 01 02 03 04\r7EA 21 05 06 07 08 09 0A',
+      '7E2|21 87': '7EA 03 7F 21 12',
+      // The adapter layer throws on NO DATA.
+      '7E2|01 5B': () => {
+        throw new Error('OBD command "01 5B" error: NO DATA');
+      },
+      // Lost once, then answered.
+      '7E2|21 98': (attempt) => (attempt === 0 ? 'CAN ERROR' : '7EA 05 61 98 01 02 03'),
+      // The ECU keeps saying it is busy, and the bus is down for another group.
+      '7E2|21 61': '7EA 03 7F 21 21',
+      '7E2|21 62': () => {
+        throw new Error('Command timeout');
+      },
+      // An answer to some other request is not an answer.
+      '7E2|21 67': '7EA 03 61 68 00',
+    });
+
+    const entries = await discoverSignals(new OBDProtocol(adapter));
+
+    expect(group(entries, '7DF', '0104')?.supported).toBe(true);
+    expect(group(entries, '7DF', '010C')?.supported).toBe(false);
+    expect(group(entries, '7E2', '2181')?.supported).toBe(true);
+    expect(group(entries, '7E2', '2198')?.supported).toBe(true);
+    expect(group(entries, '7E2', '2187')?.supported).toBe(false);
+    expect(group(entries, '7E2', '015B')?.supported).toBe(false);
+    expect(group(entries, '7E2', '2161')).toBeUndefined();
+    expect(group(entries, '7E2', '2162')).toBeUndefined();
+    expect(group(entries, '7E2', '2167')).toBeUndefined();
+    // Undecided groups were asked twice, decided ones once.
+    for (const undecided of ['21 61', '21 62', '21 67']) {
+      expect(adapter.sent.filter((command) => command === undecided)).toHaveLength(2);
+    }
+    expect(adapter.sent.filter((command) => command === '21 87')).toHaveLength(1);
+  });
+
+  test('leaves Mode 01 unknown when the bitmasks get no answer', async () => {
+    const entries = await discoverSignals(new OBDProtocol(scriptedAdapter({})));
+
+    expect(entries.some((entry) => entry.request.startsWith('01') && entry.header === '7DF')).toBe(
+      false,
+    );
+    expect(group(entries, '7E2', '2181')?.supported).toBe(false);
+  });
+});
+
+describe('filterSupportedPids', () => {
+  test('drops the signals of dead groups only', () => {
+    const support: SignalSupportEntry[] = [
+      { header: '7DF', request: '010C', supported: true },
+      { header: '7DF', request: '0114', supported: false },
+      { header: '7E2', request: '2181', supported: true },
+      { header: '7E2', request: '2187', supported: false },
+    ];
+
+    expect(
+      filterSupportedPids(
+        ['010C', '0114', hybridSignal('2181'), hybridSignal('2187'), hybridSignal('2198'), 'X'],
+        support,
+      ),
+    ).toEqual(['010C', hybridSignal('2181'), hybridSignal('2198'), 'X']);
+  });
+});
+
+describe('loadSignalSupport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('uses the support cached for the VIN without probing', async () => {
+    jest.spyOn(database, 'getSignalSupport').mockResolvedValue([
+      { header: '7E2', request: '2181', supported: true, scannedAt: 1000 },
+      { header: '7E2', request: '2187', supported: false, scannedAt: 1000 },
+    ]);
+    const adapter = scriptedAdapter({});
+    const scan = jest.fn();
+
+    const support = await loadSignalSupport(new OBDProtocol(adapter), 'JTDKN3DU5A1234567', scan);
+
+    expect(database.getSignalSupport).toHaveBeenCalledWith('JTDKN3DU5A1234567');
+    expect(support).toEqual({
+      entries: [
+        { header: '7E2', request: '2181', supported: true },
+        { header: '7E2', request: '2187', supported: false },
+      ],
+      scannedAt: 1000,
+    });
+    expect(scan).not.toHaveBeenCalled();
+    expect(adapter.sent).toEqual([]);
+  });
+
+  test('probes a vehicle seen for the first time (or when the cache cannot be read)', async () => {
+    jest
+      .spyOn(database, 'getSignalSupport')
+      .mockRejectedValue(new Error('Database not initialized'));
+    const entries = [{ header: '7E2', request: '2181', supported: true }];
+    const scan = jest.fn().mockResolvedValue(entries);
+
+    const support = await loadSignalSupport(
+      new OBDProtocol(scriptedAdapter({})),
+      'JTDKN3DU5A1234567',
+      scan,
+    );
+
+    expect(scan).toHaveBeenCalledWith('JTDKN3DU5A1234567');
+    expect(support.entries).toBe(entries);
+    expect(support.scannedAt).not.toBeNull();
+  });
+
+  test('without a VIN only asks the Mode 01 bitmasks and caches nothing', async () => {
+    const getSignalSupport = jest.spyOn(database, 'getSignalSupport');
+    const scan = jest.fn();
+
+    const support = await loadSignalSupport(
+      new OBDProtocol(scriptedAdapter({ '7DF|01 00': '41 00 18 00 00 00' })),
+      null,
+      scan,
+    );
+
+    expect(support.scannedAt).toBeNull();
+    expect(group(support.entries, '7DF', '0105')?.supported).toBe(true);
+    expect(group(support.entries, '7DF', '010C')?.supported).toBe(false);
+    expect(support.entries.every((entry) => entry.request.startsWith('01'))).toBe(true);
+    expect(filterSupportedPids(['0105', '010C', 'TOYOTA_HV_SOC'], support.entries)).toEqual([
+      '0105',
+      'TOYOTA_HV_SOC',
+    ]);
+    expect(scan).not.toHaveBeenCalled();
+    expect(getSignalSupport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,27 @@
+import {
+  DARK_THEME,
+  HIGH_CONTRAST_THEME,
+  LIGHT_THEME,
+  NIGHT_THEME,
+  isNightTime,
+  resolveTheme,
+} from '../src/utils/theme';
+
+const at = (hour: number, minute = 0) => new Date(2026, 0, 15, hour, minute);
+
+describe('theme', () => {
+  test('night runs from 19:00 until 06:00 local time', () => {
+    expect(isNightTime(at(18, 59))).toBe(false);
+    expect(isNightTime(at(19, 0))).toBe(true);
+    expect(isNightTime(at(0, 30))).toBe(true);
+    expect(isNightTime(at(5, 59))).toBe(true);
+    expect(isNightTime(at(6, 0))).toBe(false);
+  });
+
+  test('picks the palette for the mode, and the night palette while dimmed', () => {
+    expect(resolveTheme('dark', false)).toBe(DARK_THEME);
+    expect(resolveTheme('light', false)).toBe(LIGHT_THEME);
+    expect(resolveTheme('high-contrast', false)).toBe(HIGH_CONTRAST_THEME);
+    expect(resolveTheme('high-contrast', true)).toBe(NIGHT_THEME);
+  });
+});
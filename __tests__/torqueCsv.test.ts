@@ -0,0 +1,89 @@
+import { parseCsv, parseTorquePidCsv, torquePidDefinitions } from '../src/obd/pid/torqueCsv';
+
+const HEADER = 'Name,ShortName,ModeAndPID,Equation,Min Value,Max Value,Units,Header';
+
+describe('torqueCsv', () => {
+  test('parseCsv handles quotes, CRLF and blank lines', () => {
+    const rows = parseCsv('a,"b,c"\r\n\r\n"say ""hi""",2\n"multi\nline",3\n');
+    expect(rows).toEqual([
+      { line: 1, fields: ['a', 'b,c'] },
+      { line: 3, fields: ['say "hi"', '2'] },
+      { line: 4, fields: ['multi\nline', '3'] },
+    ]);
+  });
+
+  test('keeps valid rows and reports bad ones with their line', () => {
+    const csv = [
+      `\uFEFF${HEADER}`,
+      'HV Current,BTY CURR,21 98,"(A*256+B)/100-327.68",-200,200,A,7E2',
+      'Broken,BRK,2198,A *,0,100,,7E2',
+      'No Request,NR,zz,A,0,100,,7E2',
+      ',EMPTY,2198,A,0,100,,7E2',
+      'Bad Range,BR,2198,A,low,100,,7E2',
+      'Bad Header,BH,2198,A,0,100,,7Q2',
+      'Default Header,DH,2101,B,,,%,',
+    ].join('\n');
+
+    const { rows, errors } = parseTorquePidCsv(csv);
+
+    expect(rows).toEqual([
+      {
+        name: 'HV Current',
+        shortName: 'BTY CURR',
+        modeAndPid: '2198',
+        equation: '(A*256+B)/100-327.68',
+        min: -200,
+        max: 200,
+        units: 'A',
+        header: '7E2',
+      },
+      {
+        name: 'Default Header',
+        shortName: 'DH',
+        modeAndPid: '2101',
+        equation: 'B',
+        min: 0,
+        max: 0,
+        units: '%',
+        header: '',
+      },
+    ]);
+    expect(errors).toEqual([
+      { line: 3, message: 'Broken: Missing operand at position 4' },
+      { line: 4, message: 'No Request: ModeAndPID "zz" is not a hex request' },
+      { line: 5, message: 'Name is empty' },
+      { line: 6, message: 'Bad Range: Min/Max must be numbers' },
+      { line: 7, message: 'Bad Header: Header "7Q2" is not a CAN ID' },
+    ]);
+  });
+
+  test('rejects a file without the required columns', () => {
+    expect(() => parseTorquePidCsv('')).toThrow('The CSV is empty');
+    expect(() => parseTorquePidCsv('Name,Units\nRPM,rpm')).toThrow(
+      'Missing CSV column(s): modeAndPid, equation',
+    );
+  });
+
+  test('turns rows into definitions with pack ids', () => {
+    const { rows } = parseTorquePidCsv(
+      [
+        HEADER,
+        'MG1 Speed,MG1 RPM,2161,"INT16(A,B)",-10000,10000,rpm,7E2',
+        'MG1 Speed 2,MG1 RPM,2161,A,0,255,rpm,7E2',
+        'Load ratio,LOAD,0104,VAL{010C} / 100 + A,0,255,,',
+      ].join('\n'),
+    );
+    const defs = torquePidDefinitions(rows, (id) => (id === '010C' ? 800 : 0));
+
+    expect(Object.keys(defs)).toEqual([
+      'TQ_7E2_2161_MG1_RPM',
+      'TQ_7E2_2161_MG1_RPM_2',
+      'TQ_7DF_0104_LOAD',
+    ]);
+    const mg1 = defs.TQ_7E2_2161_MG1_RPM;
+    expect(mg1).toMatchObject({ request: '2161', header: '7E2', unit: 'rpm', min: -10000 });
+    expect(mg1.decode([0xff, 0x38])).toBe(-200);
+    expect(defs.TQ_7DF_0104_LOAD.header).toBeUndefined();
+    expect(defs.TQ_7DF_0104_LOAD.decode([2])).toBe(10);
+  });
+});
@@ -1,4 +1,10 @@
-import { compileTorqueEquation, torqueVarToIndex } from '../src/obd/torqueEquation';
+import {
+  compileSignalExpression,
+  compileTorqueEquation,
+  parseTorqueEquation,
+  torqueVarToIndex,
+} from '../src/obd/torqueEquation';
+import { PRIUSCHAT_METRIC_ROWS } from '../src/obd/pid/priuschatMetric';
 
 describe('torqueEquation', () => {
   test('torqueVarToIndex maps A..Z, AA..AD', () => {
@@ -44,5 +50,109 @@ describe('torqueEquation', () => {
     const decode = compileTorqueEquation('-A / 2');
     expect(decode([10])).toBe(-5);
   });
+
+  test('SIGNED and INT16 read two\'s complement values', () => {
+    expect(compileTorqueEquation('SIGNED(A)')([0xff])).toBe(-1);
+    expect(compileTorqueEquation('Signed(A) * 2')([0x7f])).toBe(254);
+    expect(compileTorqueEquation('INT16(A * 256 + B)')([0x80, 0x00])).toBe(-32768);
+    expect(compileTorqueEquation('INT16(A, B) / 10')([0xff, 0xf6])).toBe(-1);
+  });
+
+  test('bitwise operators and comparisons follow the documented precedence', () => {
+    expect(compileTorqueEquation('A & 16 > 0')([0x10])).toBe(1);
+    expect(compileTorqueEquation('A & 16 > 0')([0x0f])).toBe(0);
+    expect(compileTorqueEquation('(A >> 4) | (B << 4)')([0xab, 0x01])).toBe(0x1a);
+    expect(compileTorqueEquation('A + 1 << 1')([1])).toBe(4);
+    expect(compileTorqueEquation('A <> B')([1, 2])).toBe(1);
+    expect(compileTorqueEquation('A == B')([1, 2])).toBe(0);
+    expect(compileTorqueEquation('A >= B')([2, 2])).toBe(1);
+  });
+
+  test('IF, MIN, MAX and ABS', () => {
+    const decode = compileTorqueEquation('IF(A > 127, A - 256, A)');
+    expect(decode([200])).toBe(-56);
+    expect(decode([100])).toBe(100);
+    expect(compileTorqueEquation('MIN(A, B, 10)')([20, 15])).toBe(10);
+    expect(compileTorqueEquation('MAX(A, B) - ABS(C - 5)')([3, 9, 1])).toBe(5);
+  });
+
+  test('VAL{id} reads the lookup given to the decoder', () => {
+    const decode = compileTorqueEquation('A + VAL{010D}', (id) => (id === '010D' ? 60 : 0));
+    expect(decode([5])).toBe(65);
+    expect(compileTorqueEquation('A + VAL{010D}')([5])).toBe(5);
+  });
+
+  test('syntax errors report their position', () => {
+    const positionOf = (expression: string) => {
+      try {
+        parseTorqueEquation(expression);
+      } catch (err) {
+        return [(err as Error).message, (err as { position?: number }).position];
+      }
+      return undefined;
+    };
+    expect(positionOf('A * (B + 1')).toEqual(['Missing closing parenthesis at position 5', 5]);
+    expect(positionOf('A + ')).toEqual(['Missing operand at position 5', 5]);
+    expect(positionOf('A B')).toEqual(['Missing operator at position 3', 3]);
+    expect(positionOf('A # 2')).toEqual(['Unexpected character "#" at position 3', 3]);
+    expect(positionOf('FOO(A)')).toEqual(['Unknown function FOO at position 1', 1]);
+    expect(positionOf('2 * IF(A, B)')).toEqual(['IF takes 3 arguments at position 5', 5]);
+    expect(positionOf('{A:x}')).toEqual(['Invalid bit extraction {A:X} at position 1', 1]);
+  });
+
+  test('invalid equations decode to 0', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(compileTorqueEquation('A +')([5])).toBe(0);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test('every PriusChat metric equation parses', () => {
+    for (const row of PRIUSCHAT_METRIC_ROWS) {
+      expect(() => parseTorqueEquation(row.equation)).not.toThrow();
+    }
+  });
+
+  test('PriusChat metric equations decode fixed bytes to the pinned values', () => {
+    // 33 bytes cover A..AG. Values are rounded to 1e-6 so only real changes show up.
+    const vectors = {
+      zero: Array.from({ length: 33 }, () => 0x00),
+      high: Array.from({ length: 33 }, () => 0xff),
+      signBoundary: Array.from({ length: 33 }, (_, i) => (i % 2 === 0 ? 0x80 : 0x7f)),
+      mixed: Array.from({ length: 33 }, (_, i) => (i * 37 + 11) % 256),
+    };
+    const decoded: Record<string, Record<string, number>> = {};
+    for (const { equation } of PRIUSCHAT_METRIC_ROWS) {
+      const decode = compileTorqueEquation(equation);
+      decoded[equation] = Object.fromEntries(
+        Object.entries(vectors).map(([name, bytes]) => [
+          name,
+          Math.round(decode(bytes) * 1e6) / 1e6,
+        ]),
+      );
+    }
+    expect(decoded).toMatchSnapshot();
+  });
 });
 
+describe('compileSignalExpression', () => {
+  test('evaluates VAL{id} references against signal values', () => {
+    const expr = compileSignalExpression('VAL{TOYOTA_HV_VOLTAGE} * VAL{toyota_hv_current} / 1000');
+    expect(expr.references).toEqual(['TOYOTA_HV_VOLTAGE', 'TOYOTA_HV_CURRENT']);
+
+    const values: Record<string, number> = { TOYOTA_HV_VOLTAGE: 200, TOYOTA_HV_CURRENT: -50 };
+    expect(expr.evaluate((id) => values[id])).toBe(-10);
+  });
+
+  test('rejects byte variables and incomplete expressions', () => {
+    expect(() => compileSignalExpression('A * 2')).toThrow(/VAL\{id\}/);
+    expect(() => compileSignalExpression('VAL{010D} *')).toThrow('Missing operand');
+    expect(() => compileSignalExpression('VAL{010D} VAL{010C}')).toThrow('Missing operator');
+    expect(() => compileSignalExpression('VAL{010D')).toThrow('Unterminated signal reference');
+    expect(() => compileSignalExpression(' ')).toThrow('Expression is empty');
+  });
+
+  test('byte decoders read VAL{id} as 0', () => {
+    expect(compileTorqueEquation('A + VAL{010D}')([5])).toBe(5);
+  });
+});
@@ -0,0 +1,67 @@
+import { useSettingsStore } from '../src/store/settingsStore';
+import { formatDistance, formatFuelEconomy } from '../src/utils/formatter';
+import { signalConversion, unitConversion, type UnitPreferences } from '../src/utils/units';
+
+const metric: UnitPreferences = { system: 'metric', fuelEconomy: 'km/L' };
+const imperial: UnitPreferences = { system: 'imperial', fuelEconomy: 'mpg-us' };
+
+describe('unit conversion', () => {
+  test('imperial converts values, ranges and thresholds of each signal unit', () => {
+    const speed = signalConversion('010D', imperial);
+    expect(speed.unit).toBe('mph');
+    expect(speed.convert(100)).toBeCloseTo(62.137, 3);
+    expect(speed.convertRange(0, 180).max).toBeCloseTo(111.85, 2);
+    expect(speed.convertThreshold(120)).toBeCloseTo(74.56, 2);
+    expect(speed.revert(speed.convert(88))).toBeCloseTo(88, 9);
+
+    // Toyota tables spell Celsius as "C".
+    const hvTemp = signalConversion('TOYOTA_HV_TEMP', imperial);
+    expect(hvTemp.unit).toBe('°F');
+    expect(hvTemp.convert(100)).toBe(212);
+    expect(hvTemp.convertDelta(10)).toBe(18);
+
+    expect(signalConversion('010B', imperial).convert(100)).toBeCloseTo(14.504, 3); // kPa -> psi
+    expect(unitConversion('km', imperial).unit).toBe('mi');
+    // PriusChat spellings: A/C refrigerant gauge pressure and fuel level.
+    const refrigerant = unitConversion('MPaG', imperial);
+    expect(refrigerant.unit).toBe('psi');
+    expect(refrigerant.convert(1.5)).toBeCloseTo(217.56, 2);
+    expect(refrigerant.revert(refrigerant.convert(2))).toBeCloseTo(2, 9);
+    expect(unitConversion('Liter', imperial).convert(45)).toBeCloseTo(11.888, 3);
+    expect(unitConversion('Liter', { ...imperial, fuelEconomy: 'mpg-uk' }).unit).toBe('gal UK');
+    expect(signalConversion('010C', imperial).unit).toBe('rpm'); // no imperial counterpart
+  });
+
+  test('metric leaves signals untouched', () => {
+    const speed = signalConversion('010D', metric);
+    expect(speed.unit).toBe('km/h');
+    expect(speed.convert(42)).toBe(42);
+  });
+
+  test('fuel economy follows its own unit, including the inverted L/100km', () => {
+    expect(unitConversion('km/L', { ...metric, fuelEconomy: 'mpg-uk' }).convert(20)).toBeCloseTo(
+      56.5,
+      1,
+    );
+
+    const per100 = unitConversion('km/L', { ...metric, fuelEconomy: 'L/100km' });
+    expect(per100.convert(20)).toBe(5);
+    expect(per100.convert(0)).toBe(0);
+    expect(per100.revert(5)).toBe(20);
+    // A 0-40 km/L gauge becomes 2.5-30 L/100km, and "higher is worse" thresholds no longer apply.
+    expect(per100.convertRange(0, 40)).toEqual({ min: 2.5, max: 30 });
+    expect(per100.convertThreshold(30)).toBeUndefined();
+
+    expect(formatFuelEconomy(20, 'metric', 'L/100km')).toBe('5.0 L/100km');
+    expect(formatDistance(10, 'imperial')).toBe('6.21 mi');
+  });
+
+  test('switching the unit system resets the fuel economy unit to its default', () => {
+    const store = useSettingsStore;
+    store.getState().setUnit('imperial');
+    expect(store.getState().fuelEconomyUnit).toBe('mpg-us');
+    store.getState().setFuelEconomyUnit('mpg-uk');
+    store.getState().setUnit('metric');
+    expect(store.getState().fuelEconomyUnit).toBe('km/L');
+  });
+});
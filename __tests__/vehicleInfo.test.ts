@@ -0,0 +1,65 @@
+import { Elm327 } from '../src/bluetooth/Elm327';
+import { VirtualConnectionManager } from '../src/bluetooth/VirtualManager';
+import { OBDProtocol } from '../src/obd/protocol';
+import { VEHICLE_INFO_TYPES, decodeVehicleInfo, isValidVin } from '../src/obd/vehicleInfo';
+
+const ascii = (text: string, length = text.length): number[] =>
+  Array.from(text.padEnd(length, '\0'), (c) => c.charCodeAt(0));
+
+describe('vehicleInfo', () => {
+  test('decodes fixed-size items and drops the padding', () => {
+    expect(decodeVehicleInfo(VEHICLE_INFO_TYPES.vin, [1, ...ascii('JTDKN3DU5A1234567')])).toEqual([
+      'JTDKN3DU5A1234567',
+    ]);
+    expect(
+      decodeVehicleInfo(VEHICLE_INFO_TYPES.calibrationId, [
+        2,
+        ...ascii('34715300', 16),
+        ...ascii('A0B1', 16),
+      ]),
+    ).toEqual(['34715300', 'A0B1']);
+    expect(decodeVehicleInfo(VEHICLE_INFO_TYPES.cvn, [1, 0x4a, 0x1f, 0x9c, 0x02])).toEqual([
+      '4A1F9C02',
+    ]);
+    expect(
+      decodeVehicleInfo(VEHICLE_INFO_TYPES.ecuName, [1, ...ascii('ECM\0-EngineControl', 20)]),
+    ).toEqual(['ECM-EngineControl']);
+  });
+
+  test('ignores truncated items and unknown info types', () => {
+    // Two CVNs announced, one and a half sent.
+    expect(decodeVehicleInfo(VEHICLE_INFO_TYPES.cvn, [2, 1, 2, 3, 4, 5, 6])).toEqual(['01020304']);
+    expect(decodeVehicleInfo(0x08, [1, 0, 1, 0, 2])).toEqual([]);
+    expect(decodeVehicleInfo(VEHICLE_INFO_TYPES.vin, [])).toEqual([]);
+  });
+
+  test('validates VINs', () => {
+    expect(isValidVin('JTDKN3DU5A1234567')).toBe(true);
+    expect(isValidVin('JTDKN3DU5A123456')).toBe(false);
+    expect(isValidVin('JTDKN3DU5O1234567')).toBe(false);
+  });
+
+  test('reads multi-frame vehicle information from every ECU', async () => {
+    const adapter = new VirtualConnectionManager({ latencyMs: 0, vin: 'JTDKN3DU5A1234567' });
+    await adapter.connect('TEST');
+    expect(await new Elm327(adapter).initialize()).toBe(true);
+
+    const info = await new OBDProtocol(adapter).readVehicleInfo();
+
+    expect(info.vin).toBe('JTDKN3DU5A1234567');
+    expect(info.ecus).toEqual([
+      {
+        ecu: '7E0',
+        name: 'ECM-EngineControl',
+        calibrationIds: ['34715300'],
+        cvns: ['4A1F9C02'],
+      },
+      {
+        ecu: '7E2',
+        name: 'HPCM-HybridPtCtrl',
+        calibrationIds: ['37961100'],
+        cvns: ['B03D51E7'],
+      },
+    ]);
+  }, 15000);
+});
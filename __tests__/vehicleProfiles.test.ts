@@ -0,0 +1,69 @@
+import { database } from '../src/storage/database';
+import { vehicleProfiles } from '../src/storage/vehicleProfiles';
+import { useBatteryHealthStore } from '../src/store/batteryHealthStore';
+import { useSettingsStore } from '../src/store/settingsStore';
+
+const VIN = 'JTDKN3DU5A1234567';
+
+describe('vehicleProfiles', () => {
+  beforeEach(() => {
+    jest.spyOn(database, 'upsertVehicle').mockImplementation(async (vin, info) => ({
+      vin,
+      info,
+      settings: { acquisitionMode: '"combined"' },
+      firstSeen: 1000,
+      lastSeen: 2000,
+    }));
+    jest.spyOn(database, 'saveVehicleSettings').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vehicleProfiles.detach();
+    jest.restoreAllMocks();
+  });
+
+  test('applies the saved settings of the vehicle and saves its later changes', async () => {
+    await vehicleProfiles.attach(VIN, null);
+
+    expect(vehicleProfiles.currentVin()).toBe(VIN);
+    expect(useSettingsStore.getState().acquisitionMode).toBe('combined');
+
+    useSettingsStore.setState({ watchedPids: ['0104'] });
+    expect(database.saveVehicleSettings).toHaveBeenCalledWith(
+      VIN,
+      expect.objectContaining({ watchedPids: '["0104"]' }),
+    );
+  });
+
+  test('keeps battery snapshots with the attached vehicle only', async () => {
+    const saved: Array<{ vin: string; soh: number }> = [];
+    jest.spyOn(database, 'saveBatterySnapshot').mockImplementation(async (vin, summary) => {
+      saved.push({ vin, soh: summary.soh });
+      return saved.length;
+    });
+    jest.spyOn(database, 'getBatterySnapshots').mockImplementation(async (vin) =>
+      saved
+        .filter((snapshot) => snapshot.vin === vin)
+        .map((snapshot, i) => ({
+          id: i + 1,
+          vin,
+          takenAt: 3000,
+          summary: { ...useBatteryHealthStore.getState().summary, soh: snapshot.soh },
+        })),
+    );
+    const summary = { ...useBatteryHealthStore.getState().summary, soh: 87 };
+
+    await vehicleProfiles.saveBatterySnapshot(summary);
+    expect(saved).toEqual([]);
+    expect(await vehicleProfiles.batterySnapshots()).toEqual([]);
+
+    await vehicleProfiles.attach(VIN, null);
+    await vehicleProfiles.saveBatterySnapshot(summary);
+    expect(saved).toEqual([{ vin: VIN, soh: 87 }]);
+    expect((await vehicleProfiles.batterySnapshots(1))[0].summary.soh).toBe(87);
+
+    vehicleProfiles.detach();
+    await vehicleProfiles.saveBatterySnapshot(summary);
+    expect(saved).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { Elm327 } from '../src/bluetooth/Elm327';
+import {
+  DEFAULT_WIFI_HOST,
+  DEFAULT_WIFI_PORT,
+  WifiConnectionManager,
+  parseWifiAddress,
+} from '../src/bluetooth/WifiManager';
+import { OBDProtocol } from '../src/obd/protocol';
+
+// Route react-native-tcp-socket through Node's net module so the real emulator can be used.
+jest.mock('react-native-tcp-socket', () => {
+  const net = require('net');
+  return {
+    __esModule: true,
+    default: {
+      createConnection: (options: { host: string; port: number }, onConnect: () => void) =>
+        net.createConnection({ host: options.host, port: options.port }, onConnect),
+    },
+  };
+});
+
+const { createElm327Server } = require('../scripts/elm327-emulator');
+
+// Minimal node:net shapes used below (the project has no Node type definitions).
+interface Socket {
+  destroy(): void;
+}
+interface Server {
+  listen(port: number, host: string, callback: () => void): void;
+  address(): { port: number };
+  close(callback: () => void): void;
+  on(event: 'connection', listener: (socket: Socket) => void): void;
+  off(event: 'connection', listener: (socket: Socket) => void): void;
+}
+
+describe('WifiConnectionManager', () => {
+  let server: Server;
+  let address: string;
+  const manager = new WifiConnectionManager();
+
+  beforeAll(async () => {
+    server = createElm327Server();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    address = `127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    await manager.disconnect();
+    await new Promise<void>((resolve) => server.close(resolve));
+  });
+
+  test('parseWifiAddress falls back to the adapter defaults', () => {
+    expect(parseWifiAddress('')).toEqual({ host: DEFAULT_WIFI_HOST, port: DEFAULT_WIFI_PORT });
+    expect(parseWifiAddress('10.0.0.5')).toEqual({ host: '10.0.0.5', port: DEFAULT_WIFI_PORT });
+    expect(parseWifiAddress('10.0.0.5:23')).toEqual({ host: '10.0.0.5', port: 23 });
+  });
+
+  test('initializes the emulator and reads PIDs end to end', async () => {
+    await manager.connect(address);
+    expect(manager.isConnected()).toBe(true);
+
+    const ok = await new Elm327(manager).initialize();
+    expect(ok).toBe(true);
+
+    const protocol = new OBDProtocol(manager);
+    const speed = await protocol.readPid('010D');
+    expect(speed?.value).toBeGreaterThanOrEqual(0);
+
+    // Multi-frame Mode 21 response on the hybrid ECU (7E2 2181).
+    const block = await protocol.readPid('PC_7E2_2181_V01');
+    expect(block?.value).toBeCloseTo(15.1, 0);
+
+    const supported = await protocol.querySupportedPids();
+    expect(supported).toEqual(expect.arrayContaining(['010C', '010D', '0105']));
+  }, 15000);
+
+  test('streams ATMA lines until the window ends, then is back at the prompt', async () => {
+    await manager.sendCommand('ATCAF0');
+    await manager.sendCommand('ATCRA 3CB');
+
+    const lines: string[] = [];
+    await manager.sendStreamingCommand('ATMA', 350, (line) => lines.push(line));
+
+    expect(lines.length).toBeGreaterThanOrEqual(2);
+    expect(lines.every((line) => /^3CB[0-9A-F]{14}$/.test(line))).toBe(true);
+    // The interrupt must not leave monitor output behind for the next command.
+    await manager.sendCommand('ATCRA');
+    expect(await manager.sendCommand('ATCAF1')).toBe('OK');
+  });
+
+  test('reports a dropped connection through onDisconnect', async () => {
+    const sockets: Socket[] = [];
+    const track = (socket: Socket) => sockets.push(socket);
+    server.on('connection', track);
+
+    await manager.connect(address);
+    const dropped = new Promise<void>((resolve) => manager.onDisconnect(resolve));
+    sockets.forEach((socket) => socket.destroy());
+
+    await dropped;
+    server.off('connection', track);
+    expect(manager.isConnected()).toBe(false);
+    await expect(manager.sendCommand('ATI')).rejects.toThrow('No device connected');
+  });
+});
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * ELM327 Wi-Fi adapter emulator (TCP, default port 35000).
+ *
+ * Serves the app's software ELM327 (`src/bluetooth/Elm327Emulator.ts`, simulated ZVW30 Prius)
+ * over TCP, so the Wi-Fi transport and other OBD tools can be tested on a plain Linux machine.
+ * Each connection gets its own adapter session and vehicle.
+ *
+ * Usage:
+ *   node scripts/elm327-emulator.js [--host 0.0.0.0] [--port 35000]
+ *
+ * Then connect the app (or e.g. `nc localhost 35000`) to the machine's address and port.
+ */
+
+const net = require('node:net');
+const fs = require('node:fs');
+
+const DEFAULT_PORT = 35000;
+const DEFAULT_HOST = '0.0.0.0';
+
+/** How often AT MA output is pushed to the client. */
+const MONITOR_TICK_MS = 20;
+
+// Load the TypeScript sources with the project's own compiler (Jest transforms them itself).
+if (require.extensions && !require.extensions['.ts']) {
+  const ts = require('typescript');
+  require.extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+      },
+      fileName: filename,
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+const { Elm327Emulator } = require('../src/bluetooth/Elm327Emulator');
+
+/**
+ * Create a TCP server speaking ELM327.
+ * @param options - Elm327Emulator options (script, recording, vin, ...)
+ * @returns node:net Server (call `.listen(port, host)`)
+ */
+function createElm327Server(options = {}) {
+  return net.createServer((socket) => {
+    const emulator = new Elm327Emulator(options);
+    let buffer = '';
+    let monitorTimer = null;
+
+    const stopStreaming = () => {
+      if (monitorTimer) {
+        clearInterval(monitorTimer);
+        monitorTimer = null;
+      }
+    };
+
+    socket.setEncoding('ascii');
+    socket.on('data', (chunk) => {
+      // Like a real adapter, any character interrupts AT MA (and is otherwise discarded).
+      if (emulator.isMonitoring()) {
+        stopStreaming();
+        socket.write(emulator.stopMonitor());
+        buffer = '';
+        return;
+      }
+
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf('\r')) !== -1) {
+        const line = buffer.substring(0, end).replace(/\n/g, '');
+        buffer = buffer.substring(end + 1);
+        socket.write(emulator.handle(line));
+        if (emulator.isMonitoring()) {
+          buffer = '';
+          monitorTimer = setInterval(() => socket.write(emulator.readMonitor()), MONITOR_TICK_MS);
+          return;
+        }
+      }
+    });
+    socket.on('close', stopStreaming);
+    socket.on('error', () => socket.destroy());
+  });
+}
+
+module.exports = { createElm327Server };
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const arg = (name, fallback) => {
+    const i = args.indexOf(name);
+    return i !== -1 && args[i + 1] ? args[i + 1] : fallback;
+  };
+  const port = Number(arg('--port', DEFAULT_PORT));
+  const host = arg('--host', DEFAULT_HOST);
+
+  const server = createElm327Server();
+  server.listen(port, host, () => {
+    console.log(`ELM327 emulator listening on ${host}:${port}`);
+  });
+}
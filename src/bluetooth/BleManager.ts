@@ -1,5 +1,7 @@
+import { PermissionsAndroid, Platform } from 'react-native';
 import { BleManager as RNBleManager, Device, Subscription } from 'react-native-ble-plx';
 import type { BLEDevice, ConnectionState } from '../types/obd';
+import type { Elm327Interface } from '../obd/protocol';
 
 // React Native環境で利用可能なグローバルBase64関数の型宣言
 declare function btoa(input: string): string;
@@ -23,7 +25,7 @@ const RETRY_DELAY_MS = 2000;
  * BLE通信を管理する。スキャン、接続、コマンド送受信、
  * 自動再接続を担当する。
  */
-export class BleConnectionManager {
+export class BleConnectionManager implements Elm327Interface {
   private manager: RNBleManager;
   private connectedDevice: Device | null = null;
   private connectionState: ConnectionState = 'disconnected';
@@ -34,6 +36,8 @@ export class BleConnectionManager {
   private responseResolve: ((value: string) => void) | null = null;
   private responseReject: ((reason: Error) => void) | null = null;
   private responseTimer: ReturnType<typeof setTimeout> | null = null;
+  /** ストリーミングコマンド(ATMA等)実行中の行コールバック */
+  private streamListener: ((line: string) => void) | null = null;
 
   constructor() {
     this.manager = new RNBleManager();
@@ -46,11 +50,29 @@ export class BleConnectionManager {
     return this.connectionState;
   }
 
+  /**
+   * 接続済みかどうかを返す (Elm327Interface)
+   */
+  isConnected(): boolean {
+    return this.connectedDevice !== null && this.connectionState === 'connected';
+  }
+
+  /**
+   * 接続中のデバイスを返す
+   */
+  getConnectedDevice(): Device | null {
+    return this.connectedDevice;
+  }
+
   /**
    * ELM327デバイスをスキャンして検出されたデバイス一覧を返す。
    * サービスUUIDでフィルタし、SCAN_TIMEOUT_MS後にスキャンを停止する。
+   *
+   * @param onDevice - デバイス検出ごとに呼ばれるコールバック (省略可)
    */
-  async scanForDevices(): Promise<BLEDevice[]> {
+  async scanForDevices(onDevice?: (device: BLEDevice) => void): Promise<BLEDevice[]> {
+    await this.ensureScanPermission();
+
     this.connectionState = 'scanning';
     const discovered: BLEDevice[] = [];
     const seenIds = new Set<string>();
@@ -76,11 +98,14 @@ export class BleConnectionManager {
 
           if (device && !seenIds.has(device.id)) {
             seenIds.add(device.id);
-            discovered.push({
+            const found: BLEDevice = {
               id: device.id,
               name: device.name ?? device.localName ?? null,
               rssi: device.rssi ?? null,
-            });
+              transport: 'ble',
+            };
+            discovered.push(found);
+            onDevice?.(found);
           }
         },
       );
@@ -190,14 +215,8 @@ export class BleConnectionManager {
     const commandWithCR = command + '\r';
     const encoded = this.stringToBase64(commandWithCR);
 
-    await this.connectedDevice.writeCharacteristicWithResponseForService(
-      ELM327_SERVICE_UUID,
-      ELM327_WRITE_CHARACTERISTIC,
-      encoded,
-    );
-
-    // レスポンス待ちのPromiseを返す
-    return new Promise<string>((resolve, reject) => {
+    // 書き込み完了の通知より先に応答が届くことがあるため、待ち受けを先に登録する
+    const response = new Promise<string>((resolve, reject) => {
       this.responseResolve = resolve;
       this.responseReject = reject;
 
@@ -206,6 +225,51 @@ export class BleConnectionManager {
         reject(new Error(`Command timeout: ${command}`));
       }, RESPONSE_TIMEOUT_MS);
     });
+
+    try {
+      await this.connectedDevice.writeCharacteristicWithResponseForService(
+        ELM327_SERVICE_UUID,
+        ELM327_WRITE_CHARACTERISTIC,
+        encoded,
+      );
+    } catch (err) {
+      response.catch(() => undefined);
+      this.clearPendingResponse('Write failed');
+      throw err;
+    }
+
+    return response;
+  }
+
+  /**
+   * 出力が止まらないコマンド(ATMA等)を送信し、受信した行を逐次 onLine に渡す。
+   * durationMs 経過後に CR を送ってモニタを止め、プロンプト受信で完了する。
+   */
+  async sendStreamingCommand(
+    command: string,
+    durationMs: number,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    let finished = false;
+    const done = this.sendCommand(command).finally(() => {
+      finished = true;
+    });
+    this.streamListener = onLine;
+    try {
+      await Promise.race([done, this.delay(durationMs)]);
+      // 任意の1文字でモニタが止まる。プロンプト復帰後のCRは直前コマンドの再実行になるので送らない
+      if (!finished && this.connectedDevice) {
+        await this.connectedDevice.writeCharacteristicWithResponseForService(
+          ELM327_SERVICE_UUID,
+          ELM327_WRITE_CHARACTERISTIC,
+          this.stringToBase64('\r'),
+        );
+      }
+      const rest = await done;
+      rest.split(/[\r\n]+/).map(line => line.trim()).filter(Boolean).forEach(onLine);
+    } finally {
+      this.streamListener = null;
+    }
   }
 
   /**
@@ -237,11 +301,29 @@ export class BleConnectionManager {
     const decoded = this.base64ToString(base64Value);
     this.responseBuffer += decoded;
 
+    // モニタ出力は完結した行から順に渡し、残りはプロンプト待ちのバッファに残す
+    if (this.streamListener) {
+      const promptAt = this.responseBuffer.indexOf('>');
+      const streamed = promptAt === -1 ? this.responseBuffer : this.responseBuffer.substring(0, promptAt);
+      const lastBreak = streamed.lastIndexOf('\r');
+      if (lastBreak !== -1) {
+        this.responseBuffer = this.responseBuffer.substring(lastBreak + 1);
+        for (const line of streamed.substring(0, lastBreak).split(/[\r\n]+/)) {
+          const cleaned = line.split('\u0000').join('').trim();
+          if (cleaned) {
+            this.streamListener(cleaned);
+          }
+        }
+      }
+    }
+
     // ELM327は ">" プロンプトでレスポンス完了を示す
+    // 行区切り(\r)は残す: 複数ECU応答やISO-TPマルチフレームの行単位パースに必要
     if (this.responseBuffer.includes('>')) {
       const response = this.responseBuffer
         .replace(/>/g, '')
-        .replace(/\r/g, '')
+        .split('\u0000')
+        .join('')
         .trim();
 
       if (this.responseResolve) {
@@ -273,6 +355,32 @@ export class BleConnectionManager {
     }
   }
 
+  /**
+   * Android 12以降はBLUETOOTH_SCAN / BLUETOOTH_CONNECTの実行時許可が必要。
+   * それ以前はBLEスキャンに位置情報の許可が必要。
+   */
+  private async ensureScanPermission(): Promise<void> {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    const permissions =
+      Number(Platform.Version) >= 31
+        ? [
+            PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+            PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+          ]
+        : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+
+    const results = await PermissionsAndroid.requestMultiple(permissions);
+    const denied = permissions.filter(
+      (p) => results[p] !== PermissionsAndroid.RESULTS.GRANTED,
+    );
+    if (denied.length > 0) {
+      throw new Error('Bluetooth scan permission denied');
+    }
+  }
+
   /**
    * BLE購読をクリーンアップする
    */
@@ -39,6 +39,7 @@ export class ClassicBluetoothConnectionManager implements Elm327Interface {
       name: d.name ?? null,
       // RSSI isn't always available for bonded devices. Normalize to null if missing/invalid.
       rssi: Number.isFinite(Number(d.rssi)) ? Number(d.rssi) : null,
+      transport: 'classic' as const,
     }));
   }
 
@@ -172,6 +173,29 @@ export class ClassicBluetoothConnectionManager implements Elm327Interface {
     });
   }
 
+  /**
+   * Run a streaming command (e.g. ATMA) for `durationMs`, then stop it with a CR.
+   * The native delimiter only hands over data at the prompt, so `onLine` receives the
+   * window's lines in one go when it ends.
+   */
+  async sendStreamingCommand(
+    command: string,
+    durationMs: number,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    let finished = false;
+    const done = this.sendCommand(command).finally(() => {
+      finished = true;
+    });
+    await Promise.race([done, new Promise<void>((resolve) => setTimeout(resolve, durationMs))]);
+    // Any character stops monitoring. Not once the prompt is back: a bare CR repeats the command.
+    if (!finished) {
+      await this.connectedDevice?.write('\r', 'ascii');
+    }
+    const output = await done;
+    output.split(/[\r\n]+/).map((line) => line.trim()).filter(Boolean).forEach(onLine);
+  }
+
   destroy(): void {
     this.cleanupSubscriptions();
     this.clearPendingResponse('Manager destroyed');
@@ -4,14 +4,16 @@ export interface Elm327Transport {
 
 /**
  * ELM327初期化シーケンスで送信するATコマンド群。
- * 順序が重要: リセット→エコーOFF→改行OFF→スペースOFF→ヘッダOFF→プロトコル自動検出
+ * 順序が重要: リセット→エコーOFF→改行OFF→スペースOFF→ヘッダON→プロトコル自動検出
+ * ヘッダONにすると応答元ECU(7E8/7EA等)とISO-TPのPCIが付くため、
+ * OBDProtocol側でECUごとにマルチフレームを再構成できる。
  */
 const INIT_COMMANDS: ReadonlyArray<{ command: string; description: string }> = [
   { command: 'ATZ', description: 'Reset ELM327' },
   { command: 'ATE0', description: 'Echo off' },
   { command: 'ATL0', description: 'Linefeeds off' },
   { command: 'ATS0', description: 'Spaces off' },
-  { command: 'ATH0', description: 'Headers off' },
+  { command: 'ATH1', description: 'Headers on' },
   { command: 'ATSP0', description: 'Auto protocol detection' },
 ];
 
@@ -44,7 +46,7 @@ export class Elm327 {
 
   /**
    * ELM327初期化シーケンスを実行する。
-   * ATZ → ATE0 → ATL0 → ATS0 → ATH0 → ATSP0 の順にコマンドを送信する。
+   * ATZ → ATE0 → ATL0 → ATS0 → ATH1 → ATSP0 の順にコマンドを送信する。
    *
    * @returns 初期化成功でtrue、失敗でfalse
    */
@@ -0,0 +1,662 @@
+import { VehicleSimulator } from '../utils/vehicleSimulator';
+
+/**
+ * Software ELM327 with a simulated ZVW30 Prius behind it.
+ *
+ * Answers the command set the app uses, byte-for-byte like a real adapter:
+ * - AT commands: Z, WS, I, @1, RV, DP/DPN, E/L/S/H on/off, SH, SP/TP, ST, AT, D, CAF, AL, NL,
+ *   CRA/CF/CM/AR receive filters
+ * - Mode 01 on 7DF/7E0 (engine) and 015B on 7E2 (hybrid SOC), with supported-PID bitmasks;
+ *   up to six PIDs per request are answered in one reply
+ * - Mode 21 blocks used by the app: 7E2 2181/2187/2198/2161/2162/2167/2168/2175/217D,
+ *   7E0 2149, 7C4 2121/2129
+ * - Mode 22 (ReadDataByIdentifier) F190 VIN on 7E0/7E2
+ * - Mode 09 VIN, calibration IDs, CVNs and ECU names (0902/0904/0906/090A) on 7E0/7E2
+ * - DTC services 03/07/0A/04 and Mode 02 freeze frames per ECU
+ *
+ * - AT MA bus monitoring of the powertrain broadcast frames (03B, 030, 0B4, 3C8, 3CB plus a
+ *   few frames the app does not decode); the host pulls output with `readMonitor()` and ends it
+ *   with `stopMonitor()`, like a real adapter stops on any received character
+ *
+ * Payloads over 7 bytes are printed as ISO-TP multi-frame output (CAN auto formatting:
+ * "014" + "0: ..." lines with headers off, "7EA 10 14 ..." frames with ATH1).
+ *
+ * Scripted and recorded responses take precedence over the vehicle model, so tests can
+ * reproduce adapter quirks ("NO DATA", "CAN ERROR", odd spacing) or replay a capture.
+ *
+ * The module has no React Native dependencies: `VirtualConnectionManager` uses it in the app
+ * (demo mode, Jest) and `scripts/elm327-emulator.js` serves it over TCP.
+ */
+
+/** Context passed to scripted response functions. */
+export interface EmulatorRequest {
+  /** Current ATSH header (e.g. '7DF', '7E2'). */
+  header: string;
+  /** Command without whitespace, upper case (e.g. '010D', 'ATRV'). */
+  command: string;
+}
+
+/**
+ * A scripted reply: the response body printed verbatim (without echo and prompt),
+ * or a function returning it. Returning null falls through to the vehicle model.
+ */
+export type ScriptedResponse = string | ((request: EmulatorRequest) => string | null);
+
+/** One request/response pair from a captured adapter session. */
+export interface RecordedExchange {
+  /** ATSH header active when the command was sent (omit for any header). */
+  header?: string;
+  command: string;
+  response: string;
+}
+
+export interface Elm327EmulatorOptions {
+  /**
+   * Scripted replies keyed by "<header>|<command>" (e.g. "7E2|2181") or "<command>" for any
+   * header. Commands are matched without whitespace, upper case.
+   */
+  script?: Record<string, ScriptedResponse>;
+  /**
+   * Recorded exchanges. Several responses for the same key are replayed in order and loop,
+   * so a short capture keeps producing changing values.
+   */
+  recording?: ReadonlyArray<RecordedExchange>;
+  /** Vehicle model (defaults to a new VehicleSimulator). */
+  vehicle?: VehicleSimulator;
+  /** Clock used to advance the vehicle model (defaults to Date.now). */
+  now?: () => number;
+  /** VIN reported through Mode 09 0902 and Mode 22 F190. */
+  vin?: string;
+}
+
+/** Physical request header -> response CAN id. */
+const RESPONSE_IDS: Record<string, string> = {
+  '7E0': '7E8',
+  '7E2': '7EA',
+  '7B0': '7B8',
+  '7C0': '7C8',
+  '7C4': '7CC',
+};
+
+/**
+ * ECUs answering functional (7DF) requests: Mode 01/02 only the engine, DTC services and
+ * Mode 09 both.
+ */
+const FUNCTIONAL_OBD_ECUS = ['7E0'];
+const FUNCTIONAL_DTC_ECUS = ['7E0', '7E2'];
+
+/** Mode 09 identification per ECU (the VIN is shared). */
+const ECU_IDENTIFICATION: Record<string, { calibrationId: string; cvn: number[]; name: string }> = {
+  '7E0': { calibrationId: '34715300', cvn: [0x4a, 0x1f, 0x9c, 0x02], name: 'ECM\0-EngineControl' },
+  '7E2': { calibrationId: '37961100', cvn: [0xb0, 0x3d, 0x51, 0xe7], name: 'HPCM-HybridPtCtrl' },
+};
+
+/** ASCII bytes padded with 00 to `length`. */
+const asciiBytes = (text: string, length = text.length): number[] =>
+  Array.from(text.padEnd(length, '\0'), (c) => c.charCodeAt(0));
+
+const DEFAULT_VIN = 'JTDKN3DU0A0000001';
+
+/** Vehicle model steps longer than this are split so a stalled clock does not jump phases. */
+const MAX_TICK_MS = 1000;
+
+interface EcuDtcs {
+  stored: string[];
+  pending: string[];
+  permanent: string[];
+}
+
+/** Demo DTCs per ECU (the freeze frame is taken for the first stored code). */
+function initialDtcs(): Record<string, EcuDtcs> {
+  return {
+    '7E0': { stored: ['P0301'], pending: ['P0420'], permanent: [] },
+    '7E2': { stored: ['P0A80'], pending: ['P3000'], permanent: ['P0A80'] },
+    '7B0': { stored: [], pending: ['C1259'], permanent: [] },
+    '7C0': { stored: [], pending: [], permanent: [] },
+    '7C4': { stored: [], pending: [], permanent: [] },
+  };
+}
+
+/** Broadcast frames of the powertrain bus: CAN id, period and data bytes. */
+interface BroadcastFrame {
+  id: string;
+  periodMs: number;
+  encode: Encoder;
+}
+
+const clampByte = (v: number): number => Math.max(0, Math.min(255, Math.round(v)));
+
+const u16 = (v: number): number[] => {
+  const n = Math.max(0, Math.min(65535, Math.round(v)));
+  return [Math.floor(n / 256), n % 256];
+};
+
+const hex = (b: number): string => b.toString(16).toUpperCase().padStart(2, '0');
+
+function encodeDtc(code: string): number[] {
+  const type = 'PCBU'.indexOf(code.charAt(0));
+  const value = parseInt(code.substring(1), 16);
+  return [type * 64 + Math.floor(value / 256), value % 256];
+}
+
+type Encoder = (vehicle: VehicleSimulator) => number[];
+
+/** Mode 01 data bytes by PID byte (engine ECU). */
+const MODE01: Record<number, Encoder> = {
+  0x04: (v) => [clampByte(((v.current.rpm > 100 ? 15 + v.current.throttle * 0.8 : 0) * 255) / 100)],
+  0x05: (v) => [clampByte(v.current.coolant + 40)],
+  0x0b: (v) => [clampByte(v.current.rpm > 100 ? 30 + v.current.throttle * 0.7 : 101)],
+  0x0c: (v) => u16(v.current.rpm * 4),
+  0x0d: (v) => [clampByte(v.current.speed)],
+  0x0f: (v) => [clampByte(v.current.ambientTemp + 12 + 40)],
+  0x10: (v) => u16((v.current.rpm / 1000) * (2 + v.current.throttle * 0.25) * 100),
+  0x11: (v) => [clampByte((v.current.throttle * 255) / 100)],
+  0x1f: (v) => u16(v.current.totalTime / 1000),
+  0x46: (v) => [clampByte(v.current.ambientTemp + 40)],
+  0x5e: (v) => u16((v.current.rpm / 1000) * (0.4 + v.current.throttle * 0.06) * 20),
+};
+
+/** Mode 21 payloads by ECU header and PID byte (PriusChat layouts). */
+const MODE21: Record<string, Record<number, Encoder>> = {
+  '7E0': {
+    // 2149: requested power, target rpm, actual engine torque, ...
+    0x49: (v) => {
+      const pt = v.powertrain();
+      return [
+        ...u16(pt.engineRunning ? v.current.throttle * 4 : 0),
+        clampByte(v.current.rpm / 25),
+        ...u16(pt.engineTorque + 32768),
+        0, 0, 0, 0, 0, 0, 0, 0, 0,
+      ];
+    },
+  },
+  '7E2': {
+    // 2181: V01..V14 block voltages, aux battery, pack voltage
+    0x81: (v) => {
+      const modules = v.current.moduleVoltages;
+      const blocks = Array.from({ length: 14 }, (_, i) => modules[i * 2] + modules[i * 2 + 1]);
+      return [
+        ...blocks.flatMap((b) => u16((b * 65535) / 79.99)),
+        ...u16(((v.current.aux12v + 40) * 65535) / 79.9),
+        ...u16(v.current.hvVoltage * 10),
+        0,
+      ];
+    },
+    // 2187: TB intake, TB1..TB3
+    0x87: (v) => {
+      const temps = v.current.batteryTemps;
+      const intake = v.cabinTemp;
+      return [intake, ...temps].flatMap((t) => u16(((t + 50) * 65535) / 255.9));
+    },
+    // 2198: pack current (positive = discharging), delta SOC, ...
+    0x98: (v) => [...u16((-v.current.hvCurrent + 327.68) * 100), 128, 128, 0, 0, 0, 0],
+    0x61: (v) => [80, 60, 90, ...u16(v.powertrain().mg1Rpm + 32768)],
+    0x62: (v) => [75, 58, 85, ...u16(v.powertrain().mg2Rpm + 32768)],
+    0x67: (v) => {
+      const torque = u16((v.powertrain().mg1Torque + 4096) * 8);
+      return [...torque, ...torque, 1];
+    },
+    0x68: (v) => {
+      const torque = u16((v.powertrain().mg2Torque + 4096) * 8);
+      return [...torque, ...torque, 1];
+    },
+    0x75: (v) => [v.current.acOn ? 0x20 : 0x00],
+    0x7d: (v) => [0, 0, clampByte((v.powertrain().acPowerKw * 1000) / 50)],
+  },
+  '7C4': {
+    0x21: (v) => [clampByte(((v.cabinTemp + 6.5) * 255) / 63.75)],
+    0x29: (v) => [clampByte((v.current.acSetTemp - 17.5) * 2)],
+  },
+};
+
+/** 12-bit two's complement in the low nibble of the first byte (03B pack current). */
+const s12 = (v: number): number[] => {
+  const n = Math.max(-2048, Math.min(2047, Math.round(v)));
+  const raw = n < 0 ? n + 4096 : n;
+  return [Math.floor(raw / 256), raw % 256];
+};
+
+/** Brake pedal pressure from the driving phase (no pedal model in the simulator). */
+function brakePressure(v: VehicleSimulator): number {
+  if (v.current.phase === 'decel') return 60;
+  if (v.current.phase === 'stop') return 30;
+  return 0;
+}
+
+/** ZVW30 powertrain broadcasts (same layouts as `ZVW30_CAN_SIGNALS`), plus undecoded noise. */
+const BROADCASTS: BroadcastFrame[] = [
+  {
+    id: '03B',
+    periodMs: 10,
+    encode: (v) => [...s12(-v.current.hvCurrent * 10), ...u16(v.current.hvVoltage), 0],
+  },
+  { id: '030', periodMs: 20, encode: (v) => [0, 0, 0, 0, brakePressure(v), 0, 0] },
+  {
+    id: '0B4',
+    periodMs: 20,
+    encode: (v) => [0, 0, 0, 0, 0, ...u16(v.current.speed * 100), 0],
+  },
+  {
+    id: '120',
+    periodMs: 20,
+    encode: (v) => [0, 0, 0, 0, clampByte(v.current.throttle * 2), 0, 0, 0],
+  },
+  {
+    id: '244',
+    periodMs: 50,
+    encode: (v) => [0, 0, 0, 0, 0, 0, clampByte(v.current.throttle * 2), 0],
+  },
+  {
+    id: '3C8',
+    periodMs: 50,
+    encode: (v) => [0, 0, ...u16(v.current.rpm), 0],
+  },
+  {
+    id: '3CB',
+    periodMs: 100,
+    encode: (v) => [0, 0, 0, clampByte(v.current.soc * 2), 0, 0, 0],
+  },
+];
+
+/** Frames printed per id and `readMonitor()` call at most (keeps a stalled host from flooding). */
+const MAX_MONITOR_BURST = 20;
+
+function supportedBitmask(base: number): number[] {
+  const bytes = [0, 0, 0, 0];
+  const pids = Object.keys(MODE01).map(Number);
+  for (const pid of pids) {
+    if (pid > base && pid <= base + 0x20) {
+      const bit = pid - base - 1;
+      bytes[Math.floor(bit / 8)] += 0x80 / 2 ** (bit % 8);
+    }
+  }
+  // Announce the next range if anything above it is supported.
+  if (pids.some((pid) => pid > base + 0x20)) {
+    bytes[3] += 0x01;
+  }
+  return bytes;
+}
+
+export class Elm327Emulator {
+  readonly vehicle: VehicleSimulator;
+
+  private readonly script: Record<string, ScriptedResponse>;
+  private readonly recording = new Map<string, { responses: string[]; next: number }>();
+  private readonly now: () => number;
+  private readonly vin: string;
+
+  private dtcs = initialDtcs();
+  private freezeFrames: Record<string, { code: string; vehicle: VehicleSimulator }> = {};
+  private lastTick: number;
+
+  // Adapter settings (reset by ATZ / ATWS)
+  private echo = true;
+  private linefeeds = false;
+  private spaces = true;
+  private headers = false;
+  private header = '7DF';
+  private autoFormat = true;
+  /** Receive filter: frames pass when (id & mask) === filter. */
+  private rxFilter = 0;
+  private rxMask = 0;
+
+  // AT MA state: when each broadcast id was last printed
+  private monitoring = false;
+  private lastBroadcast = new Map<string, number>();
+
+  constructor(options: Elm327EmulatorOptions = {}) {
+    this.vehicle = options.vehicle ?? new VehicleSimulator();
+    this.script = options.script ?? {};
+    this.now = options.now ?? Date.now;
+    this.vin = options.vin ?? DEFAULT_VIN;
+    this.lastTick = this.now();
+
+    for (const entry of options.recording ?? []) {
+      const key = this.keyFor(entry.header, entry.command);
+      const slot = this.recording.get(key) ?? { responses: [], next: 0 };
+      slot.responses.push(entry.response);
+      this.recording.set(key, slot);
+    }
+
+    // Freeze frames hold the conditions when the stored code was set (copied, so later
+    // ticks don't move them).
+    for (const [ecu, dtcs] of Object.entries(this.dtcs)) {
+      if (dtcs.stored.length > 0) {
+        this.freezeFrames[ecu] = { code: dtcs.stored[0], vehicle: this.vehicle.clone() };
+      }
+    }
+  }
+
+  /**
+   * Handle one command line (without the trailing CR).
+   * @returns Everything the adapter prints: echo, response lines and the '>' prompt
+   */
+  handle(line: string): string {
+    const command = line.replace(/\s+/g, '').toUpperCase();
+
+    // Monitoring streams until interrupted: no response body and no prompt yet.
+    if (command === 'ATMA' && this.lookupScript(command) === null) {
+      this.advanceVehicle();
+      this.monitoring = true;
+      this.lastBroadcast = new Map(BROADCASTS.map((frame) => [frame.id, this.now()]));
+      return this.echo ? `${line.trim()}${this.linefeeds ? '\r\n' : '\r'}` : '';
+    }
+
+    const body = command === '' ? [] : this.execute(command);
+    const eol = this.linefeeds ? '\r\n' : '\r';
+    const echo = this.echo ? `${line.trim()}${eol}` : '';
+    return `${echo}${body.join(eol)}${eol}${eol}>`;
+  }
+
+  /** Whether AT MA output is streaming (until `stopMonitor()`). */
+  isMonitoring(): boolean {
+    return this.monitoring;
+  }
+
+  /**
+   * Broadcast frames that passed the receive filter since the previous call, one line each
+   * (empty when not monitoring). Frames carry the vehicle state at the time of the call.
+   */
+  readMonitor(): string {
+    if (!this.monitoring) {
+      return '';
+    }
+    this.advanceVehicle();
+
+    const now = this.now();
+    const eol = this.linefeeds ? '\r\n' : '\r';
+    let output = '';
+    for (const frame of BROADCASTS) {
+      const last = this.lastBroadcast.get(frame.id) ?? now;
+      const count = Math.floor((now - last) / frame.periodMs);
+      if (count <= 0) {
+        continue;
+      }
+      this.lastBroadcast.set(frame.id, last + count * frame.periodMs);
+
+      const id = parseInt(frame.id, 16);
+      if ((id & this.rxMask) !== this.rxFilter) {
+        continue;
+      }
+      const line = this.formatBroadcast(frame.id, frame.encode(this.vehicle));
+      output += `${line}${eol}`.repeat(Math.min(count, MAX_MONITOR_BURST));
+    }
+    return output;
+  }
+
+  /**
+   * Interrupt monitoring (the host sent a character).
+   * @returns The rest of the output up to the prompt
+   */
+  stopMonitor(): string {
+    if (!this.monitoring) {
+      return '';
+    }
+    const rest = this.readMonitor();
+    this.monitoring = false;
+    const eol = this.linefeeds ? '\r\n' : '\r';
+    return `${rest}${eol}>`;
+  }
+
+  private execute(command: string): string[] {
+    this.advanceVehicle();
+
+    const scripted = this.lookupScript(command);
+    if (scripted !== null) {
+      return scripted.split(/\r\n|\r|\n/);
+    }
+
+    if (command.startsWith('AT')) {
+      return this.executeAt(command.substring(2));
+    }
+    if (!/^[0-9A-F]+$/.test(command) || command.length % 2 !== 0) {
+      return ['?'];
+    }
+    return this.executeObd(command);
+  }
+
+  private keyFor(header: string | undefined, command: string): string {
+    const compact = command.replace(/\s+/g, '').toUpperCase();
+    return header ? `${header.trim().toUpperCase()}|${compact}` : compact;
+  }
+
+  private lookupScript(command: string): string | null {
+    const request: EmulatorRequest = { header: this.header, command };
+    for (const key of [this.keyFor(this.header, command), command]) {
+      const entry = this.script[key];
+      if (entry !== undefined) {
+        const response = typeof entry === 'function' ? entry(request) : entry;
+        if (response !== null) {
+          return response;
+        }
+      }
+
+      const recorded = this.recording.get(key);
+      if (recorded) {
+        const response = recorded.responses[recorded.next];
+        recorded.next = (recorded.next + 1) % recorded.responses.length;
+        return response;
+      }
+    }
+    return null;
+  }
+
+  private advanceVehicle(): void {
+    const now = this.now();
+    let elapsed = now - this.lastTick;
+    this.lastTick = now;
+    while (elapsed > 0) {
+      const dt = Math.min(elapsed, MAX_TICK_MS);
+      this.vehicle.tick(dt);
+      elapsed -= dt;
+    }
+  }
+
+  private resetSettings(): void {
+    this.echo = true;
+    this.linefeeds = false;
+    this.spaces = true;
+    this.headers = false;
+    this.header = '7DF';
+    this.autoFormat = true;
+    this.rxFilter = 0;
+    this.rxMask = 0;
+  }
+
+  private executeAt(at: string): string[] {
+    if (at === 'Z' || at === 'WS') {
+      this.resetSettings();
+      return ['', 'ELM327 v1.5'];
+    }
+    if (at === 'I') return ['ELM327 v1.5'];
+    if (at === '@1') return ['OBDII to RS232 Interpreter'];
+    if (at === 'RV') return [`${this.vehicle.current.aux12v.toFixed(1)}V`];
+    if (at === 'DP') return ['AUTO, ISO 15765-4 (CAN 11/500)'];
+    if (at === 'DPN') return ['A6'];
+
+    const flag = at.match(/^([ELSH])([01])$/);
+    if (flag) {
+      const on = flag[2] === '1';
+      if (flag[1] === 'E') this.echo = on;
+      if (flag[1] === 'L') this.linefeeds = on;
+      if (flag[1] === 'S') this.spaces = on;
+      if (flag[1] === 'H') this.headers = on;
+      return ['OK'];
+    }
+
+    const sh = at.match(/^SH([0-9A-F]{3})$/);
+    if (sh) {
+      this.header = sh[1];
+      return ['OK'];
+    }
+
+    const caf = at.match(/^CAF([01])$/);
+    if (caf) {
+      this.autoFormat = caf[1] === '1';
+      return ['OK'];
+    }
+
+    // Receive filters. CRA takes X as "don't care"; plain CRA or AR restore the defaults.
+    if (at === 'CRA' || at === 'AR') {
+      this.rxFilter = 0;
+      this.rxMask = 0;
+      return ['OK'];
+    }
+    const cra = at.match(/^CRA([0-9A-FX]{3})$/);
+    if (cra) {
+      this.rxMask = parseInt(cra[1].replace(/[0-9A-F]/g, 'F').replace(/X/g, '0'), 16);
+      this.rxFilter = parseInt(cra[1].replace(/X/g, '0'), 16) & this.rxMask;
+      return ['OK'];
+    }
+    const cfm = at.match(/^C([FM])([0-9A-F]{3})$/);
+    if (cfm) {
+      if (cfm[1] === 'F') this.rxFilter = parseInt(cfm[2], 16);
+      if (cfm[1] === 'M') this.rxMask = parseInt(cfm[2], 16);
+      return ['OK'];
+    }
+
+    if (
+      /^(SP|TP)A?[0-9A-C]$/.test(at) ||
+      /^(ST|AT)[0-9A-F]+$/.test(at) ||
+      /^(D|M0|AL|NL)$/.test(at)
+    ) {
+      return ['OK'];
+    }
+    return ['?'];
+  }
+
+  private executeObd(request: string): string[] {
+    const bytes = (request.match(/.{2}/g) ?? []).map((b) => parseInt(b, 16));
+    const mode = bytes[0];
+
+    let targets = [this.header];
+    if (this.header === '7DF') {
+      targets = [0x03, 0x04, 0x07, 0x09, 0x0a].includes(mode)
+        ? FUNCTIONAL_DTC_ECUS
+        : FUNCTIONAL_OBD_ECUS;
+    }
+
+    const lines: string[] = [];
+    for (const ecu of targets) {
+      const payload = this.respond(ecu, bytes);
+      if (payload) {
+        lines.push(...this.format(RESPONSE_IDS[ecu] ?? '7E8', payload));
+      }
+    }
+    return lines.length > 0 ? lines : ['NO DATA'];
+  }
+
+  /** ECU response payload (service byte first) or null when the ECU stays silent. */
+  private respond(ecu: string, request: number[]): number[] | null {
+    const dtcs = this.dtcs[ecu];
+    if (!dtcs) return null;
+
+    const [mode, pid, frame] = request;
+    switch (mode) {
+      case 0x01: {
+        // Up to six PIDs per request; the ECU answers the ones it supports, in order.
+        const data = request.slice(1, 7).flatMap((p) => {
+          const bytes = this.mode01(ecu, p);
+          return bytes ? [p, ...bytes] : [];
+        });
+        return data.length > 0 ? [0x41, ...data] : null;
+      }
+      case 0x02: {
+        const ff = this.freezeFrames[ecu];
+        if (!ff || (frame ?? 0) !== 0) {
+          return pid === 0x02 ? [0x42, pid, 0x00, 0x00, 0x00] : null;
+        }
+        if (pid === 0x02) return [0x42, pid, 0x00, ...encodeDtc(ff.code)];
+        const encode = MODE01[pid];
+        return encode ? [0x42, pid, 0x00, ...encode(ff.vehicle)] : null;
+      }
+      case 0x03:
+      case 0x07:
+      case 0x0a: {
+        const list = mode === 0x03 ? dtcs.stored : mode === 0x07 ? dtcs.pending : dtcs.permanent;
+        return [mode + 0x40, list.length, ...list.flatMap(encodeDtc)];
+      }
+      case 0x04:
+        // Permanent codes survive a clear until the monitor passes again.
+        dtcs.stored = [];
+        dtcs.pending = [];
+        delete this.freezeFrames[ecu];
+        return [0x44];
+      case 0x21: {
+        const encode = MODE21[ecu]?.[pid];
+        return encode ? [0x61, pid, ...encode(this.vehicle)] : [0x7f, 0x21, 0x12];
+      }
+      case 0x09: {
+        // 49 [type] [item count] [items]; VIN and ECU name are multi-frame.
+        const id = ECU_IDENTIFICATION[ecu];
+        if (!id) return null;
+        if (pid === 0x02) return [0x49, pid, 0x01, ...asciiBytes(this.vin, 17)];
+        if (pid === 0x04) return [0x49, pid, 0x01, ...asciiBytes(id.calibrationId, 16)];
+        if (pid === 0x06) return [0x49, pid, 0x01, ...id.cvn];
+        if (pid === 0x0a) return [0x49, pid, 0x01, ...asciiBytes(id.name, 20)];
+        return [0x7f, 0x09, 0x12];
+      }
+      case 0x22: {
+        const did = pid * 256 + frame;
+        if (did === 0xf190 && (ecu === '7E0' || ecu === '7E2')) {
+          return [0x62, pid, frame, ...Array.from(this.vin, (c) => c.charCodeAt(0))];
+        }
+        return [0x7f, 0x22, 0x31];
+      }
+      default:
+        return [0x7f, mode, 0x11];
+    }
+  }
+
+  /** Mode 01 data bytes of one PID, or null if the ECU does not support it. */
+  private mode01(ecu: string, pid: number): number[] | null {
+    if (ecu === '7E2' && pid === 0x5b) {
+      return [clampByte(this.vehicle.current.soc * 2.55)];
+    }
+    if (ecu !== '7E0') return null;
+    if (pid === 0x00 || pid === 0x20 || pid === 0x40) {
+      return supportedBitmask(pid);
+    }
+    const encode = MODE01[pid];
+    return encode ? encode(this.vehicle) : null;
+  }
+
+  /** Print a monitored frame: with CAN auto formatting off there is no PCI byte. */
+  private formatBroadcast(id: string, data: number[]): string {
+    const sep = this.spaces ? ' ' : '';
+    const bytes = this.autoFormat ? [data.length, ...data] : data;
+    const line = bytes.map(hex).join(sep);
+    return this.headers ? `${id}${sep}${line}` : line;
+  }
+
+  /** Print a payload as the adapter would (single frame or ISO-TP multi-frame). */
+  private format(rxId: string, payload: number[]): string[] {
+    const sep = this.spaces ? ' ' : '';
+    const join = (arr: number[]) => arr.map(hex).join(sep);
+
+    if (payload.length <= 7) {
+      const line = join(payload);
+      return [this.headers ? `${rxId}${sep}${hex(payload.length)}${sep}${line}` : line];
+    }
+
+    const frames = [payload.slice(0, 6)];
+    for (let i = 6; i < payload.length; i += 7) {
+      const chunk = payload.slice(i, i + 7);
+      while (chunk.length < 7) chunk.push(0);
+      frames.push(chunk);
+    }
+
+    if (this.headers) {
+      const first = [0x10 + Math.floor(payload.length / 256), payload.length % 256, ...frames[0]];
+      return frames.map((data, i) =>
+        i === 0 ? `${rxId}${sep}${join(first)}` : `${rxId}${sep}${join([0x20 + (i % 16), ...data])}`,
+      );
+    }
+
+    const length = payload.length.toString(16).toUpperCase().padStart(3, '0');
+    return [
+      length,
+      ...frames.map((data, i) => `${(i % 16).toString(16).toUpperCase()}:${sep}${join(data)}`),
+    ];
+  }
+}
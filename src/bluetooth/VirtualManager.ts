@@ -0,0 +1,175 @@
+import type { BLEDevice, ConnectionState } from '../types/obd';
+import type { Elm327Interface } from '../obd/protocol';
+import { Elm327Emulator, type Elm327EmulatorOptions } from './Elm327Emulator';
+
+/** Simulated adapter + CAN round trip per command (a real ELM327 takes 30-80 ms). */
+const DEFAULT_LATENCY_MS = 20;
+
+/** How often monitor output is pulled from the emulator while streaming. */
+const MONITOR_TICK_MS = 20;
+
+export interface VirtualConnectionOptions extends Elm327EmulatorOptions {
+  /** Delay before each response resolves (0 = answer immediately). */
+  latencyMs?: number;
+}
+
+/**
+ * In-process "connection" to a software ELM327 (`Elm327Emulator`).
+ *
+ * Behaves like the Bluetooth / Wi-Fi managers towards `Elm327` and `OBDProtocol`: commands go in
+ * as text, responses come back with the echo and prompt stripped. Demo mode and Jest tests use it
+ * to run the real initialization, protocol and PID decode path without an adapter.
+ */
+export class VirtualConnectionManager implements Elm327Interface {
+  private emulator: Elm327Emulator | null = null;
+  private deviceId: string | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+  private disconnectCallback: (() => void) | null = null;
+  private inFlight = false;
+
+  private readonly options: VirtualConnectionOptions;
+
+  constructor(options: VirtualConnectionOptions = {}) {
+    this.options = options;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  isConnected(): boolean {
+    return this.emulator !== null && this.connectionState === 'connected';
+  }
+
+  getConnectedDevice(): BLEDevice | null {
+    if (!this.deviceId) {
+      return null;
+    }
+    return { id: this.deviceId, name: 'Virtual ELM327', rssi: null, transport: 'virtual' };
+  }
+
+  /** The emulator behind the current connection (null while disconnected). */
+  getEmulator(): Elm327Emulator | null {
+    return this.emulator;
+  }
+
+  /** "Connect": power up a fresh emulator (vehicle state, DTCs and adapter settings reset). */
+  async connect(deviceId: string): Promise<void> {
+    await this.disconnect();
+    this.emulator = new Elm327Emulator(this.options);
+    this.deviceId = deviceId;
+    this.connectionState = 'connected';
+  }
+
+  async disconnect(): Promise<void> {
+    this.emulator = null;
+    this.deviceId = null;
+    this.inFlight = false;
+    this.connectionState = 'disconnected';
+  }
+
+  onDisconnect(callback: () => void): void {
+    this.disconnectCallback = callback;
+  }
+
+  /** Simulate the adapter going away (ignition off, out of range). */
+  simulateDisconnect(): void {
+    if (!this.emulator) {
+      return;
+    }
+    this.disconnect().catch(() => undefined);
+    this.disconnectCallback?.();
+  }
+
+  /**
+   * Send an AT/OBD command and await the ELM327 response.
+   * Like a real adapter only one command may be in flight.
+   */
+  async sendCommand(command: string): Promise<string> {
+    const emulator = this.emulator;
+    if (!emulator) {
+      throw new Error('No device connected');
+    }
+    if (this.inFlight) {
+      throw new Error('Another command is already in-flight');
+    }
+
+    this.inFlight = true;
+    try {
+      const latency = this.options.latencyMs ?? DEFAULT_LATENCY_MS;
+      if (latency > 0) {
+        await new Promise<void>((resolve) => setTimeout(resolve, latency));
+      }
+      if (this.emulator !== emulator) {
+        throw new Error('Disconnected');
+      }
+
+      const output = emulator.handle(command);
+      return this.stripEchoAndPrompt(command, output);
+    } finally {
+      if (this.emulator === emulator) {
+        this.inFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Run a streaming command (AT MA) for `durationMs`, passing each output line to `onLine`,
+   * then interrupt it like a real adapter. Other commands are answered at once.
+   */
+  async sendStreamingCommand(
+    command: string,
+    durationMs: number,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    const emulator = this.emulator;
+    if (!emulator) {
+      throw new Error('No device connected');
+    }
+    if (this.inFlight) {
+      throw new Error('Another command is already in-flight');
+    }
+
+    this.inFlight = true;
+    const emit = (text: string) => {
+      text
+        .replace(/>$/, '')
+        .split(/[\r\n]+/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .forEach(onLine);
+    };
+    try {
+      const started = this.stripEchoAndPrompt(command, emulator.handle(command));
+      emit(started);
+      if (!emulator.isMonitoring()) {
+        return;
+      }
+
+      const endAt = Date.now() + durationMs;
+      while (Date.now() < endAt) {
+        await new Promise<void>((resolve) =>
+          setTimeout(resolve, Math.min(MONITOR_TICK_MS, Math.max(0, endAt - Date.now()))),
+        );
+        if (this.emulator !== emulator) {
+          throw new Error('Disconnected');
+        }
+        emit(emulator.readMonitor());
+      }
+      emit(emulator.stopMonitor());
+    } finally {
+      if (this.emulator === emulator) {
+        this.inFlight = false;
+      }
+    }
+  }
+
+  private stripEchoAndPrompt(command: string, output: string): string {
+    let text = output.replace(/>$/, '');
+    const echo = command.trim();
+    if (echo && text.startsWith(echo)) {
+      text = text.substring(echo.length);
+    }
+    return text.trim();
+  }
+}
@@ -0,0 +1,293 @@
+import TcpSocket from 'react-native-tcp-socket';
+
+import type { BLEDevice, ConnectionState } from '../types/obd';
+import type { Elm327Interface } from '../obd/protocol';
+
+const RESPONSE_TIMEOUT_MS = 5000;
+const CONNECT_TIMEOUT_MS = 5000;
+
+/** Factory address of most Wi-Fi ELM327 adapters (they run their own access point). */
+export const DEFAULT_WIFI_HOST = '192.168.0.10';
+export const DEFAULT_WIFI_PORT = 35000;
+
+export interface WifiAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Parse a "host:port" device id. Missing parts fall back to the adapter defaults.
+ */
+export function parseWifiAddress(address: string): WifiAddress {
+  const [hostPart, portPart] = address.trim().split(':');
+  const port = Number(portPart);
+  return {
+    host: hostPart || DEFAULT_WIFI_HOST,
+    port: Number.isInteger(port) && port > 0 && port < 65536 ? port : DEFAULT_WIFI_PORT,
+  };
+}
+
+/** Device id used for a Wi-Fi adapter ("host:port"). */
+export function formatWifiAddress({ host, port }: WifiAddress): string {
+  return `${host}:${port}`;
+}
+
+/**
+ * Wi-Fi (TCP) connection manager for ELM327 adapters.
+ *
+ * Notes:
+ * - Wi-Fi adapters expose the ELM327 as a raw TCP stream (no pairing); the phone must be joined
+ *   to the adapter's access point.
+ * - TCP has no message framing, so incoming bytes are buffered until the ELM327 prompt ('>')
+ *   arrives, giving the same one-response-per-command behaviour as the Classic manager.
+ * - `scripts/elm327-emulator.js` speaks the same protocol for testing without a car.
+ */
+export class WifiConnectionManager implements Elm327Interface {
+  private socket: TcpSocket.Socket | null = null;
+  private connectedAddress: WifiAddress | null = null;
+  private connectionState: ConnectionState = 'disconnected';
+
+  private disconnectCallback: (() => void) | null = null;
+
+  private receiveBuffer = '';
+  private responseResolve: ((value: string) => void) | null = null;
+  private responseReject: ((reason: Error) => void) | null = null;
+  private responseTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Receives monitor output line by line while a streaming command runs. */
+  private streamListener: ((line: string) => void) | null = null;
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null && this.connectionState === 'connected';
+  }
+
+  getConnectedDevice(): BLEDevice | null {
+    if (!this.connectedAddress) {
+      return null;
+    }
+    return {
+      id: formatWifiAddress(this.connectedAddress),
+      name: null,
+      rssi: null,
+      transport: 'wifi',
+    };
+  }
+
+  /**
+   * Open a TCP connection to the adapter.
+   * @param address - "host:port" (defaults: 192.168.0.10:35000)
+   */
+  async connect(address: string): Promise<void> {
+    // Clean up any prior state.
+    await this.disconnect().catch(() => undefined);
+
+    const target = parseWifiAddress(address);
+    this.connectionState = 'connecting';
+
+    const socket = await new Promise<TcpSocket.Socket>((resolve, reject) => {
+      let settled = false;
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        s.destroy();
+        reject(error);
+      };
+
+      const timer = setTimeout(
+        () => fail(new Error(`Connection timeout: ${formatWifiAddress(target)}`)),
+        CONNECT_TIMEOUT_MS,
+      );
+
+      const s = TcpSocket.createConnection(
+        { host: target.host, port: target.port, connectTimeout: CONNECT_TIMEOUT_MS },
+        () => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          resolve(s);
+        },
+      );
+      s.once('error', (error) => fail(error instanceof Error ? error : new Error(String(error))));
+    }).catch((error: Error) => {
+      this.connectionState = 'error';
+      throw error;
+    });
+
+    this.socket = socket;
+    this.connectedAddress = target;
+    this.receiveBuffer = '';
+
+    socket.setEncoding('ascii');
+    socket.on('data', (data) => {
+      this.handleIncomingData(typeof data === 'string' ? data : data.toString('ascii'));
+    });
+    socket.on('error', () => {
+      if (this.socket === socket) {
+        this.handleUnexpectedDisconnect();
+      }
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.handleUnexpectedDisconnect();
+      }
+    });
+
+    this.connectionState = 'connected';
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearPendingResponse('Disconnected');
+
+    const socket = this.socket;
+    this.socket = null;
+    this.connectedAddress = null;
+    this.receiveBuffer = '';
+
+    socket?.destroy();
+
+    this.connectionState = 'disconnected';
+  }
+
+  onDisconnect(callback: () => void): void {
+    this.disconnectCallback = callback;
+  }
+
+  /**
+   * Send an AT/OBD command and await a full ELM327 response.
+   * The response is complete when the ELM327 prompt ('>') is received.
+   */
+  async sendCommand(command: string): Promise<string> {
+    if (!this.socket) {
+      throw new Error('No device connected');
+    }
+    if (this.connectionState !== 'connected') {
+      throw new Error(`Cannot send command in state: ${this.connectionState}`);
+    }
+
+    // Prevent overlapping in-flight commands.
+    if (this.responseResolve) {
+      throw new Error('Another command is already in-flight');
+    }
+
+    // Drop any stale bytes (late replies, banner after a reset).
+    this.receiveBuffer = '';
+
+    return new Promise<string>((resolve, reject) => {
+      this.responseResolve = resolve;
+      this.responseReject = reject;
+
+      this.responseTimer = setTimeout(() => {
+        this.clearPendingResponse('Response timeout');
+        reject(new Error(`Command timeout: ${command}`));
+      }, RESPONSE_TIMEOUT_MS);
+
+      this.socket?.write(`${command}\r`, 'ascii');
+    });
+  }
+
+  /**
+   * Run a streaming command (e.g. ATMA): lines are handed to `onLine` as they arrive, and after
+   * `durationMs` a CR stops the adapter. Resolves at the prompt.
+   */
+  async sendStreamingCommand(
+    command: string,
+    durationMs: number,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    let finished = false;
+    const done = this.sendCommand(command).finally(() => {
+      finished = true;
+    });
+    this.streamListener = onLine;
+    try {
+      await Promise.race([done, new Promise<void>((resolve) => setTimeout(resolve, durationMs))]);
+      // Any character stops monitoring. Not once the prompt is back: a bare CR repeats the command.
+      if (!finished) {
+        this.socket?.write('\r', 'ascii');
+      }
+      const rest = await done;
+      rest.split(/[\r\n]+/).map((line) => line.trim()).filter(Boolean).forEach(onLine);
+    } finally {
+      this.streamListener = null;
+    }
+  }
+
+  destroy(): void {
+    this.clearPendingResponse('Manager destroyed');
+    this.socket?.destroy();
+    this.socket = null;
+    this.connectedAddress = null;
+    this.connectionState = 'disconnected';
+    this.disconnectCallback = null;
+  }
+
+  private handleIncomingData(chunk: string): void {
+    this.receiveBuffer += chunk;
+
+    if (this.streamListener) {
+      // Monitor output: hand over complete lines now, leave the rest for the prompt handling.
+      const promptAt = this.receiveBuffer.indexOf('>');
+      const streamed = promptAt === -1 ? this.receiveBuffer : this.receiveBuffer.substring(0, promptAt);
+      const lastBreak = streamed.lastIndexOf('\r');
+      if (lastBreak !== -1) {
+        this.receiveBuffer = this.receiveBuffer.substring(lastBreak + 1);
+        for (const line of streamed.substring(0, lastBreak).split(/[\r\n]+/)) {
+          const cleaned = line.split('\u0000').join('').trim();
+          if (cleaned) {
+            this.streamListener(cleaned);
+          }
+        }
+      }
+    }
+
+    const promptIndex = this.receiveBuffer.indexOf('>');
+    if (promptIndex === -1) {
+      return;
+    }
+
+    const message = this.receiveBuffer.substring(0, promptIndex);
+    this.receiveBuffer = this.receiveBuffer.substring(promptIndex + 1);
+
+    const cleaned = message.split('\u0000').join('').trim();
+
+    if (this.responseResolve) {
+      if (this.responseTimer) {
+        clearTimeout(this.responseTimer);
+        this.responseTimer = null;
+      }
+
+      const resolve = this.responseResolve;
+      this.responseResolve = null;
+      this.responseReject = null;
+
+      resolve(cleaned);
+    }
+  }
+
+  private handleUnexpectedDisconnect(): void {
+    this.clearPendingResponse('Device disconnected unexpectedly');
+    this.socket?.destroy();
+    this.socket = null;
+    this.connectedAddress = null;
+    this.connectionState = 'disconnected';
+
+    this.disconnectCallback?.();
+  }
+
+  private clearPendingResponse(reason: string): void {
+    if (this.responseTimer) {
+      clearTimeout(this.responseTimer);
+      this.responseTimer = null;
+    }
+    if (this.responseReject) {
+      const reject = this.responseReject;
+      this.responseResolve = null;
+      this.responseReject = null;
+      reject(new Error(reason));
+    }
+  }
+}
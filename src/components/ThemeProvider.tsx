@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+import { useSettingsStore } from '../store/settingsStore';
+import { DARK_THEME, isNightTime, resolveTheme, type ThemeColors } from '../utils/theme';
+
+/** 夜間判定の再評価間隔 (ms) */
+const NIGHT_CHECK_INTERVAL_MS = 60_000;
+
+const ThemeContext = createContext<ThemeColors>(DARK_THEME);
+
+/**
+ * テーマプロバイダー
+ *
+ * 設定のテーマと夜間減光から現在のパレットを決め、配下の全画面に配る。
+ * 夜間減光が有効な間は1分ごとに時刻を確認し、昼夜の切り替わりで再描画する。
+ */
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const mode = useSettingsStore((s) => s.theme);
+  const nightDimming = useSettingsStore((s) => s.nightDimming);
+  const [night, setNight] = useState(() => isNightTime(new Date()));
+
+  useEffect(() => {
+    if (!nightDimming) {
+      return;
+    }
+    setNight(isNightTime(new Date()));
+    const timer = setInterval(() => {
+      setNight(isNightTime(new Date()));
+    }, NIGHT_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [nightDimming]);
+
+  const theme = useMemo(
+    () => resolveTheme(mode, nightDimming && night),
+    [mode, nightDimming, night],
+  );
+
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+/** 現在のテーマパレット */
+export function useTheme(): ThemeColors {
+  return useContext(ThemeContext);
+}
+
+/**
+ * テーマに依存するスタイルシート
+ *
+ * createStyles はモジュールスコープで定義した関数を渡すこと
+ * (テーマが変わったときだけ作り直す)。
+ */
+export function useThemedStyles<T>(createStyles: (theme: ThemeColors) => T): T {
+  const theme = useTheme();
+  return useMemo(() => createStyles(theme), [createStyles, theme]);
+}
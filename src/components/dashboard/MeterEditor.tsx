@@ -0,0 +1,433 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { pidPacks } from '../../obd/pidPacks';
+import type { MeterConfig, MeterType } from '../../types/obd';
+import { useSettingsStore, useUnitPreferences } from '../../store/settingsStore';
+import {
+  clampMeter,
+  createMeter,
+  meterSignal,
+  meterSignalList,
+  type MeterSignal,
+} from '../../utils/meterLayout';
+import { signalConversion } from '../../utils/units';
+import type { ThemeColors } from '../../utils/theme';
+import { useTheme, useThemedStyles } from '../ThemeProvider';
+
+interface MeterEditorProps {
+  visible: boolean;
+  /** 編集対象 (null = 新規追加) */
+  meter: MeterConfig | null;
+  /** 新規メーターの空き位置を探すための既存メーター */
+  existing: MeterConfig[];
+  onSubmit: (meter: MeterConfig) => void;
+  onClose: () => void;
+}
+
+const METER_TYPES: Array<{ value: MeterType; label: string }> = [
+  { value: 'gauge', label: 'Gauge' },
+  { value: 'bar', label: 'Bar' },
+  { value: 'digital', label: 'Digital' },
+];
+
+/** 空欄 = 未設定 (PidDefinition の値を使う) */
+const parseNumber = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const optionalText = (text: string): string | undefined => text.trim() || undefined;
+
+const numberText = (value: number | undefined): string =>
+  value === undefined ? '' : String(Number(value.toFixed(2)));
+
+/**
+ * メーター編集モーダル
+ *
+ * 表示するシグナル (STANDARD_PIDS / TOYOTA_PIDS / 派生シグナル) とメーター種類を選び、
+ * 表示名・単位・範囲を必要に応じて上書きする。空欄の項目はシグナルの定義値に従う。
+ * 範囲は表示単位 (mph, °F など) で入力し、保存時にシグナルの単位へ戻す。
+ */
+export const MeterEditor: React.FC<MeterEditorProps> = ({
+  visible,
+  meter,
+  existing,
+  onSubmit,
+  onClose,
+}) => {
+  const [pid, setPid] = useState('');
+  const [type, setType] = useState<MeterType>('gauge');
+  const [search, setSearch] = useState('');
+  const [label, setLabel] = useState('');
+  const [unit, setUnit] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const prefs = useUnitPreferences();
+  // ユーザー定義の派生シグナルが変わったら一覧を作り直す
+  const userSignals = useSettingsStore((s) => s.derivedSignals);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  // 開くたびに編集対象の内容で初期化する
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setPid(meter?.pid ?? '');
+    setType(meter?.type ?? 'gauge');
+    setSearch('');
+    setLabel(meter?.label ?? '');
+    setUnit(meter?.unit ?? '');
+
+    // 範囲を上書きしている場合だけ、表示単位に変換して両端を入力欄に出す
+    const def = meter ? meterSignal(meter.pid) : undefined;
+    if (meter && def && (meter.min !== undefined || meter.max !== undefined)) {
+      const range = signalConversion(meter.pid, prefs).convertRange(
+        meter.min ?? def.min,
+        meter.max ?? def.max,
+      );
+      setMin(numberText(range.min));
+      setMax(numberText(range.max));
+    } else {
+      setMin('');
+      setMax('');
+    }
+  }, [visible, meter, prefs]);
+
+  // meterSignalList() は derivedSignals と PID パックが登録した一覧を読むため、
+  // どちらかが登録し直したら作り直す
+  const [signalList, setSignalList] = useState<MeterSignal[]>(meterSignalList);
+  useEffect(() => {
+    setSignalList(meterSignalList());
+    return pidPacks.onChange(() => setSignalList(meterSignalList()));
+  }, [userSignals]);
+
+  const signals = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) {
+      return signalList;
+    }
+    return signalList.filter(
+      (def) =>
+        def.pid.toLowerCase().includes(query) ||
+        def.name.toLowerCase().includes(query) ||
+        def.shortName.toLowerCase().includes(query),
+    );
+  }, [search, signalList]);
+
+  const selected: MeterSignal | undefined = meterSignal(pid);
+  const conversion = signalConversion(pid, prefs);
+  const defaultRange = selected
+    ? conversion.convertRange(selected.min, selected.max)
+    : undefined;
+
+  // シグナルを変えたら上書き値は捨てる (前のシグナルの単位・範囲は意味を持たないため)
+  const selectSignal = (nextPid: string) => {
+    if (nextPid !== pid) {
+      setPid(nextPid);
+      setLabel('');
+      setUnit('');
+      setMin('');
+      setMax('');
+    }
+  };
+
+  const handleSave = () => {
+    if (!selected) {
+      return;
+    }
+    const base = meter ?? createMeter(pid, type, existing);
+
+    // 入力された表示単位の範囲をシグナルの単位に戻す (L/100km のように大小が逆転する単位もある)
+    let range: { min?: number; max?: number } = { min: undefined, max: undefined };
+    const displayMin = parseNumber(min);
+    const displayMax = parseNumber(max);
+    if (displayMin !== undefined || displayMax !== undefined) {
+      const a = conversion.revert(displayMin ?? defaultRange?.min ?? 0);
+      const b = conversion.revert(displayMax ?? defaultRange?.max ?? 0);
+      range = { min: Math.min(a, b), max: Math.max(a, b) };
+    }
+
+    onSubmit(
+      clampMeter({
+        ...base,
+        pid,
+        type,
+        label: optionalText(label),
+        unit: optionalText(unit),
+        ...range,
+      }),
+    );
+  };
+
+  const renderSignal = ({ item }: { item: MeterSignal }) => (
+    <TouchableOpacity
+      style={[styles.signalRow, item.pid === pid && styles.signalRowSelected]}
+      onPress={() => selectSignal(item.pid)}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.signalName}>{item.name}</Text>
+      <Text style={styles.signalMeta}>
+        {item.pid} · {signalConversion(item.pid, prefs).unit || '-'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{meter ? 'Edit Meter' : 'Add Meter'}</Text>
+
+          <View style={styles.columns}>
+            {/* 左: シグナル選択 */}
+            <View style={styles.signalColumn}>
+              <TextInput
+                style={styles.input}
+                value={search}
+                onChangeText={setSearch}
+                placeholder="Search signals"
+                placeholderTextColor={theme.textDim}
+                autoCorrect={false}
+              />
+              <FlatList
+                data={signals}
+                keyExtractor={(def) => def.pid}
+                renderItem={renderSignal}
+                style={styles.signalList}
+                keyboardShouldPersistTaps="handled"
+              />
+            </View>
+
+            {/* 右: 種類と表示設定 */}
+            <View style={styles.optionColumn}>
+              <Text style={styles.fieldLabel}>TYPE</Text>
+              <View style={styles.typeRow}>
+                {METER_TYPES.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.typeButton, type === option.value && styles.typeButtonActive]}
+                    onPress={() => setType(option.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[styles.typeText, type === option.value && styles.typeTextActive]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.fieldLabel}>LABEL</Text>
+              <TextInput
+                style={styles.input}
+                value={label}
+                onChangeText={setLabel}
+                placeholder={selected?.shortName ?? ''}
+                placeholderTextColor={theme.textDim}
+              />
+
+              <Text style={styles.fieldLabel}>UNIT</Text>
+              <TextInput
+                style={styles.input}
+                value={unit}
+                onChangeText={setUnit}
+                placeholder={selected ? conversion.unit : ''}
+                placeholderTextColor={theme.textDim}
+              />
+
+              <View style={styles.rangeRow}>
+                <View style={styles.rangeField}>
+                  <Text style={styles.fieldLabel}>MIN</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={min}
+                    onChangeText={setMin}
+                    placeholder={numberText(defaultRange?.min)}
+                    placeholderTextColor={theme.textDim}
+                    keyboardType="numeric"
+                  />
+                </View>
+                <View style={styles.rangeField}>
+                  <Text style={styles.fieldLabel}>MAX</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={max}
+                    onChangeText={setMax}
+                    placeholder={numberText(defaultRange?.max)}
+                    placeholderTextColor={theme.textDim}
+                    keyboardType="numeric"
+                  />
+                </View>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.button} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonPrimary, !selected && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={!selected}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.buttonText, styles.buttonPrimaryText]}>
+                {meter ? 'Save' : 'Add'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    backgroundColor: theme.bgCard,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusLg,
+    width: '100%',
+    maxWidth: 760,
+    maxHeight: '90%',
+    padding: 20,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  columns: {
+    flexDirection: 'row',
+    gap: 16,
+    flexShrink: 1,
+  },
+  signalColumn: {
+    flex: 3,
+  },
+  signalList: {
+    marginTop: 8,
+    maxHeight: 320,
+  },
+  signalRow: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: theme.radiusSm,
+  },
+  signalRowSelected: {
+    backgroundColor: theme.primaryGlow,
+  },
+  signalName: {
+    color: theme.text,
+    fontSize: 14,
+  },
+  signalMeta: {
+    color: theme.textDim,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  optionColumn: {
+    flex: 2,
+  },
+  fieldLabel: {
+    color: theme.textDim,
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  typeButton: {
+    flex: 1,
+    alignItems: 'center',
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingVertical: 6,
+  },
+  typeButtonActive: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primaryGlow,
+  },
+  typeText: {
+    color: theme.textSecondary,
+    fontSize: 13,
+  },
+  typeTextActive: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rangeField: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  button: {
+    backgroundColor: theme.bgElevated,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  buttonPrimary: {
+    borderColor: theme.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonPrimaryText: {
+    color: theme.primary,
+  },
+});
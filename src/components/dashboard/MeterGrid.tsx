@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LayoutChangeEvent,
+  PanResponder,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import type { MeterConfig } from '../../types/obd';
+import { MeterTile } from './MeterTile';
+import { DASHBOARD_COLUMNS, DASHBOARD_ROWS, clampMeter } from '../../utils/meterLayout';
+import type { ThemeColors } from '../../utils/theme';
+import { useThemedStyles } from '../ThemeProvider';
+
+interface MeterGridProps {
+  meters: MeterConfig[];
+  /** 編集モード (ドラッグ移動・リサイズ・削除が有効になる) */
+  editing: boolean;
+  /** 移動・リサイズ確定時 (セル単位に丸め済み) */
+  onChange: (meter: MeterConfig) => void;
+  onRemove: (meterId: string) => void;
+  /** タイルをタップしたとき (編集モードのみ) */
+  onEdit: (meter: MeterConfig) => void;
+}
+
+interface EditableMeterProps extends Omit<MeterGridProps, 'meters'> {
+  meter: MeterConfig;
+  cellWidth: number;
+  cellHeight: number;
+}
+
+/** ドラッグ中のずれ (px) */
+interface DragOffset {
+  dx: number;
+  dy: number;
+}
+
+const NO_OFFSET: DragOffset = { dx: 0, dy: 0 };
+
+/** これ以下の移動量はタップとして扱う (px) */
+const TAP_SLOP = 4;
+
+/**
+ * グリッド上の1メーター
+ *
+ * 編集モードではタイル本体のドラッグで移動、右下ハンドルのドラッグでリサイズする。
+ * ドラッグ中はpx単位で追従し、指を離した時点でセルに合わせて確定する。
+ */
+const EditableMeter: React.FC<EditableMeterProps> = ({
+  meter,
+  cellWidth,
+  cellHeight,
+  editing,
+  onChange,
+  onRemove,
+  onEdit,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const [move, setMove] = useState<DragOffset>(NO_OFFSET);
+  const [resize, setResize] = useState<DragOffset>(NO_OFFSET);
+
+  const moveResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => editing,
+        onMoveShouldSetPanResponder: () => editing,
+        onPanResponderMove: (_evt, gesture) => setMove({ dx: gesture.dx, dy: gesture.dy }),
+        onPanResponderRelease: (_evt, gesture) => {
+          setMove(NO_OFFSET);
+          if (Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP) {
+            onEdit(meter);
+            return;
+          }
+          onChange(
+            clampMeter({
+              ...meter,
+              position: {
+                x: meter.position.x + Math.round(gesture.dx / cellWidth),
+                y: meter.position.y + Math.round(gesture.dy / cellHeight),
+              },
+            }),
+          );
+        },
+        onPanResponderTerminate: () => setMove(NO_OFFSET),
+      }),
+    [editing, meter, cellWidth, cellHeight, onChange, onEdit],
+  );
+
+  const resizeResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderMove: (_evt, gesture) => setResize({ dx: gesture.dx, dy: gesture.dy }),
+        onPanResponderRelease: (_evt, gesture) => {
+          setResize(NO_OFFSET);
+          onChange(
+            clampMeter({
+              ...meter,
+              size: {
+                width: meter.size.width + Math.round(gesture.dx / cellWidth),
+                height: meter.size.height + Math.round(gesture.dy / cellHeight),
+              },
+            }),
+          );
+        },
+        onPanResponderTerminate: () => setResize(NO_OFFSET),
+      }),
+    [meter, cellWidth, cellHeight, onChange],
+  );
+
+  const width = Math.max(cellWidth, meter.size.width * cellWidth + resize.dx);
+  const height = Math.max(cellHeight, meter.size.height * cellHeight + resize.dy);
+
+  return (
+    <View
+      style={[
+        styles.meter,
+        {
+          left: meter.position.x * cellWidth + move.dx,
+          top: meter.position.y * cellHeight + move.dy,
+          width,
+          height,
+        },
+        editing && styles.meterEditing,
+        (move !== NO_OFFSET || resize !== NO_OFFSET) && styles.meterDragging,
+      ]}
+      {...(editing ? moveResponder.panHandlers : {})}
+    >
+      <View pointerEvents="none">
+        <MeterTile meter={meter} width={width} height={height} />
+      </View>
+
+      {editing && (
+        <>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => onRemove(meter.id)}
+            hitSlop={8}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.removeText}>{'×'}</Text>
+          </TouchableOpacity>
+          <View style={styles.resizeHandle} {...resizeResponder.panHandlers} />
+        </>
+      )}
+    </View>
+  );
+};
+
+/**
+ * ダッシュボードのメーター配置エリア
+ *
+ * 領域を DASHBOARD_COLUMNS x DASHBOARD_ROWS のセルに分割し、
+ * MeterConfig の位置・サイズ (セル単位) に従ってメーターを絶対配置する。
+ */
+export const MeterGrid: React.FC<MeterGridProps> = ({ meters, ...handlers }) => {
+  const styles = useThemedStyles(createStyles);
+  const [area, setArea] = useState({ width: 0, height: 0 });
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setArea({ width, height });
+  };
+
+  const cellWidth = area.width / DASHBOARD_COLUMNS;
+  const cellHeight = area.height / DASHBOARD_ROWS;
+
+  return (
+    <View style={styles.grid} onLayout={handleLayout}>
+      {handlers.editing && area.width > 0 && (
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          {Array.from({ length: DASHBOARD_COLUMNS - 1 }, (_, i) => (
+            <View
+              key={`c${i}`}
+              style={[styles.gridLineVertical, { left: (i + 1) * cellWidth }]}
+            />
+          ))}
+          {Array.from({ length: DASHBOARD_ROWS - 1 }, (_, i) => (
+            <View
+              key={`r${i}`}
+              style={[styles.gridLineHorizontal, { top: (i + 1) * cellHeight }]}
+            />
+          ))}
+        </View>
+      )}
+
+      {area.width > 0 &&
+        meters.map((meter) => (
+          <EditableMeter
+            key={meter.id}
+            meter={meter}
+            cellWidth={cellWidth}
+            cellHeight={cellHeight}
+            {...handlers}
+          />
+        ))}
+    </View>
+  );
+};
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  grid: {
+    flex: 1,
+  },
+  gridLineVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: theme.borderSubtle,
+  },
+  gridLineHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: theme.borderSubtle,
+  },
+  meter: {
+    position: 'absolute',
+  },
+  meterEditing: {
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderStyle: 'dashed',
+    borderRadius: theme.radiusSm,
+  },
+  meterDragging: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primaryGlow,
+    zIndex: 10,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: theme.accent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeText: {
+    color: theme.text,
+    fontSize: 16,
+    fontWeight: '700',
+    lineHeight: 18,
+  },
+  resizeHandle: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 22,
+    height: 22,
+    borderRightWidth: 3,
+    borderBottomWidth: 3,
+    borderColor: theme.primary,
+    borderBottomRightRadius: theme.radiusSm,
+  },
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import type { MeterConfig } from '../../types/obd';
+import { GaugeMeter } from '../meters/GaugeMeter';
+import { BarMeter } from '../meters/BarMeter';
+import { DigitalMeter } from '../meters/DigitalMeter';
+import { useOBDStore } from '../../store/obdStore';
+import { useUnitPreferences } from '../../store/settingsStore';
+import { resolveMeter } from '../../utils/meterLayout';
+import { signalConversion } from '../../utils/units';
+import { pidDecimals } from '../../utils/formatter';
+
+interface MeterTileProps {
+  meter: MeterConfig;
+  /** タイルの幅 (px) */
+  width: number;
+  /** タイルの高さ (px) */
+  height: number;
+}
+
+/** タイル内側の余白 (px) */
+const TILE_PADDING = 6;
+
+/**
+ * MeterConfig 1件分のメーター
+ *
+ * 割り当てられたシグナルの最新値を購読し、種類 (gauge/bar/digital) に応じた
+ * メーターをタイルサイズに合わせて描画する。
+ * 未設定の表示名・単位・範囲はシグナルの PidDefinition から補う。
+ * 値・範囲・閾値は PidDefinition の単位から表示単位 (mph, °F など) に変換して表示する。
+ */
+export const MeterTile = React.memo(function MeterTile({ meter, width, height }: MeterTileProps) {
+  const rawValue = useOBDStore((s) => s.data[meter.pid]?.value ?? 0);
+  const unitPrefs = useUnitPreferences();
+  const conversion = signalConversion(meter.pid, unitPrefs);
+  const resolved = resolveMeter(meter);
+
+  // unit の上書きは表示ラベルのみ (値は常にシグナルの単位から変換する)
+  const label = resolved.label;
+  const unit = meter.unit ?? conversion.unit;
+  const { min, max } = conversion.convertRange(resolved.min, resolved.max);
+  const value = conversion.convert(rawValue);
+  const warningThreshold = conversion.convertThreshold(meter.warningThreshold);
+  const dangerThreshold = conversion.convertThreshold(meter.dangerThreshold);
+
+  const innerWidth = Math.max(0, width - TILE_PADDING * 2);
+  const innerHeight = Math.max(0, height - TILE_PADDING * 2);
+
+  let content: React.ReactNode;
+  switch (meter.type) {
+    case 'gauge':
+      content = (
+        <GaugeMeter
+          value={value}
+          min={min}
+          max={max}
+          unit={unit}
+          label={label}
+          size={Math.min(innerWidth, innerHeight)}
+          warningThreshold={warningThreshold}
+          dangerThreshold={dangerThreshold}
+        />
+      );
+      break;
+    case 'bar':
+      content = (
+        <BarMeter
+          value={value}
+          min={min}
+          max={max}
+          unit={unit}
+          label={label}
+          width={innerWidth}
+          height={Math.min(innerHeight, 80)}
+          warningThreshold={warningThreshold}
+        />
+      );
+      break;
+    case 'digital':
+      content = (
+        <DigitalMeter
+          value={value}
+          unit={unit}
+          label={label}
+          decimals={pidDecimals(meter.pid)}
+          fontSize={Math.max(14, Math.min(48, innerHeight * 0.4))}
+        />
+      );
+      break;
+  }
+
+  return <View style={[styles.tile, { width, height }]}>{content}</View>;
+});
+
+const styles = StyleSheet.create({
+  tile: {
+    padding: TILE_PADDING,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Modal,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import type { DashboardLayout } from '../../types/obd';
+import { isFileAccessAvailable, pickTextFile, saveTextFile } from '../../storage/documentFiles';
+import { useSettingsStore } from '../../store/settingsStore';
+import { createPage, exportPages, importPages } from '../../utils/dashboardPages';
+import type { ThemeColors } from '../../utils/theme';
+import { useTheme, useThemedStyles } from '../ThemeProvider';
+
+const EXPORT_FILE_NAME = 'obd_meter_dashboards.json';
+
+/** JSONを application/octet-stream として扱うファイルマネージャもある */
+const JSON_MIME_TYPES = ['application/json', 'text/plain', 'application/octet-stream'];
+
+interface PageManagerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface PageRowProps {
+  page: DashboardLayout;
+  index: number;
+  count: number;
+}
+
+/**
+ * ページ1行分 (名前変更・並べ替え・複製・削除)
+ */
+const PageRow: React.FC<PageRowProps> = ({ page, index, count }) => {
+  const renamePage = useSettingsStore((s) => s.renamePage);
+  const movePage = useSettingsStore((s) => s.movePage);
+  const duplicatePage = useSettingsStore((s) => s.duplicatePage);
+  const removePage = useSettingsStore((s) => s.removePage);
+
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [name, setName] = useState(page.name);
+
+  useEffect(() => {
+    setName(page.name);
+  }, [page.name]);
+
+  // 空欄で確定した場合は元の名前に戻す
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== page.name) {
+      renamePage(page.id, trimmed);
+    } else {
+      setName(page.name);
+    }
+  };
+
+  const confirmRemove = () => {
+    Alert.alert('Delete Page', `Delete "${page.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => removePage(page.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.pageRow}>
+      <TextInput
+        style={[styles.input, styles.nameInput]}
+        value={name}
+        onChangeText={setName}
+        onEndEditing={commitName}
+        onSubmitEditing={commitName}
+        placeholderTextColor={theme.textDim}
+      />
+      <Text style={styles.meterCount}>{page.meters.length} meters</Text>
+      <TouchableOpacity
+        style={[styles.iconButton, index === 0 && styles.buttonDisabled]}
+        onPress={() => movePage(page.id, index - 1)}
+        disabled={index === 0}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.iconText}>{'↑'}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.iconButton, index === count - 1 && styles.buttonDisabled]}
+        onPress={() => movePage(page.id, index + 1)}
+        disabled={index === count - 1}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.iconText}>{'↓'}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => duplicatePage(page.id)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.iconText}>Copy</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.iconButton, count <= 1 && styles.buttonDisabled]}
+        onPress={confirmRemove}
+        disabled={count <= 1}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.iconText, styles.deleteText]}>{'×'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/**
+ * ダッシュボードページの管理モーダル
+ *
+ * ページの追加・名前変更・並べ替え・複製・削除と、JSONファイルでのエクスポート/インポートを行う。
+ * エクスポートは選んだフォルダに .json を書き出し、インポートは選んだ .json を読み込む。
+ * ファイルを扱えない環境 (Web など) では、Share API での共有とJSONの貼り付けで代用する。
+ */
+export const PageManager: React.FC<PageManagerProps> = ({ visible, onClose }) => {
+  const pages = useSettingsStore((s) => s.dashboardPages);
+  const addPage = useSettingsStore((s) => s.addPage);
+  const addImportedPages = useSettingsStore((s) => s.importPages);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  // インポート用の貼り付け欄 (null = 非表示)
+  const [importText, setImportText] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setImportText(null);
+    }
+  }, [visible]);
+
+  const handleExport = async () => {
+    try {
+      if (isFileAccessAvailable()) {
+        if (await saveTextFile(EXPORT_FILE_NAME, 'application/json', exportPages(pages))) {
+          Alert.alert('Export', `Saved ${EXPORT_FILE_NAME}.`);
+        }
+        return;
+      }
+      await Share.share({
+        message: exportPages(pages),
+        title: EXPORT_FILE_NAME,
+      });
+    } catch (err) {
+      if ((err as Error).message !== 'User did not share') {
+        Alert.alert('Error', 'Failed to export dashboard pages.');
+        console.warn('Export dashboard pages failed:', err);
+      }
+    }
+  };
+
+  /** @returns 取り込めたら true (失敗はアラートで伝える) */
+  const importJson = (json: string): boolean => {
+    try {
+      const imported = importPages(json);
+      addImportedPages(imported);
+      Alert.alert('Import', `Imported ${imported.length} page(s).`);
+      return true;
+    } catch (err) {
+      Alert.alert('Import failed', err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleImport = () => {
+    if (importJson(importText ?? '')) {
+      setImportText(null);
+    }
+  };
+
+  const handleImportFile = async () => {
+    try {
+      const file = await pickTextFile(JSON_MIME_TYPES);
+      if (file) {
+        importJson(file.text);
+      }
+    } catch (err) {
+      Alert.alert('Import failed', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Dashboard Pages</Text>
+
+          <FlatList
+            data={pages}
+            keyExtractor={(page) => page.id}
+            renderItem={({ item, index }) => (
+              <PageRow page={item} index={index} count={pages.length} />
+            )}
+            style={styles.list}
+            keyboardShouldPersistTaps="handled"
+          />
+
+          {importText !== null && (
+            <View style={styles.importBox}>
+              <TextInput
+                style={[styles.input, styles.importInput]}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder="Paste the exported JSON here"
+                placeholderTextColor={theme.textDim}
+                multiline
+                autoCorrect={false}
+                autoCapitalize="none"
+              />
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.button}
+                  onPress={() => setImportText(null)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonPrimary]}
+                  onPress={handleImport}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.buttonText, styles.buttonPrimaryText]}>Import</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => addPage(createPage(`Page ${pages.length + 1}`))}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>+ New Page</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={handleExport}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Export</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={isFileAccessAvailable() ? handleImportFile : () => setImportText('')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Import</Text>
+            </TouchableOpacity>
+            <View style={styles.spacer} />
+            <TouchableOpacity
+              style={[styles.button, styles.buttonPrimary]}
+              onPress={onClose}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.buttonText, styles.buttonPrimaryText]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    backgroundColor: theme.bgCard,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusLg,
+    width: '100%',
+    maxWidth: 640,
+    maxHeight: '90%',
+    padding: 20,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  list: {
+    flexGrow: 0,
+    maxHeight: 320,
+  },
+  pageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    borderBottomColor: theme.borderSubtle,
+    borderBottomWidth: 1,
+  },
+  input: {
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  meterCount: {
+    color: theme.textDim,
+    fontSize: 11,
+    width: 64,
+    textAlign: 'right',
+  },
+  iconButton: {
+    minWidth: 32,
+    alignItems: 'center',
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 6,
+    paddingVertical: 5,
+  },
+  iconText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: theme.accent,
+  },
+  importBox: {
+    marginTop: 12,
+  },
+  importInput: {
+    height: 120,
+    fontFamily: 'monospace',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  spacer: {
+    flex: 1,
+  },
+  button: {
+    backgroundColor: theme.bgElevated,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  buttonPrimary: {
+    borderColor: theme.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonPrimaryText: {
+    color: theme.primary,
+  },
+});
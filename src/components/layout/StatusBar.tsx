@@ -2,27 +2,21 @@ import React, { useEffect, useRef } from 'react';
 import { Animated, Easing, StyleSheet, Text, View } from 'react-native';
 import { useConnectionStore } from '../../store/connectionStore';
 import { useOBDStore } from '../../store/obdStore';
-import { useSettingsStore } from '../../store/settingsStore';
 import type { ConnectionState } from '../../types/obd';
-
-/** カラーパレット */
-const Colors = {
-  background: '#1a1a2e',
-  text: '#ffffff',
-  subText: '#888888',
-  success: '#00ff88',
-  error: '#e94560',
-  primary: '#00d4ff',
-  recording: '#e94560',
-} as const;
+import type { ThemeColors } from '../../utils/theme';
+import { useTheme, useThemedStyles } from '../ThemeProvider';
 
 /** BLE接続状態に対応する色 */
-const CONNECTION_STATE_COLORS: Record<ConnectionState, string> = {
-  disconnected: Colors.error,
-  scanning: Colors.primary,
-  connecting: Colors.primary,
-  connected: Colors.success,
-  error: Colors.error,
+const connectionStateColor = (state: ConnectionState, theme: ThemeColors): string => {
+  switch (state) {
+    case 'connected':
+      return theme.success;
+    case 'disconnected':
+    case 'error':
+      return theme.accent;
+    default:
+      return theme.primary;
+  }
 };
 
 /** BLE接続状態に対応するラベル */
@@ -31,6 +25,7 @@ const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
   scanning: 'Scanning...',
   connecting: 'Connecting...',
   connected: 'Connected',
+  reconnecting: 'Reconnecting...',
   error: 'Error',
 };
 
@@ -42,20 +37,19 @@ const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
  * - 中央: ELM327プロトコル状態
  * - 右: ログ記録中インジケーター (赤点滅)
  *
- * connectionStore, obdStore, settingsStore をsubscribeして
+ * connectionStore, obdStore をsubscribeして
  * リアルタイムに状態を反映する。
  */
 export function ConnectionStatusBar(): React.JSX.Element {
   const connectionState = useConnectionStore(s => s.state);
   const device = useConnectionStore(s => s.device);
   const isElm327Ready = useConnectionStore(s => s.isElm327Ready);
-  const pollingActive = useOBDStore(s => s.pollingActive);
-  const autoLog = useSettingsStore(s => s.autoLog);
-
-  const isRecording = pollingActive && autoLog;
+  const isRecording = useOBDStore(s => s.recording);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   // 接続状態の色
-  const connectionColor = CONNECTION_STATE_COLORS[connectionState];
+  const connectionColor = connectionStateColor(connectionState, theme);
 
   // デバイス名 or 接続状態ラベル
   const deviceLabel =
@@ -107,6 +101,7 @@ export function ConnectionStatusBar(): React.JSX.Element {
  */
 function RecordingIndicator(): React.JSX.Element {
   const opacity = useRef(new Animated.Value(1)).current;
+  const styles = useThemedStyles(createStyles);
 
   useEffect(() => {
     const animation = Animated.loop(
@@ -141,15 +136,15 @@ function RecordingIndicator(): React.JSX.Element {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     height: 40,
-    backgroundColor: Colors.background,
+    backgroundColor: theme.bgElevated,
     flexDirection: 'row',
     alignItems: 'center',
     paddingHorizontal: 16,
     borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: '#2a2a3e',
+    borderBottomColor: theme.border,
   },
 
   // 左セクション: BLE接続状態
@@ -165,7 +160,7 @@ const styles = StyleSheet.create({
     marginRight: 8,
   },
   deviceText: {
-    color: Colors.text,
+    color: theme.text,
     fontSize: 13,
     fontWeight: '500',
     maxWidth: 150,
@@ -177,7 +172,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   protocolText: {
-    color: Colors.subText,
+    color: theme.textSecondary,
     fontSize: 12,
     fontWeight: '500',
   },
@@ -195,17 +190,17 @@ const styles = StyleSheet.create({
     width: 8,
     height: 8,
     borderRadius: 4,
-    backgroundColor: Colors.recording,
+    backgroundColor: theme.accent,
     marginRight: 6,
   },
   recordingText: {
-    color: Colors.recording,
+    color: theme.accent,
     fontSize: 11,
     fontWeight: '700',
     letterSpacing: 1,
   },
   noRecordingText: {
-    color: Colors.subText,
+    color: theme.textSecondary,
     fontSize: 12,
   },
 });
@@ -12,20 +12,21 @@ import Animated, {
   useAnimatedProps,
   withSpring,
 } from 'react-native-reanimated';
-import { THEME } from '../../utils/theme';
+import type { ThemeColors } from '../../utils/theme';
+import { useThemedStyles } from '../ThemeProvider';
 
 const AnimatedRect = Animated.createAnimatedComponent(Rect);
 
-const COLORS = {
-  background: THEME.bg,
-  barBackground: THEME.borderSubtle,
-  text: THEME.text,
-  value: THEME.accent,
-  label: THEME.textDim,
-  gradientStart: THEME.success,
-  gradientMid: THEME.warning,
-  gradientEnd: THEME.accent,
-};
+const createColors = (theme: ThemeColors) => ({
+  background: theme.bg,
+  barBackground: theme.borderSubtle,
+  text: theme.text,
+  value: theme.accent,
+  label: theme.textDim,
+  gradientStart: theme.success,
+  gradientMid: theme.warning,
+  gradientEnd: theme.accent,
+});
 
 interface BarMeterProps {
   value: number;
@@ -56,6 +57,8 @@ export const BarMeter: React.FC<BarMeterProps> = ({
   warningThreshold,
 }) => {
   const animatedRatio = useSharedValue(0);
+  const colors = useThemedStyles(createColors);
+  const styles = useThemedStyles(createStyles);
 
   useEffect(() => {
     const clamped = Math.max(min, Math.min(max, value));
@@ -82,16 +85,16 @@ export const BarMeter: React.FC<BarMeterProps> = ({
   // 値の色を決定
   const getValueColor = () => {
     if (warningThreshold !== undefined && value >= warningThreshold) {
-      return COLORS.gradientEnd;
+      return colors.gradientEnd;
     }
     const ratio = (value - min) / (max - min);
     if (ratio > 0.8) {
-      return COLORS.gradientEnd;
+      return colors.gradientEnd;
     }
     if (ratio > 0.5) {
-      return COLORS.gradientMid;
+      return colors.gradientMid;
     }
-    return COLORS.gradientStart;
+    return colors.gradientStart;
   };
 
   const displayValue = Math.max(min, Math.min(max, value));
@@ -112,9 +115,9 @@ export const BarMeter: React.FC<BarMeterProps> = ({
       <Svg width={width} height={barHeight + barPadding * 2}>
         <Defs>
           <LinearGradient id="barGradient" x1="0" y1="0" x2="1" y2="0">
-            <Stop offset="0" stopColor={COLORS.gradientStart} stopOpacity="1" />
-            <Stop offset="0.5" stopColor={COLORS.gradientMid} stopOpacity="1" />
-            <Stop offset="1" stopColor={COLORS.gradientEnd} stopOpacity="1" />
+            <Stop offset="0" stopColor={colors.gradientStart} stopOpacity="1" />
+            <Stop offset="0.5" stopColor={colors.gradientMid} stopOpacity="1" />
+            <Stop offset="1" stopColor={colors.gradientEnd} stopOpacity="1" />
           </LinearGradient>
           <ClipPath id="barClip">
             <Rect
@@ -136,7 +139,7 @@ export const BarMeter: React.FC<BarMeterProps> = ({
           height={barHeight}
           rx={cornerRadius}
           ry={cornerRadius}
-          fill={COLORS.barBackground}
+          fill={colors.barBackground}
         />
 
         {/* 値バー (アニメーション) */}
@@ -158,7 +161,7 @@ export const BarMeter: React.FC<BarMeterProps> = ({
             y={0}
             width={2}
             height={barHeight + barPadding * 2}
-            fill={COLORS.gradientMid}
+            fill={colors.gradientMid}
             opacity={0.7}
           />
         )}
@@ -170,7 +173,7 @@ export const BarMeter: React.FC<BarMeterProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     alignItems: 'flex-start',
     justifyContent: 'center',
@@ -185,12 +188,12 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'],
   },
   unitText: {
-    color: COLORS.label,
+    color: theme.textDim,
     fontWeight: '500',
     marginLeft: 4,
   },
   labelText: {
-    color: COLORS.label,
+    color: theme.textDim,
     fontWeight: '500',
     marginTop: 2,
   },
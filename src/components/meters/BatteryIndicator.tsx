@@ -18,28 +18,32 @@ import Animated, {
   cancelAnimation,
   Easing,
 } from 'react-native-reanimated';
-import { THEME } from '../../utils/theme';
+import type { ThemeColors } from '../../utils/theme';
+import { useThemedStyles } from '../ThemeProvider';
+import { useUnitPreferences } from '../../store/settingsStore';
+import { unitConversion } from '../../utils/units';
 
 const AnimatedRect = Animated.createAnimatedComponent(Rect);
 
-const COLORS = {
-  background: THEME.bgElevated,
-  batteryBorder: THEME.textDim,
-  batteryFill: THEME.borderSubtle,
-  socHigh: THEME.success,
-  socMid: THEME.warning,
-  socLow: THEME.accent,
-  charging: THEME.primary,
-  discharging: THEME.warning,
-  text: THEME.text,
-  label: THEME.textSecondary,
-  subValue: THEME.textDim,
-};
+const createColors = (theme: ThemeColors) => ({
+  background: theme.bgElevated,
+  batteryBorder: theme.textDim,
+  batteryFill: theme.borderSubtle,
+  socHigh: theme.success,
+  socMid: theme.warning,
+  socLow: theme.accent,
+  charging: theme.primary,
+  discharging: theme.warning,
+  text: theme.text,
+  label: theme.textSecondary,
+  subValue: theme.textDim,
+});
 
 interface BatteryIndicatorProps {
   soc: number;
   voltage: number;
   current: number;
+  /** HVバッテリー温度 (°C、表示は設定の単位系に変換する) */
   temperature: number;
 }
 
@@ -57,10 +61,13 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
   temperature,
 }) => {
   const animatedSoc = useSharedValue(0);
+  const colors = useThemedStyles(createColors);
+  const styles = useThemedStyles(createStyles);
   const flashOpacity = useSharedValue(1);
   const chargePulse = useSharedValue(0);
   const isLowSoc = soc < 20;
   const isCurrentActive = current !== 0;
+  const temperatureUnit = unitConversion('\u00B0C', useUnitPreferences());
 
   // SOCアニメーション
   useEffect(() => {
@@ -127,9 +134,9 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
 
   // SOCに応じたバーの色
   const getSocColor = () => {
-    if (soc < 20) { return COLORS.socLow; }
-    if (soc < 50) { return COLORS.socMid; }
-    return COLORS.socHigh;
+    if (soc < 20) { return colors.socLow; }
+    if (soc < 50) { return colors.socMid; }
+    return colors.socHigh;
   };
 
   // 点滅アニメーションスタイル (SOC低下時)
@@ -140,12 +147,12 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
   // 充放電状態テキスト
   const getChargeStatus = () => {
     if (current > 0.5) {
-      return { text: 'CHARGING', color: COLORS.charging, symbol: '+' };
+      return { text: 'CHARGING', color: colors.charging, symbol: '+' };
     }
     if (current < -0.5) {
-      return { text: 'DISCHARGING', color: COLORS.discharging, symbol: '-' };
+      return { text: 'DISCHARGING', color: colors.discharging, symbol: '-' };
     }
-    return { text: 'IDLE', color: COLORS.label, symbol: '' };
+    return { text: 'IDLE', color: colors.label, symbol: '' };
   };
 
   const chargeStatus = getChargeStatus();
@@ -193,8 +200,8 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
               height={batteryHeight}
               rx={batteryCornerRadius}
               ry={batteryCornerRadius}
-              fill={COLORS.batteryFill}
-              stroke={COLORS.batteryBorder}
+              fill={colors.batteryFill}
+              stroke={colors.batteryBorder}
               strokeWidth={batteryBorderWidth}
             />
 
@@ -206,7 +213,7 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
               height={batteryTerminalHeight}
               rx={3}
               ry={3}
-              fill={COLORS.batteryBorder}
+              fill={colors.batteryBorder}
             />
 
             {/* SOC塗りつぶし (アニメーション) */}
@@ -234,7 +241,7 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
                   y={batteryBorderWidth + fillPadding}
                   width={1}
                   height={fillHeight}
-                  fill={COLORS.background}
+                  fill={colors.background}
                   opacity={0.4}
                 />
               );
@@ -262,7 +269,7 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
           <Text
             style={[
               styles.subInfoValue,
-              { color: current > 0.5 ? COLORS.charging : current < -0.5 ? COLORS.discharging : COLORS.text },
+              { color: current > 0.5 ? colors.charging : current < -0.5 ? colors.discharging : colors.text },
             ]}
           >
             {chargeStatus.symbol}
@@ -277,27 +284,27 @@ export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
           <Text
             style={[
               styles.subInfoValue,
-              { color: temperature > 45 ? COLORS.socLow : COLORS.text },
+              { color: temperature > 45 ? colors.socLow : colors.text },
             ]}
           >
-            {temperature.toFixed(0)}
+            {temperatureUnit.convert(temperature).toFixed(0)}
           </Text>
-          <Text style={styles.subInfoUnit}>{'\u00B0C'}</Text>
+          <Text style={styles.subInfoUnit}>{temperatureUnit.unit}</Text>
         </View>
       </View>
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
     borderRadius: 16,
     padding: 12,
     borderWidth: 1,
-    borderColor: THEME.borderSubtle,
+    borderColor: theme.borderSubtle,
   },
   statusRow: {
     flexDirection: 'row',
@@ -336,7 +343,7 @@ const styles = StyleSheet.create({
     marginTop: 10,
     paddingTop: 10,
     borderTopWidth: 1,
-    borderTopColor: THEME.borderSubtle,
+    borderTopColor: theme.borderSubtle,
   },
   subInfoItem: {
     flexDirection: 'row',
@@ -344,13 +351,13 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
   },
   subInfoValue: {
-    color: COLORS.text,
+    color: theme.text,
     fontSize: 16,
     fontWeight: '600',
     fontVariant: ['tabular-nums'],
   },
   subInfoUnit: {
-    color: COLORS.subValue,
+    color: theme.textDim,
     fontSize: 12,
     fontWeight: '500',
     marginLeft: 2,
@@ -358,6 +365,6 @@ const styles = StyleSheet.create({
   subInfoDivider: {
     width: 1,
     height: 16,
-    backgroundColor: THEME.borderSubtle,
+    backgroundColor: theme.borderSubtle,
   },
 });
@@ -7,15 +7,8 @@ import Animated, {
   withTiming,
   Easing,
 } from 'react-native-reanimated';
-import { THEME } from '../../utils/theme';
-
-const COLORS = {
-  background: THEME.bgElevated,
-  value: THEME.primary,
-  unit: THEME.textDim,
-  label: THEME.textSecondary,
-  text: THEME.text,
-};
+import type { ThemeColors } from '../../utils/theme';
+import { useThemedStyles } from '../ThemeProvider';
 
 interface DigitalMeterProps {
   value: number;
@@ -42,6 +35,7 @@ export const DigitalMeter: React.FC<DigitalMeterProps> = ({
   const opacity = useSharedValue(1);
   const scale = useSharedValue(1);
   const prevValueRef = useRef(value);
+  const styles = useThemedStyles(createStyles);
 
   // 値変化時のフェードアニメーション
   useEffect(() => {
@@ -93,19 +87,19 @@ export const DigitalMeter: React.FC<DigitalMeterProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: COLORS.background,
+    backgroundColor: theme.bgElevated,
     borderRadius: 12,
     paddingHorizontal: 16,
     paddingVertical: 10,
     borderWidth: 1,
-    borderColor: THEME.borderSubtle,
+    borderColor: theme.borderSubtle,
   },
   label: {
-    color: COLORS.label,
+    color: theme.textSecondary,
     fontWeight: '500',
     marginBottom: 2,
     textTransform: 'uppercase',
@@ -116,13 +110,13 @@ const styles = StyleSheet.create({
     alignItems: 'baseline',
   },
   value: {
-    color: COLORS.value,
+    color: theme.primary,
     fontWeight: '700',
     fontVariant: ['tabular-nums'],
     letterSpacing: -0.5,
   },
   unit: {
-    color: COLORS.unit,
+    color: theme.textDim,
     fontWeight: '500',
     marginLeft: 4,
   },
@@ -15,25 +15,26 @@ import Animated, {
   withSpring,
   useDerivedValue,
 } from 'react-native-reanimated';
-import { THEME } from '../../utils/theme';
+import type { ThemeColors } from '../../utils/theme';
+import { useThemedStyles } from '../ThemeProvider';
 
 const AnimatedLine = Animated.createAnimatedComponent(Line);
 
-// ダークテーマカラー (THEMEから派生)
-const COLORS = {
-  background: THEME.bgElevated,
-  arc: THEME.borderSubtle,
-  value: THEME.accent,
-  primary: THEME.primary,
-  warning: THEME.warning,
-  danger: THEME.accent,
-  text: THEME.text,
-  tickMinor: '#334155',
-  tickMajor: THEME.textDim,
-  needle: THEME.accent,
-  needleCenter: THEME.text,
-  normalZone: THEME.primary,
-};
+// ゲージの配色 (テーマから派生)
+const createColors = (theme: ThemeColors) => ({
+  background: theme.bgElevated,
+  arc: theme.borderSubtle,
+  value: theme.accent,
+  primary: theme.primary,
+  warning: theme.warning,
+  danger: theme.accent,
+  text: theme.text,
+  tickMinor: theme.textMuted,
+  tickMajor: theme.textDim,
+  needle: theme.accent,
+  needleCenter: theme.text,
+  normalZone: theme.primary,
+});
 
 interface GaugeMeterProps {
   value: number;
@@ -65,6 +66,8 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
   dangerThreshold,
 }) => {
   const animatedValue = useSharedValue(min);
+  const colors = useThemedStyles(createColors);
+  const styles = useThemedStyles(createStyles);
 
   // 値の範囲をクランプしてアニメーション
   useEffect(() => {
@@ -134,7 +137,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
       <Path
         key="normal-zone"
         d={describeArc(center, center, radius, startAngle, normalEnd)}
-        stroke={COLORS.normalZone}
+        stroke={colors.normalZone}
         strokeWidth={strokeWidth}
         fill="none"
         strokeLinecap="round"
@@ -152,7 +155,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
         <Path
           key="warning-zone"
           d={describeArc(center, center, radius, warningStart, warningEnd)}
-          stroke={COLORS.warning}
+          stroke={colors.warning}
           strokeWidth={strokeWidth}
           fill="none"
           strokeLinecap="butt"
@@ -168,7 +171,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
         <Path
           key="danger-zone"
           d={describeArc(center, center, radius, dangerStart, endAngle)}
-          stroke={COLORS.danger}
+          stroke={colors.danger}
           strokeWidth={strokeWidth}
           fill="none"
           strokeLinecap="round"
@@ -198,7 +201,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
           y1={outer.y}
           x2={inner.x}
           y2={inner.y}
-          stroke={COLORS.tickMinor}
+          stroke={colors.tickMinor}
           strokeWidth={1}
         />,
       );
@@ -228,7 +231,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
           y1={outer.y}
           x2={inner.x}
           y2={inner.y}
-          stroke={COLORS.tickMajor}
+          stroke={colors.tickMajor}
           strokeWidth={2}
         />,
       );
@@ -239,7 +242,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
           key={`label-${i}`}
           x={labelPos.x}
           y={labelPos.y}
-          fill={COLORS.tickMajor}
+          fill={colors.tickMajor}
           fontSize={size * 0.055}
           textAnchor="middle"
           alignmentBaseline="central"
@@ -279,12 +282,12 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
   // 値表示テキストの色を決定
   const getValueColor = () => {
     if (dangerThreshold !== undefined && value >= dangerThreshold) {
-      return COLORS.danger;
+      return colors.danger;
     }
     if (warningThreshold !== undefined && value >= warningThreshold) {
-      return COLORS.warning;
+      return colors.warning;
     }
-    return COLORS.value;
+    return colors.value;
   };
 
   // 表示する値をフォーマット
@@ -297,8 +300,8 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
       <Svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
         <Defs>
           <LinearGradient id="needleGradient" x1="0" y1="0" x2="1" y2="0">
-            <Stop offset="0" stopColor={COLORS.needle} stopOpacity="0.6" />
-            <Stop offset="1" stopColor={COLORS.needle} stopOpacity="1" />
+            <Stop offset="0" stopColor={colors.needle} stopOpacity="0.6" />
+            <Stop offset="1" stopColor={colors.needle} stopOpacity="1" />
           </LinearGradient>
         </Defs>
 
@@ -307,13 +310,13 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
           cx={center}
           cy={center}
           r={radius + strokeWidth}
-          fill={COLORS.background}
+          fill={colors.background}
         />
 
         {/* 背景アーク */}
         <Path
           d={backgroundArc}
-          stroke={COLORS.arc}
+          stroke={colors.arc}
           strokeWidth={strokeWidth}
           fill="none"
           strokeLinecap="round"
@@ -328,14 +331,14 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
         {/* アニメーション針 */}
         <AnimatedLine
           animatedProps={needleAnimatedProps}
-          stroke={COLORS.needle}
+          stroke={colors.needle}
           strokeWidth={size * 0.015}
           strokeLinecap="round"
         />
 
         {/* 中心円 */}
-        <Circle cx={center} cy={center} r={size * 0.03} fill={COLORS.needleCenter} />
-        <Circle cx={center} cy={center} r={size * 0.02} fill={COLORS.needle} />
+        <Circle cx={center} cy={center} r={size * 0.03} fill={colors.needleCenter} />
+        <Circle cx={center} cy={center} r={size * 0.02} fill={colors.needle} />
       </Svg>
 
       {/* デジタル値表示 (中央) */}
@@ -362,7 +365,7 @@ export const GaugeMeter: React.FC<GaugeMeterProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     position: 'relative',
     alignItems: 'center',
@@ -377,7 +380,7 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'],
   },
   unitText: {
-    color: COLORS.tickMajor,
+    color: theme.textDim,
     fontWeight: '500',
     marginTop: -2,
   },
@@ -386,7 +389,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   labelText: {
-    color: COLORS.text,
+    color: theme.text,
     fontWeight: '600',
     opacity: 0.8,
   },
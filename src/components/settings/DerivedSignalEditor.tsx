@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import type { DerivedSignalDefinition } from '../../types/obd';
+import { useOBDStore } from '../../store/obdStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { compileDerivedSignals } from '../../obd/derivedSignals';
+import { BUILTIN_DERIVED_SIGNALS } from '../../obd/pid/derived';
+import { formatPidValue } from '../../utils/formatter';
+import type { ThemeColors } from '../../utils/theme';
+import { useTheme, useThemedStyles } from '../ThemeProvider';
+
+interface DerivedSignalEditorProps {
+  visible: boolean;
+  /** 編集対象 (null = 新規追加) */
+  signal: DerivedSignalDefinition | null;
+  onClose: () => void;
+}
+
+/** 空欄・数値でない入力は undefined */
+const parseNumber = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * 派生シグナル編集モーダル
+ *
+ * ID・表示名・単位・範囲と、他のシグナルを VAL{ID} で参照する式を入力する。
+ * 入力中に式をコンパイルしてエラー (構文・循環参照など) を表示し、
+ * 受信済みの値があれば現在の計算結果をプレビューする。
+ */
+export const DerivedSignalEditor: React.FC<DerivedSignalEditorProps> = ({
+  visible,
+  signal,
+  onClose,
+}) => {
+  const userSignals = useSettingsStore((s) => s.derivedSignals);
+  const saveDerivedSignal = useSettingsStore((s) => s.saveDerivedSignal);
+  const removeDerivedSignal = useSettingsStore((s) => s.removeDerivedSignal);
+  const data = useOBDStore((s) => s.data);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const [pid, setPid] = useState('');
+  const [name, setName] = useState('');
+  const [shortName, setShortName] = useState('');
+  const [unit, setUnit] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [expression, setExpression] = useState('');
+
+  // 開くたびに編集対象の内容で初期化する
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setPid(signal?.pid ?? 'CALC_');
+    setName(signal?.name ?? '');
+    setShortName(signal?.shortName ?? '');
+    setUnit(signal?.unit ?? '');
+    setMin(signal ? String(signal.min) : '0');
+    setMax(signal ? String(signal.max) : '100');
+    setExpression(signal?.expression ?? '');
+  }, [visible, signal]);
+
+  const id = pid.trim().toUpperCase();
+  const minValue = parseNumber(min);
+  const maxValue = parseNumber(max);
+
+  // 他の定義と合わせてコンパイルし、循環参照も含めてこの定義のエラーを得る
+  const { error, compiled } = useMemo(() => {
+    if (!id) {
+      return { error: 'ID is required', compiled: undefined };
+    }
+    const others = userSignals.filter((s) => s.pid !== signal?.pid);
+    if (BUILTIN_DERIVED_SIGNALS.some((s) => s.pid === id) || others.some((s) => s.pid === id)) {
+      return { error: `${id} is already a derived signal`, compiled: undefined };
+    }
+    const candidate: DerivedSignalDefinition = {
+      pid: id,
+      name: '',
+      shortName: '',
+      unit: '',
+      min: 0,
+      max: 0,
+      expression,
+    };
+    const result = compileDerivedSignals([...BUILTIN_DERIVED_SIGNALS, ...others, candidate]);
+    return {
+      error: result.errors[id],
+      compiled: result.signals.find((s) => s.definition.pid === id),
+    };
+  }, [id, expression, userSignals, signal]);
+
+  // 参照先が全て受信済みなら現在値を計算する (派生シグナル同士の参照はストアの最新値を使う)
+  let preview = '';
+  if (compiled) {
+    const missing = compiled.references.filter((ref) => data[ref] === undefined);
+    preview =
+      missing.length > 0
+        ? `Waiting for ${missing.join(', ')}`
+        : `= ${formatPidValue(compiled.evaluate((ref) => data[ref]?.value ?? 0), id)} ${unit}`;
+  }
+
+  const rangeError =
+    minValue === undefined || maxValue === undefined || minValue >= maxValue
+      ? 'MIN must be a number below MAX'
+      : undefined;
+  const canSave = !error && !rangeError && name.trim() !== '';
+
+  const handleSave = () => {
+    if (!canSave || minValue === undefined || maxValue === undefined) {
+      return;
+    }
+    saveDerivedSignal(
+      {
+        pid: id,
+        name: name.trim(),
+        shortName: shortName.trim() || name.trim(),
+        unit: unit.trim(),
+        min: minValue,
+        max: maxValue,
+        expression: expression.trim(),
+      },
+      signal?.pid,
+    );
+    onClose();
+  };
+
+  const confirmRemove = () => {
+    if (!signal) {
+      return;
+    }
+    Alert.alert('Delete Signal', `Delete "${signal.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          removeDerivedSignal(signal.pid);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const field = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    options: { placeholder?: string; numeric?: boolean; autoCapitalize?: boolean } = {},
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChange}
+        placeholder={options.placeholder}
+        placeholderTextColor={theme.textDim}
+        keyboardType={options.numeric ? 'numeric' : 'default'}
+        autoCapitalize={options.autoCapitalize ? 'characters' : 'none'}
+        autoCorrect={false}
+      />
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{signal ? 'Edit Derived Signal' : 'Add Derived Signal'}</Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.fieldRow}>
+              {field('ID', pid, setPid, { placeholder: 'CALC_MY_SIGNAL', autoCapitalize: true })}
+              {field('UNIT', unit, setUnit, { placeholder: 'kW' })}
+            </View>
+            <View style={styles.fieldRow}>
+              {field('NAME', name, setName, { placeholder: 'HV Battery Power' })}
+              {field('SHORT NAME', shortName, setShortName, { placeholder: 'HV kW' })}
+            </View>
+            <View style={styles.fieldRow}>
+              {field('MIN', min, setMin, { numeric: true })}
+              {field('MAX', max, setMax, { numeric: true })}
+            </View>
+
+            <Text style={styles.fieldLabel}>EXPRESSION</Text>
+            <TextInput
+              style={[styles.input, styles.expressionInput]}
+              value={expression}
+              onChangeText={setExpression}
+              placeholder="VAL{TOYOTA_HV_VOLTAGE} * VAL{TOYOTA_HV_CURRENT} / 1000"
+              placeholderTextColor={theme.textDim}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            <Text style={styles.hint}>
+              Reference signals as VAL{'{ID}'}. Operators + - * / & | {'<< >>'}, comparisons
+              and IF, MIN, MAX, ABS, SIGNED, INT16.
+            </Text>
+
+            {error || rangeError ? (
+              <Text style={styles.error}>{error ?? rangeError}</Text>
+            ) : (
+              <Text style={styles.preview}>{preview}</Text>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {signal && (
+              <TouchableOpacity
+                style={[styles.button, styles.buttonDanger]}
+                onPress={confirmRemove}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.buttonText, styles.buttonDangerText]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <View style={styles.spacer} />
+            <TouchableOpacity style={styles.button} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonPrimary, !canSave && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={!canSave}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.buttonText, styles.buttonPrimaryText]}>
+                {signal ? 'Save' : 'Add'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    backgroundColor: theme.bgCard,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusLg,
+    width: '100%',
+    maxWidth: 640,
+    maxHeight: '90%',
+    padding: 20,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    color: theme.textDim,
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  expressionInput: {
+    minHeight: 60,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  hint: {
+    color: theme.textDim,
+    fontSize: 11,
+    marginTop: 4,
+  },
+  error: {
+    color: theme.accent,
+    fontSize: 13,
+    marginTop: 10,
+  },
+  preview: {
+    color: theme.success,
+    fontSize: 13,
+    marginTop: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  spacer: {
+    flex: 1,
+  },
+  button: {
+    backgroundColor: theme.bgElevated,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  buttonPrimary: {
+    borderColor: theme.primary,
+  },
+  buttonDanger: {
+    borderColor: theme.accent,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonPrimaryText: {
+    color: theme.primary,
+  },
+  buttonDangerText: {
+    color: theme.accent,
+  },
+});
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { pidPacks, type PidPackImportResult } from '../../obd/pidPacks';
+import { isFileAccessAvailable, pickTextFile } from '../../storage/documentFiles';
+import type { ThemeColors } from '../../utils/theme';
+import { useTheme, useThemedStyles } from '../ThemeProvider';
+
+/** Android はCSVを text/comma-separated-values として扱うことがある */
+const CSV_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/csv'];
+
+interface PidPackImporterProps {
+  visible: boolean;
+  onClose: () => void;
+  /** パックを保存した後に呼ばれる (一覧の再読み込み用) */
+  onImported: () => void;
+}
+
+/**
+ * PIDパック (Torque形式のカスタムPID CSV) のインポートモーダル
+ *
+ * 端末のCSVファイルを選ぶか、CSVの内容を貼り付けて取り込む。
+ * 全行の式を検証し、取り込めなかった行は行番号と理由を表示する。
+ */
+export const PidPackImporter: React.FC<PidPackImporterProps> = ({
+  visible,
+  onClose,
+  onImported,
+}) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const [name, setName] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PidPackImportResult | null>(null);
+
+  // 開くたびに入力をリセットする
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setName('');
+    setCsvText('');
+    setBusy(false);
+    setError(null);
+    setResult(null);
+  }, [visible]);
+
+  const handleImport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setResult(await pidPacks.import(name, csvText));
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 選んだファイルの内容を入力欄に入れる (名前が空ならファイル名を使う)
+  const handlePickFile = async () => {
+    setError(null);
+    try {
+      const file = await pickTextFile(CSV_MIME_TYPES);
+      if (!file) {
+        return;
+      }
+      setCsvText(file.text);
+      setName((current) => current || file.name.replace(/\.[^.]*$/, ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const canImport = !busy && csvText.trim() !== '';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Import PID Pack</Text>
+
+          {result ? (
+            <ScrollView>
+              <Text style={styles.success}>
+                Imported {result.imported} PID{result.imported === 1 ? '' : 's'}
+              </Text>
+              {result.errors.length > 0 && (
+                <Text style={styles.fieldLabel}>
+                  SKIPPED {result.errors.length} ROW{result.errors.length === 1 ? '' : 'S'}
+                </Text>
+              )}
+              {result.errors.map((rowError, index) => (
+                <Text key={index} style={styles.rowError}>
+                  Line {rowError.line}: {rowError.message}
+                </Text>
+              ))}
+            </ScrollView>
+          ) : (
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.fieldLabel}>NAME</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="Prius Gen3 extras"
+                placeholderTextColor={theme.textDim}
+                autoCorrect={false}
+              />
+
+              <View style={styles.fieldHeader}>
+                <Text style={styles.fieldLabel}>CSV</Text>
+                {isFileAccessAvailable() && (
+                  <TouchableOpacity
+                    style={styles.fileButton}
+                    onPress={handlePickFile}
+                    disabled={busy}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.fileButtonText}>Choose File…</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <TextInput
+                style={[styles.input, styles.csvInput]}
+                value={csvText}
+                onChangeText={setCsvText}
+                placeholder={'Name,ShortName,ModeAndPID,Equation,Min Value,Max Value,Units,Header'}
+                placeholderTextColor={theme.textDim}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+              <Text style={styles.hint}>
+                Choose or paste a Torque custom PID CSV. Equations use A, B, ... for response
+                bytes.
+              </Text>
+
+              {error && <Text style={styles.error}>{error}</Text>}
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            {result ? (
+              <TouchableOpacity
+                style={[styles.button, styles.buttonPrimary]}
+                onPress={onClose}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.buttonText, styles.buttonPrimaryText]}>Done</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity style={styles.button} onPress={onClose} activeOpacity={0.7}>
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonPrimary, !canImport && styles.buttonDisabled]}
+                  onPress={handleImport}
+                  disabled={!canImport}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.buttonText, styles.buttonPrimaryText]}>
+                    {busy ? 'Importing…' : 'Import'}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    backgroundColor: theme.bgCard,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusLg,
+    width: '100%',
+    maxWidth: 640,
+    maxHeight: '90%',
+    padding: 20,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    color: theme.textDim,
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  fileButton: {
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  fileButtonText: {
+    color: theme.primary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  csvInput: {
+    minHeight: 160,
+    fontFamily: 'monospace',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    color: theme.textDim,
+    fontSize: 11,
+    marginTop: 4,
+  },
+  error: {
+    color: theme.accent,
+    fontSize: 13,
+    marginTop: 10,
+  },
+  success: {
+    color: theme.success,
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 10,
+  },
+  rowError: {
+    color: theme.warning,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  button: {
+    backgroundColor: theme.bgElevated,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  buttonPrimary: {
+    borderColor: theme.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonPrimaryText: {
+    color: theme.primary,
+  },
+});
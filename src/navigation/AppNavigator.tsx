@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Text, StyleSheet } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { DarkTheme, DefaultTheme, NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { DashboardScreen } from '../screens/DashboardScreen';
 import { ConnectionScreen } from '../screens/ConnectionScreen';
@@ -10,6 +10,10 @@ import { ClimateScreen } from '../screens/ClimateScreen';
 import { LogScreen } from '../screens/LogScreen';
 import { AnalysisScreen } from '../screens/AnalysisScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
+import { CanSnifferScreen } from '../screens/CanSnifferScreen';
+import { PidBrowserScreen } from '../screens/PidBrowserScreen';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+import type { ThemeColors } from '../utils/theme';
 
 /** タブナビゲーションのルート定義 */
 type TabParamList = {
@@ -20,19 +24,13 @@ type TabParamList = {
   Climate: undefined;
   Log: undefined;
   Analysis: undefined;
+  PIDs: undefined;
+  Sniffer: undefined;
   Settings: undefined;
 };
 
 const Tab = createBottomTabNavigator<TabParamList>();
 
-/** タブバーのカラー設定 */
-const TAB_COLORS = {
-  background: '#0f0f1a',
-  active: '#00d4ff',
-  inactive: '#666666',
-  border: '#1a1a2e',
-} as const;
-
 /**
  * タブアイコン用テキスト絵文字マッピング
  *
@@ -47,6 +45,8 @@ const TAB_ICONS: Record<keyof TabParamList, string> = {
   Climate: '\u{1F321}',    // thermometer
   Log: '\u{1F4CB}',        // clipboard (list風)
   Analysis: '\u{1F4CA}',   // bar chart (chart風)
+  PIDs: '\u{1F4D6}',       // open book (PIDブラウザ)
+  Sniffer: '\u{1F50E}',    // magnifier (CANスニファ)
   Settings: '\u{2699}',    // gear
 };
 
@@ -60,8 +60,27 @@ const TAB_ICONS: Record<keyof TabParamList, string> = {
  * 4. Settings - 設定
  */
 export function AppNavigator(): React.JSX.Element {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  // 画面遷移時の背景などナビゲーション側の配色もアプリのテーマに合わせる
+  const navigationTheme = useMemo(() => {
+    const base = theme.dark ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.primary,
+        background: theme.bg,
+        card: theme.tabBarBg,
+        text: theme.text,
+        border: theme.tabBarBorder,
+      },
+    };
+  }, [theme]);
+
   return (
-    <NavigationContainer>
+    <NavigationContainer theme={navigationTheme}>
       <Tab.Navigator
         initialRouteName="Connect"
         screenOptions={({ route }) => ({
@@ -70,14 +89,14 @@ export function AppNavigator(): React.JSX.Element {
             <Text
               style={[
                 styles.tabIcon,
-                { color: focused ? TAB_COLORS.active : TAB_COLORS.inactive },
+                { color: focused ? theme.tabActive : theme.tabInactive },
               ]}
             >
               {TAB_ICONS[route.name]}
             </Text>
           ),
-          tabBarActiveTintColor: TAB_COLORS.active,
-          tabBarInactiveTintColor: TAB_COLORS.inactive,
+          tabBarActiveTintColor: theme.tabActive,
+          tabBarInactiveTintColor: theme.tabInactive,
           tabBarLabelStyle: styles.tabLabel,
           tabBarStyle: styles.tabBar,
         })}
@@ -117,6 +136,16 @@ export function AppNavigator(): React.JSX.Element {
           component={AnalysisScreen}
           options={{ tabBarLabel: 'Analysis' }}
         />
+        <Tab.Screen
+          name="PIDs"
+          component={PidBrowserScreen}
+          options={{ tabBarLabel: 'PIDs' }}
+        />
+        <Tab.Screen
+          name="Sniffer"
+          component={CanSnifferScreen}
+          options={{ tabBarLabel: 'Sniffer' }}
+        />
         <Tab.Screen
           name="Settings"
           component={SettingsScreen}
@@ -127,10 +156,10 @@ export function AppNavigator(): React.JSX.Element {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   tabBar: {
-    backgroundColor: TAB_COLORS.background,
-    borderTopColor: TAB_COLORS.border,
+    backgroundColor: theme.tabBarBg,
+    borderTopColor: theme.tabBarBorder,
     borderTopWidth: 1,
     height: 60,
     paddingBottom: 6,
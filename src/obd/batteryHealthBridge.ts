@@ -0,0 +1,194 @@
+import { useBatteryHealthStore } from '../store/batteryHealthStore';
+
+/**
+ * Live-data bridge for the Battery / HV System screens (ZVW30).
+ *
+ * `obdClient` polls the signals listed in `BATTERY_HEALTH_PIDS` (from the car, or from the
+ * virtual ELM327 in demo mode) and forwards each decoded value to `ingest()`. The bridge
+ * keeps the latest value per signal and periodically derives block voltages, temperatures,
+ * power flow and engine statistics from them.
+ */
+
+/** 14 HV battery block voltages (2181, Hybrid ECU 7E2). */
+const BLOCK_VOLTAGE_PIDS: ReadonlyArray<string> = Array.from(
+  { length: 14 },
+  (_, i) => `PC_7E2_2181_V${String(i + 1).padStart(2, '0')}`,
+);
+
+/** Battery temperature sensors TB1..TB3 (2187). */
+const BATTERY_TEMP_PIDS: ReadonlyArray<string> = [
+  'PC_7E2_2187_TB_1',
+  'PC_7E2_2187_TB_2',
+  'PC_7E2_2187_TB_3',
+];
+
+const PID = {
+  packVoltage: 'PC_7E2_2181_VB',
+  auxBattery: 'PC_7E2_2181_AUX_BTY',
+  packCurrent: 'PC_7E2_2198_BTY_CURR',
+  mg1Rpm: 'PC_7E2_2161_MG1_RPM',
+  mg2Rpm: 'PC_7E2_2162_MG2_RPM',
+  mg1Torque: 'PC_7E2_2167_MG1_TORQ',
+  mg2Torque: 'PC_7E2_2168_MG2_TORQ',
+  engineTorque: 'PC_7E0_2149_ACTENGTORQ',
+  engineRpm: '010C',
+  coolant: '0105',
+} as const;
+
+/** Signal ids the bridge needs. They share only a handful of requests (2181/2187/2198/...). */
+export const BATTERY_HEALTH_PIDS: ReadonlyArray<string> = [
+  ...BLOCK_VOLTAGE_PIDS,
+  ...BATTERY_TEMP_PIDS,
+  ...Object.values(PID),
+];
+
+/** Engine is considered running above this speed (same threshold as the demo provider). */
+const ENGINE_RUNNING_RPM = 100;
+
+/** Default interval (ms) between store updates. */
+const DEFAULT_UPDATE_INTERVAL_MS = 500;
+
+/** Mechanical power (kW) from torque (Nm) and shaft speed (rpm). */
+export function mechanicalPowerKw(torqueNm: number, rpm: number): number {
+  return (torqueNm * rpm * 2 * Math.PI) / 60 / 1000;
+}
+
+class BatteryHealthBridge {
+  private values = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private lastEngineRunning: boolean | null = null;
+
+  /**
+   * Start (or, after `pause()`, resume) deriving store updates from ingested values.
+   * @param intervalMs - How often the battery health store is updated
+   */
+  start(intervalMs = DEFAULT_UPDATE_INTERVAL_MS): void {
+    if (this.timer !== null) return;
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => {
+      const now = Date.now();
+      this.update(now - this.lastTick);
+      this.lastTick = now;
+    }, intervalMs);
+  }
+
+  /** Stop updating but keep the values and the store (while the adapter reconnects). */
+  pause(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Stop updating and reset the battery health store to its initial state. */
+  stop(): void {
+    this.pause();
+    this.values.clear();
+    this.lastEngineRunning = null;
+    useBatteryHealthStore.getState().reset();
+  }
+
+  /** Record the latest decoded value of a polled signal (ignored for unrelated ids). */
+  ingest(pid: string, value: number): void {
+    if (!Number.isFinite(value) || !BATTERY_HEALTH_PIDS.includes(pid)) {
+      return;
+    }
+    this.values.set(pid, value);
+  }
+
+  /** True once every block voltage was received, i.e. the store holds the vehicle's modules. */
+  hasModuleVoltages(): boolean {
+    return BLOCK_VOLTAGE_PIDS.every((pid) => this.values.has(pid));
+  }
+
+  /**
+   * Push derived values into the battery health store.
+   * Exposed for tests; normally called from the internal timer.
+   *
+   * @param deltaMs - Time since the previous update (for engine run-time statistics)
+   */
+  update(deltaMs: number): void {
+    const store = useBatteryHealthStore.getState();
+    const get = (pid: string) => this.values.get(pid);
+
+    // 2181: 14 blocks, each block is two 6-cell modules in series.
+    const blocks = BLOCK_VOLTAGE_PIDS.map(get);
+    if (blocks.every((v): v is number => v !== undefined)) {
+      store.updateModuleVoltages(blocks.flatMap((v) => [v / 2, v / 2]));
+    }
+
+    const temps = BATTERY_TEMP_PIDS.map(get).filter((v): v is number => v !== undefined);
+    if (temps.length > 0) {
+      store.updateTemperatures(temps);
+    }
+
+    const aux = get(PID.auxBattery);
+    if (aux !== undefined) {
+      store.update12V(aux);
+    }
+
+    // Prefer the ECU pack voltage (VB); fall back to the sum of block voltages.
+    const blockSum = blocks.every((v) => v !== undefined)
+      ? blocks.reduce<number>((acc, v) => acc + (v ?? 0), 0)
+      : undefined;
+    const packVoltage = get(PID.packVoltage) ?? blockSum;
+    const packCurrent = get(PID.packCurrent);
+    if (packVoltage !== undefined && packCurrent !== undefined) {
+      store.updatePackElectrical(packVoltage, packCurrent);
+    }
+
+    const engineRpm = get(PID.engineRpm);
+    if (engineRpm === undefined) {
+      return;
+    }
+    const engineRunning = engineRpm > ENGINE_RUNNING_RPM;
+
+    // Power flow. Sign conventions follow PowerFlowState:
+    // MG1 + = generating, MG2 + = driving, battery + = discharging.
+    // The Hybrid ECU reports pack current as positive while discharging.
+    const engineKw = engineRunning
+      ? Math.max(0, mechanicalPowerKw(get(PID.engineTorque) ?? 0, engineRpm))
+      : 0;
+    const mg1Kw = -mechanicalPowerKw(get(PID.mg1Torque) ?? 0, get(PID.mg1Rpm) ?? 0);
+    const mg2Kw = mechanicalPowerKw(get(PID.mg2Torque) ?? 0, get(PID.mg2Rpm) ?? 0);
+    const batteryKw =
+      packVoltage !== undefined && packCurrent !== undefined
+        ? (packVoltage * packCurrent) / 1000
+        : 0;
+    // Engine power not taken by MG1 reaches the ring gear mechanically.
+    const wheelKw = Math.max(0, mg2Kw + Math.max(0, engineKw - Math.max(0, mg1Kw)));
+
+    store.updatePowerFlow({
+      engineKw,
+      mg1Kw,
+      mg2Kw,
+      batteryKw,
+      wheelKw,
+      evMode: !engineRunning,
+    });
+
+    if (deltaMs > 0) {
+      store.tickEngineStats(engineRunning, deltaMs);
+    }
+
+    // EV threshold: log every engine start/stop together with the coolant temperature.
+    const coolant = get(PID.coolant);
+    if (
+      this.lastEngineRunning !== null &&
+      this.lastEngineRunning !== engineRunning &&
+      coolant !== undefined
+    ) {
+      store.addEvThresholdObservation({
+        coolantTemp: coolant,
+        engineRpm,
+        timestamp: Date.now(),
+        wasEvMode: !this.lastEngineRunning,
+      });
+    }
+    this.lastEngineRunning = engineRunning;
+  }
+}
+
+export const batteryHealthBridge = new BatteryHealthBridge();
@@ -0,0 +1,80 @@
+import type { CanIdStats } from '../types/obd';
+import type { CanFrame } from './protocol';
+
+/** A changed byte stays highlighted this long, so bytes changing at 100 Hz don't flicker. */
+export const CHANGE_HIGHLIGHT_MS = 1000;
+
+/** Weight of the newest interval in the rate average. */
+const RATE_SMOOTHING = 0.1;
+
+interface IdState {
+  count: number;
+  data: number[];
+  changedAt: number[];
+  lastSeen: number;
+  avgIntervalMs: number | null;
+}
+
+/**
+ * Per-ID aggregation of monitored frames for the sniffer screen: frame count, rate, last
+ * payload and which bytes changed recently.
+ *
+ * Frames arrive far faster than the UI redraws, so `ingest()` only updates counters and the
+ * screen reads `snapshot()` on its own schedule.
+ */
+export class CanFrameTable {
+  private readonly ids = new Map<string, IdState>();
+
+  ingest(frame: CanFrame, now: number): void {
+    const state = this.ids.get(frame.id);
+    if (!state) {
+      this.ids.set(frame.id, {
+        count: 1,
+        data: frame.data,
+        changedAt: frame.data.map(() => -Infinity),
+        lastSeen: now,
+        avgIntervalMs: null,
+      });
+      return;
+    }
+
+    const interval = now - state.lastSeen;
+    state.avgIntervalMs =
+      state.avgIntervalMs === null
+        ? interval
+        : state.avgIntervalMs + RATE_SMOOTHING * (interval - state.avgIntervalMs);
+
+    state.changedAt = frame.data.map((byte, i) =>
+      byte !== state.data[i] ? now : state.changedAt[i] ?? -Infinity,
+    );
+    state.data = frame.data;
+    state.count++;
+    state.lastSeen = now;
+  }
+
+  /** One row per arbitration ID, sorted by ID. */
+  snapshot(now: number): CanIdStats[] {
+    return Array.from(this.ids.entries())
+      .sort(([a], [b]) => parseInt(a, 16) - parseInt(b, 16))
+      .map(([id, state]) => ({
+        id,
+        count: state.count,
+        rateHz: this.rateHz(state, now),
+        data: state.data,
+        changed: state.changedAt.map((at) => now - at < CHANGE_HIGHLIGHT_MS),
+        lastSeen: state.lastSeen,
+      }));
+  }
+
+  clear(): void {
+    this.ids.clear();
+  }
+
+  private rateHz(state: IdState, now: number): number {
+    if (state.avgIntervalMs === null) {
+      return 0;
+    }
+    // An ID that went quiet (or a paused sniffer) decays towards 0 instead of keeping its rate.
+    return 1000 / Math.max(state.avgIntervalMs, now - state.lastSeen, 1);
+  }
+}
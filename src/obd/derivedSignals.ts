@@ -0,0 +1,211 @@
+import type { DerivedSignalDefinition } from '../types/obd';
+
+import { useSettingsStore } from '../store/settingsStore';
+import { registerUserSignals } from '../utils/meterLayout';
+import { BUILTIN_DERIVED_SIGNALS } from './pid/derived';
+import { STANDARD_PIDS } from './pid/standard';
+import { TOYOTA_PIDS } from './pid/toyota';
+import { compileSignalExpression } from './torqueEquation';
+
+/**
+ * Derived signals: values computed from other signals with a Torque-style expression
+ * (`VAL{TOYOTA_HV_VOLTAGE} * VAL{TOYOTA_HV_CURRENT} / 1000`).
+ *
+ * `obdClient` forwards every decoded value to `ingest()`, which recomputes the derived signals
+ * that depend on it and returns their new values. The client publishes those like any polled
+ * value (store, log session), so derived signals can be logged, charted and shown on meters.
+ *
+ * Definitions are the built-in ones (`BUILTIN_DERIVED_SIGNALS`) plus the user's, kept in the
+ * settings store. Derived signals may reference each other; cycles are rejected.
+ */
+
+/** Signal ids: upper-case letters, digits and underscores (same shape as the built-in ids). */
+const SIGNAL_ID_PATTERN = /^[A-Z0-9_]+$/;
+
+export interface CompiledDerivedSignal {
+  definition: DerivedSignalDefinition;
+  /** Signal ids the expression reads. */
+  references: string[];
+  evaluate: (value: (id: string) => number) => number;
+}
+
+export interface DerivedSignalSet {
+  /** Valid signals, ordered so every signal comes after the derived signals it reads. */
+  signals: CompiledDerivedSignal[];
+  /** Why a definition was left out, keyed by signal id. */
+  errors: Record<string, string>;
+}
+
+export interface DerivedValue {
+  pid: string;
+  value: number;
+}
+
+/** Polled (or sniffed) signal ids; a derived signal must not shadow one of them. */
+function isPolledSignal(pid: string): boolean {
+  return pid in STANDARD_PIDS || pid in TOYOTA_PIDS;
+}
+
+/**
+ * Compile and order a set of definitions. Earlier definitions win on duplicate ids, so pass
+ * the built-in signals first.
+ */
+export function compileDerivedSignals(
+  definitions: ReadonlyArray<DerivedSignalDefinition>,
+): DerivedSignalSet {
+  const errors: Record<string, string> = {};
+  const byId = new Map<string, CompiledDerivedSignal>();
+
+  for (const definition of definitions) {
+    const { pid } = definition;
+    if (byId.has(pid) || pid in errors) {
+      continue; // duplicate id: keep the first definition (and its error, if any)
+    }
+    if (!SIGNAL_ID_PATTERN.test(pid)) {
+      errors[pid] = 'Signal id may only contain A-Z, 0-9 and _';
+      continue;
+    }
+    if (isPolledSignal(pid)) {
+      errors[pid] = `${pid} is already a polled signal`;
+      continue;
+    }
+    try {
+      const compiled = compileSignalExpression(definition.expression);
+      if (compiled.references.length === 0) {
+        errors[pid] = 'Expression does not reference any signal';
+        continue;
+      }
+      byId.set(pid, { definition, ...compiled });
+    } catch (err) {
+      errors[pid] = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  // Depth-first topological order over references between derived signals.
+  const signals: CompiledDerivedSignal[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (pid: string, path: string[]): boolean => {
+    if (pid in errors) {
+      return false;
+    }
+    const current = state.get(pid);
+    if (current === 'done') {
+      return true;
+    }
+    if (current === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(pid)), pid];
+      for (const member of cycle.slice(0, -1)) {
+        errors[member] = `Circular reference: ${cycle.join(' → ')}`;
+      }
+      return false;
+    }
+
+    state.set(pid, 'visiting');
+    const signal = byId.get(pid) as CompiledDerivedSignal;
+    let broken: string | undefined;
+    for (const ref of signal.references) {
+      if (byId.has(ref) && !visit(ref, [...path, pid]) && broken === undefined) {
+        broken = ref;
+      }
+    }
+    state.set(pid, 'done');
+
+    if (broken !== undefined) {
+      errors[pid] ??= `Depends on ${broken}, which has an error`;
+      return false;
+    }
+    signals.push(signal);
+    return true;
+  };
+
+  for (const pid of byId.keys()) {
+    visit(pid, []);
+  }
+
+  return { signals, errors };
+}
+
+class DerivedSignalEngine {
+  private signals: CompiledDerivedSignal[] = [];
+  /** Every signal id some expression reads (polled or derived). */
+  private inputs = new Set<string>();
+  private values = new Map<string, number>();
+
+  constructor() {
+    this.configure([]);
+  }
+
+  /** Compile the built-in signals plus `userSignals`, replacing the current set. */
+  configure(userSignals: ReadonlyArray<DerivedSignalDefinition>): void {
+    const { signals, errors } = compileDerivedSignals([...BUILTIN_DERIVED_SIGNALS, ...userSignals]);
+    for (const [pid, message] of Object.entries(errors)) {
+      console.warn(`Derived signal ${pid} disabled: ${message}`);
+    }
+
+    this.signals = signals;
+    this.inputs = new Set(signals.flatMap((signal) => signal.references));
+
+    // Meters can only offer user signals that actually compute.
+    const valid = new Set(signals.map((signal) => signal.definition.pid));
+    registerUserSignals('derived', userSignals.filter((signal) => valid.has(signal.pid)));
+  }
+
+  /**
+   * Follow the user's definitions in the settings store (and register them for the meters).
+   * @returns Function that stops following
+   */
+  syncWithSettings(): () => void {
+    this.configure(useSettingsStore.getState().derivedSignals);
+    return useSettingsStore.subscribe((state, previous) => {
+      if (state.derivedSignals !== previous.derivedSignals) {
+        this.configure(state.derivedSignals);
+      }
+    });
+  }
+
+  /** Non-derived signals the expressions read; these must be polled for the results to update. */
+  inputSignals(): string[] {
+    const derived = new Set(this.signals.map((signal) => signal.definition.pid));
+    return [...this.inputs].filter((pid) => !derived.has(pid));
+  }
+
+  /**
+   * Record a decoded value and recompute the derived signals that depend on it (directly or
+   * through other derived signals). Signals with an input that has not arrived yet are skipped.
+   * @returns New values, in dependency order
+   */
+  ingest(pid: string, value: number): DerivedValue[] {
+    if (!this.inputs.has(pid) || !Number.isFinite(value)) {
+      return [];
+    }
+    this.values.set(pid, value);
+
+    const changed = new Set([pid]);
+    const results: DerivedValue[] = [];
+    for (const signal of this.signals) {
+      if (!signal.references.some((ref) => changed.has(ref))) {
+        continue;
+      }
+      if (signal.references.some((ref) => !this.values.has(ref))) {
+        continue;
+      }
+      const result = signal.evaluate((ref) => this.values.get(ref) ?? 0);
+      if (!Number.isFinite(result)) {
+        continue;
+      }
+      const derivedPid = signal.definition.pid;
+      this.values.set(derivedPid, result);
+      changed.add(derivedPid);
+      results.push({ pid: derivedPid, value: result });
+    }
+    return results;
+  }
+
+  /** Forget the latest values (end of a session; the next car may not report the same inputs). */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export const derivedSignals = new DerivedSignalEngine();
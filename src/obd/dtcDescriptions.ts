@@ -0,0 +1,200 @@
+/**
+ * Bundled DTC description table.
+ *
+ * Covers common SAE J2012 generic codes plus the Toyota hybrid (THS-II / ZVW30)
+ * P0A**, P3*** and chassis/body/network codes most often seen on a 3rd gen Prius.
+ * Codes not in the table fall back to a category description derived from the code itself.
+ */
+
+const GENERIC_CODES: Record<string, string> = {
+  // --- Fuel & air metering ---
+  P0100: 'Mass or Volume Air Flow Circuit Malfunction',
+  P0101: 'Mass or Volume Air Flow Circuit Range/Performance',
+  P0102: 'Mass or Volume Air Flow Circuit Low Input',
+  P0103: 'Mass or Volume Air Flow Circuit High Input',
+  P0110: 'Intake Air Temperature Circuit Malfunction',
+  P0112: 'Intake Air Temperature Circuit Low Input',
+  P0113: 'Intake Air Temperature Circuit High Input',
+  P0115: 'Engine Coolant Temperature Circuit Malfunction',
+  P0116: 'Engine Coolant Temperature Circuit Range/Performance',
+  P0117: 'Engine Coolant Temperature Circuit Low Input',
+  P0118: 'Engine Coolant Temperature Circuit High Input',
+  P0120: 'Throttle Position Sensor Circuit Malfunction',
+  P0121: 'Throttle Position Sensor Circuit Range/Performance',
+  P0122: 'Throttle Position Sensor Circuit Low Input',
+  P0123: 'Throttle Position Sensor Circuit High Input',
+  P0125: 'Insufficient Coolant Temperature for Closed Loop Fuel Control',
+  P0128: 'Coolant Thermostat Below Regulating Temperature',
+  P0130: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 1)',
+  P0133: 'O2 Sensor Circuit Slow Response (Bank 1 Sensor 1)',
+  P0136: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 2)',
+  P0137: 'O2 Sensor Circuit Low Voltage (Bank 1 Sensor 2)',
+  P0138: 'O2 Sensor Circuit High Voltage (Bank 1 Sensor 2)',
+  P0141: 'O2 Sensor Heater Circuit Malfunction (Bank 1 Sensor 2)',
+  P0171: 'System Too Lean Bank 1',
+  P0172: 'System Too Rich Bank 1',
+
+  // --- Ignition / misfire ---
+  P0300: 'Random/Multiple Cylinder Misfire Detected',
+  P0301: 'Cylinder 1 Misfire Detected',
+  P0302: 'Cylinder 2 Misfire Detected',
+  P0303: 'Cylinder 3 Misfire Detected',
+  P0304: 'Cylinder 4 Misfire Detected',
+  P0325: 'Knock Sensor 1 Circuit Malfunction',
+  P0335: 'Crankshaft Position Sensor "A" Circuit Malfunction',
+  P0340: 'Camshaft Position Sensor "A" Circuit Malfunction',
+  P0351: 'Ignition Coil "A" Primary/Secondary Circuit Malfunction',
+  P0352: 'Ignition Coil "B" Primary/Secondary Circuit Malfunction',
+  P0353: 'Ignition Coil "C" Primary/Secondary Circuit Malfunction',
+  P0354: 'Ignition Coil "D" Primary/Secondary Circuit Malfunction',
+
+  // --- Emission controls ---
+  P0401: 'Exhaust Gas Recirculation Flow Insufficient Detected',
+  P0420: 'Catalyst System Efficiency Below Threshold (Bank 1)',
+  P0441: 'Evaporative Emission Control System Incorrect Purge Flow',
+  P0442: 'Evaporative Emission Control System Leak Detected (Small Leak)',
+  P0446: 'Evaporative Emission Control System Vent Control Circuit Malfunction',
+  P0455: 'Evaporative Emission Control System Leak Detected (Gross Leak)',
+  P0456: 'Evaporative Emission Control System Leak Detected (Very Small Leak)',
+
+  // --- Speed / idle / computer ---
+  P0500: 'Vehicle Speed Sensor Malfunction',
+  P0505: 'Idle Control System Malfunction',
+  P0560: 'System Voltage Malfunction',
+  P0562: 'System Voltage Low',
+  P0606: 'Control Module Processor Fault',
+  P0617: 'Starter Relay Circuit High',
+  P0630: 'VIN Not Programmed or Mismatch - ECM/PCM',
+};
+
+const TOYOTA_HYBRID_CODES: Record<string, string> = {
+  // --- SAE hybrid range (P0A**) ---
+  P0A08: 'DC/DC Converter Status Circuit',
+  P0A09: 'DC/DC Converter Status Circuit Low Input',
+  P0A0D: 'High Voltage System Interlock Circuit High',
+  P0A0F: 'Engine Failed to Start',
+  P0A1A: 'Generator Control Module',
+  P0A1B: 'Drive Motor "A" Control Module',
+  P0A1D: 'Hybrid Powertrain Control Module',
+  P0A1F: 'Battery Energy Control Module',
+  P0A2B: 'Drive Motor "A" Temperature Sensor Circuit Range/Performance',
+  P0A37: 'Generator Temperature Sensor Circuit Range/Performance',
+  P0A3F: 'Drive Motor "A" Position Sensor Circuit',
+  P0A4B: 'Generator Position Sensor Circuit',
+  P0A51: 'Drive Motor "A" Current Sensor Circuit',
+  P0A60: 'Drive Motor "A" Phase V Current',
+  P0A63: 'Drive Motor "A" Phase W Current',
+  P0A72: 'Generator Phase V Current',
+  P0A75: 'Generator Phase W Current',
+  P0A78: 'Drive Motor "A" Inverter Performance',
+  P0A7A: 'Generator Inverter Performance',
+  P0A7F: 'Hybrid Battery Pack Deterioration',
+  P0A80: 'Replace Hybrid Battery Pack',
+  P0A81: 'Hybrid Battery Pack Cooling Fan 1 Performance',
+  P0A82: 'Hybrid Battery Pack Cooling Fan 1 Performance/Stuck Off',
+  P0A84: 'Hybrid Battery Pack Cooling Fan 1 Control Circuit Low',
+  P0A90: 'Drive Motor "A" Performance',
+  P0A92: 'Hybrid Generator Performance',
+  P0A93: 'Inverter "A" Cooling System Performance',
+  P0A94: 'DC/DC Converter Performance',
+  P0A95: 'High Voltage Fuse',
+  P0A9C: 'Hybrid Battery Temperature Sensor "A" Circuit Range/Performance',
+  P0AA1: 'Hybrid Battery Positive Contactor Circuit Stuck Closed',
+  P0AA4: 'Hybrid Battery Negative Contactor Circuit Stuck Closed',
+  P0AA6: 'Hybrid Battery Voltage System Isolation Fault',
+  P0ADB: 'Hybrid Battery Positive Contactor Control Circuit Low',
+  P0ADC: 'Hybrid Battery Positive Contactor Control Circuit High',
+  P0ADF: 'Hybrid Battery Negative Contactor Control Circuit Low',
+  P0AE0: 'Hybrid Battery Negative Contactor Control Circuit High',
+  P0AE6: 'Hybrid Battery Precharge Contactor Control Circuit Low',
+  P0AE7: 'Hybrid Battery Precharge Contactor Control Circuit High',
+  P0AFA: 'Hybrid Battery System Voltage Low',
+  P0B3B: 'Hybrid Battery Voltage Sense "A" Circuit Range/Performance',
+
+  // --- Toyota specific (P3***) ---
+  P3000: 'HV Battery Malfunction',
+  P3004: 'Power Cable Malfunction',
+  P3009: 'High Voltage Leak Detected',
+  P3030: 'Battery Voltage Detection Line Open',
+  P3100: 'HV ECU Malfunction',
+  P3102: 'Transmission Control ECU Malfunction',
+  P3120: 'HV Transaxle Malfunction',
+  P3125: 'Converter & Inverter Malfunction',
+  P3190: 'Poor Engine Power',
+  P3191: 'Engine Does Not Start',
+  P3193: 'Fuel Run Out',
+
+  // --- Chassis (brake / ABS ECU 7B0) ---
+  C0200: 'Right Front Wheel Speed Sensor Malfunction',
+  C0205: 'Left Front Wheel Speed Sensor Malfunction',
+  C0210: 'Right Rear Wheel Speed Sensor Malfunction',
+  C0215: 'Left Rear Wheel Speed Sensor Malfunction',
+  C1241: 'Low Battery Positive Voltage',
+  C1252: 'Brake Booster Pump Motor On Time Abnormally Long',
+  C1253: 'Pump Motor Relay Malfunction',
+  C1256: 'Accumulator Low Pressure',
+  C1259: 'HV System Regenerative Malfunction',
+  C1310: 'Malfunction in HV System',
+  C1391: 'Abnormal Leak of Accumulator',
+
+  // --- Body (A/C ECU 7C4) ---
+  B1411: 'Room Temperature Sensor Circuit',
+  B1412: 'Ambient Temperature Sensor Circuit',
+  B1413: 'Evaporator Temperature Sensor Circuit',
+  B1421: 'Solar Sensor Circuit (Driver Side)',
+
+  // --- Network ---
+  U0073: 'Control Module Communication Bus "A" Off',
+  U0100: 'Lost Communication With ECM/PCM "A"',
+  U0111: 'Lost Communication With Battery Energy Control Module "A"',
+  U0129: 'Lost Communication With Brake System Control Module',
+  U0131: 'Lost Communication With Power Steering Control Module',
+  U0155: 'Lost Communication With Instrument Panel Cluster Control Module',
+  U0164: 'Lost Communication With HVAC Control Module',
+  U0293: 'Lost Communication With Hybrid Powertrain Control Module',
+};
+
+// Gen 2 style "Battery Block N Becomes Weak" codes: P3011 (block 1) .. P3024 (block 14).
+const BATTERY_BLOCK_CODES: Record<string, string> = (() => {
+  const out: Record<string, string> = {};
+  for (let block = 1; block <= 14; block++) {
+    out[`P30${10 + block}`] = `Battery Block ${block} Becomes Weak`;
+  }
+  return out;
+})();
+
+export const DTC_DESCRIPTIONS: Record<string, string> = {
+  ...GENERIC_CODES,
+  ...BATTERY_BLOCK_CODES,
+  ...TOYOTA_HYBRID_CODES,
+};
+
+const CATEGORY_NAMES: Record<string, string> = {
+  P: 'Powertrain',
+  C: 'Chassis',
+  B: 'Body',
+  U: 'Network',
+};
+
+/**
+ * Look up a human readable description for a DTC code (e.g. "P0A80").
+ * Unknown codes get a category description such as "Powertrain (manufacturer specific)".
+ */
+export function describeDTC(code: string): string {
+  const normalized = (code ?? '').trim().toUpperCase();
+  const known = DTC_DESCRIPTIONS[normalized];
+  if (known) {
+    return known;
+  }
+
+  const category = CATEGORY_NAMES[normalized.charAt(0)];
+  if (!category || normalized.length !== 5) {
+    return 'Unknown code';
+  }
+
+  // Second character: 0/2 = SAE defined, 1/3 = manufacturer defined.
+  const scope = normalized.charAt(1) === '1' || normalized.charAt(1) === '3'
+    ? 'manufacturer specific'
+    : 'generic';
+  return `${category} (${scope})`;
+}
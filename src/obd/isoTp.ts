@@ -0,0 +1,160 @@
+/**
+ * ISO-TP message reassembly for ELM327 responses (CAN auto formatting on).
+ *
+ * Shared by the protocol layer and the PID probes, which read the raw responses themselves.
+ */
+
+/**
+ * Split a raw ELM327 response (headers off, CAN auto formatting on) into messages.
+ *
+ * Single-frame answers appear one per line ("43 01 0A 80"), one line per responding ECU.
+ * ISO-TP multi-frame answers are printed as a 3-digit total length line followed by
+ * numbered frames, which are concatenated and trimmed to the announced length:
+ *
+ *   00E
+ *   0: 43 06 0A 80 0A 7F
+ *   1: 30 00 30 11 0A 9C
+ *   2: 01 23 00 00 00 00
+ *
+ * Works with spaces on or off. Status lines (SEARCHING..., NO DATA) are ignored.
+ *
+ * @returns One byte array per message
+ */
+export function splitIsoTpMessages(rawResponse: string): number[][] {
+  const lines = rawResponse
+    .replace(/>/g, '')
+    .toUpperCase()
+    .split(/[\r\n]+/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const toBytes = (hex: string) =>
+    (hex.replace(/\s+/g, '').match(/[0-9A-F]{2}/g) ?? []).map((pair) => parseInt(pair, 16));
+
+  const messages: number[][] = [];
+  let multiFrame: { length: number; bytes: number[] } | null = null;
+  const flushMultiFrame = () => {
+    if (multiFrame) {
+      messages.push(multiFrame.bytes.slice(0, multiFrame.length));
+      multiFrame = null;
+    }
+  };
+
+  for (const line of lines) {
+    if (/^[0-9A-F]{3}$/.test(line)) {
+      flushMultiFrame();
+      multiFrame = { length: parseInt(line, 16), bytes: [] };
+      continue;
+    }
+
+    const frame = line.match(/^[0-9A-F]:\s*([0-9A-F\s]*)$/);
+    if (frame && multiFrame) {
+      multiFrame.bytes.push(...toBytes(frame[1]));
+      continue;
+    }
+
+    flushMultiFrame();
+    if (!/^[0-9A-F\s]+$/.test(line)) {
+      continue;
+    }
+    const bytes = toBytes(line);
+    if (bytes.length > 0) {
+      messages.push(bytes);
+    }
+  }
+  flushMultiFrame();
+
+  return messages;
+}
+
+/** One response message and the ECU that sent it. */
+export interface EcuMessage {
+  /** 11-bit CAN ID of the responding ECU (e.g. '7EA'), or null when headers are off (ATH0). */
+  source: string | null;
+  /** Reassembled ISO-TP payload, starting with the service byte (e.g. 61 81 ...). */
+  payload: number[];
+}
+
+/**
+ * Parse a raw ELM327 response into per-ECU messages.
+ *
+ * With headers on (ATH1, CAN auto formatting on) every CAN frame is printed with its
+ * 11-bit ID and the ISO-TP PCI byte:
+ *
+ *   7EA 10 1E 61 81 0A 1B 0A 1C     first frame, 0x01E bytes in total
+ *   7E8 03 41 0D 00                 single frame from another ECU
+ *   7EA 21 0A 1D 0A 1E 0A 1F 0A 20  consecutive frame, sequence 1
+ *
+ * Frames are grouped by ID and consecutive frames are appended in sequence order, so
+ * interleaved answers from several ECUs stay apart. A message with a missing or
+ * out-of-order frame is dropped rather than decoded from the wrong bytes.
+ * Responses without headers fall back to `splitIsoTpMessages()` with `source: null`.
+ * Works with spaces on or off.
+ */
+export function parseEcuMessages(rawResponse: string): EcuMessage[] {
+  const frames: Array<{ source: string; bytes: number[] }> = [];
+  for (const line of rawResponse.replace(/>/g, '').toUpperCase().split(/[\r\n]+/)) {
+    const compact = line.replace(/\s+/g, '');
+    // "7EA..." has an odd digit count; data lines and the "014" length line do not.
+    if (/^[0-9A-F]+$/.test(compact) && compact.length > 3 && compact.length % 2 === 1) {
+      const bytes = (compact.substring(3).match(/[0-9A-F]{2}/g) ?? []).map((pair) =>
+        parseInt(pair, 16),
+      );
+      frames.push({ source: compact.substring(0, 3), bytes });
+    }
+  }
+
+  if (frames.length === 0) {
+    return splitIsoTpMessages(rawResponse).map((payload) => ({ source: null, payload }));
+  }
+
+  // Messages are reported in the order their first frame arrived.
+  type PartialMessage = EcuMessage & { complete: boolean };
+  const messages: PartialMessage[] = [];
+  const pending = new Map<string, { message: PartialMessage; length: number; seq: number }>();
+
+  for (const { source, bytes } of frames) {
+    if (bytes.length === 0) continue;
+    const pci = bytes[0] >> 4;
+
+    if (pci === 0) {
+      // Single frame: low nibble is the payload length.
+      const length = bytes[0] & 0x0f;
+      messages.push({ source, payload: bytes.slice(1, 1 + length), complete: true });
+    } else if (pci === 1 && bytes.length >= 2) {
+      // First frame: 12-bit total length, then the first payload bytes.
+      const length = ((bytes[0] & 0x0f) << 8) | bytes[1];
+      const message: PartialMessage = {
+        source,
+        payload: bytes.slice(2, 2 + length),
+        complete: false,
+      };
+      messages.push(message);
+      pending.set(source, { message, length, seq: 1 });
+      if (message.payload.length >= length) {
+        message.complete = true;
+        pending.delete(source);
+      }
+    } else if (pci === 2) {
+      // Consecutive frame: low nibble is the sequence number (wraps at 16).
+      const state = pending.get(source);
+      if (!state) continue;
+      if ((bytes[0] & 0x0f) !== state.seq) {
+        pending.delete(source); // lost frame; leave the message incomplete
+        continue;
+      }
+      const { message, length } = state;
+      message.payload.push(...bytes.slice(1, 1 + length - message.payload.length));
+      state.seq = (state.seq + 1) & 0x0f;
+      if (message.payload.length >= length) {
+        message.complete = true;
+        pending.delete(source);
+      }
+    }
+    // PCI 3 (flow control) is the adapter's own traffic; ignore it.
+  }
+
+  return messages
+    .filter((message) => message.complete)
+    .map(({ source, payload }) => ({ source, payload }));
+}
@@ -1,12 +1,48 @@
-import type { BLEDevice } from '../types/obd';
+import type {
+  AcquisitionMode,
+  BLEDevice,
+  DeviceTransport,
+  DiagnosticTroubleCode,
+  EcuDtcScanResult,
+} from '../types/obd';
 
 import { useConnectionStore } from '../store/connectionStore';
 import { useOBDStore } from '../store/obdStore';
 import { useSettingsStore } from '../store/settingsStore';
-import { mockDataProvider } from '../utils/mockDataProvider';
+import { useCanSnifferStore } from '../store/canSnifferStore';
+import { useBatteryHealthStore } from '../store/batteryHealthStore';
+import { logWriter } from '../storage/logWriter';
+import { canCaptureWriter } from '../storage/canCaptureWriter';
+import { settingsPersistence } from '../storage/settingsPersistence';
+import { database } from '../storage/database';
+import { vehicleProfiles } from '../storage/vehicleProfiles';
 import { ClassicBluetoothConnectionManager } from '../bluetooth/ClassicBluetoothManager';
+import { BleConnectionManager } from '../bluetooth/BleManager';
+import { WifiConnectionManager } from '../bluetooth/WifiManager';
+import { VirtualConnectionManager } from '../bluetooth/VirtualManager';
 import { Elm327 } from '../bluetooth/Elm327';
-import { OBDProtocol } from './protocol';
+import {
+  OBDProtocol,
+  type CanFilter,
+  type DecodedDTC,
+  type Elm327Interface,
+  type PidReadResult,
+} from './protocol';
+import { BATTERY_HEALTH_PIDS, batteryHealthBridge } from './batteryHealthBridge';
+import { CanFrameTable } from './canSniffer';
+import { derivedSignals } from './derivedSignals';
+import { describeDTC } from './dtcDescriptions';
+import { ZVW30_CAN_SIGNALS } from './pid/zvw30Can';
+import { pidPacks } from './pidPacks';
+import type { PollSignalStats } from './pollScheduler';
+import { ReconnectSupervisor } from './reconnectSupervisor';
+import {
+  discoverSignals,
+  filterSupportedPids,
+  loadSignalSupport,
+  signalGroupKey,
+  type SignalSupportEntry,
+} from './signalDiscovery';
 
 const DEFAULT_PIDS: ReadonlyArray<string> = [
   // Dashboard required
@@ -33,172 +69,817 @@ const DEFAULT_PIDS: ReadonlyArray<string> = [
   '015E', // Fuel rate
 ];
 
+/** Kept even when nothing else was detected (errors are then handled per PID). */
+const REQUIRED_PIDS: ReadonlyArray<string> = [
+  '010C',
+  '010D',
+  '0105',
+  '0111',
+  'TOYOTA_HV_SOC',
+  'TOYOTA_HV_VOLTAGE',
+  'TOYOTA_HV_CURRENT',
+  'TOYOTA_HV_TEMP',
+];
+
+/** Pollable signals shown on the meters of every dashboard page (derived ones are computed). */
+function meterPids(): string[] {
+  return useSettingsStore
+    .getState()
+    .dashboardPages.flatMap((page) => page.meters.map((meter) => meter.pid))
+    .filter((pid) => signalGroupKey(pid) !== null);
+}
+
+/** Length of one sniffer monitor window; stopping the sniffer waits for at most one. */
+const SNIFFER_WINDOW_MS = 1000;
+
+/** How often the sniffer's per-ID table is published to the store. */
+const SNIFFER_PUBLISH_MS = 250;
+
+/** Demo mode connects to the in-app ELM327 emulator through the normal connect path. */
+const DEMO_DEVICE: BLEDevice = {
+  id: 'DEMO',
+  name: 'Demo Mode',
+  rssi: null,
+  transport: 'virtual',
+};
+
+/** Connection manager driven by ObdClient. Every transport speaks ELM327 through Elm327Interface. */
+interface ObdTransport extends Elm327Interface {
+  connect(deviceId: string): Promise<void>;
+  disconnect(): Promise<void>;
+  onDisconnect(callback: () => void): void;
+  getConnectedDevice(): { name?: string | null } | null;
+}
+
 /**
  * App-level OBD client (singleton).
  *
- * For now we support the common case:
- * - Bluetooth Classic (SPP) ELM327 adapters (PIN 1234/0000).
+ * Supported adapters:
+ * - Bluetooth Classic (SPP) ELM327 adapters (PIN 1234/0000), listed from bonded devices.
+ * - BLE ELM327 adapters (Vgate iCar Pro BLE, OBDLink CX, ...), found by scanning.
+ * - Wi-Fi ELM327 adapters over TCP; the device id is "host:port" (default 192.168.0.10:35000).
+ * - A virtual ELM327 (`Elm327Emulator`) for demo mode, decoded through the same protocol path.
+ *
+ * The transport is chosen per device (`BLEDevice.transport`); OBDProtocol only sees Elm327Interface.
+ * When the link drops and `autoReconnect` is on, `ReconnectSupervisor` retries with backoff,
+ * re-initializes the ELM327 and resumes the same PID set and log session.
  *
- * BLE adapters exist but typically don't ask for a PIN; that can be added later.
+ * `acquisitionMode` selects how values are read: request/response polling, passive monitoring
+ * of the ZVW30 broadcast frames (`ZVW30_CAN_SIGNALS`), or both (sniffed signals are then not
+ * polled). Monitoring needs a transport with `sendStreamingCommand`; otherwise it polls.
+ * Signals on the user's watch list (`watchedPids`) are polled on top of the default set, and so
+ * are the signals on the dashboard meters and the imported PID packs; editing the dashboard or
+ * the packs updates the running poll set.
+ *
+ * A vehicle that reports a VIN gets a profile (`vehicleProfiles`): its settings, log sessions,
+ * signal support cache and the battery state at the end of each connection are kept with it.
+ * Demo mode saves none of these.
  */
 class ObdClient {
-  private transport: ClassicBluetoothConnectionManager | null = null;
+  private classic: ClassicBluetoothConnectionManager | null = null;
+  private ble: BleConnectionManager | null = null;
+  private wifi: WifiConnectionManager | null = null;
+  private virtual: VirtualConnectionManager | null = null;
+  private transport: ObdTransport | null = null;
   private protocol: OBDProtocol | null = null;
   private sessionId = 0;
+  /** Device of the last user-initiated connect; automatic reconnects go back to it. */
+  private lastDevice: BLEDevice | null = null;
+  private polledPids: string[] = [];
+  /** Known request group support of the connected vehicle (empty if unknown). */
+  private signalSupport: SignalSupportEntry[] = [];
+  private readonly canTable = new CanFrameTable();
+  /** Running CAN sniffer (polling is paused until it stops). */
+  private sniffer: { stopped: boolean; done: Promise<void> } | null = null;
+  private readonly reconnector = new ReconnectSupervisor({
+    reconnect: () => this.tryReconnect(),
+    onGiveUp: (attempts) => {
+      this.giveUpReconnect(attempts).catch((err) => {
+        console.warn('Failed to close the connection after reconnecting gave up:', err);
+      });
+    },
+  });
+
+  constructor() {
+    // A meter placed on (or removed from) the dashboard changes what has to be polled,
+    // and so does a PID pack being imported or removed.
+    useSettingsStore.subscribe((state, prev) => {
+      if (state.dashboardPages !== prev.dashboardPages) {
+        this.refreshPolledPids();
+      }
+    });
+    pidPacks.onChange(() => this.refreshPolledPids());
+  }
 
   async listPairedDevices(): Promise<BLEDevice[]> {
-    this.ensureTransport();
-    return this.transport!.listBondedDevices();
+    return this.getClassic().listBondedDevices();
+  }
+
+  /**
+   * Scan for BLE ELM327 adapters (stops after the manager's scan timeout).
+   * @param onDevice - Called as each adapter is discovered
+   */
+  async scanBleDevices(onDevice?: (device: BLEDevice) => void): Promise<BLEDevice[]> {
+    return this.getBle().scanForDevices(onDevice);
   }
 
   async connect(device: BLEDevice): Promise<void> {
+    this.reconnector.cancel();
     const session = ++this.sessionId;
 
     // Stop demo / existing connections first (without bumping session).
     await this.disconnectInternal();
 
     const connStore = useConnectionStore.getState();
-    connStore.setDemoMode(false);
+    connStore.setDemoMode(device.transport === 'virtual');
     connStore.setElm327Ready(false);
     connStore.setError(null);
     connStore.setConnectionState('connecting');
-
-    this.ensureTransport();
-    const transport = this.transport!;
+    this.lastDevice = device;
 
     try {
-      await transport.connect(device.id);
-      transport.onDisconnect(() => {
-        void this.disconnect();
-      });
+      await this.open(device, session, false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      connStore.setError(message);
+      connStore.setElm327Ready(false);
+      connStore.setDevice(null);
+      // best-effort cleanup without clearing the error banner
+      await this.stopSession(false);
+    }
+  }
 
-      // Update store device info using the connected device (name may be available).
-      const connected = transport.getConnectedDevice();
-      connStore.setDevice({
-        id: device.id,
-        name: connected?.name ?? device.name ?? null,
-        rssi: null,
-      });
-      connStore.setConnectionState('connected');
+  /** Connect to the virtual ELM327 (simulated ZVW30) instead of a real adapter. */
+  startDemoMode(): void {
+    this.connect(DEMO_DEVICE).catch((err) => {
+      console.warn('Failed to start demo mode:', err);
+    });
+  }
 
-      // Initialize ELM327 (echo off, spaces off, protocol auto, etc).
-      const elm = new Elm327(transport);
-      const ok = await elm.initialize();
-      if (!ok) {
-        throw new Error('ELM327 initialization failed');
-      }
+  /**
+   * Start a log session. Values from live polling (or demo mode) are buffered into it
+   * until `stopRecording()` or a disconnect closes the session.
+   */
+  async startRecording(): Promise<void> {
+    if (logWriter.isRecording()) {
+      return;
+    }
 
-      // If a newer connect/disconnect started while we were initializing, stop now.
-      if (session !== this.sessionId) {
-        await transport.disconnect().catch(() => undefined);
-        return;
-      }
+    try {
+      await logWriter.startSession(vehicleProfiles.currentVin());
+      useOBDStore.getState().setRecording(true);
+    } catch (err) {
+      // Database may be unavailable (expo-sqlite native side missing); keep polling anyway.
+      console.warn(
+        'Failed to start log session:',
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
 
-      connStore.setElm327Ready(true);
+  /** Flush buffered values and close the current log session (no-op if not recording). */
+  async stopRecording(): Promise<void> {
+    if (!logWriter.isRecording()) {
+      return;
+    }
 
-      // Start polling using OBDProtocol.
-      this.protocol = new OBDProtocol(transport);
-      const settings = useSettingsStore.getState();
-      const intervalMs = settings.pollingInterval;
+    try {
+      await logWriter.stopSession();
+    } catch (err) {
+      console.warn(
+        'Failed to close log session:',
+        err instanceof Error ? err.message : String(err),
+      );
+    } finally {
+      useOBDStore.getState().setRecording(false);
+    }
+  }
 
-      // Keep store in sync (used by some UI).
-      useOBDStore.getState().setPollingInterval(intervalMs);
-      useOBDStore.getState().startPolling();
+  /**
+   * Read stored (Mode 03) and pending (Mode 07) DTCs, plus the freeze frame (Mode 02)
+   * of the stored code that triggered it. The result is saved to the database.
+   * Polling is paused while the diagnostic requests are on the bus.
+   */
+  async readDTCs(): Promise<DiagnosticTroubleCode[]> {
+    const protocol = this.requireProtocol();
+    const dtcs = await protocol.withPollingPaused(async () => {
+      const codes = await protocol.readDTCs();
+      return this.withFreezeFrame(protocol, codes);
+    });
 
-      // Try to reduce noise by polling only supported standard PIDs.
-      let pidsToPoll = [...DEFAULT_PIDS];
-      try {
-        const supported = await this.protocol.querySupportedPids();
-        const supportedSet = new Set(supported);
-        pidsToPoll = pidsToPoll.filter((pid) => {
-          // Supported-PID bitmasks only apply to Mode 01 / 1-byte PIDs.
-          if (/^[0-9A-F]{4}$/i.test(pid) && pid.toUpperCase().startsWith('01')) {
-            return supportedSet.has(pid.toUpperCase());
-          }
-          return true; // keep Toyota/custom signals
+    await this.saveDtcRead(dtcs);
+    return dtcs;
+  }
+
+  /**
+   * Full-vehicle scan: stored, pending and permanent DTCs from every known ECU
+   * (engine, hybrid, brake, A/C, meter), each tagged with its ECU header.
+   * Freeze frames are read from ECUs holding stored codes; the result is saved to the database.
+   */
+  async scanAllDTCs(): Promise<EcuDtcScanResult[]> {
+    const protocol = this.requireProtocol();
+    const results = await protocol.withPollingPaused(async () => {
+      const scanned = await protocol.scanEcuDTCs();
+      const out: EcuDtcScanResult[] = [];
+      for (const result of scanned) {
+        const dtcs = await this.withFreezeFrame(protocol, result.codes, result.header);
+        out.push({
+          ecu: result.header,
+          responded: result.responded,
+          dtcs: dtcs.map((dtc) => ({ ...dtc, ecu: result.header })),
         });
-      } catch {
-        // If support query fails, fall back to the default list (errors are handled per PID).
       }
+      return out;
+    });
 
-      if (session !== this.sessionId) {
-        this.protocol.stopPolling();
-        this.protocol = null;
-        useOBDStore.getState().stopPolling();
-        await transport.disconnect().catch(() => undefined);
-        return;
-      }
+    await this.saveDtcRead(results.flatMap((r) => r.dtcs));
+    return results;
+  }
+
+  /**
+   * Clear DTCs with Mode 04 (also resets the MIL, freeze frames and readiness monitors).
+   * @returns true if the ECU acknowledged the request
+   */
+  async clearDTCs(): Promise<boolean> {
+    const protocol = this.requireProtocol();
+    return protocol.withPollingPaused(() => protocol.clearDTCs());
+  }
+
+  /**
+   * One-shot read of any known signal (PID browser), with polling paused for the request.
+   * The value is published like a polled one.
+   * @throws Error if not connected, the sniffer owns the adapter, or the read fails
+   */
+  async readPid(pid: string): Promise<PidReadResult> {
+    const protocol = this.requireProtocol();
+    if (this.sniffer) {
+      throw new Error('Stop the CAN sniffer before reading a signal');
+    }
+    const result = await protocol.withPollingPaused(() => protocol.readPid(pid));
+    this.publishValue(pid, result.value, result.raw);
+    return result;
+  }
+
+  /**
+   * Probe the connected vehicle's signals again, rebuild its cached support and restart
+   * polling with the result (e.g. after an ECU was added or replaced).
+   * @throws Error if not connected, the sniffer owns the adapter, or there is no VIN
+   */
+  async rescanSignals(): Promise<void> {
+    const protocol = this.requireProtocol();
+    if (this.sniffer) {
+      throw new Error('Stop the CAN sniffer before scanning');
+    }
 
-      // In case nothing was detected, keep at least the required ones.
-      if (pidsToPoll.length === 0) {
-        pidsToPoll = [
-          '010C',
-          '010D',
-          '0105',
-          '0111',
-          'TOYOTA_HV_SOC',
-          'TOYOTA_HV_VOLTAGE',
-          'TOYOTA_HV_CURRENT',
-          'TOYOTA_HV_TEMP',
-        ];
+    const entries = await protocol.withPollingPaused(async () => {
+      const vin = useConnectionStore.getState().vin ?? (await protocol.readVin());
+      if (!vin) {
+        throw new Error('The vehicle did not report a VIN');
       }
+      useConnectionStore.getState().setVin(vin);
+      return this.scanSignals(protocol, vin);
+    });
 
-      this.protocol.startPolling(pidsToPoll, intervalMs, (pid, result) => {
-        if (!result) return;
-        useOBDStore.getState().updatePidValue(pid, result.value, result.raw);
+    this.publishSignalSupport(entries, Date.now());
+    this.signalSupport = entries;
+    this.polledPids = this.supportedWantedPids();
+    if (this.protocol === protocol && !this.sniffer) {
+      this.startAcquisition(protocol, this.polledPids);
+    }
+  }
+
+  /**
+   * Add a signal to the watch list, or remove it. Takes effect immediately when connected.
+   */
+  toggleWatchedPid(pid: string): void {
+    useSettingsStore.getState().toggleWatchedPid(pid);
+    // While the sniffer owns the adapter, the list is applied when it stops.
+    if (this.protocol && !this.sniffer) {
+      this.startAcquisition(this.protocol, this.polledPids);
+    }
+  }
+
+  /**
+   * Switch between polling, sniffing and combined acquisition.
+   * Takes effect immediately when connected.
+   */
+  setAcquisitionMode(mode: AcquisitionMode): void {
+    useSettingsStore.getState().setAcquisitionMode(mode);
+    // While the sniffer owns the adapter, the mode is applied when it stops.
+    if (this.protocol && !this.sniffer) {
+      this.startAcquisition(this.protocol, this.polledPids);
+    }
+  }
+
+  /**
+   * Put the adapter into monitor mode for the CAN sniffer screen. Polling is paused until
+   * `stopSniffer()`; frames are aggregated per ID (published to `canSnifferStore`) and
+   * written to the open CAN capture, if any.
+   * @param filter - ATCF/ATCM pair, or null for every frame
+   */
+  async startSniffer(filter: CanFilter | null): Promise<void> {
+    const protocol = this.requireProtocol();
+    if (!protocol.canMonitor()) {
+      throw new Error('This adapter connection cannot monitor the bus');
+    }
+    await this.stopSniffer();
+
+    const store = useCanSnifferStore.getState();
+    store.setFilter(filter);
+    store.setError(null);
+    store.setRunning(true);
+
+    const publish = () => {
+      useCanSnifferStore.getState().setRows(this.canTable.snapshot(Date.now()));
+    };
+    const publishTimer = setInterval(publish, SNIFFER_PUBLISH_MS);
+
+    const run = { stopped: false, done: Promise.resolve() };
+    this.sniffer = run;
+    run.done = protocol
+      .withPollingPaused(async () => {
+        while (!run.stopped && this.protocol === protocol) {
+          await protocol.monitorFrames(filter, SNIFFER_WINDOW_MS, (frame) => {
+            this.canTable.ingest(frame, Date.now());
+            canCaptureWriter.addFrame(frame.id, frame.data);
+          });
+        }
+      })
+      .catch((err) => {
+        useCanSnifferStore.getState().setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        clearInterval(publishTimer);
+        publish();
+        useCanSnifferStore.getState().setRunning(false);
+        if (this.sniffer === run) {
+          this.sniffer = null;
+        }
+        // Polling resumed with the settings from before; pick up a mode changed meanwhile.
+        if (this.protocol === protocol) {
+          this.startAcquisition(protocol, this.polledPids);
+        }
       });
+  }
+
+  /** Stop monitoring (the per-ID table is kept) and resume polling. */
+  async stopSniffer(): Promise<void> {
+    const run = this.sniffer;
+    if (!run) {
+      return;
+    }
+    run.stopped = true;
+    await run.done;
+  }
+
+  /** Forget the sniffer's per-ID table. */
+  clearSnifferFrames(): void {
+    this.canTable.clear();
+    useCanSnifferStore.getState().clearRows();
+  }
+
+  /** Start recording sniffed frames into a new CAN capture (no-op if already recording). */
+  async startCanCapture(): Promise<void> {
+    if (canCaptureWriter.isCapturing()) {
+      return;
+    }
+
+    const filter = useCanSnifferStore.getState().filter;
+    try {
+      const id = await canCaptureWriter.startCapture(
+        filter ? `${filter.filter}/${filter.mask}` : null,
+      );
+      useCanSnifferStore.getState().setCaptureId(id);
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      connStore.setError(message);
-      connStore.setElm327Ready(false);
-      connStore.setDevice(null);
-      // best-effort cleanup without clearing the error banner
-      try {
-        this.protocol?.stopPolling();
-      } catch {
-        // ignore
+      useCanSnifferStore.getState().setError(
+        `Failed to start CAN capture: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  /** Flush and close the current CAN capture (no-op if not recording). */
+  async stopCanCapture(): Promise<void> {
+    try {
+      await canCaptureWriter.stopCapture();
+    } catch (err) {
+      console.warn(
+        'Failed to close CAN capture:',
+        err instanceof Error ? err.message : String(err),
+      );
+    } finally {
+      useCanSnifferStore.getState().setCaptureId(null);
+    }
+  }
+
+  /** Target vs. achieved polling rate per signal for the PID browser (empty while not polling). */
+  getPollingStats(): Record<string, PollSignalStats> {
+    return this.protocol?.getPollingStats() ?? {};
+  }
+
+  async disconnect(): Promise<void> {
+    // Bump session to cancel any in-flight connect/init.
+    ++this.sessionId;
+    this.reconnector.cancel();
+    await this.disconnectInternal();
+  }
+
+  /**
+   * Connect the transport, initialize the ELM327 and start polling.
+   * @param resume - Automatic reconnect to the vehicle of the lost session
+   */
+  private async open(device: BLEDevice, session: number, resume: boolean): Promise<void> {
+    // Saved settings (polling interval, acquisition mode, ...) are loaded at startup.
+    await settingsPersistence.ready();
+
+    const connStore = useConnectionStore.getState();
+    const transport = this.transportFor(device.transport ?? 'classic');
+    this.transport = transport;
+
+    await transport.connect(device.id);
+    transport.onDisconnect(() => {
+      this.handleConnectionLost(session).catch((err) => {
+        console.warn('Failed to handle the lost connection:', err);
+      });
+    });
+
+    // Update store device info using the connected device (name may be available).
+    const connected = transport.getConnectedDevice();
+    connStore.setDevice({
+      id: device.id,
+      name: connected?.name ?? device.name ?? null,
+      rssi: null,
+      transport: device.transport ?? 'classic',
+    });
+    connStore.setConnectionState('connected');
+
+    // Initialize ELM327 (echo off, spaces off, protocol auto, etc).
+    const elm = new Elm327(transport);
+    const ok = await elm.initialize();
+    if (!ok) {
+      throw new Error('ELM327 initialization failed');
+    }
+
+    // If a newer connect/disconnect started while we were initializing, stop now.
+    if (session !== this.sessionId) {
+      await transport.disconnect().catch(() => undefined);
+      return;
+    }
+
+    connStore.setElm327Ready(true);
+
+    // Start polling using OBDProtocol.
+    const protocol = new OBDProtocol(transport);
+    this.protocol = protocol;
+    const settings = useSettingsStore.getState();
+    const intervalMs = settings.pollingInterval;
+
+    // Keep store in sync (used by some UI).
+    useOBDStore.getState().setPollingInterval(intervalMs);
+    useOBDStore.getState().startPolling();
+
+    // After a reconnect the same car is back; skip identification and the support query, but
+    // recompute the wanted set (the dashboard or PID packs may have changed meanwhile).
+    // Otherwise identify the vehicle first: its profile (watch list, acquisition mode) and
+    // signal support cache are keyed by VIN.
+    const pidsToPoll = resume
+      ? this.supportedWantedPids()
+      : await this.selectPids(protocol, await this.identifyVehicle(protocol));
+
+    if (session !== this.sessionId) {
+      protocol.stopPolling();
+      if (this.protocol === protocol) {
+        this.protocol = null;
       }
-      this.protocol = null;
       useOBDStore.getState().stopPolling();
       await transport.disconnect().catch(() => undefined);
+      return;
+    }
+
+    this.polledPids = pidsToPoll;
+    batteryHealthBridge.start();
+    this.startAcquisition(protocol, pidsToPoll);
+
+    // A log session that was open when the link dropped is still open; don't start another.
+    if (!resume && settings.autoLog) {
+      await this.startRecording();
     }
   }
 
-  startDemoMode(): void {
-    const session = ++this.sessionId;
+  /**
+   * Start polling and/or bus monitoring according to `acquisitionMode`.
+   * @param selected - PID set chosen at connect; the watch list is added, and in combined mode
+   *   the sniffed signals are left out of polling
+   */
+  private startAcquisition(protocol: OBDProtocol, selected: string[]): void {
+    const { acquisitionMode, pollingInterval, watchedPids } = useSettingsStore.getState();
+    const pids = Array.from(new Set([...selected, ...watchedPids]));
+    const sniff = acquisitionMode !== 'polling' && protocol.canMonitor();
+    const sniffed = new Set(ZVW30_CAN_SIGNALS.map((signal) => signal.pid));
+    let polled = pids;
+    if (sniff) {
+      polled = acquisitionMode === 'sniffing' ? [] : pids.filter((pid) => !sniffed.has(pid));
+    }
 
-    // Stop any real connection/polling first (without bumping again).
-    void this.disconnectInternal().then(() => {
-      if (session !== this.sessionId) {
-        return;
+    protocol.startPolling(
+      polled,
+      pollingInterval,
+      (pid, result) => {
+        if (!result) return;
+        this.publishValue(pid, result.value, result.raw);
+        // Derived signals are published like polled ones (no raw response of their own).
+        for (const derived of derivedSignals.ingest(pid, result.value)) {
+          this.publishValue(derived.pid, derived.value, '');
+        }
+      },
+      sniff ? ZVW30_CAN_SIGNALS : undefined,
+    );
+  }
+
+  /** Hand a decoded value to the store, the battery health bridge and the open log session. */
+  private publishValue(pid: string, value: number, raw: string): void {
+    useOBDStore.getState().updatePidValue(pid, value, raw);
+    batteryHealthBridge.ingest(pid, value);
+    logWriter.addDataPoint(pid, value);
+  }
+
+  /** Every signal the app wants, before support filtering. */
+  private wantedPids(): string[] {
+    // Battery / HV System screens need block voltages, temperatures and MG signals too,
+    // derived signals need their inputs, and meters need their signals. Packs are imported
+    // to be read, so all their signals are polled.
+    return Array.from(
+      new Set([
+        ...DEFAULT_PIDS,
+        ...BATTERY_HEALTH_PIDS,
+        ...derivedSignals.inputSignals(),
+        ...meterPids(),
+        ...pidPacks.definitions().map((definition) => definition.pid),
+      ]),
+    );
+  }
+
+  /** Wanted signals minus the groups the vehicle does not answer. */
+  private supportedWantedPids(): string[] {
+    const pids = filterSupportedPids(this.wantedPids(), this.signalSupport);
+    // In case nothing was detected, keep at least the required ones.
+    return pids.length > 0 ? pids : [...REQUIRED_PIDS];
+  }
+
+  /**
+   * Default PIDs, minus the ones the vehicle does not answer. With a VIN, support per request
+   * group is cached in the database (discovered on the first connection to the vehicle);
+   * without one, only the Mode 01 bitmasks are asked.
+   */
+  private async selectPids(protocol: OBDProtocol, vin: string | null): Promise<string[]> {
+    this.signalSupport = [];
+    try {
+      const support = await loadSignalSupport(protocol, vin, (scanVin) =>
+        this.scanSignals(protocol, scanVin),
+      );
+      this.signalSupport = support.entries;
+      if (support.scannedAt !== null) {
+        this.publishSignalSupport(support.entries, support.scannedAt);
       }
+    } catch {
+      // If support detection fails, fall back to the default list (errors are handled per PID).
+    }
+    return this.supportedWantedPids();
+  }
 
-      const connStore = useConnectionStore.getState();
-      connStore.setDemoMode(true);
-      connStore.setDevice({ id: 'DEMO', name: 'Demo Mode', rssi: null });
-      connStore.setElm327Ready(true);
-      connStore.setConnectionState('connected');
+  /**
+   * Recompute the poll set after the wanted signals changed (dashboard edited, PID pack loaded
+   * or removed) and restart acquisition with it. No-op while not connected.
+   */
+  refreshPolledPids(): void {
+    // While reconnecting there is no protocol; the reconnected session recomputes the set.
+    if (!this.protocol) {
+      return;
+    }
+    const pids = this.supportedWantedPids();
+    const unchanged =
+      pids.length === this.polledPids.length && pids.every((pid, i) => pid === this.polledPids[i]);
+    if (unchanged) {
+      return;
+    }
+    this.polledPids = pids;
+    // While the sniffer owns the adapter, the set is applied when it stops.
+    if (!this.sniffer) {
+      this.startAcquisition(this.protocol, pids);
+    }
+  }
 
-      mockDataProvider.start(200);
+  /**
+   * Read the Mode 09 vehicle information and switch to the vehicle's profile.
+   * @returns The VIN, or null if the vehicle does not report one
+   */
+  private async identifyVehicle(protocol: OBDProtocol): Promise<string | null> {
+    const info = await protocol.readVehicleInfo().catch(() => null);
+    useConnectionStore.getState().setVehicleInfo(info);
+    // The demo vehicle gets no profile: nothing of it is saved.
+    if (info?.vin && !useConnectionStore.getState().demoMode) {
+      await vehicleProfiles.attach(info.vin, info);
+    }
+    return info?.vin ?? null;
+  }
+
+  /** Probe every signal group of the vehicle and replace its cached support. */
+  private async scanSignals(protocol: OBDProtocol, vin: string): Promise<SignalSupportEntry[]> {
+    useConnectionStore.getState().setScanningSignals(true);
+    try {
+      const entries = await discoverSignals(protocol);
+      // The demo vehicle is probed on every connection instead of being cached.
+      if (useConnectionStore.getState().demoMode) {
+        return entries;
+      }
+      try {
+        await database.saveSignalSupport(vin, entries);
+      } catch (err) {
+        console.warn(
+          'Failed to cache signal support:',
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+      return entries;
+    } finally {
+      useConnectionStore.getState().setScanningSignals(false);
+    }
+  }
+
+  /** Show how many signal groups the vehicle answers (connection screen). */
+  private publishSignalSupport(
+    entries: ReadonlyArray<SignalSupportEntry>,
+    scannedAt: number,
+  ): void {
+    useConnectionStore.getState().setSignalSupport({
+      supported: entries.filter((entry) => entry.supported).length,
+      total: entries.length,
+      scannedAt,
     });
   }
 
-  async disconnect(): Promise<void> {
-    // Bump session to cancel any in-flight connect/init.
+  /**
+   * The adapter went away (ignition off, out of range, Wi-Fi dropped).
+   * With autoReconnect on, keep the log session open and let the supervisor retry;
+   * otherwise disconnect as before.
+   */
+  private async handleConnectionLost(session: number): Promise<void> {
+    // Ignore stale sessions and drops while a connect is still initializing.
+    if (session !== this.sessionId || !this.protocol) {
+      return;
+    }
+
+    if (!this.lastDevice || !useSettingsStore.getState().autoReconnect) {
+      await this.disconnect();
+      return;
+    }
+
     ++this.sessionId;
-    await this.disconnectInternal();
+    await this.stopSession(true);
+
+    const connStore = useConnectionStore.getState();
+    connStore.setElm327Ready(false);
+    connStore.setConnectionState('reconnecting');
+    this.reconnector.start();
   }
 
-  private ensureTransport(): void {
-    if (!this.transport) {
-      this.transport = new ClassicBluetoothConnectionManager();
+  /** One supervisor attempt. @returns true when connected or reconnecting is no longer wanted */
+  private async tryReconnect(): Promise<boolean> {
+    const device = this.lastDevice;
+    if (!device || !useSettingsStore.getState().autoReconnect) {
+      await this.disconnect();
+      return true;
+    }
+
+    const session = ++this.sessionId;
+    try {
+      await this.open(device, session, true);
+      return true;
+    } catch {
+      if (session !== this.sessionId) {
+        return true;
+      }
+      await this.stopSession(true);
+      const connStore = useConnectionStore.getState();
+      connStore.setElm327Ready(false);
+      connStore.setConnectionState('reconnecting');
+      return false;
     }
   }
 
-  private async disconnectInternal(): Promise<void> {
-    // Stop demo mode if running.
-    if (useConnectionStore.getState().demoMode) {
-      mockDataProvider.stop();
+  private async giveUpReconnect(attempts: number): Promise<void> {
+    // Closes the log session that was kept open for the reconnect.
+    await this.disconnect();
+    useConnectionStore.getState().setError(`Reconnect failed after ${attempts} attempts`);
+  }
+
+  /**
+   * Add descriptions and attach the freeze frame to the stored code that caused it.
+   * Must run inside `withPollingPaused()`.
+   */
+  private async withFreezeFrame(
+    protocol: OBDProtocol,
+    codes: DecodedDTC[],
+    header?: string,
+  ): Promise<DiagnosticTroubleCode[]> {
+    const dtcs: DiagnosticTroubleCode[] = codes.map((dtc) => ({
+      ...dtc,
+      description: describeDTC(dtc.code),
+    }));
+
+    const hasStored = dtcs.some((dtc) => !dtc.isPending && !dtc.isPermanent);
+    if (!hasStored) {
+      return dtcs;
+    }
+
+    try {
+      const frame = await protocol.readFreezeFrame(header);
+      const owner = frame
+        ? dtcs.find((dtc) => dtc.code === frame.dtcCode && !dtc.isPending && !dtc.isPermanent)
+        : undefined;
+      if (owner && frame) {
+        owner.freezeFrame = frame;
+      }
+    } catch {
+      // Freeze frame is optional; the codes themselves are still useful.
+    }
+    return dtcs;
+  }
+
+  /** Keep a DTC read in the database so codes and freeze frames survive a clear. */
+  private async saveDtcRead(dtcs: DiagnosticTroubleCode[]): Promise<void> {
+    // Demo codes come from the emulator; keep them out of the vehicle's history.
+    if (dtcs.length === 0 || useConnectionStore.getState().demoMode) {
+      return;
+    }
+
+    try {
+      await database.saveDtcRead(dtcs);
+    } catch (err) {
+      console.warn(
+        'Failed to save DTC read:',
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
+
+  private requireProtocol(): OBDProtocol {
+    if (!this.protocol) {
+      throw new Error('Not connected to a vehicle');
+    }
+    return this.protocol;
+  }
+
+  private transportFor(kind: DeviceTransport): ObdTransport {
+    switch (kind) {
+      case 'ble':
+        return this.getBle();
+      case 'wifi':
+        return this.getWifi();
+      case 'virtual':
+        return this.getVirtual();
+      default:
+        return this.getClassic();
+    }
+  }
+
+  private getClassic(): ClassicBluetoothConnectionManager {
+    if (!this.classic) {
+      this.classic = new ClassicBluetoothConnectionManager();
+    }
+    return this.classic;
+  }
+
+  // Created lazily: constructing the BLE manager starts the native BLE stack.
+  private getBle(): BleConnectionManager {
+    if (!this.ble) {
+      this.ble = new BleConnectionManager();
+    }
+    return this.ble;
+  }
+
+  private getWifi(): WifiConnectionManager {
+    if (!this.wifi) {
+      this.wifi = new WifiConnectionManager();
+    }
+    return this.wifi;
+  }
+
+  private getVirtual(): VirtualConnectionManager {
+    if (!this.virtual) {
+      this.virtual = new VirtualConnectionManager();
+    }
+    return this.virtual;
+  }
+
+  /**
+   * Stop polling and drop the transport.
+   * @param keepLog - Leave the log session open and keep the battery state (the link is
+   *   expected to come back)
+   */
+  private async stopSession(keepLog: boolean): Promise<void> {
+    // The sniffer loop ends with its current window (it checks `this.protocol`).
+    if (this.sniffer) {
+      this.sniffer.stopped = true;
     }
 
     // Stop protocol polling.
@@ -207,15 +888,54 @@ class ObdClient {
       this.protocol = null;
     }
     useOBDStore.getState().stopPolling();
+    derivedSignals.reset();
+
+    // Close the log session so buffered values are written before the transport goes away.
+    // The battery state carries over to the reconnected session; the snapshot is taken once
+    // the session really ends.
+    if (keepLog) {
+      batteryHealthBridge.pause();
+    } else {
+      this.saveBatterySnapshot();
+      batteryHealthBridge.stop();
+      await this.stopRecording();
+      await this.stopCanCapture();
+    }
 
     // Disconnect transport.
     if (this.transport) {
       await this.transport.disconnect().catch(() => undefined);
     }
+  }
+
+  /**
+   * Keep the battery state reached in this session with the vehicle's profile (before the
+   * bridge resets it). Sessions that never read the block voltages have nothing to keep.
+   */
+  private saveBatterySnapshot(): void {
+    if (!batteryHealthBridge.hasModuleVoltages()) {
+      return;
+    }
+    vehicleProfiles
+      .saveBatterySnapshot(useBatteryHealthStore.getState().summary)
+      .catch((err) => {
+        console.warn(
+          'Failed to save battery snapshot:',
+          err instanceof Error ? err.message : String(err),
+        );
+      });
+  }
+
+  private async disconnectInternal(): Promise<void> {
+    await this.stopSession(false);
 
     // Reset connection store.
     const connStore = useConnectionStore.getState();
     connStore.setDemoMode(false);
+    connStore.setVehicleInfo(null);
+    connStore.setSignalSupport(null);
+    this.signalSupport = [];
+    vehicleProfiles.detach();
     connStore.setElm327Ready(false);
     connStore.setDevice(null);
     connStore.setConnectionState('disconnected');
@@ -0,0 +1,34 @@
+import type { DerivedSignalDefinition } from '../../types/obd';
+
+/**
+ * Built-in derived signals, computed from polled/sniffed values by `derivedSignals`.
+ *
+ * Expressions use the Torque syntax with VAL{id} references (see torqueEquation.ts).
+ * User-defined signals live in the settings store and may reference these as well.
+ *
+ * Trip-level figures (average economy, EV ratio) need accumulated history rather than the
+ * latest inputs, so they stay in `fuelAnalysis` instead of being expressions.
+ */
+export const BUILTIN_DERIVED_SIGNALS: ReadonlyArray<DerivedSignalDefinition> = [
+  {
+    pid: 'CALC_HV_POWER',
+    name: 'HV Battery Power',
+    shortName: 'HV kW',
+    unit: 'kW',
+    min: -40,
+    max: 40,
+    // Positive = discharging (2198 / CAN 03B current sign).
+    expression: 'VAL{TOYOTA_HV_VOLTAGE} * VAL{TOYOTA_HV_CURRENT} / 1000',
+  },
+  {
+    pid: 'CALC_INSTANT_FUEL',
+    name: 'Instant Fuel Economy',
+    shortName: 'Fuel Econ',
+    unit: 'km/L',
+    min: 0,
+    max: 40,
+    // km/L = speed / fuel flow, fuel flow (L/h) = MAF (g/s) * 3600 / (AFR 14.7 * 745 g/L).
+    // MAF 0 (engine off in EV mode) evaluates to 0 rather than infinity.
+    expression: 'VAL{010D} * 14.7 * 745 / (VAL{0110} * 3600)',
+  },
+];
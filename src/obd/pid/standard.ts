@@ -13,6 +13,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: 0,
     max: 100,
+    responseBytes: 1,
+    pollRateHz: 5,
     decode: (b) => (b[0] * 100) / 255,
   },
   '0105': {
@@ -22,6 +24,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '\u00B0C',
     min: -40,
     max: 215,
+    responseBytes: 1,
+    pollRateHz: 0.5,
     decode: (b) => b[0] - 40,
   },
 
@@ -33,6 +37,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: -100,
     max: 99.2,
+    responseBytes: 1,
     decode: (b) => ((b[0] - 128) * 100) / 128,
   },
   '0107': {
@@ -42,6 +47,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: -100,
     max: 99.2,
+    responseBytes: 1,
     decode: (b) => ((b[0] - 128) * 100) / 128,
   },
 
@@ -53,6 +59,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'kPa',
     min: 0,
     max: 765,
+    responseBytes: 1,
     decode: (b) => b[0] * 3,
   },
   '010B': {
@@ -62,6 +69,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'kPa',
     min: 0,
     max: 255,
+    responseBytes: 1,
     decode: (b) => b[0],
   },
 
@@ -73,6 +81,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'rpm',
     min: 0,
     max: 16383.75,
+    responseBytes: 2,
+    pollRateHz: 10,
     decode: (b) => (b[0] * 256 + b[1]) / 4,
   },
   '010D': {
@@ -82,6 +92,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'km/h',
     min: 0,
     max: 255,
+    responseBytes: 1,
+    pollRateHz: 10,
     decode: (b) => b[0],
   },
 
@@ -93,6 +105,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '\u00B0',
     min: -64,
     max: 63.5,
+    responseBytes: 1,
     decode: (b) => b[0] / 2 - 64,
   },
   '010F': {
@@ -102,6 +115,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '\u00B0C',
     min: -40,
     max: 215,
+    responseBytes: 1,
+    pollRateHz: 0.5,
     decode: (b) => b[0] - 40,
   },
 
@@ -113,6 +128,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'g/s',
     min: 0,
     max: 655.35,
+    responseBytes: 2,
+    pollRateHz: 5,
     decode: (b) => (b[0] * 256 + b[1]) / 100,
   },
   '0111': {
@@ -122,6 +139,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: 0,
     max: 100,
+    responseBytes: 1,
+    pollRateHz: 5,
     decode: (b) => (b[0] * 100) / 255,
   },
 
@@ -136,6 +155,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '0115': {
@@ -145,6 +165,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '0116': {
@@ -154,6 +175,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '0117': {
@@ -163,6 +185,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '0118': {
@@ -172,6 +195,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '0119': {
@@ -181,6 +205,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '011A': {
@@ -190,6 +215,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
   '011B': {
@@ -199,6 +225,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 1.275,
+    responseBytes: 2,
     decode: (b) => b[0] / 200,
   },
 
@@ -210,6 +237,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'sec',
     min: 0,
     max: 65535,
+    responseBytes: 2,
     decode: (b) => b[0] * 256 + b[1],
   },
 
@@ -221,6 +249,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: 0,
     max: 100,
+    responseBytes: 1,
     decode: (b) => (b[0] * 100) / 255,
   },
 
@@ -232,6 +261,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '\u00B0C',
     min: -40,
     max: 215,
+    responseBytes: 1,
+    pollRateHz: 0.1,
     decode: (b) => b[0] - 40,
   },
   '015C': {
@@ -241,6 +272,7 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: '\u00B0C',
     min: -40,
     max: 210,
+    responseBytes: 1,
     decode: (b) => b[0] - 40,
   },
 
@@ -252,6 +284,8 @@ export const STANDARD_PIDS: Record<string, PidDefinition> = {
     unit: 'L/h',
     min: 0,
     max: 3276.75,
+    responseBytes: 2,
+    pollRateHz: 2,
     decode: (b) => (b[0] * 256 + b[1]) / 20,
   },
 };
@@ -0,0 +1,222 @@
+import type { PidDefinition, TorquePidRow } from '../../types/obd';
+
+import { compileTorqueEquation, parseTorqueEquation, type SignalLookup } from '../torqueEquation';
+
+/**
+ * Torque Pro custom PID CSV files ("PID packs").
+ *
+ * Torque exports custom PIDs with the columns
+ *   Name, ShortName, ModeAndPID, Equation, Min Value, Max Value, Units, Header
+ * (plus a few Torque-specific ones that are ignored). This is the same layout as the PriusChat
+ * sheet that `scripts/generate-priuschat-metric.mjs` freezes into `priuschatMetric.ts`; packs
+ * are imported at runtime instead, stored in the database and merged into the protocol lookup.
+ */
+
+export interface TorqueCsvError {
+  /** 1-based line of the row in the file. */
+  line: number;
+  message: string;
+}
+
+export interface TorqueCsvResult {
+  rows: TorquePidRow[];
+  /** Rows that were skipped, and why. */
+  errors: TorqueCsvError[];
+}
+
+/** Column names per field, compared case-insensitively without spaces/underscores. */
+const COLUMNS: Record<keyof TorquePidRow, string[]> = {
+  name: ['name'],
+  shortName: ['shortname'],
+  modeAndPid: ['modeandpid', 'pid'],
+  equation: ['equation'],
+  min: ['minvalue', 'min'],
+  max: ['maxvalue', 'max'],
+  units: ['units', 'unit'],
+  header: ['header'],
+};
+
+/** Columns a pack must have; the others default to empty / 0. */
+const REQUIRED_COLUMNS: ReadonlyArray<keyof TorquePidRow> = ['name', 'modeAndPid', 'equation'];
+
+const normalizeColumn = (name: string) => name.trim().toLowerCase().replace(/[\s_]+/g, '');
+
+/** Minimal CSV parser (quotes, escaped quotes, CRLF). Returns each row with its starting line. */
+export function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // Blank lines are not rows.
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+        continue;
+      }
+      if (ch === '\n') {
+        line++;
+      }
+      field += ch;
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (ch !== '\r') {
+      field += ch;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/** Number cell; blank means 0 (as in the PriusChat sheet). */
+function parseNumberCell(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return 0;
+  }
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse and validate a Torque custom PID CSV. Every equation must compile; rows with a bad
+ * equation, request or header are reported in `errors` and left out.
+ * @throws Error if the header row lacks a required column
+ */
+export function parseTorquePidCsv(text: string): TorqueCsvResult {
+  const [headerRow, ...dataRows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) {
+    throw new Error('The CSV is empty');
+  }
+
+  const header = headerRow.fields.map(normalizeColumn);
+  const index = {} as Record<keyof TorquePidRow, number>;
+  for (const key of Object.keys(COLUMNS) as Array<keyof TorquePidRow>) {
+    index[key] = header.findIndex((column) => COLUMNS[key].includes(column));
+  }
+  const missing = REQUIRED_COLUMNS.filter((key) => index[key] === -1);
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: TorquePidRow[] = [];
+  const errors: TorqueCsvError[] = [];
+  for (const { line, fields } of dataRows) {
+    const cell = (key: keyof TorquePidRow) => (index[key] === -1 ? '' : fields[index[key]] ?? '');
+    const fail = (message: string) => errors.push({ line, message });
+
+    const name = cell('name').trim();
+    const modeAndPid = cell('modeAndPid').replace(/\s+/g, '').toUpperCase();
+    const equation = cell('equation').trim();
+    const headerCell = cell('header').trim().toUpperCase();
+    const min = parseNumberCell(cell('min'));
+    const max = parseNumberCell(cell('max'));
+
+    if (!name) {
+      fail('Name is empty');
+      continue;
+    }
+    if (!/^([0-9A-F]{2}){2,}$/.test(modeAndPid)) {
+      fail(`${name}: ModeAndPID "${cell('modeAndPid')}" is not a hex request`);
+      continue;
+    }
+    if (headerCell !== '' && !/^[0-9A-F]{3,8}$/.test(headerCell)) {
+      fail(`${name}: Header "${headerCell}" is not a CAN ID`);
+      continue;
+    }
+    if (min === undefined || max === undefined) {
+      fail(`${name}: Min/Max must be numbers`);
+      continue;
+    }
+    try {
+      parseTorqueEquation(equation);
+    } catch (err) {
+      fail(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+
+    rows.push({
+      name,
+      shortName: cell('shortName').trim() || name,
+      modeAndPid,
+      equation,
+      min,
+      max,
+      units: cell('units').trim(),
+      header: headerCell,
+    });
+  }
+
+  return { rows, errors };
+}
+
+function sanitizeIdPart(input: string): string {
+  const s = String(input ?? '').trim().toUpperCase();
+  const cleaned = s.replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return cleaned.length > 0 ? cleaned : 'X';
+}
+
+/**
+ * Turn pack rows into PID definitions with ids "TQ_<header>_<request>_<shortName>"
+ * (numbered on collision within the pack, like the PriusChat "PC_" ids).
+ *
+ * @param signal - Lookup for VAL{id} references in the equations
+ */
+export function torquePidDefinitions(
+  rows: ReadonlyArray<TorquePidRow>,
+  signal?: SignalLookup,
+): Record<string, PidDefinition> {
+  const out: Record<string, PidDefinition> = {};
+  for (const row of rows) {
+    const baseId = `TQ_${row.header || '7DF'}_${row.modeAndPid}_${sanitizeIdPart(row.shortName)}`;
+    let pid = baseId;
+    let n = 2;
+    while (out[pid]) {
+      pid = `${baseId}_${n++}`;
+    }
+
+    out[pid] = {
+      pid,
+      request: row.modeAndPid,
+      header: row.header || undefined,
+      name: row.name,
+      shortName: row.shortName,
+      unit: row.units,
+      min: row.min,
+      max: row.max,
+      decode: compileTorqueEquation(row.equation, signal),
+    };
+  }
+  return out;
+}
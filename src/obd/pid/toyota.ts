@@ -1,7 +1,8 @@
 import type { PidDefinition } from '../../types/obd';
 
+import { parseEcuMessages } from '../isoTp';
 import { compileTorqueEquation } from '../torqueEquation';
-import { PRIUSCHAT_METRIC_PIDS } from './priuschatMetric';
+import { PRIUSCHAT_METRIC_PIDS, PRIUSCHAT_METRIC_ROWS } from './priuschatMetric';
 
 /**
  * Toyota ZVW30 Prius (3rd gen) signals and PriusChat/Torque-derived custom PIDs.
@@ -61,6 +62,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: '%',
     min: 0,
     max: 100,
+    pollRateHz: 1,
     decode: compileTorqueEquation('A * 20 / 51'),
   },
 
@@ -73,6 +75,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'A',
     min: -200,
     max: 200,
+    pollRateHz: 5,
     decode: compileTorqueEquation('(A * 256 + B) / 100 - 327.68'),
   },
 
@@ -85,6 +88,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'V',
     min: 0,
     max: 300,
+    pollRateHz: 2,
     decode: decodeHvPackVoltageFrom2181,
   },
 
@@ -97,6 +101,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'C',
     min: -50,
     max: 80,
+    pollRateHz: 0.5,
     decode: decodeHvBatteryTempAvgFrom2187,
   },
 
@@ -109,6 +114,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'C',
     min: -20,
     max: 60,
+    pollRateHz: 0.2,
     decode: compileTorqueEquation('A * 63.75 / 255 - 6.5'),
   },
 
@@ -121,6 +127,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: '',
     min: 0,
     max: 1,
+    pollRateHz: 0.5,
     decode: compileTorqueEquation('{A:5}'),
   },
 
@@ -133,6 +140,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'kW',
     min: 0,
     max: 5,
+    pollRateHz: 1,
     decode: compileTorqueEquation('C * 50 / 1000'),
   },
 
@@ -145,6 +153,7 @@ export const ZVW30_ALIAS_PIDS: Record<string, PidDefinition> = {
     unit: 'C',
     min: 17.5,
     max: 32.5,
+    pollRateHz: 0.2,
     decode: compileTorqueEquation('A / 2 + 17.5'),
   },
 };
@@ -157,55 +166,129 @@ export const TOYOTA_PIDS: Record<string, PidDefinition> = {
 
 export const ZVW30_ALIAS_PID_LIST = Object.keys(ZVW30_ALIAS_PIDS);
 
+// --- ECUs ----------------------------------------------------------------------
+
+/** Display names for the ZVW30 ECUs addressed by CAN TX header. */
+export const TOYOTA_ECU_NAMES: Record<string, string> = {
+  '7E0': 'Engine',
+  '7E2': 'Hybrid',
+  '7B0': 'ABS / Brake',
+  '7C4': 'A/C',
+  '7C0': 'Meter',
+};
+
+/** Physical ECU headers known from the PriusChat list (targets for a full-vehicle DTC scan). */
+export const TOYOTA_ECU_HEADERS: ReadonlyArray<string> = Array.from(
+  new Set(PRIUSCHAT_METRIC_ROWS.map((row) => row.header.trim().toUpperCase())),
+).sort();
+
+/** Result of probing one request on one ECU (every signal sharing it has the same fate). */
+export interface RequestGroupProbe {
+  /** CAN TX header (e.g. '7E2'). */
+  header: string;
+  /** Request without whitespace (e.g. '2181'). */
+  request: string;
+  supported: boolean;
+  /** Signal ids answered by this request. */
+  pids: string[];
+}
+
+/** Negative response codes that mean "ask again later" rather than "not supported". */
+const TRANSIENT_NEGATIVE_RESPONSES: ReadonlyArray<number> = [0x21, 0x78];
+
+/** A probe that gets no definite answer is sent this many times in total. */
+const PROBE_ATTEMPTS = 2;
+
+/** Request hex ("2181") as bytes: the service, then the PID. */
+function requestBytes(request: string): number[] {
+  return (request.match(/[0-9A-F]{2}/gi) ?? []).map((pair) => parseInt(pair, 16));
+}
+
+/** True if an ECU gave the positive reply to `request` (service + 0x40, then the PID bytes). */
+function isPositiveResponse(response: string, request: string): boolean {
+  const [service, ...pid] = requestBytes(request);
+  return parseEcuMessages(response).some(
+    ({ payload }) =>
+      payload[0] === service + 0x40 && pid.every((byte, i) => payload[i + 1] === byte),
+  );
+}
+
+/**
+ * True if the vehicle definitely does not answer `request`: NO DATA, or a 7F negative
+ * response to its service (except "busy" / "response pending", which are worth a retry).
+ */
+function isDefiniteNegative(response: string, request: string): boolean {
+  if (/NO\s*DATA/i.test(response)) {
+    return true;
+  }
+  const [service] = requestBytes(request);
+  return parseEcuMessages(response).some(
+    ({ payload }) =>
+      payload[0] === 0x7f &&
+      payload[1] === service &&
+      !TRANSIENT_NEGATIVE_RESPONSES.includes(payload[2]),
+  );
+}
+
 /**
  * Toyota PID probing.
  *
- * The PriusChat list is large; by default we probe only the alias signals used by the UI.
- * Pass an explicit list to probe more.
+ * The PriusChat list shares a few dozen requests between hundreds of signals, so each distinct
+ * request/header group is sent once and the answer applies to all of its signals. Groups are
+ * probed header by header to keep ATSH switches down.
+ *
+ * Only definite answers are reported: a group that times out, hits a bus error or gets a
+ * garbled reply is retried once and otherwise left out, so it stays unknown (polled as usual)
+ * instead of being cached as dead.
+ *
+ * @param signalIds - Signals to probe (default: every Toyota signal)
+ * @returns One entry per group with a definite answer, unsupported ones included
  */
 export async function probeToyotaPids(
   sendCommand: (command: string) => Promise<string>,
-  signalIds: string[] = ZVW30_ALIAS_PID_LIST,
-): Promise<string[]> {
-  const supported: string[] = [];
-
-  let currentHeader: string | null = null;
-  const ensureHeader = async (hdr: string) => {
-    const header = hdr.trim().toUpperCase();
-    if (!header) return;
-    if (currentHeader === header) return;
-    await sendCommand(`ATSH ${header}`);
-    currentHeader = header;
-  };
-
+  signalIds: ReadonlyArray<string> = Object.keys(TOYOTA_PIDS),
+): Promise<RequestGroupProbe[]> {
+  const groups = new Map<string, Omit<RequestGroupProbe, 'supported'>>();
   for (const id of signalIds) {
     const def = TOYOTA_PIDS[id];
     if (!def) continue;
 
-    const request = (def.request ?? def.pid).trim().toUpperCase();
-    const header = (def.header ?? '').trim().toUpperCase();
+    const request = (def.request ?? def.pid).replace(/\s+/g, '').toUpperCase();
+    const header = (def.header ?? '7DF').trim().toUpperCase();
+    const key = `${header}|${request}`;
+    const group = groups.get(key) ?? { header, request, pids: [] };
+    group.pids.push(id);
+    groups.set(key, group);
+  }
 
-    try {
-      if (header) {
-        await ensureHeader(header);
+  const ordered = [...groups.values()].sort((a, b) => a.header.localeCompare(b.header));
+  const probes: RequestGroupProbe[] = [];
+  let currentHeader: string | null = null;
+  for (const group of ordered) {
+    const cmd = group.request.match(/.{1,2}/g)?.join(' ') ?? group.request;
+    for (let attempt = 0; attempt < PROBE_ATTEMPTS; attempt++) {
+      let response: string;
+      try {
+        if (currentHeader !== group.header) {
+          await sendCommand(`ATSH ${group.header}`);
+          currentHeader = group.header;
+        }
+        response = await sendCommand(cmd);
+      } catch (err) {
+        // The adapter layer throws on NO DATA too; the message carries the response.
+        response = err instanceof Error ? err.message : String(err);
       }
 
-      const cmd = request.match(/.{1,2}/g)?.join(' ') ?? request;
-      const response = await sendCommand(cmd);
-
-      const isError =
-        response.toUpperCase().includes('NO DATA') ||
-        response.toUpperCase().includes('7F') ||
-        response.toUpperCase().includes('ERROR') ||
-        response.trim() === '';
-
-      if (!isError) {
-        supported.push(id);
+      if (isPositiveResponse(response, group.request)) {
+        probes.push({ ...group, supported: true });
+        break;
+      }
+      if (isDefiniteNegative(response, group.request)) {
+        probes.push({ ...group, supported: false });
+        break;
       }
-    } catch {
-      // skip
     }
   }
 
-  return supported;
+  return probes;
 }
@@ -0,0 +1,78 @@
+import type { CanSignalDefinition } from '../../types/obd';
+
+/** Signed value of the low 12 bits of a big-endian 16-bit field. */
+function signed12(hi: number, lo: number): number {
+  const raw = (hi % 16) * 256 + lo;
+  return raw >= 2048 ? raw - 4096 : raw;
+}
+
+/**
+ * Periodic frames broadcast on the ZVW30 Prius powertrain CAN bus.
+ * Layouts follow the community CAN logs (Gen2/Gen3 Prius); signal ids reuse the store keys of
+ * the polled equivalents so screens pick up sniffed values without changes.
+ *
+ * These arrive 10-100 times per second without any request, far faster than polling allows.
+ */
+export const ZVW30_CAN_SIGNALS: ReadonlyArray<CanSignalDefinition> = [
+  {
+    pid: 'TOYOTA_HV_CURRENT',
+    canId: '03B',
+    name: 'HV Battery Pack Current',
+    shortName: 'HV Amp',
+    unit: 'A',
+    min: -200,
+    max: 200,
+    // Positive = discharging, same sign as 2198.
+    decode: (b) => signed12(b[0], b[1]) / 10,
+  },
+  {
+    pid: 'TOYOTA_HV_VOLTAGE',
+    canId: '03B',
+    name: 'HV Battery Pack Voltage',
+    shortName: 'HV Volt',
+    unit: 'V',
+    min: 0,
+    max: 300,
+    decode: (b) => b[2] * 256 + b[3],
+  },
+  {
+    pid: 'TOYOTA_HV_SOC',
+    canId: '3CB',
+    name: 'HV Battery State of Charge',
+    shortName: 'SOC',
+    unit: '%',
+    min: 0,
+    max: 100,
+    decode: (b) => b[3] / 2,
+  },
+  {
+    pid: '010D',
+    canId: '0B4',
+    name: 'Vehicle Speed',
+    shortName: 'Speed',
+    unit: 'km/h',
+    min: 0,
+    max: 255,
+    decode: (b) => (b[5] * 256 + b[6]) / 100,
+  },
+  {
+    pid: '010C',
+    canId: '3C8',
+    name: 'Engine RPM',
+    shortName: 'RPM',
+    unit: 'rpm',
+    min: 0,
+    max: 16383.75,
+    decode: (b) => b[2] * 256 + b[3],
+  },
+  {
+    pid: 'CAN_BRAKE_PRESSURE',
+    canId: '030',
+    name: 'Brake Pedal Pressure',
+    shortName: 'Brake',
+    unit: '',
+    min: 0,
+    max: 127,
+    decode: (b) => b[4],
+  },
+];
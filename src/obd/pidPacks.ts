@@ -0,0 +1,123 @@
+import type { PidDefinition } from '../types/obd';
+
+import { database } from '../storage/database';
+import { useOBDStore } from '../store/obdStore';
+import { registerUserSignals } from '../utils/meterLayout';
+import { parseTorquePidCsv, torquePidDefinitions, type TorqueCsvError } from './pid/torqueCsv';
+import { STANDARD_PIDS } from './pid/standard';
+import { TOYOTA_PIDS } from './pid/toyota';
+
+/**
+ * PID packs: Torque-format custom PID CSVs imported at runtime.
+ *
+ * Packs are stored in the database and loaded at startup. Their PIDs are merged into the
+ * protocol's definition lookup (`OBDProtocol` asks `definition()` for ids it does not know)
+ * and offered to meters, and `obdClient` polls them. Built-in PIDs win over pack PIDs with the
+ * same id, and an earlier pack wins over a later one.
+ */
+
+export interface PidPackSummary {
+  id: number;
+  name: string;
+  importedAt: number;
+  /** PID ids the pack contributes (including ones shadowed by built-in or earlier ids). */
+  pids: string[];
+}
+
+export interface PidPackImportResult {
+  packId: number;
+  imported: number;
+  /** Rows that were skipped, and why. */
+  errors: TorqueCsvError[];
+}
+
+/** VAL{id} in pack equations reads the latest published value. */
+const latestValue = (id: string) => useOBDStore.getState().data[id]?.value ?? 0;
+
+class PidPackRegistry {
+  private packs: PidPackSummary[] = [];
+  private definitionsById: Record<string, PidDefinition> = {};
+  private changeCallbacks = new Set<() => void>();
+
+  /** Load the saved packs from the database, replacing the current set. */
+  async load(): Promise<void> {
+    const records = await database.getPidPacks();
+    const packs: PidPackSummary[] = [];
+    const merged: Record<string, PidDefinition> = {};
+
+    for (const record of records) {
+      const definitions = torquePidDefinitions(record.rows, latestValue);
+      for (const [pid, definition] of Object.entries(definitions)) {
+        if (!(pid in STANDARD_PIDS) && !(pid in TOYOTA_PIDS) && !merged[pid]) {
+          merged[pid] = definition;
+        }
+      }
+      packs.push({
+        id: record.id,
+        name: record.name,
+        importedAt: record.importedAt,
+        pids: Object.keys(definitions),
+      });
+    }
+
+    this.packs = packs;
+    this.definitionsById = merged;
+    registerUserSignals('packs', Object.values(merged));
+    this.changeCallbacks.forEach((callback) => callback());
+  }
+
+  /**
+   * Call `callback` whenever the set of pack PIDs may have changed (load, import, remove).
+   * @returns Function that removes the callback
+   */
+  onChange(callback: () => void): () => void {
+    this.changeCallbacks.add(callback);
+    return () => {
+      this.changeCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Validate a Torque custom PID CSV and save its valid rows as a new pack.
+   * @param name - Display name of the pack
+   * @param csvText - Contents of the CSV file
+   * @throws Error if the CSV is malformed or has no valid row
+   */
+  async import(name: string, csvText: string): Promise<PidPackImportResult> {
+    const { rows, errors } = parseTorquePidCsv(csvText);
+    if (rows.length === 0) {
+      throw new Error(
+        errors.length > 0
+          ? `No valid PID in the CSV (${errors.length} invalid row(s))`
+          : 'The CSV has no PID rows',
+      );
+    }
+
+    const packId = await database.savePidPack(name.trim() || 'PID Pack', rows);
+    await this.load();
+    return { packId, imported: rows.length, errors };
+  }
+
+  /** Delete a pack; its PIDs disappear from the lookup. */
+  async remove(packId: number): Promise<void> {
+    await database.deletePidPack(packId);
+    await this.load();
+  }
+
+  /** Loaded packs, in import order. */
+  list(): PidPackSummary[] {
+    return this.packs;
+  }
+
+  /** Definition of a pack PID, or undefined if no loaded pack defines `pid`. */
+  definition(pid: string): PidDefinition | undefined {
+    return this.definitionsById[pid];
+  }
+
+  /** Every pack PID that is not shadowed by a built-in or earlier one. */
+  definitions(): PidDefinition[] {
+    return Object.values(this.definitionsById);
+  }
+}
+
+export const pidPacks = new PidPackRegistry();
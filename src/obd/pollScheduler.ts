@@ -0,0 +1,166 @@
+/** Consecutive failed reads (NO DATA, negative response, timeout) before a group is backed off. */
+export const POLL_BACKOFF_THRESHOLD = 3;
+
+/** Longest period a backed-off group is stretched to. */
+export const POLL_MAX_BACKOFF_MS = 30000;
+
+/** Weight of the newest interval in the achieved-rate average. */
+const RATE_SMOOTHING = 0.2;
+
+/** One OBD request (header + request bytes) and the signals decoded from its response. */
+export interface PollGroup {
+  request: string;
+  header: string | undefined;
+  ids: string[];
+  /** Target period derived from the signals' `pollRateHz`. */
+  periodMs: number;
+}
+
+/** Polling statistics of one signal (shared by all signals of a request group). */
+export interface PollSignalStats {
+  targetHz: number;
+  /** Successful reads per second, 0 until two reads have succeeded. */
+  achievedHz: number;
+  /** Consecutive failed reads of the group. */
+  failures: number;
+  /** Whether the group is currently polled slower than its target because it keeps failing. */
+  backedOff: boolean;
+}
+
+interface GroupState {
+  group: PollGroup;
+  nextDueAt: number;
+  failures: number;
+  lastSuccessAt: number | null;
+  avgIntervalMs: number | null;
+}
+
+/**
+ * Picks the next request group to send so every group approaches its target rate.
+ *
+ * The adapter is half-duplex, so requests are issued one at a time: the group that is most
+ * overdue goes first (earliest deadline first). When the bus cannot keep up, every group
+ * slows down in proportion to its target instead of slow signals starving the fast ones.
+ * Groups that keep failing are retried with an exponentially growing period.
+ *
+ * Pure bookkeeping: `OBDProtocol` does the I/O and passes in the clock.
+ */
+export class PollScheduler {
+  private readonly states: GroupState[];
+
+  constructor(groups: PollGroup[], now: number) {
+    // Everything is due immediately so the first pass reads each signal once.
+    this.states = groups.map((group) => ({
+      group,
+      nextDueAt: now,
+      failures: 0,
+      lastSuccessAt: null,
+      avgIntervalMs: null,
+    }));
+  }
+
+  /** The most overdue group, or null if nothing is due yet. */
+  next(now: number): PollGroup | null {
+    let best: GroupState | null = null;
+    for (const state of this.states) {
+      if (state.nextDueAt <= now && (!best || state.nextDueAt < best.nextDueAt)) {
+        best = state;
+      }
+    }
+    return best?.group ?? null;
+  }
+
+  /**
+   * The most overdue group plus up to `max - 1` other due groups that may share its request
+   * (e.g. Mode 01 PIDs combined into one "01 0C 0D 11" request).
+   * @param canJoin - Whether `other` can be sent together with `first`
+   */
+  nextBatch(
+    now: number,
+    max: number,
+    canJoin: (first: PollGroup, other: PollGroup) => boolean,
+  ): PollGroup[] {
+    const first = this.next(now);
+    if (!first) {
+      return [];
+    }
+
+    const others = this.states
+      .filter((s) => s.group !== first && s.nextDueAt <= now && canJoin(first, s.group))
+      .sort((a, b) => a.nextDueAt - b.nextDueAt)
+      .slice(0, Math.max(0, max - 1));
+    return [first, ...others.map((s) => s.group)];
+  }
+
+  /** Milliseconds until the next group becomes due (0 if one is due already). */
+  msUntilNext(now: number): number {
+    if (this.states.length === 0) {
+      return POLL_MAX_BACKOFF_MS;
+    }
+    const earliest = Math.min(...this.states.map((s) => s.nextDueAt));
+    return Math.max(0, earliest - now);
+  }
+
+  /**
+   * Record the outcome of a read and schedule the group's next one.
+   * @param ok - The response carried data for the request
+   */
+  report(group: PollGroup, ok: boolean, now: number): void {
+    const state = this.states.find((s) => s.group === group);
+    if (!state) {
+      return;
+    }
+
+    if (ok) {
+      if (state.lastSuccessAt !== null) {
+        const interval = now - state.lastSuccessAt;
+        state.avgIntervalMs =
+          state.avgIntervalMs === null
+            ? interval
+            : state.avgIntervalMs + RATE_SMOOTHING * (interval - state.avgIntervalMs);
+      }
+      state.lastSuccessAt = now;
+      state.failures = 0;
+    } else {
+      state.failures++;
+    }
+
+    // Keep the cadence anchored to the deadline, but don't try to catch up on missed slots.
+    state.nextDueAt = Math.max(state.nextDueAt + this.effectivePeriod(state), now);
+  }
+
+  /** Per-signal statistics keyed by signal id. */
+  getStats(now: number): Record<string, PollSignalStats> {
+    const stats: Record<string, PollSignalStats> = {};
+    for (const state of this.states) {
+      const entry: PollSignalStats = {
+        targetHz: 1000 / state.group.periodMs,
+        achievedHz: this.achievedHz(state, now),
+        failures: state.failures,
+        backedOff: state.failures >= POLL_BACKOFF_THRESHOLD,
+      };
+      for (const id of state.group.ids) {
+        stats[id] = entry;
+      }
+    }
+    return stats;
+  }
+
+  private effectivePeriod(state: GroupState): number {
+    const { periodMs } = state.group;
+    if (state.failures < POLL_BACKOFF_THRESHOLD) {
+      return periodMs;
+    }
+    const stretched = periodMs * 2 ** (state.failures - POLL_BACKOFF_THRESHOLD + 1);
+    return Math.max(periodMs, Math.min(POLL_MAX_BACKOFF_MS, stretched));
+  }
+
+  private achievedHz(state: GroupState, now: number): number {
+    if (state.avgIntervalMs === null || state.lastSuccessAt === null) {
+      return 0;
+    }
+    // A signal that stopped answering decays towards 0 instead of keeping its old rate.
+    const interval = Math.max(state.avgIntervalMs, now - state.lastSuccessAt, 1);
+    return 1000 / interval;
+  }
+}
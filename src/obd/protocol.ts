@@ -1,10 +1,72 @@
-import { PidDefinition } from '../types/obd';
+import {
+  CanSignalDefinition,
+  EcuVehicleInfo,
+  FreezeFrame,
+  PidDefinition,
+  VehicleInfo,
+} from '../types/obd';
+import { formatDTCCode } from '../utils/formatter';
+import { parseEcuMessages } from './isoTp';
 import { STANDARD_PIDS, SUPPORTED_PID_QUERIES, decodeSupportedPids } from './pid/standard';
-import { TOYOTA_PIDS } from './pid/toyota';
+import {
+  TOYOTA_ECU_HEADERS,
+  TOYOTA_PIDS,
+  probeToyotaPids,
+  type RequestGroupProbe,
+} from './pid/toyota';
+import { pidPacks } from './pidPacks';
+import { VEHICLE_INFO_TYPES, decodeVehicleInfo, isValidVin } from './vehicleInfo';
+import { PollScheduler, type PollGroup, type PollSignalStats } from './pollScheduler';
 
 /** Default functional CAN header for Mode 01 queries (broadcast). */
 const DEFAULT_TX_HEADER = '7DF';
 
+/** Shortest idle gap between polls worth spending on bus monitoring (setup costs ~4 round trips). */
+const MIN_MONITOR_WINDOW_MS = 150;
+
+/** Longest monitor window, so stopPolling() and pending requests are not held up for long. */
+const MAX_MONITOR_WINDOW_MS = 500;
+
+/** Sniffed values are handed to the callback at most this often (latest value per signal). */
+const MONITOR_FLUSH_MS = 100;
+
+/** Mode 01 accepts up to six PIDs per request on CAN (ISO 15765-4). */
+const MAX_PIDS_PER_MODE01_REQUEST = 6;
+
+/** 11-bit diagnostic IDs: an ECU addressed at 7E2 answers from 7EA (7C4 -> 7CC, ...). */
+const CAN_RESPONSE_ID_OFFSET = 8;
+
+/** DTC services: Mode 03 stored, Mode 07 pending, Mode 0A permanent. */
+const DTC_SERVICES = {
+  stored: { request: '03', isPending: false, isPermanent: false },
+  pending: { request: '07', isPending: true, isPermanent: false },
+  permanent: { request: '0A', isPending: false, isPermanent: true },
+} as const;
+
+type DtcService = (typeof DTC_SERVICES)[keyof typeof DTC_SERVICES];
+
+/** Mode 01 PIDs read back from a freeze frame (load, coolant, fuel trims, MAP, RPM, speed, ...). */
+export const FREEZE_FRAME_PIDS: ReadonlyArray<string> = [
+  '0104',
+  '0105',
+  '0106',
+  '0107',
+  '010B',
+  '010C',
+  '010D',
+  '010F',
+  '0111',
+];
+
+/** Mode 01 request whose reply length is known, so it can be combined with others. */
+function isBatchableMode01(request: string): boolean {
+  return (
+    request.length === 4 &&
+    request.startsWith('01') &&
+    STANDARD_PIDS[request]?.responseBytes !== undefined
+  );
+}
+
 /**
  * Interface for ELM327 adapter communication.
  * The OBDProtocol class depends on this interface rather than a concrete class,
@@ -20,6 +82,18 @@ export interface Elm327Interface {
 
   /** Whether the adapter is currently connected. */
   isConnected(): boolean;
+
+  /**
+   * Send a command whose output keeps streaming until interrupted (ATMA, ATMR, ...).
+   * Each received line is passed to `onLine`; after `durationMs` a character is sent to stop
+   * the adapter, and the promise resolves once it is back at the prompt.
+   * Optional: transports without it cannot monitor the bus.
+   */
+  sendStreamingCommand?(
+    command: string,
+    durationMs: number,
+    onLine: (line: string) => void,
+  ): Promise<void>;
 }
 
 /** Result of a single PID read operation. */
@@ -28,6 +102,22 @@ export interface PidReadResult {
   raw: string;
 }
 
+/** A DTC decoded from a Mode 03/07/0A response. */
+export interface DecodedDTC {
+  code: string;
+  isPending: boolean;
+  isPermanent: boolean;
+}
+
+/** DTCs reported by one ECU during a full-vehicle scan. */
+export interface EcuDtcResult {
+  /** CAN TX header used to address the ECU (e.g. '7E2'). */
+  header: string;
+  /** Whether the ECU gave a positive response to at least one DTC service. */
+  responded: boolean;
+  codes: DecodedDTC[];
+}
+
 /** Callback invoked for each PID value during polling. */
 export type PollingCallback = (
   pid: string,
@@ -42,13 +132,23 @@ export type PollingCallback = (
  * Supports both standard OBD-II (Mode 01) and Toyota-specific (Mode 21/22) PIDs.
  *
  * ELM327 adapters are half-duplex: only one command can be in-flight at a time.
- * All PID reads are therefore sequential, and polling iterates through the
- * requested PID list round-robin.
+ * All PID reads are therefore sequential; polling interleaves the requested
+ * PIDs according to their target rates.
  */
 export class OBDProtocol {
   private elm327: Elm327Interface;
   private pollingTimer: ReturnType<typeof setTimeout> | null = null;
   private isPolling = false;
+  private activeCycle: Promise<void> | null = null;
+  private pollingConfig: {
+    pids: string[];
+    intervalMs: number;
+    callback: PollingCallback;
+    monitor?: ReadonlyArray<CanSignalDefinition>;
+  } | null = null;
+  private scheduler: PollScheduler | null = null;
+  /** CAN filter applied for monitoring (ATCAF0 + ATCRA/CF/CM), or null in request mode. */
+  private monitorFilter: string | null = null;
   private allPidDefinitions: Record<string, PidDefinition>;
   private currentTxHeader: string | null = null;
 
@@ -58,6 +158,11 @@ export class OBDProtocol {
     this.allPidDefinitions = { ...STANDARD_PIDS, ...TOYOTA_PIDS };
   }
 
+  /** Built-in definition, or one from an imported PID pack. */
+  private pidDefinition(id: string): PidDefinition | undefined {
+    return this.allPidDefinitions[id] ?? pidPacks.definition(id);
+  }
+
   private formatObdCommand(request: string): string {
     const compact = request.replace(/\s+/g, '').toUpperCase();
     const parts = compact.match(/.{1,2}/g);
@@ -65,6 +170,9 @@ export class OBDProtocol {
   }
 
   private async ensureTxHeader(header: string | undefined): Promise<void> {
+    // Every request goes through here; restore request/response settings after monitoring.
+    await this.leaveMonitorMode();
+
     const desired = (header ?? DEFAULT_TX_HEADER).trim().toUpperCase();
     if (!desired) return;
 
@@ -139,7 +247,7 @@ export class OBDProtocol {
       throw new Error('ELM327 adapter is not connected');
     }
 
-    const definition = this.allPidDefinitions[pid];
+    const definition = this.pidDefinition(pid);
     if (!definition) {
       throw new Error(`Unknown PID: ${pid}`);
     }
@@ -163,102 +271,235 @@ export class OBDProtocol {
   }
 
   /**
-   * Start polling multiple PIDs at a regular interval.
+   * Start polling multiple PIDs, each at its target rate.
+   *
+   * Signal ids are grouped by request (plus ECU header) so each request is sent once even if
+   * several signals are decoded from it. A group's period comes from the highest
+   * `pollRateHz` of its signals; groups without any rate are polled every `intervalMs`.
+   * `PollScheduler` interleaves the groups (most overdue first) and backs off groups that
+   * keep returning NO DATA. Requests are still sent one at a time, as the ELM327 is half-duplex.
+   *
+   * Standard Mode 01 PIDs that are due together are combined into one request (up to six,
+   * e.g. "01 0C 0D 11") and the reply is split using the STANDARD_PIDS response lengths.
+   * If the ECU does not answer a combined request but answers the single ones, the rest of
+   * the session falls back to single requests.
    *
-   * PIDs are queried sequentially in round-robin order because the ELM327
-   * adapter cannot handle concurrent commands. Each cycle iterates through
-   * all requested PIDs, then waits for the specified interval before
-   * starting the next cycle.
+   * With `monitor` signals, idle time between polls is spent listening to the bus (ATMA) and
+   * decoding those broadcast frames; with no `pids` the adapter only monitors. Requires a
+   * transport with `sendStreamingCommand` (see `canMonitor()`).
    *
    * If a PID read fails, the error is reported via the callback and
    * polling continues with the next PID. This prevents a single
    * intermittent failure from stopping all data collection.
    *
    * @param pids - Array of PID strings to poll
-   * @param intervalMs - Delay between polling cycles in milliseconds
+   * @param intervalMs - Polling period for signals without a target rate
    * @param callback - Invoked for each PID result (or error)
+   * @param monitor - Broadcast signals to decode between polls
    */
   startPolling(
     pids: string[],
     intervalMs: number,
     callback: PollingCallback,
+    monitor?: ReadonlyArray<CanSignalDefinition>,
   ): void {
     if (this.isPolling) {
       this.stopPolling();
     }
 
-    if (pids.length === 0) {
+    const monitorSignals = monitor && monitor.length > 0 && this.canMonitor() ? monitor : undefined;
+    if (pids.length === 0 && !monitorSignals) {
       return;
     }
 
     this.isPolling = true;
+    this.pollingConfig = { pids, intervalMs, callback, monitor };
 
-    // Group signal ids by the underlying OBD request (plus ECU header) so we only
-    // send each request once per cycle, even if multiple metrics are derived from it.
-    const groups: Array<{ request: string; header: string | undefined; ids: string[] }> = [];
+    const groups: PollGroup[] = [];
+    const groupRates: Array<number | undefined> = [];
     const groupIndex = new Map<string, number>();
     for (const id of pids) {
-      const def = this.allPidDefinitions[id];
+      const def = this.pidDefinition(id);
       const request = (def?.request ?? id).replace(/\s+/g, '').toUpperCase();
       const header = def?.header;
       const key = `${(header ?? DEFAULT_TX_HEADER).trim().toUpperCase()}|${request}`;
+      const rate = def?.pollRateHz;
 
-      const idx = groupIndex.get(key);
+      let idx = groupIndex.get(key);
       if (idx === undefined) {
-        groupIndex.set(key, groups.length);
-        groups.push({ request, header, ids: [id] });
-      } else {
-        groups[idx].ids.push(id);
+        idx = groups.length;
+        groupIndex.set(key, idx);
+        groups.push({ request, header, ids: [], periodMs: intervalMs });
+        groupRates.push(undefined);
+      }
+      groups[idx].ids.push(id);
+      if (rate !== undefined && rate > 0) {
+        groupRates[idx] = Math.max(groupRates[idx] ?? 0, rate);
       }
     }
+    groups.forEach((group, i) => {
+      const rate = groupRates[i];
+      if (rate !== undefined) {
+        group.periodMs = 1000 / rate;
+      }
+    });
+
+    const scheduler = new PollScheduler(groups, Date.now());
+    this.scheduler = scheduler;
+    // A pass of a previous session still awaiting a response must not carry on after it.
+    const active = () => this.isPolling && this.scheduler === scheduler;
+
+    const deliver = (group: PollGroup, bytes: number[], raw: string) => {
+      for (const id of group.ids) {
+        const def = this.pidDefinition(id);
+        if (!def) {
+          callback(id, null, new Error(`Unknown PID: ${id}`));
+          continue;
+        }
+        try {
+          const value = def.decode(bytes);
+          callback(id, { value, raw });
+        } catch (err) {
+          callback(id, null, err instanceof Error ? err : new Error(String(err)));
+        }
+      }
+    };
 
-    const pollCycle = async () => {
-      if (!this.isPolling) {
+    const fail = (group: PollGroup, error: unknown) => {
+      const err = error instanceof Error ? error : new Error(String(error));
+      for (const id of group.ids) {
+        callback(id, null, err);
+      }
+    };
+
+    const pollGroup = async (group: PollGroup): Promise<boolean> => {
+      try {
+        await this.ensureTxHeader(group.header);
+        const raw = await this.elm327.sendCommand(this.formatObdCommand(group.request));
+        const bytes = this.parseResponseBytes(raw, group.request);
+        if (bytes.length === 0) {
+          throw new Error(`No data received for request ${group.request}`);
+        }
+        deliver(group, bytes, raw);
+        return true;
+      } catch (error) {
+        fail(group, error);
+        return false;
+      }
+    };
+
+    // Mode 01 PIDs on the same header can share one request while the ECU accepts it.
+    let batching = true;
+    const canJoin = (first: PollGroup, other: PollGroup) =>
+      isBatchableMode01(first.request) &&
+      isBatchableMode01(other.request) &&
+      (first.header ?? DEFAULT_TX_HEADER) === (other.header ?? DEFAULT_TX_HEADER);
+
+    const pollBatch = async (batch: PollGroup[]): Promise<void> => {
+      const request = `01${batch.map((group) => group.request.substring(2)).join('')}`;
+      let raw = '';
+      let payloads = new Map<string, number[]>();
+      try {
+        await this.ensureTxHeader(batch[0].header);
+        raw = await this.elm327.sendCommand(this.formatObdCommand(request));
+        payloads = this.parseMode01Batch(raw);
+      } catch {
+        // Treated like a rejected request below.
+      }
+
+      if (payloads.size === 0) {
+        // No positive answer: retry one by one. If those work, the ECU only takes single PIDs.
+        let anyOk = false;
+        for (const group of batch) {
+          if (!active()) return;
+          const ok = await pollGroup(group);
+          scheduler.report(group, ok, Date.now());
+          anyOk = anyOk || ok;
+        }
+        if (anyOk) {
+          batching = false;
+        }
         return;
       }
 
-      for (const group of groups) {
-        if (!this.isPolling) {
-          return;
+      const now = Date.now();
+      for (const group of batch) {
+        const bytes = payloads.get(group.request);
+        if (bytes) {
+          deliver(group, bytes, raw);
+        } else {
+          fail(group, new Error(`No data received for request ${group.request}`));
         }
+        scheduler.report(group, bytes !== undefined, now);
+      }
+    };
 
-        try {
-          await this.ensureTxHeader(group.header);
-          const raw = await this.elm327.sendCommand(this.formatObdCommand(group.request));
-          const bytes = this.parseResponseBytes(raw, group.request);
-          if (bytes.length === 0) {
-            throw new Error(`No data received for request ${group.request}`);
-          }
+    const pollDue = async () => {
+      // Send every due request back to back, then sleep until the next one is due.
+      const nextBatch = () =>
+        scheduler.nextBatch(Date.now(), batching ? MAX_PIDS_PER_MODE01_REQUEST : 1, canJoin);
+
+      let batch = nextBatch();
+      while (batch.length > 0 && active()) {
+        if (batch.length > 1) {
+          await pollBatch(batch);
+        } else {
+          const ok = await pollGroup(batch[0]);
+          scheduler.report(batch[0], ok, Date.now());
+        }
+        batch = nextBatch();
+      }
 
-          for (const id of group.ids) {
-            const def = this.allPidDefinitions[id];
-            if (!def) {
-              callback(id, null, new Error(`Unknown PID: ${id}`));
-              continue;
-            }
-            try {
-              const value = def.decode(bytes);
-              callback(id, { value, raw });
-            } catch (err) {
-              callback(id, null, err instanceof Error ? err : new Error(String(err)));
-            }
-          }
+      if (!active()) {
+        return;
+      }
+
+      // Listen to the bus until the next poll is due (when there is time for it).
+      const idleMs = scheduler.msUntilNext(Date.now());
+      if (monitorSignals && idleMs >= MIN_MONITOR_WINDOW_MS) {
+        try {
+          await this.monitorBus(monitorSignals, Math.min(idleMs, MAX_MONITOR_WINDOW_MS), callback);
         } catch (error) {
+          // Adapter busy or gone; the next pass (or the disconnect) deals with it.
           const err = error instanceof Error ? error : new Error(String(error));
-          for (const id of group.ids) {
-            callback(id, null, err);
+          for (const signal of monitorSignals) {
+            callback(signal.pid, null, err);
           }
         }
+        if (active()) {
+          this.pollingTimer = setTimeout(runCycle, 0);
+        }
+        return;
       }
 
-      // Schedule next cycle only if still polling
-      if (this.isPolling) {
-        this.pollingTimer = setTimeout(pollCycle, intervalMs);
-      }
+      // Schedule next pass only if still polling
+      this.pollingTimer = setTimeout(runCycle, idleMs);
     };
 
-    // Start the first cycle immediately
-    pollCycle();
+    const runCycle = () => {
+      this.activeCycle = pollDue();
+    };
+
+    // Start the first pass right away, or as soon as a pass of the previous session is done.
+    this.activeCycle = (this.activeCycle ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => (active() ? pollDue() : undefined));
+  }
+
+  /** Whether the transport can stream monitor output (ATMA). */
+  canMonitor(): boolean {
+    return typeof this.elm327.sendStreamingCommand === 'function';
+  }
+
+  /**
+   * Target and achieved polling rate per signal of the current polling session
+   * (empty when not polling).
+   */
+  getPollingStats(): Record<string, PollSignalStats> {
+    if (!this.isPolling || !this.scheduler) {
+      return {};
+    }
+    return this.scheduler.getStats(Date.now());
   }
 
   /**
@@ -267,53 +508,421 @@ export class OBDProtocol {
    */
   stopPolling(): void {
     this.isPolling = false;
+    this.pollingConfig = null;
+    this.scheduler = null;
     if (this.pollingTimer !== null) {
       clearTimeout(this.pollingTimer);
       this.pollingTimer = null;
     }
   }
 
+  /**
+   * Run a one-off request sequence (e.g. DTC read/clear) with polling suspended.
+   *
+   * Waits for the in-flight polling cycle to finish so the adapter is idle, runs the task,
+   * then resumes polling with the previous PID list and interval. If `stopPolling()` is
+   * called while the task runs, polling stays stopped.
+   */
+  async withPollingPaused<T>(task: () => Promise<T>): Promise<T> {
+    const config = this.pollingConfig;
+    this.stopPolling();
+
+    try {
+      await this.activeCycle;
+    } catch {
+      // A failing cycle must not block the diagnostic request.
+    }
+
+    // Re-arm so stopPolling() during the task can cancel the resume.
+    this.pollingConfig = config;
+    try {
+      return await task();
+    } finally {
+      const resume = this.pollingConfig;
+      this.pollingConfig = null;
+      if (resume && this.elm327.isConnected()) {
+        this.startPolling(resume.pids, resume.intervalMs, resume.callback, resume.monitor);
+      }
+    }
+  }
+
+  /**
+   * Monitor the bus for `durationMs` and decode the broadcast frames of `signals`.
+   *
+   * CAN auto formatting is switched off (broadcast frames carry no ISO-TP PCI) and the receive
+   * filter is narrowed to the signals' IDs; `ensureTxHeader()` restores both before the next
+   * request. The latest value per signal is reported every MONITOR_FLUSH_MS.
+   */
+  private async monitorBus(
+    signals: ReadonlyArray<CanSignalDefinition>,
+    durationMs: number,
+    callback: PollingCallback,
+  ): Promise<void> {
+    const stream = this.elm327.sendStreamingCommand?.bind(this.elm327);
+    if (!stream) {
+      return;
+    }
+
+    const byId = new Map<string, CanSignalDefinition[]>();
+    for (const signal of signals) {
+      const id = signal.canId.toUpperCase();
+      byId.set(id, [...(byId.get(id) ?? []), signal]);
+    }
+    await this.enterSignalMonitorMode(Array.from(byId.keys()));
+
+    const latest = new Map<string, PidReadResult>();
+    const flush = () => {
+      for (const [pid, result] of latest) {
+        callback(pid, result);
+      }
+      latest.clear();
+    };
+    const flushTimer = setInterval(flush, MONITOR_FLUSH_MS);
+
+    try {
+      await stream('ATMA', durationMs, (line) => {
+        const frame = parseMonitorLine(line);
+        if (!frame) {
+          return;
+        }
+        for (const signal of byId.get(frame.id) ?? []) {
+          try {
+            const value = signal.decode(frame.data);
+            if (Number.isFinite(value)) {
+              latest.set(signal.pid, { value, raw: line });
+            }
+          } catch {
+            // Malformed frame; skip it.
+          }
+        }
+      });
+    } finally {
+      clearInterval(flushTimer);
+      flush();
+    }
+  }
+
+  /**
+   * Stream raw bus traffic for `durationMs` (developer sniffer).
+   * Call inside `withPollingPaused()` so no request interleaves with the monitor windows.
+   * @param filter - ATCF/ATCM pair, or null to receive every frame
+   */
+  async monitorFrames(
+    filter: CanFilter | null,
+    durationMs: number,
+    onFrame: (frame: CanFrame) => void,
+  ): Promise<void> {
+    const stream = this.elm327.sendStreamingCommand?.bind(this.elm327);
+    if (!stream) {
+      throw new Error('This adapter connection cannot monitor the bus');
+    }
+
+    if (filter) {
+      await this.enterMonitorMode(`${filter.filter}/${filter.mask}`, [
+        `ATCF ${filter.filter}`,
+        `ATCM ${filter.mask}`,
+      ]);
+    } else {
+      await this.enterMonitorMode('*', ['ATCRA']);
+    }
+
+    await stream('ATMA', durationMs, (line) => {
+      const frame = parseMonitorLine(line);
+      if (frame) {
+        onFrame(frame);
+      }
+    });
+  }
+
+  /** Monitor settings that let the frames of `ids` through. */
+  private async enterSignalMonitorMode(ids: string[]): Promise<void> {
+    if (ids.length === 1) {
+      await this.enterMonitorMode(ids[0], [`ATCRA ${ids[0]}`]);
+    } else {
+      const { filter, mask } = canFilterFor(ids);
+      await this.enterMonitorMode(ids.join(','), [`ATCF ${filter}`, `ATCM ${mask}`]);
+    }
+  }
+
+  /**
+   * Switch to monitoring with the given receive filter commands.
+   * @param key - Identifies the filter; skipped when it is already applied
+   */
+  private async enterMonitorMode(key: string, filterCommands: string[]): Promise<void> {
+    if (this.monitorFilter === key) {
+      return;
+    }
+
+    // A different filter than before: start from the default one.
+    if (this.monitorFilter !== null) {
+      await this.elm327.sendCommand('ATCRA');
+    } else {
+      await this.elm327.sendCommand('ATCAF0');
+    }
+    this.monitorFilter = key;
+    for (const command of filterCommands) {
+      await this.elm327.sendCommand(command);
+    }
+  }
+
+  /** Back to request/response: ISO-TP formatting on, default receive filter. */
+  private async leaveMonitorMode(): Promise<void> {
+    if (this.monitorFilter === null) {
+      return;
+    }
+
+    this.monitorFilter = null;
+    await this.elm327.sendCommand('ATCRA');
+    await this.elm327.sendCommand('ATCAF1');
+  }
+
   /**
    * Read Diagnostic Trouble Codes (DTCs) from the vehicle.
-   * Sends OBD-II Mode 03 (Show stored DTCs).
+   * Sends OBD-II Mode 03 (stored) and Mode 07 (pending) on the functional header,
+   * so only emission-related ECUs answer. See `scanEcuDTCs()` for a full-vehicle scan.
    *
-   * Response format: 43 [count] [DTC byte pairs...]
-   * Each DTC is 2 bytes. Decode using formatDTCCode pattern:
-   *   Bits 15-14: Type (00=P, 01=C, 10=B, 11=U)
-   *   Bits 13-12: Second digit
-   *   Remaining bits: hex digits
+   * @returns Array of decoded DTCs (e.g. [{ code: 'P0301', isPending: false, ... }])
+   */
+  async readDTCs(): Promise<DecodedDTC[]> {
+    if (!this.elm327.isConnected()) {
+      throw new Error('ELM327 adapter is not connected');
+    }
+
+    // DTC reads are Mode 03/07 and should use functional header.
+    await this.ensureTxHeader(DEFAULT_TX_HEADER);
+
+    const results: DecodedDTC[] = [];
+    for (const service of [DTC_SERVICES.stored, DTC_SERVICES.pending]) {
+      const codes = await this.readDtcService(service);
+      for (const dtc of codes ?? []) {
+        // Several ECUs may answer a functional request with the same code.
+        if (!results.some((r) => r.code === dtc.code && r.isPending === dtc.isPending)) {
+          results.push(dtc);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Scan every known ECU for stored, pending and permanent DTCs.
    *
-   * @returns Array of DTC code strings (e.g. ["P0301", "C1234"])
+   * Each ECU is addressed physically with ATSH (7E0 engine, 7E2 hybrid, 7B0 brake,
+   * 7C4 A/C, 7C0 meter by default), so codes held by non-emission ECUs are visible too.
+   * ECUs that do not answer any of the three services are reported with `responded: false`.
+   *
+   * @param headers - ECU TX headers to scan
    */
-  async readDTCs(): Promise<{ code: string; isPending: boolean }[]> {
+  async scanEcuDTCs(
+    headers: ReadonlyArray<string> = TOYOTA_ECU_HEADERS,
+  ): Promise<EcuDtcResult[]> {
     if (!this.elm327.isConnected()) {
       throw new Error('ELM327 adapter is not connected');
     }
 
-    const results: { code: string; isPending: boolean }[] = [];
+    const results: EcuDtcResult[] = [];
+    for (const header of headers) {
+      const result: EcuDtcResult = {
+        header: header.trim().toUpperCase(),
+        responded: false,
+        codes: [],
+      };
 
-    // DTC reads are Mode 03/07 and should use functional header.
+      try {
+        await this.ensureTxHeader(result.header);
+        for (const service of Object.values(DTC_SERVICES)) {
+          const codes = await this.readDtcService(service);
+          if (codes) {
+            result.responded = true;
+            result.codes.push(...codes);
+          }
+        }
+      } catch {
+        // Header could not be set; report the ECU as not responding.
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Read a freeze frame (OBD-II Mode 02).
+   *
+   * PID 02 of the frame holds the DTC that caused it ("42 02 00 [DTC hi] [DTC lo]").
+   * The other PIDs use the same layout as Mode 01 ("42 [pid] [frame] [data...]"),
+   * so they are decoded with the STANDARD_PIDS decoders.
+   *
+   * @param header - ECU TX header (defaults to the functional 7DF)
+   * @param frame - Freeze frame number (ECUs normally store only frame 0)
+   * @param pids - Mode 01 PIDs to read from the frame; unsupported PIDs are skipped
+   * @returns The frame, or null if the ECU has no freeze frame stored
+   */
+  async readFreezeFrame(
+    header?: string,
+    frame = 0,
+    pids: ReadonlyArray<string> = FREEZE_FRAME_PIDS,
+  ): Promise<FreezeFrame | null> {
+    if (!this.elm327.isConnected()) {
+      throw new Error('ELM327 adapter is not connected');
+    }
+
+    await this.ensureTxHeader(header);
+    const frameHex = frame.toString(16).toUpperCase().padStart(2, '0');
+
+    const readFramePid = async (pid: string): Promise<number[]> => {
+      const request = `02${pid}${frameHex}`;
+      try {
+        const raw = await this.elm327.sendCommand(this.formatObdCommand(request));
+        return this.parseResponseBytes(raw, request);
+      } catch {
+        return [];
+      }
+    };
+
+    const dtcBytes = await readFramePid('02');
+    if (dtcBytes.length < 2 || (dtcBytes[0] === 0 && dtcBytes[1] === 0)) {
+      return null; // no frame stored
+    }
+
+    const values: Record<string, number> = {};
+    for (const id of pids) {
+      const def = STANDARD_PIDS[id];
+      if (!def) continue;
+
+      const bytes = await readFramePid(id.substring(2));
+      if (bytes.length === 0) continue;
+
+      try {
+        values[id] = def.decode(bytes);
+      } catch {
+        // Truncated data; leave the PID out of the frame.
+      }
+    }
+
+    return {
+      dtcCode: formatDTCCode(dtcBytes[0], dtcBytes[1]),
+      values,
+    };
+  }
+
+  /**
+   * Read the VIN: Mode 09 0902 (functional), or Mode 22 DID F190 from the engine ECU (7E0)
+   * for ECUs that do not implement Mode 09.
+   * @returns The 17-character VIN, or null if the vehicle does not report one
+   */
+  async readVin(): Promise<string | null> {
+    if (!this.elm327.isConnected()) {
+      throw new Error('ELM327 adapter is not connected');
+    }
+
+    const [answer] = await this.readMode09(VEHICLE_INFO_TYPES.vin);
+    const vin = answer?.items[0];
+    return vin && isValidVin(vin) ? vin : this.readVinMode22();
+  }
+
+  /**
+   * Read the Mode 09 vehicle information of every ECU answering the functional address:
+   * VIN (0902), calibration IDs (0904), CVNs (0906) and ECU names (090A).
+   * Multi-frame answers are reassembled; an info type nobody answers is left empty.
+   */
+  async readVehicleInfo(): Promise<VehicleInfo> {
+    if (!this.elm327.isConnected()) {
+      throw new Error('ELM327 adapter is not connected');
+    }
+
+    let vin: string | null = null;
+    const ecus = new Map<string, EcuVehicleInfo>();
+    const ecuInfo = (ecu: string): EcuVehicleInfo => {
+      let info = ecus.get(ecu);
+      if (!info) {
+        info = { ecu, name: null, calibrationIds: [], cvns: [] };
+        ecus.set(ecu, info);
+      }
+      return info;
+    };
+
+    for (const type of Object.values(VEHICLE_INFO_TYPES)) {
+      for (const { ecu, items } of await this.readMode09(type)) {
+        if (type === VEHICLE_INFO_TYPES.vin) {
+          vin ??= items.find(isValidVin) ?? null;
+          continue;
+        }
+        const info = ecuInfo(ecu);
+        if (type === VEHICLE_INFO_TYPES.calibrationId) {
+          info.calibrationIds.push(...items);
+        } else if (type === VEHICLE_INFO_TYPES.cvn) {
+          info.cvns.push(...items);
+        } else {
+          info.name = items[0] ?? info.name;
+        }
+      }
+    }
+
+    return {
+      vin: vin ?? (await this.readVinMode22()),
+      ecus: [...ecus.values()].sort((a, b) => a.ecu.localeCompare(b.ecu)),
+    };
+  }
+
+  /**
+   * Send one Mode 09 request to the functional address.
+   * @returns Decoded items per answering ECU (TX header, e.g. '7E0')
+   */
+  private async readMode09(infoType: number): Promise<Array<{ ecu: string; items: string[] }>> {
     await this.ensureTxHeader(DEFAULT_TX_HEADER);
+    const request = `09${infoType.toString(16).toUpperCase().padStart(2, '0')}`;
 
-    // Mode 03: Stored DTCs
+    let raw: string;
     try {
-      const rawResponse = await this.elm327.sendCommand('03');
-      const dtcs = this.parseDTCResponse(rawResponse, false);
-      results.push(...dtcs);
+      raw = await this.elm327.sendCommand(this.formatObdCommand(request));
     } catch {
-      // No stored DTCs or communication error
+      return [];
     }
 
-    // Mode 07: Pending DTCs
+    return parseEcuMessages(raw)
+      .filter((message) => message.payload[0] === 0x49 && message.payload[1] === infoType)
+      .map((message) => ({
+        ecu: message.source
+          ? (parseInt(message.source, 16) - CAN_RESPONSE_ID_OFFSET).toString(16).toUpperCase()
+          : DEFAULT_TX_HEADER,
+        items: decodeVehicleInfo(infoType, message.payload.slice(2)),
+      }));
+  }
+
+  /** VIN from Mode 22 DID F190 on the engine ECU (Toyota), or null. */
+  private async readVinMode22(): Promise<string | null> {
+    await this.ensureTxHeader('7E0');
     try {
-      const rawResponse = await this.elm327.sendCommand('07');
-      const dtcs = this.parseDTCResponse(rawResponse, true);
-      results.push(...dtcs);
+      const raw = await this.elm327.sendCommand(this.formatObdCommand('22F190'));
+      const vin = String.fromCharCode(...this.parseResponseBytes(raw, '22F190'))
+        .replace(/[^A-Z0-9]/gi, '')
+        .toUpperCase();
+      return isValidVin(vin) ? vin : null;
     } catch {
-      // No pending DTCs or communication error
+      return null;
     }
+  }
 
-    return results;
+  /**
+   * Probe which request/header groups of the Toyota signals the vehicle answers
+   * (see `probeToyotaPids`). Polling should be paused while this runs.
+   * @param signalIds - Signals to probe (default: every Toyota signal)
+   */
+  async probeSignalGroups(signalIds?: ReadonlyArray<string>): Promise<RequestGroupProbe[]> {
+    if (!this.elm327.isConnected()) {
+      throw new Error('ELM327 adapter is not connected');
+    }
+
+    await this.leaveMonitorMode();
+    try {
+      return await probeToyotaPids((command) => this.elm327.sendCommand(command), signalIds);
+    } finally {
+      // The probe switched headers behind our back.
+      this.currentTxHeader = null;
+    }
   }
 
   /**
@@ -332,66 +941,67 @@ export class OBDProtocol {
     try {
       await this.ensureTxHeader(DEFAULT_TX_HEADER);
       const rawResponse = await this.elm327.sendCommand('04');
-      // Positive response is 44
-      return rawResponse.includes('44');
+      // Positive response is 44 (a 7F 04 negative answer or a "44" inside a header is not)
+      return parseEcuMessages(rawResponse).some((message) => message.payload[0] === 0x44);
     } catch {
       return false;
     }
   }
 
   /**
-   * Parse DTC response bytes into code strings.
+   * Send one DTC service request to the current header.
+   * @returns Decoded codes, or null if no ECU gave a positive response
    */
-  private parseDTCResponse(
-    rawResponse: string,
-    isPending: boolean,
-  ): { code: string; isPending: boolean }[] {
-    const cleaned = rawResponse
-      .replace(/>/g, '')
-      .replace(/\r/g, ' ')
-      .replace(/\n/g, ' ')
-      .trim();
-
-    if (
-      cleaned.includes('NO DATA') ||
-      cleaned.includes('ERROR') ||
-      cleaned.trim() === ''
-    ) {
-      return [];
+  private async readDtcService(service: DtcService): Promise<DecodedDTC[] | null> {
+    try {
+      const rawResponse = await this.elm327.sendCommand(service.request);
+      return this.parseDTCResponse(rawResponse, service);
+    } catch {
+      // Timeout or communication error
+      return null;
     }
+  }
 
-    const tokens = cleaned.split(/\s+/).filter((t) => /^[0-9A-Fa-f]{2}$/.test(t));
-    const allBytes = tokens.map((t) => parseInt(t, 16));
-
-    // Find response header (43 for Mode 03, 47 for Mode 07)
-    const responseHeader = isPending ? 0x47 : 0x43;
-    const headerIndex = allBytes.indexOf(responseHeader);
-    if (headerIndex === -1) return [];
-
-    // Skip header byte and count byte
-    const dataStart = headerIndex + 1;
-    const results: { code: string; isPending: boolean }[] = [];
-
-    // Each DTC is 2 bytes
-    for (let i = dataStart; i + 1 < allBytes.length; i += 2) {
-      const byte1 = allBytes[i];
-      const byte2 = allBytes[i + 1];
-
-      // Skip padding (0x00 0x00)
-      if (byte1 === 0 && byte2 === 0) continue;
-
-      const typeMap = ['P', 'C', 'B', 'U'];
-      const typeIndex = (byte1 >> 6) & 0x03;
-      const digit2 = (byte1 >> 4) & 0x03;
-      const digit3 = byte1 & 0x0F;
-      const digit4 = (byte2 >> 4) & 0x0F;
-      const digit5 = byte2 & 0x0F;
-      const code = `${typeMap[typeIndex]}${digit2}${digit3.toString(16).toUpperCase()}${digit4.toString(16).toUpperCase()}${digit5.toString(16).toUpperCase()}`;
-
-      results.push({ code, isPending });
+  /**
+   * Parse a Mode 03/07/0A response into DTCs.
+   *
+   * CAN response format (per responding ECU): [mode+0x40] [count] [DTC byte pairs...]
+   * Responses longer than 7 bytes arrive as ISO-TP multi-frame messages, which
+   * `parseEcuMessages()` reassembles first.
+   *
+   * Each DTC is 2 bytes:
+   *   Bits 15-14: Type (00=P, 01=C, 10=B, 11=U)
+   *   Bits 13-12: Second digit
+   *   Remaining bits: hex digits
+   *
+   * @returns Decoded codes, or null if the response contains no positive response
+   */
+  private parseDTCResponse(rawResponse: string, service: DtcService): DecodedDTC[] | null {
+    const responseMode = parseInt(service.request, 16) + 0x40;
+    let responded = false;
+    const results: DecodedDTC[] = [];
+
+    for (const message of this.messagesFromAddressedEcu(rawResponse)) {
+      if (message[0] !== responseMode) {
+        continue; // negative response (7F) or unrelated line
+      }
+      responded = true;
+
+      const count = message[1] ?? 0;
+      const data = message.slice(2, 2 + count * 2);
+      for (let i = 0; i + 1 < data.length; i += 2) {
+        // Skip padding (0x00 0x00)
+        if (data[i] === 0 && data[i + 1] === 0) continue;
+
+        results.push({
+          code: formatDTCCode(data[i], data[i + 1]),
+          isPending: service.isPending,
+          isPermanent: service.isPermanent,
+        });
+      }
     }
 
-    return results;
+    return responded ? results : null;
   }
 
   /**
@@ -443,34 +1053,103 @@ export class OBDProtocol {
       pidBytes.push(parseInt(pair, 16));
     }
 
-    // Extract all byte pairs from the response (works for both spaces-on and spaces-off),
-    // then locate the expected header sequence in the byte stream.
-    const pairs = cleaned.match(/[0-9A-F]{2}/g);
-    if (!pairs || pairs.length === 0) {
-      return [];
+    const headerSeq = [responseMode, ...pidBytes];
+
+    // Use the first message from the addressed ECU that answers this request.
+    for (const message of this.messagesFromAddressedEcu(cleaned)) {
+      if (!headerSeq.every((byte, k) => message[k] === byte)) {
+        continue; // negative response (7F) or another service's answer
+      }
+      return message.slice(headerSeq.length);
     }
-    const allBytes = pairs.map((p) => parseInt(p, 16));
 
-    const headerSeq = [responseMode, ...pidBytes];
+    return [];
+  }
 
-    // Find the first occurrence of [responseMode, ...pidBytes]
-    for (let i = 0; i + headerSeq.length <= allBytes.length; i++) {
-      let ok = true;
-      for (let j = 0; j < headerSeq.length; j++) {
-        if (allBytes[i + j] !== headerSeq[j]) {
-          ok = false;
-          break;
-        }
+  /**
+   * Split a combined Mode 01 reply ("41 0C 1A F8 0D 3C 11 2A") into per-PID data bytes,
+   * using the response lengths from STANDARD_PIDS. Each ECU answers with the PIDs it
+   * supports; the first answer for a PID wins.
+   *
+   * @returns Data bytes keyed by request (e.g. '010C' -> [0x1A, 0xF8])
+   */
+  private parseMode01Batch(rawResponse: string): Map<string, number[]> {
+    const payloads = new Map<string, number[]>();
+    for (const message of this.messagesFromAddressedEcu(rawResponse)) {
+      if (message[0] !== 0x41) {
+        continue; // 7F 01 12 and the like
       }
-      if (!ok) continue;
 
-      const dataStart = i + headerSeq.length;
-      if (dataStart >= allBytes.length) {
-        return [];
+      let i = 1;
+      while (i < message.length) {
+        const request = `01${message[i].toString(16).toUpperCase().padStart(2, '0')}`;
+        const length = STANDARD_PIDS[request]?.responseBytes;
+        if (length === undefined || i + 1 + length > message.length) {
+          break; // unknown PID or truncated reply: the rest cannot be split reliably
+        }
+        if (!payloads.has(request)) {
+          payloads.set(request, message.slice(i + 1, i + 1 + length));
+        }
+        i += 1 + length;
       }
-      return allBytes.slice(dataStart);
     }
+    return payloads;
+  }
 
-    return [];
+  /**
+   * Reassembled messages of the ECU addressed by the current TX header.
+   * Functional requests (7DF) accept every ECU; physical ones (e.g. 7E2) only the matching
+   * response ID (7EA). Without headers (ATH0) the sender is unknown and all messages are kept.
+   */
+  private messagesFromAddressedEcu(rawResponse: string): number[][] {
+    const header = this.currentTxHeader ?? DEFAULT_TX_HEADER;
+    const source =
+      /^[0-9A-F]{3}$/.test(header) && header !== DEFAULT_TX_HEADER
+        ? (parseInt(header, 16) + CAN_RESPONSE_ID_OFFSET).toString(16).toUpperCase()
+        : null;
+
+    return parseEcuMessages(rawResponse)
+      .filter((message) => !source || !message.source || message.source === source)
+      .map((message) => message.payload);
   }
 }
+
+/** One CAN frame seen while monitoring the bus. */
+export interface CanFrame {
+  /** 11-bit arbitration ID, e.g. '3CB'. */
+  id: string;
+  data: number[];
+}
+
+/**
+ * Parse one line of ATMA output (headers on, CAN auto formatting off):
+ * "3CB 7A 02 00 8E 1A 1B 5C" or "3CB7A02008E1A1B5C" with spaces off.
+ * @returns null for status lines (STOPPED, BUFFER FULL, ...) and anything else
+ */
+export function parseMonitorLine(line: string): CanFrame | null {
+  const compact = line.replace(/\s+/g, '').toUpperCase();
+  if (!/^[0-9A-F]+$/.test(compact) || compact.length < 3 || compact.length % 2 !== 1) {
+    return null;
+  }
+  const data = (compact.substring(3).match(/[0-9A-F]{2}/g) ?? []).map((pair) => parseInt(pair, 16));
+  return { id: compact.substring(0, 3), data };
+}
+
+/** Receive filter of the adapter: frames pass when (id & mask) === filter (3-digit hex). */
+export interface CanFilter {
+  filter: string;
+  mask: string;
+}
+
+/**
+ * Narrowest ATCF/ATCM pair that lets all `ids` through: the mask keeps the bits the IDs
+ * have in common. Other IDs may still match; decoders ignore them.
+ */
+export function canFilterFor(ids: ReadonlyArray<string>): CanFilter {
+  const values = ids.map((id) => parseInt(id, 16));
+  const base = values[0] ?? 0;
+  // Clear the mask bits where any ID differs from the first one.
+  const mask = values.reduce((m, value) => m & ~(value ^ base), 0x7ff);
+  const hex3 = (n: number) => n.toString(16).toUpperCase().padStart(3, '0');
+  return { filter: hex3(base & mask), mask: hex3(mask) };
+}
@@ -0,0 +1,130 @@
+import { useConnectionStore } from '../store/connectionStore';
+
+/** Delay before the first reconnect attempt. */
+export const RECONNECT_BASE_DELAY_MS = 1000;
+
+/** Upper bound for the exponential backoff. */
+export const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** Attempts before giving up (~8 minutes with the default delays, long enough for an ignition cycle). */
+export const RECONNECT_MAX_ATTEMPTS = 20;
+
+/**
+ * Backoff delay before a reconnect attempt: base, 2x base, 4x base, ... capped at maxMs.
+ * @param attempt - 1-based attempt number
+ */
+export function reconnectDelayMs(
+  attempt: number,
+  baseMs = RECONNECT_BASE_DELAY_MS,
+  maxMs = RECONNECT_MAX_DELAY_MS,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(maxMs, baseMs * 2 ** exponent);
+}
+
+export interface ReconnectSupervisorOptions {
+  /**
+   * Try to re-establish the connection.
+   * @returns true when done (connected, or reconnecting no longer wanted), false to retry
+   */
+  reconnect: (attempt: number) => Promise<boolean>;
+  /** Called once after the last failed attempt. */
+  onGiveUp: (attempts: number) => void;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Retries a lost adapter connection with exponential backoff.
+ *
+ * Each scheduled attempt is published to `connectionStore` (`reconnectAttempt`,
+ * `nextReconnectAt`) so the UI can show what is going on. `obdClient` owns the instance and
+ * supplies the actual reconnect (transport connect, ELM327 init, resume polling/logging).
+ */
+export class ReconnectSupervisor {
+  private readonly options: ReconnectSupervisorOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  /** Bumped on start/cancel so results of an abandoned attempt are ignored. */
+  private generation = 0;
+  private active = false;
+
+  constructor(options: ReconnectSupervisorOptions) {
+    this.options = options;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /** Begin retrying (no-op while already active). */
+  start(): void {
+    if (this.active) return;
+
+    this.active = true;
+    this.attempt = 0;
+    this.generation++;
+    this.scheduleNext();
+  }
+
+  /** Stop retrying and clear the reconnect status. */
+  cancel(): void {
+    this.generation++;
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.active = false;
+    this.attempt = 0;
+    useConnectionStore.getState().setReconnectStatus(0, null);
+  }
+
+  private scheduleNext(): void {
+    const maxAttempts = this.options.maxAttempts ?? RECONNECT_MAX_ATTEMPTS;
+    if (this.attempt >= maxAttempts) {
+      const attempts = this.attempt;
+      this.finish();
+      this.options.onGiveUp(attempts);
+      return;
+    }
+
+    this.attempt++;
+    const delay = reconnectDelayMs(
+      this.attempt,
+      this.options.baseDelayMs,
+      this.options.maxDelayMs,
+    );
+    useConnectionStore.getState().setReconnectStatus(this.attempt, Date.now() + delay);
+
+    const generation = this.generation;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run(generation).catch((err) => {
+        console.warn('Reconnect attempt failed:', err);
+      });
+    }, delay);
+  }
+
+  private async run(generation: number): Promise<void> {
+    let done = false;
+    try {
+      done = await this.options.reconnect(this.attempt);
+    } catch {
+      done = false;
+    }
+
+    if (generation !== this.generation) {
+      return; // cancelled (or restarted) while the attempt was running
+    }
+    if (done) {
+      this.finish();
+      return;
+    }
+    this.scheduleNext();
+  }
+}
@@ -0,0 +1,127 @@
+import type { PidDefinition } from '../types/obd';
+
+import { database } from '../storage/database';
+import { STANDARD_PIDS } from './pid/standard';
+import { TOYOTA_PIDS } from './pid/toyota';
+import { pidPacks } from './pidPacks';
+import type { OBDProtocol } from './protocol';
+
+/**
+ * Per-vehicle supported-signal discovery.
+ *
+ * Signals are grouped by the request they are read with and the ECU it is sent to; a group
+ * is either answered or not, for every signal in it. The first connection to a vehicle probes
+ * every group once (Mode 01 through the supported-PID bitmasks, Toyota requests one by one)
+ * and `obdClient` caches the result per VIN, so later connections skip dead requests without
+ * asking again. A re-scan rebuilds the cache.
+ */
+
+/** Whether one request on one ECU is answered. */
+export interface SignalSupportEntry {
+  header: string;
+  request: string;
+  supported: boolean;
+}
+
+/** Support entries of one vehicle, and when they were probed (null if they never were). */
+export interface VehicleSignalSupport {
+  entries: SignalSupportEntry[];
+  scannedAt: number | null;
+}
+
+const DEFAULT_HEADER = '7DF';
+
+function definitionOf(pid: string): PidDefinition | undefined {
+  return STANDARD_PIDS[pid] ?? TOYOTA_PIDS[pid] ?? pidPacks.definition(pid);
+}
+
+/** "header|request" key of the group a signal is read with, or null for unknown signals. */
+export function signalGroupKey(pid: string): string | null {
+  const def = definitionOf(pid);
+  if (!def) {
+    return null;
+  }
+  const request = (def.request ?? pid).replace(/\s+/g, '').toUpperCase();
+  return `${(def.header ?? DEFAULT_HEADER).trim().toUpperCase()}|${request}`;
+}
+
+/**
+ * Drop the signals whose group is known to be unsupported. Signals of groups that were
+ * never probed (e.g. from a PID pack imported later) are kept.
+ */
+export function filterSupportedPids(
+  pids: ReadonlyArray<string>,
+  support: ReadonlyArray<SignalSupportEntry>,
+): string[] {
+  const unsupported = new Set(
+    support
+      .filter((entry) => !entry.supported)
+      .map((entry) => `${entry.header}|${entry.request}`),
+  );
+  return pids.filter((pid) => {
+    const key = signalGroupKey(pid);
+    return key === null || !unsupported.has(key);
+  });
+}
+
+/**
+ * Mode 01 support from the supported-PID bitmasks (one entry per standard Mode 01 PID).
+ * An empty answer tells nothing, so it gives no entries.
+ */
+export function mode01Support(supportedPids: ReadonlyArray<string>): SignalSupportEntry[] {
+  if (supportedPids.length === 0) {
+    return [];
+  }
+  const supported = new Set(supportedPids);
+  return Object.keys(STANDARD_PIDS)
+    .filter((pid) => /^01[0-9A-F]{2}$/.test(pid))
+    .map((pid) => ({ header: DEFAULT_HEADER, request: pid, supported: supported.has(pid) }));
+}
+
+/**
+ * Probe every standard and Toyota signal group. Polling must not run meanwhile.
+ * @returns One entry per group with a definite answer, unsupported ones included
+ */
+export async function discoverSignals(protocol: OBDProtocol): Promise<SignalSupportEntry[]> {
+  const entries: SignalSupportEntry[] = [];
+
+  // Mode 01: the supported-PID bitmasks answer for every PID at once. If the query itself
+  // fails, leave Mode 01 out so a bad moment does not mark every PID dead.
+  try {
+    entries.push(...mode01Support(await protocol.querySupportedPids()));
+  } catch {
+    // Mode 01 stays unknown (polled as before).
+  }
+
+  const groups = await protocol.probeSignalGroups();
+  for (const group of groups) {
+    entries.push({ header: group.header, request: group.request, supported: group.supported });
+  }
+  return entries;
+}
+
+/**
+ * Signal support of the connected vehicle, for choosing what to poll. With a VIN the support
+ * cached for it is used, and the first connection probes the vehicle through `scan` (which
+ * caches the result). Without a VIN nothing can be cached, so only the Mode 01 bitmasks are
+ * asked and every other signal stays unknown.
+ * @param scan - Probes every group of the vehicle and caches the result
+ */
+export async function loadSignalSupport(
+  protocol: OBDProtocol,
+  vin: string | null,
+  scan: (vin: string) => Promise<SignalSupportEntry[]>,
+): Promise<VehicleSignalSupport> {
+  if (!vin) {
+    return { entries: mode01Support(await protocol.querySupportedPids()), scannedAt: null };
+  }
+
+  const cached = await database.getSignalSupport(vin).catch(() => []);
+  if (cached.length > 0) {
+    return {
+      entries: cached.map(({ header, request, supported }) => ({ header, request, supported })),
+      scannedAt: cached[0].scannedAt,
+    };
+  }
+  return { entries: await scan(vin), scannedAt: Date.now() };
+}
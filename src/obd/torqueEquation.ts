@@ -5,22 +5,141 @@
  * Torque Pro:
  * - Bytes are referenced as A, B, C... Z, AA, AB, ... (spreadsheet-style columns)
  * - Bit extraction uses {A:6} meaning "bit 6 of byte A" (0 or 1)
- * - Operators: +, -, *, / and parentheses
+ * - Other signals are referenced as VAL{id}, e.g. VAL{010D}
+ * - Arithmetic: +, -, *, / and parentheses (division by zero yields 0)
+ * - Bitwise: &, |, <<, >> (on 32-bit integers)
+ * - Comparisons: <, <=, >, >=, = (or ==), != (or <>), yielding 1 or 0
+ * - Functions: SIGNED(x), INT16(x) or INT16(hi, lo), IF(cond, then, else),
+ *   MIN(a, b, ...), MAX(a, b, ...), ABS(x)
+ *
+ * Precedence, loosest first: comparisons, |, &, shifts, + and -, * and /, unary minus.
+ * Comparisons bind loosest so "A & 16 > 0" tests the masked bit.
  *
  * This module compiles an equation string into a pure function:
  *   (bytes: number[]) => number
+ * or, for derived signals, into an evaluator over other signals' latest values.
  *
  * No eval/new Function is used so it remains safe on-device and compatible with
  * Hermes / constrained JS runtimes.
  */
 
-type Token =
+type BinaryOp =
+  | '+' | '-' | '*' | '/'
+  | '&' | '|' | '<<' | '>>'
+  | '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+type FunctionName = 'SIGNED' | 'INT16' | 'IF' | 'MIN' | 'MAX' | 'ABS';
+
+type Token = (
   | { type: 'number'; value: number }
   | { type: 'var'; name: string }
   | { type: 'bit'; name: string; bit: number }
-  | { type: 'op'; op: '+' | '-' | '*' | '/' | 'NEG' }
+  | { type: 'val'; id: string }
+  | { type: 'op'; op: BinaryOp }
+  | { type: 'func'; name: FunctionName }
   | { type: 'lparen' }
-  | { type: 'rparen' };
+  | { type: 'rparen' }
+  | { type: 'comma' }
+) & {
+  /** 0-based index of the token in the expression. */
+  pos: number;
+  /** Source text (for error messages). */
+  text: string;
+};
+
+/** Compiled program, evaluated on a value stack (reverse Polish order). */
+type Instruction =
+  | { type: 'number'; value: number }
+  | { type: 'byte'; index: number }
+  | { type: 'bit'; index: number; bit: number }
+  | { type: 'val'; id: string }
+  | { type: 'neg' }
+  | { type: 'binary'; op: BinaryOp }
+  | { type: 'call'; name: FunctionName; argc: number };
+
+/** Value of a referenced signal. */
+export type SignalLookup = (id: string) => number;
+
+/** PID decoders have no other signals unless given a lookup, so VAL{...} reads as 0 there. */
+const NO_SIGNALS: SignalLookup = () => 0;
+
+/** Syntax error in an equation. */
+export class TorqueSyntaxError extends Error {
+  /**
+   * @param reason - What is wrong, without the position
+   * @param position - 1-based character position in the expression
+   */
+  constructor(reason: string, readonly position: number) {
+    super(`${reason} at position ${position}`);
+    this.name = 'TorqueSyntaxError';
+  }
+}
+
+const BINARY_PRECEDENCE: Record<BinaryOp, number> = {
+  '<': 1,
+  '<=': 1,
+  '>': 1,
+  '>=': 1,
+  '=': 1,
+  '!=': 1,
+  '|': 2,
+  '&': 3,
+  '<<': 4,
+  '>>': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+};
+
+/** Operator spellings, longest first so "<=" is not read as "<" then "=". */
+const OPERATORS: ReadonlyArray<[string, BinaryOp]> = [
+  ['<=', '<='],
+  ['>=', '>='],
+  ['<<', '<<'],
+  ['>>', '>>'],
+  ['<>', '!='],
+  ['!=', '!='],
+  ['==', '='],
+  ['+', '+'],
+  ['-', '-'],
+  ['*', '*'],
+  ['/', '/'],
+  ['&', '&'],
+  ['|', '|'],
+  ['<', '<'],
+  ['>', '>'],
+  ['=', '='],
+];
+
+/** Two's complement value of the low `bits` bits (SIGNED / INT16). */
+function toSigned(value: number, bits: number): number {
+  const range = 2 ** bits;
+  const v = ((Math.trunc(value) % range) + range) % range;
+  return v >= range / 2 ? v - range : v;
+}
+
+const FUNCTIONS: Record<
+  FunctionName,
+  { minArgs: number; maxArgs: number; apply: (args: number[]) => number }
+> = {
+  SIGNED: { minArgs: 1, maxArgs: 1, apply: ([x]) => toSigned(x, 8) },
+  INT16: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (args) => toSigned(args.length === 2 ? args[0] * 256 + args[1] : args[0], 16),
+  },
+  IF: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([cond, then, otherwise]) => (cond !== 0 ? then : otherwise),
+  },
+  MIN: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min(...args) },
+  MAX: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max(...args) },
+  ABS: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x) },
+};
+
+const isFunctionName = (name: string): name is FunctionName => name in FUNCTIONS;
 
 function isWhitespace(ch: string): boolean {
   return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
@@ -56,11 +175,21 @@ export function torqueVarToIndex(name: string): number {
 
 function tokenize(expr: string): Token[] {
   const tokens: Token[] = [];
-  const s = expr.trim().toUpperCase();
+  // Upper-case per character so positions keep matching the original expression
+  // ("ß".toUpperCase() is "SS").
+  const s = expr
+    .split('')
+    .map((ch) => (ch.toUpperCase().length === 1 ? ch.toUpperCase() : ch))
+    .join('');
   let i = 0;
 
+  const fail = (reason: string, at: number): never => {
+    throw new TorqueSyntaxError(reason, at + 1);
+  };
+
   while (i < s.length) {
     const ch = s[i];
+    const start = i;
 
     if (isWhitespace(ch)) {
       i++;
@@ -71,17 +200,17 @@ function tokenize(expr: string): Token[] {
     if (ch === '{') {
       const end = s.indexOf('}', i + 1);
       if (end === -1) {
-        throw new Error('Unterminated bit extraction');
+        fail('Unterminated bit extraction', start);
       }
       const inner = s.substring(i + 1, end).trim(); // e.g. "A:6"
       const m = inner.match(/^([A-Z]+)\s*:\s*(\d+)$/);
       if (!m) {
-        throw new Error(`Invalid bit extraction: {${inner}}`);
+        fail(`Invalid bit extraction {${inner}}`, start);
       }
-      const name = m[1];
-      const bit = Number(m[2]);
-      tokens.push({ type: 'bit', name, bit });
+      const [, name, bit] = m as RegExpMatchArray;
       i = end + 1;
+      const text = s.substring(start, i);
+      tokens.push({ type: 'bit', name, bit: Number(bit), pos: start, text });
       continue;
     }
 
@@ -105,221 +234,372 @@ function tokenize(expr: string): Token[] {
       const numStr = s.substring(i, j);
       const value = Number(numStr);
       if (!Number.isFinite(value)) {
-        throw new Error(`Invalid number: ${numStr}`);
+        fail(`Invalid number ${numStr}`, start);
       }
-      tokens.push({ type: 'number', value });
+      tokens.push({ type: 'number', value, pos: start, text: numStr });
       i = j;
       continue;
     }
 
-    // Variable name: A, B, ... Z, AA, AB, ...
+    // Name: byte variable (A, B, ... Z, AA, AB, ...), function or VAL{id}
     if (isUpperAlpha(ch)) {
       let j = i + 1;
-      while (j < s.length && isUpperAlpha(s[j])) {
+      while (j < s.length && (isUpperAlpha(s[j]) || isDigit(s[j]))) {
         j++;
       }
-      const name = s.substring(i, j);
-      tokens.push({ type: 'var', name });
+      const name = s.substring(i, j); // digits only appear in function names (INT16)
+
+      let k = j;
+      while (k < s.length && isWhitespace(s[k])) {
+        k++;
+      }
+
+      // Signal reference: VAL{TOYOTA_HV_SOC}
+      if (name === 'VAL' && s[k] === '{') {
+        const end = s.indexOf('}', k + 1);
+        if (end === -1) {
+          fail('Unterminated signal reference', start);
+        }
+        const id = s.substring(k + 1, end).trim();
+        if (!/^[A-Z0-9_]+$/.test(id)) {
+          fail(`Invalid signal reference VAL{${id}}`, start);
+        }
+        i = end + 1;
+        tokens.push({ type: 'val', id, pos: start, text: s.substring(start, i) });
+        continue;
+      }
+
+      if (s[k] === '(') {
+        if (!isFunctionName(name)) {
+          fail(`Unknown function ${name}`, start);
+        }
+        tokens.push({ type: 'func', name: name as FunctionName, pos: start, text: name });
+        i = j;
+        continue;
+      }
+
+      if (!/^[A-Z]+$/.test(name)) {
+        fail(`Invalid byte variable ${name}`, start);
+      }
+      tokens.push({ type: 'var', name, pos: start, text: name });
       i = j;
       continue;
     }
 
-    // Operators and parentheses
-    if (ch === '+' || ch === '-' || ch === '*' || ch === '/') {
-      tokens.push({ type: 'op', op: ch });
-      i++;
+    // Operators, parentheses and argument separators
+    const operator = OPERATORS.find(([spelling]) => s.startsWith(spelling, i));
+    if (operator) {
+      const [spelling, op] = operator;
+      tokens.push({ type: 'op', op, pos: start, text: spelling });
+      i += spelling.length;
       continue;
     }
     if (ch === '(') {
-      tokens.push({ type: 'lparen' });
+      tokens.push({ type: 'lparen', pos: start, text: ch });
       i++;
       continue;
     }
     if (ch === ')') {
-      tokens.push({ type: 'rparen' });
+      tokens.push({ type: 'rparen', pos: start, text: ch });
+      i++;
+      continue;
+    }
+    if (ch === ',') {
+      tokens.push({ type: 'comma', pos: start, text: ch });
       i++;
       continue;
     }
 
-    throw new Error(`Unexpected character: "${ch}"`);
+    fail(`Unexpected character "${ch}"`, start);
   }
 
   return tokens;
 }
 
-function precedence(op: Token & { type: 'op' }): number {
-  switch (op.op) {
-    case 'NEG':
-      return 3;
-    case '*':
-    case '/':
-      return 2;
-    case '+':
-    case '-':
-      return 1;
-    default:
-      return 0;
+/** Tokens that can begin an operand (used to tell "missing operator" from other errors). */
+const startsOperand = (t: Token): boolean =>
+  t.type === 'number' ||
+  t.type === 'var' ||
+  t.type === 'bit' ||
+  t.type === 'val' ||
+  t.type === 'func' ||
+  t.type === 'lparen';
+
+/**
+ * Precedence-climbing parser emitting reverse Polish instructions.
+ * Every operator and call is checked for its operands here, so evaluation never underflows.
+ */
+class Parser {
+  private i = 0;
+  private readonly out: Instruction[] = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly length: number,
+    private readonly allowBytes: boolean,
+  ) {}
+
+  parse(): Instruction[] {
+    this.expression(1);
+    const next = this.peek();
+    if (next) {
+      this.fail(startsOperand(next) ? 'Missing operator' : `Unexpected "${next.text}"`, next.pos);
+    }
+    return this.out;
   }
-}
 
-function isRightAssociative(op: Token & { type: 'op' }): boolean {
-  return op.op === 'NEG';
-}
+  private peek(): Token | undefined {
+    return this.tokens[this.i];
+  }
 
-function toRpn(tokens: Token[]): Token[] {
-  const out: Token[] = [];
-  const stack: Token[] = [];
+  private fail(reason: string, pos: number): never {
+    throw new TorqueSyntaxError(reason, pos + 1);
+  }
 
-  let prev: Token | null = null;
-  for (const t of tokens) {
-    if (t.type === 'op' && t.op === '-') {
-      // Determine unary minus. It is unary if it appears:
-      // - at the start, or
-      // - after another operator, or
-      // - after a left parenthesis.
-      const isUnary =
-        prev === null ||
-        prev.type === 'op' ||
-        prev.type === 'lparen';
-
-      if (isUnary) {
-        // Replace '-' with unary NEG operator
-        t.op = 'NEG';
+  private expression(minPrecedence: number): void {
+    this.unary();
+    for (;;) {
+      const t = this.peek();
+      if (!t || t.type !== 'op' || BINARY_PRECEDENCE[t.op] < minPrecedence) {
+        return;
       }
+      this.i++;
+      // Left-associative: the right operand only takes tighter operators.
+      this.expression(BINARY_PRECEDENCE[t.op] + 1);
+      this.out.push({ type: 'binary', op: t.op });
     }
+  }
 
-    if (t.type === 'number' || t.type === 'var' || t.type === 'bit') {
-      out.push(t);
-      prev = t;
-      continue;
+  private unary(): void {
+    const t = this.peek();
+    if (t?.type === 'op' && (t.op === '-' || t.op === '+')) {
+      this.i++;
+      this.unary();
+      if (t.op === '-') {
+        this.out.push({ type: 'neg' });
+      }
+      return;
     }
+    this.primary();
+  }
 
-    if (t.type === 'op') {
-      while (stack.length > 0) {
-        const top = stack[stack.length - 1];
-        if (top.type !== 'op') break;
-
-        const p1 = precedence(t);
-        const p2 = precedence(top);
-
-        const shouldPop = isRightAssociative(t) ? p1 < p2 : p1 <= p2;
-        if (!shouldPop) break;
-
-        out.push(stack.pop() as Token);
+  private primary(): void {
+    const t = this.peek();
+    if (!t) {
+      this.fail('Missing operand', this.length);
+    }
+    this.i++;
+
+    switch (t.type) {
+      case 'number':
+        this.out.push({ type: 'number', value: t.value });
+        return;
+      case 'var':
+      case 'bit': {
+        if (!this.allowBytes) {
+          this.fail(
+            `Byte variable ${t.text} is not available here; reference signals as VAL{id}`,
+            t.pos,
+          );
+        }
+        const index = torqueVarToIndex(t.name);
+        this.out.push(
+          t.type === 'var'
+            ? { type: 'byte', index }
+            : { type: 'bit', index, bit: Math.max(0, Math.min(31, t.bit)) },
+        );
+        return;
       }
-
-      stack.push(t);
-      prev = t;
-      continue;
+      case 'val':
+        this.out.push({ type: 'val', id: t.id });
+        return;
+      case 'lparen':
+        this.expression(1);
+        this.closeParen(t);
+        return;
+      case 'func':
+        this.call(t as Token & { type: 'func' });
+        return;
+      default:
+        this.fail(t.type === 'op' ? 'Missing operand' : `Unexpected "${t.text}"`, t.pos);
     }
+  }
 
-    if (t.type === 'lparen') {
-      stack.push(t);
-      prev = t;
-      continue;
-    }
+  private call(fn: Token & { type: 'func' }): void {
+    const open = this.peek() as Token; // the tokenizer only emits a function before "("
+    this.i++;
 
-    if (t.type === 'rparen') {
-      let found = false;
-      while (stack.length > 0) {
-        const top = stack.pop() as Token;
-        if (top.type === 'lparen') {
-          found = true;
+    let argc = 0;
+    if (this.peek()?.type !== 'rparen') {
+      for (;;) {
+        this.expression(1);
+        argc++;
+        if (this.peek()?.type !== 'comma') {
           break;
         }
-        out.push(top);
+        this.i++;
       }
-      if (!found) {
-        throw new Error('Mismatched parentheses');
+    }
+    this.closeParen(open);
+
+    const { minArgs, maxArgs } = FUNCTIONS[fn.name];
+    if (argc < minArgs || argc > maxArgs) {
+      let expected = `${minArgs} or ${maxArgs} arguments`;
+      if (maxArgs === Infinity) {
+        expected = `at least ${minArgs} argument${minArgs === 1 ? '' : 's'}`;
+      } else if (minArgs === maxArgs) {
+        expected = `${minArgs} argument${minArgs === 1 ? '' : 's'}`;
       }
-      prev = t;
-      continue;
+      this.fail(`${fn.name} takes ${expected}`, fn.pos);
     }
+    this.out.push({ type: 'call', name: fn.name, argc });
   }
 
-  while (stack.length > 0) {
-    const top = stack.pop() as Token;
-    if (top.type === 'lparen' || top.type === 'rparen') {
-      throw new Error('Mismatched parentheses');
+  private closeParen(open: Token): void {
+    const t = this.peek();
+    if (t?.type === 'rparen') {
+      this.i++;
+      return;
+    }
+    if (t && startsOperand(t)) {
+      this.fail('Missing operator', t.pos);
     }
-    out.push(top);
+    this.fail('Missing closing parenthesis', t ? t.pos : open.pos);
   }
-
-  return out;
 }
 
-function getByte(bytes: number[], name: string): number {
-  const idx = torqueVarToIndex(name);
-  if (idx < 0) return 0;
-  const v = bytes[idx];
+function byteAt(bytes: number[], index: number): number {
+  if (index < 0) return 0;
+  const v = bytes[index];
   return Number.isFinite(v) ? v : 0;
 }
 
-function evalRpn(rpn: Token[], bytes: number[]): number {
+function applyBinary(op: BinaryOp, a: number, b: number): number {
+  switch (op) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? 0 : a / b;
+    case '&':
+      return a & b;
+    case '|':
+      return a | b;
+    case '<<':
+      return a << b;
+    case '>>':
+      return a >> b;
+    case '<':
+      return a < b ? 1 : 0;
+    case '<=':
+      return a <= b ? 1 : 0;
+    case '>':
+      return a > b ? 1 : 0;
+    case '>=':
+      return a >= b ? 1 : 0;
+    case '=':
+      return a === b ? 1 : 0;
+    case '!=':
+      return a !== b ? 1 : 0;
+  }
+}
+
+function run(program: Instruction[], bytes: number[], signal: SignalLookup): number {
   const stack: number[] = [];
 
-  for (const t of rpn) {
-    if (t.type === 'number') {
-      stack.push(t.value);
-      continue;
-    }
-    if (t.type === 'var') {
-      stack.push(getByte(bytes, t.name));
-      continue;
-    }
-    if (t.type === 'bit') {
-      const b = getByte(bytes, t.name);
-      const bit = Math.max(0, Math.min(31, t.bit));
-      stack.push(((b >> bit) & 1) >>> 0);
-      continue;
-    }
-    if (t.type === 'op') {
-      if (t.op === 'NEG') {
-        const a = stack.pop();
-        stack.push(-(a ?? 0));
-        continue;
+  for (const ins of program) {
+    switch (ins.type) {
+      case 'number':
+        stack.push(ins.value);
+        break;
+      case 'byte':
+        stack.push(byteAt(bytes, ins.index));
+        break;
+      case 'bit':
+        stack.push(((byteAt(bytes, ins.index) >> ins.bit) & 1) >>> 0);
+        break;
+      case 'val': {
+        const v = signal(ins.id);
+        stack.push(Number.isFinite(v) ? v : 0);
+        break;
+      }
+      case 'neg':
+        stack.push(-(stack.pop() as number));
+        break;
+      case 'binary': {
+        const b = stack.pop() as number;
+        const a = stack.pop() as number;
+        stack.push(applyBinary(ins.op, a, b));
+        break;
       }
+      case 'call':
+        stack.push(FUNCTIONS[ins.name].apply(stack.splice(stack.length - ins.argc, ins.argc)));
+        break;
+    }
+  }
 
-      const b = stack.pop();
-      const a = stack.pop();
-      const aa = a ?? 0;
-      const bb = b ?? 0;
+  return stack.pop() ?? 0;
+}
 
-      switch (t.op) {
-        case '+':
-          stack.push(aa + bb);
-          break;
-        case '-':
-          stack.push(aa - bb);
-          break;
-        case '*':
-          stack.push(aa * bb);
-          break;
-        case '/':
-          stack.push(bb === 0 ? 0 : aa / bb);
-          break;
-      }
-      continue;
+/** A parsed equation. */
+export interface TorqueEquation {
+  /** Signal ids referenced with VAL{id}, in order of first use, without duplicates. */
+  references: string[];
+  /**
+   * Evaluate against response bytes and, for VAL{id}, other signals' latest values.
+   * @param signal - Lookup for VAL{id} (reads 0 when omitted)
+   */
+  evaluate: (bytes: number[], signal?: SignalLookup) => number;
+}
+
+function parse(expression: string, allowBytes: boolean): TorqueEquation {
+  if ((expression ?? '').trim() === '') {
+    throw new Error('Expression is empty');
+  }
+
+  const tokens = tokenize(expression);
+  const program = new Parser(tokens, expression.length, allowBytes).parse();
+
+  const references: string[] = [];
+  for (const t of tokens) {
+    if (t.type === 'val' && !references.includes(t.id)) {
+      references.push(t.id);
     }
   }
+  return {
+    references,
+    evaluate: (bytes, signal = NO_SIGNALS) => run(program, bytes, signal),
+  };
+}
 
-  if (stack.length === 0) return 0;
-  return stack[stack.length - 1];
+/**
+ * Parse a Torque equation, throwing a TorqueSyntaxError (with the position) if it is invalid.
+ * Use this to validate user input; PID tables use compileTorqueEquation.
+ */
+export function parseTorqueEquation(expression: string): TorqueEquation {
+  return parse(expression, true);
 }
 
 /**
  * Compile a Torque equation into a decoder function.
  * If the expression is empty or invalid, the decoder returns 0.
+ *
+ * @param signal - Lookup for VAL{id} references (they read 0 without one)
  */
-export function compileTorqueEquation(expression: string): (bytes: number[]) => number {
-  const expr = (expression ?? '').trim();
-  if (expr === '') {
+export function compileTorqueEquation(
+  expression: string,
+  signal: SignalLookup = NO_SIGNALS,
+): (bytes: number[]) => number {
+  if ((expression ?? '').trim() === '') {
     return () => 0;
   }
 
   try {
-    const rpn = toRpn(tokenize(expr));
-    return (bytes: number[]) => evalRpn(rpn, bytes);
+    const equation = parse(expression, true);
+    return (bytes: number[]) => equation.evaluate(bytes, signal);
   } catch (err) {
     console.warn(
       `Failed to compile Torque equation "${expression}":`,
@@ -329,3 +609,24 @@ export function compileTorqueEquation(expression: string): (bytes: number[]) =>
   }
 }
 
+/** A compiled derived-signal expression. */
+export interface SignalExpression {
+  /** Signal ids referenced with VAL{id}, in order of first use, without duplicates. */
+  references: string[];
+  /** Evaluate against the latest value of each referenced signal. */
+  evaluate: (value: SignalLookup) => number;
+}
+
+/**
+ * Compile an expression over other signals, e.g. "VAL{010D} * 14.7 * 745 / (VAL{0110} * 3600)".
+ *
+ * Unlike compileTorqueEquation this throws on invalid input (so an editor can show why), and
+ * rejects byte variables and bit extraction: there is no ECU response to read them from.
+ */
+export function compileSignalExpression(expression: string): SignalExpression {
+  const equation = parse(expression, false);
+  return {
+    references: equation.references,
+    evaluate: (value) => equation.evaluate([], value),
+  };
+}
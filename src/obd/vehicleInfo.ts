@@ -0,0 +1,59 @@
+/**
+ * Mode 09 (request vehicle information) decoding.
+ *
+ * On CAN every answer is one ISO-TP message per ECU: 49 [info type] [item count] [items...],
+ * reassembled from multi-frame output by `parseEcuMessages`. Item sizes are fixed per type.
+ */
+
+export const VEHICLE_INFO_TYPES = {
+  vin: 0x02,
+  calibrationId: 0x04,
+  cvn: 0x06,
+  ecuName: 0x0a,
+} as const;
+
+/** Bytes per item of each info type. */
+const ITEM_SIZE: Record<number, number> = {
+  [VEHICLE_INFO_TYPES.vin]: 17,
+  [VEHICLE_INFO_TYPES.calibrationId]: 16,
+  [VEHICLE_INFO_TYPES.cvn]: 4,
+  [VEHICLE_INFO_TYPES.ecuName]: 20,
+};
+
+/** ASCII item with the 00 padding removed (ECU names pad between acronym and name too). */
+function ascii(bytes: number[]): string {
+  return String.fromCharCode(...bytes.filter((b) => b >= 0x20 && b < 0x7f)).trim();
+}
+
+const hex = (bytes: number[]): string =>
+  bytes.map((b) => b.toString(16).toUpperCase().padStart(2, '0')).join('');
+
+/**
+ * Decode the items of one Mode 09 answer.
+ * @param infoType - Info type byte (0x02 VIN, 0x04 CAL ID, 0x06 CVN, 0x0A ECU name)
+ * @param data - Bytes after "49 [info type]", starting with the item count
+ * @returns One string per item (CVNs as 8 hex digits); empty for unknown types
+ */
+export function decodeVehicleInfo(infoType: number, data: number[]): string[] {
+  const size = ITEM_SIZE[infoType];
+  if (size === undefined || data.length < 1) {
+    return [];
+  }
+
+  // Some ECUs announce more items than they send; decode the complete ones.
+  const count = Math.min(data[0], Math.floor((data.length - 1) / size));
+  const items: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const item = data.slice(1 + i * size, 1 + (i + 1) * size);
+    const text = infoType === VEHICLE_INFO_TYPES.cvn ? hex(item) : ascii(item);
+    if (text) {
+      items.push(text);
+    }
+  }
+  return items;
+}
+
+/** A plausible VIN: 17 characters without I, O and Q. */
+export function isValidVin(vin: string): boolean {
+  return /^[A-HJ-NPR-Z0-9]{17}$/.test(vin);
+}
@@ -10,21 +10,24 @@ import { CartesianChart, Line } from 'victory-native';
 import { matchFont } from '@shopify/react-native-skia';
 import type { FuelEconomyData } from '../types/obd';
 import { fuelAnalysis } from '../analysis/fuelAnalysis';
-import { THEME } from '../utils/theme';
+import type { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../components/ThemeProvider';
+import { useUnitPreferences } from '../store/settingsStore';
+import { unitConversion } from '../utils/units';
 
 // --- 定数 ---
 
-const COLORS = {
-  background: THEME.bg,
-  card: THEME.bgCard,
-  cardBorder: THEME.border,
-  primary: THEME.primary,
-  accent: THEME.success,
-  warning: THEME.warning,
-  text: THEME.text,
-  textSecondary: THEME.textSecondary,
-  graphGrid: THEME.border,
-} as const;
+const createColors = (theme: ThemeColors) => ({
+  background: theme.bg,
+  card: theme.bgCard,
+  cardBorder: theme.border,
+  primary: theme.primary,
+  accent: theme.success,
+  warning: theme.warning,
+  text: theme.text,
+  textSecondary: theme.textSecondary,
+  graphGrid: theme.border,
+});
 
 /** グラフに表示する最大データポイント数 */
 const MAX_GRAPH_POINTS = 60;
@@ -50,6 +53,7 @@ interface SummaryCardProps {
 }
 
 function SummaryCard({ label, value, unit, color }: SummaryCardProps) {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.summaryCard}>
       <Text style={styles.summaryLabel}>{label}</Text>
@@ -69,6 +73,7 @@ interface StatRowProps {
 }
 
 function StatRow({ label, value }: StatRowProps) {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.statRow}>
       <Text style={styles.statLabel}>{label}</Text>
@@ -86,6 +91,7 @@ function StatRow({ label, value }: StatRowProps) {
  * - 中央: victory-native による燃費推移リアルタイムグラフ
  * - 下部: 走行距離・燃料消費量・トリップ時間の統計情報
  * - リセットボタンでトリップデータをクリア
+ * - 燃費・距離・燃料量は設定の単位 (mpg, L/100km, mi, gal など) で表示する
  */
 export function AnalysisScreen() {
   const [summary, setSummary] = useState<FuelEconomyData>(
@@ -93,6 +99,12 @@ export function AnalysisScreen() {
   );
   const [graphData, setGraphData] = useState<GraphPoint[]>([]);
   const tripStartTime = useRef(Date.now());
+  const unitPrefs = useUnitPreferences();
+  const economy = unitConversion('km/L', unitPrefs);
+  const distance = unitConversion('km', unitPrefs);
+  const volume = unitConversion('L', unitPrefs);
+  const colors = useThemedStyles(createColors);
+  const styles = useThemedStyles(createStyles);
   const axisFont = React.useMemo(
     () =>
       matchFont({
@@ -148,10 +160,10 @@ export function AnalysisScreen() {
     return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
   })();
 
-  // グラフが空の場合のプレースホルダデータ
+  // グラフは表示単位に変換して描く (空の場合はプレースホルダデータ)
   const chartData =
     graphData.length >= 2
-      ? graphData
+      ? graphData.map((point) => ({ ...point, kmPerL: economy.convert(point.kmPerL) }))
       : [
           { time: 0, kmPerL: 0 },
           { time: 1, kmPerL: 0 },
@@ -174,21 +186,25 @@ export function AnalysisScreen() {
       <View style={styles.summaryRow}>
         <SummaryCard
           label="Instant"
-          value={summary.instantKmPerL > 0 ? summary.instantKmPerL.toFixed(1) : '--'}
-          unit="km/L"
-          color={COLORS.primary}
+          value={
+            summary.instantKmPerL > 0 ? economy.convert(summary.instantKmPerL).toFixed(1) : '--'
+          }
+          unit={economy.unit}
+          color={colors.primary}
         />
         <SummaryCard
           label="Average"
-          value={summary.averageKmPerL > 0 ? summary.averageKmPerL.toFixed(1) : '--'}
-          unit="km/L"
-          color={COLORS.accent}
+          value={
+            summary.averageKmPerL > 0 ? economy.convert(summary.averageKmPerL).toFixed(1) : '--'
+          }
+          unit={economy.unit}
+          color={colors.accent}
         />
         <SummaryCard
           label="EV Ratio"
           value={(summary.evRatio * 100).toFixed(0)}
           unit="%"
-          color={COLORS.warning}
+          color={colors.warning}
         />
       </View>
 
@@ -205,35 +221,35 @@ export function AnalysisScreen() {
             xAxis={{
               font: axisFont,
               tickCount: 5,
-              labelColor: COLORS.textSecondary,
-              lineColor: COLORS.graphGrid,
+              labelColor: colors.textSecondary,
+              lineColor: colors.graphGrid,
               formatXLabel: (val: unknown) => `${Math.round(val as number)}s`,
             }}
             yAxis={[
               {
                 font: axisFont,
                 tickCount: 4,
-                labelColor: COLORS.textSecondary,
-                lineColor: COLORS.graphGrid,
+                labelColor: colors.textSecondary,
+                lineColor: colors.graphGrid,
                 formatYLabel: (val: unknown) => `${(val as number).toFixed(0)}`,
               },
             ]}
             frame={{
-              lineColor: COLORS.graphGrid,
+              lineColor: colors.graphGrid,
               lineWidth: StyleSheet.hairlineWidth,
             }}
           >
             {({ points }) => (
               <Line
                 points={points.kmPerL}
-                color={COLORS.primary}
+                color={colors.primary}
                 strokeWidth={2}
                 animate={{ type: 'timing', duration: 300 }}
               />
             )}
           </CartesianChart>
         </View>
-        <Text style={styles.graphAxisLabel}>Time (seconds) vs km/L</Text>
+        <Text style={styles.graphAxisLabel}>Time (seconds) vs {economy.unit}</Text>
       </View>
 
       {/* 統計情報 */}
@@ -241,23 +257,25 @@ export function AnalysisScreen() {
         <Text style={styles.statsTitle}>Trip Statistics</Text>
         <StatRow
           label="Total Distance"
-          value={`${summary.distanceKm.toFixed(2)} km`}
+          value={`${distance.convert(summary.distanceKm).toFixed(2)} ${distance.unit}`}
         />
         <StatRow
           label="Fuel Consumed"
-          value={`${summary.fuelUsedL.toFixed(3)} L`}
+          value={`${volume.convert(summary.fuelUsedL).toFixed(3)} ${volume.unit}`}
         />
         <StatRow
           label="EV Distance"
-          value={`${(summary.distanceKm * summary.evRatio).toFixed(2)} km`}
+          value={`${distance
+            .convert(summary.distanceKm * summary.evRatio)
+            .toFixed(2)} ${distance.unit}`}
         />
         <StatRow label="Trip Time" value={tripDuration} />
         <StatRow
           label="Average Fuel Economy"
           value={
             summary.averageKmPerL > 0
-              ? `${summary.averageKmPerL.toFixed(1)} km/L`
-              : '-- km/L'
+              ? `${economy.convert(summary.averageKmPerL).toFixed(1)} ${economy.unit}`
+              : `-- ${economy.unit}`
           }
         />
       </View>
@@ -267,10 +285,10 @@ export function AnalysisScreen() {
 
 // --- スタイル ---
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: theme.bg,
   },
   contentContainer: {
     paddingHorizontal: 16,
@@ -288,18 +306,18 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: '700',
-    color: COLORS.text,
+    color: theme.text,
   },
   resetButton: {
-    backgroundColor: '#ffffff10',
+    backgroundColor: theme.primaryGlow,
     borderRadius: 8,
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
   },
   resetButtonText: {
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     fontSize: 13,
     fontWeight: '600',
   },
@@ -312,17 +330,17 @@ const styles = StyleSheet.create({
   },
   summaryCard: {
     flex: 1,
-    backgroundColor: COLORS.card,
+    backgroundColor: theme.bgCard,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
     padding: 12,
     alignItems: 'center',
   },
   summaryLabel: {
     fontSize: 11,
     fontWeight: '600',
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
     marginBottom: 4,
@@ -339,23 +357,23 @@ const styles = StyleSheet.create({
   },
   summaryUnit: {
     fontSize: 11,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     fontWeight: '500',
   },
 
   // --- Graph ---
   graphContainer: {
-    backgroundColor: COLORS.card,
+    backgroundColor: theme.bgCard,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
     padding: 16,
     marginBottom: 16,
   },
   graphTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: theme.text,
     marginBottom: 12,
   },
   graphWrapper: {
@@ -363,23 +381,23 @@ const styles = StyleSheet.create({
   },
   graphAxisLabel: {
     fontSize: 11,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     textAlign: 'center',
     marginTop: 8,
   },
 
   // --- Statistics ---
   statsContainer: {
-    backgroundColor: COLORS.card,
+    backgroundColor: theme.bgCard,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
     padding: 16,
   },
   statsTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: theme.text,
     marginBottom: 12,
   },
   statRow: {
@@ -388,16 +406,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 8,
     borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: COLORS.cardBorder,
+    borderBottomColor: theme.border,
   },
   statLabel: {
     fontSize: 13,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
   },
   statValue: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: theme.text,
     fontVariant: ['tabular-nums'],
   },
 });
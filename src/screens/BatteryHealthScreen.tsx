@@ -1,43 +1,49 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StyleSheet, View, Text, StatusBar } from 'react-native';
 
 import { DigitalMeter } from '../components/meters/DigitalMeter';
 import { useBatteryHealthStore } from '../store/batteryHealthStore';
-import { THEME } from '../utils/theme';
+import { useConnectionStore } from '../store/connectionStore';
+import { useUnitPreferences } from '../store/settingsStore';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+import { unitConversion } from '../utils/units';
+import type { BatterySnapshotRecord } from '../storage/database';
+import { vehicleProfiles } from '../storage/vehicleProfiles';
 
 /** SOHからヘルスステータスを判定 */
-function getHealthStatus(soh: number): {
+function getHealthStatus(soh: number, theme: ThemeColors): {
   label: string;
   color: string;
   description: string;
 } {
   if (soh >= 90)
-    return { label: 'GOOD', color: THEME.success, description: 'Battery in healthy condition' };
+    return { label: 'GOOD', color: theme.success, description: 'Battery in healthy condition' };
   if (soh >= 75)
-    return { label: 'FAIR', color: THEME.primary, description: 'Minor degradation detected' };
+    return { label: 'FAIR', color: theme.primary, description: 'Minor degradation detected' };
   if (soh >= 50)
-    return { label: 'POOR', color: THEME.warning, description: 'Significant degradation - monitor closely' };
-  return { label: 'CRITICAL', color: THEME.accent, description: 'Battery replacement recommended' };
+    return { label: 'POOR', color: theme.warning, description: 'Significant degradation - monitor closely' };
+  return { label: 'CRITICAL', color: theme.accent, description: 'Battery replacement recommended' };
 }
 
 /** モジュール電圧の偏差に応じた色を返す */
-function getModuleCellColor(deviation: number): string {
+function getModuleCellColor(deviation: number, theme: ThemeColors): string {
   const absDev = Math.abs(deviation);
-  if (absDev <= 0.05) return THEME.success;
-  if (absDev <= 0.12) return THEME.warning;
-  return THEME.accent;
+  if (absDev <= 0.05) return theme.success;
+  if (absDev <= 0.12) return theme.warning;
+  return theme.accent;
 }
 
 /** 温度に応じたバーの色を返す */
-function getTempBarColor(temp: number): string {
-  if (temp < 30) return THEME.primary;
-  if (temp <= 38) return THEME.success;
-  return THEME.accent;
+function getTempBarColor(temp: number, theme: ThemeColors): string {
+  if (temp < 30) return theme.primary;
+  if (temp <= 38) return theme.success;
+  return theme.accent;
 }
 
 /** 電流の方向に応じた色を返す */
-function getCurrentColor(current: number): string {
-  return current >= 0 ? THEME.primary : THEME.warning;
+function getCurrentColor(current: number, theme: ThemeColors): string {
+  return current >= 0 ? theme.primary : theme.warning;
 }
 
 // モジュールグリッドの定数
@@ -48,6 +54,11 @@ const CELL_HEIGHT = 54;
 
 export function BatteryHealthScreen(): React.JSX.Element {
   const summary = useBatteryHealthStore((s) => s.summary);
+  const vin = useConnectionStore((s) => s.vin);
+  const [previous, setPrevious] = useState<BatterySnapshotRecord | null>(null);
+  const temperature = unitConversion('\u00B0C', useUnitPreferences());
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   const {
     modules,
@@ -129,7 +140,22 @@ export function BatteryHealthScreen(): React.JSX.Element {
   }, [modules]);
 
   // ヘルスステータス
-  const health = getHealthStatus(soh);
+  const health = getHealthStatus(soh, theme);
+
+  // 接続中の車両で前回保存したバッテリー状態 (比較用、プロファイルがなければ表示しない)
+  useEffect(() => {
+    let cancelled = false;
+    setPrevious(null);
+    vehicleProfiles
+      .batterySnapshots(1)
+      .then((snapshots) => {
+        if (!cancelled) setPrevious(snapshots[0] ?? null);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [vin]);
 
   return (
     <View style={styles.screen}>
@@ -150,6 +176,17 @@ export function BatteryHealthScreen(): React.JSX.Element {
               <Text style={styles.sohLabel}>SOH</Text>
               <Text style={[styles.sohValue, { color: health.color }]}>{soh.toFixed(0)}%</Text>
             </View>
+            {previous && (
+              <View style={styles.sohBadge}>
+                <Text style={styles.sohLabel}>
+                  Last {new Date(previous.takenAt).toLocaleDateString()}
+                </Text>
+                <Text style={styles.previousValue}>
+                  {previous.summary.soh.toFixed(0)}% {String.fromCharCode(0x0394)}
+                  {previous.summary.maxMinDelta.toFixed(2)}V
+                </Text>
+              </View>
+            )}
           </View>
         </View>
 
@@ -180,7 +217,7 @@ export function BatteryHealthScreen(): React.JSX.Element {
               <View key={rowIndex} style={styles.moduleRow}>
                 {row.map((mod) => {
                   const deviation = mod.voltage - avgModuleVoltage;
-                  const cellColor = getModuleCellColor(deviation);
+                  const cellColor = getModuleCellColor(deviation, theme);
                   const isWorst = worstIndices.has(mod.moduleIndex);
                   return (
                     <View
@@ -202,7 +239,7 @@ export function BatteryHealthScreen(): React.JSX.Element {
                       <Text
                         style={[
                           styles.moduleCellDelta,
-                          { color: deviation < -0.05 ? THEME.accent : deviation < -0.02 ? THEME.warning : THEME.textDim },
+                          { color: deviation < -0.05 ? theme.accent : deviation < -0.02 ? theme.warning : theme.textDim },
                         ]}
                       >
                         {deviation >= 0 ? '+' : ''}{(deviation * 1000).toFixed(0)}mV
@@ -217,19 +254,19 @@ export function BatteryHealthScreen(): React.JSX.Element {
           {/* 凡例 */}
           <View style={styles.legend}>
             <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: THEME.success }]} />
+              <View style={[styles.legendDot, { backgroundColor: theme.success }]} />
               <Text style={styles.legendText}>{'\u00B1'}50mV</Text>
             </View>
             <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: THEME.warning }]} />
+              <View style={[styles.legendDot, { backgroundColor: theme.warning }]} />
               <Text style={styles.legendText}>{'\u00B1'}120mV</Text>
             </View>
             <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: THEME.accent }]} />
+              <View style={[styles.legendDot, { backgroundColor: theme.accent }]} />
               <Text style={styles.legendText}>{'>'}120mV</Text>
             </View>
             <View style={styles.legendItem}>
-              <Text style={[styles.legendText, { color: THEME.warning }]}>{'\u25BC'} Worst</Text>
+              <Text style={[styles.legendText, { color: theme.warning }]}>{'\u25BC'} Worst</Text>
             </View>
           </View>
         </View>
@@ -244,13 +281,13 @@ export function BatteryHealthScreen(): React.JSX.Element {
               label="Pack Voltage"
               value={packVoltage.toFixed(1)}
               unit="V"
-              valueColor={THEME.primary}
+              valueColor={theme.primary}
             />
             <SummaryRow
               label="Pack Current"
               value={packCurrent.toFixed(1)}
               unit="A"
-              valueColor={getCurrentColor(packCurrent)}
+              valueColor={getCurrentColor(packCurrent, theme)}
             />
             <SummaryRow
               label={`Max-Min ${String.fromCharCode(0x0394)}`}
@@ -258,10 +295,10 @@ export function BatteryHealthScreen(): React.JSX.Element {
               unit="V"
               valueColor={
                 maxMinDelta > 0.20
-                  ? THEME.accent
+                  ? theme.accent
                   : maxMinDelta > 0.10
-                    ? THEME.warning
-                    : THEME.success
+                    ? theme.warning
+                    : theme.success
               }
             />
             <SummaryRow
@@ -270,17 +307,17 @@ export function BatteryHealthScreen(): React.JSX.Element {
               unit="%"
               valueColor={
                 deltaSoc > 15
-                  ? THEME.accent
+                  ? theme.accent
                   : deltaSoc > 5
-                    ? THEME.warning
-                    : THEME.success
+                    ? theme.warning
+                    : theme.success
               }
             />
             <SummaryRow
               label="Int. Resistance"
               value={internalResistance.toFixed(1)}
               unit={`m${String.fromCharCode(0x03A9)}`}
-              valueColor={THEME.text}
+              valueColor={theme.text}
             />
           </View>
 
@@ -292,18 +329,18 @@ export function BatteryHealthScreen(): React.JSX.Element {
                 <View style={styles.worstRank}>
                   <Text style={[
                     styles.worstRankText,
-                    { color: rank === 0 ? THEME.accent : rank === 1 ? THEME.warning : THEME.textSecondary },
+                    { color: rank === 0 ? theme.accent : rank === 1 ? theme.warning : theme.textSecondary },
                   ]}>
                     #{rank + 1}
                   </Text>
                 </View>
                 <Text style={styles.worstModLabel}>Module {mod.index + 1}</Text>
-                <Text style={[styles.worstVoltage, { color: getModuleCellColor(mod.deviation) }]}>
+                <Text style={[styles.worstVoltage, { color: getModuleCellColor(mod.deviation, theme) }]}>
                   {mod.voltage.toFixed(2)}V
                 </Text>
                 <Text style={[
                   styles.worstDelta,
-                  { color: THEME.accent },
+                  { color: theme.accent },
                 ]}>
                   {(mod.deviation * 1000).toFixed(0)}mV
                 </Text>
@@ -325,15 +362,15 @@ export function BatteryHealthScreen(): React.JSX.Element {
                         styles.tempBarFill,
                         {
                           width: `${Math.min(100, Math.max(0, (sensor.value / 60) * 100))}%`,
-                          backgroundColor: getTempBarColor(sensor.value),
+                          backgroundColor: getTempBarColor(sensor.value, theme),
                         },
                       ]}
                     />
                   </View>
                   <Text
-                    style={[styles.tempBarValue, { color: getTempBarColor(sensor.value) }]}
+                    style={[styles.tempBarValue, { color: getTempBarColor(sensor.value, theme) }]}
                   >
-                    {sensor.value.toFixed(0)}{'\u00B0C'}
+                    {temperature.convert(sensor.value).toFixed(0)}{temperature.unit}
                   </Text>
                 </View>
               ))}
@@ -342,7 +379,7 @@ export function BatteryHealthScreen(): React.JSX.Element {
             <View style={styles.avgTempRow}>
               <Text style={styles.avgTempLabel}>Avg:</Text>
               <Text style={styles.avgTempValue}>
-                {avgTemp.toFixed(0)}{'\u00B0C'}
+                {temperature.convert(avgTemp).toFixed(0)}{temperature.unit}
               </Text>
             </View>
           </View>
@@ -362,6 +399,7 @@ interface SummaryRowProps {
 }
 
 function SummaryRow({ label, value, unit, valueColor }: SummaryRowProps) {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.summaryRow}>
       <Text style={styles.summaryLabel}>{label}</Text>
@@ -377,10 +415,10 @@ function SummaryRow({ label, value, unit, valueColor }: SummaryRowProps) {
 
 // ─── スタイル ──────────────────────────────────────────────────────
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   screen: {
     flex: 1,
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
   },
 
   // ── ヘッダー ──
@@ -388,18 +426,18 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    backgroundColor: THEME.bgElevated,
+    backgroundColor: theme.bgElevated,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderBottomWidth: 1,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   headerLeft: {
     flex: 1,
     justifyContent: 'center',
   },
   headerTitle: {
-    color: THEME.primary,
+    color: theme.primary,
     fontSize: 17,
     fontWeight: '700',
     letterSpacing: 0.5,
@@ -437,7 +475,7 @@ const styles = StyleSheet.create({
     gap: 4,
   },
   sohLabel: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 11,
     fontWeight: '600',
   },
@@ -446,6 +484,12 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     fontVariant: ['tabular-nums'],
   },
+  previousValue: {
+    color: theme.textSecondary,
+    fontSize: 13,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
   headerRight: {
     flex: 1,
     alignItems: 'flex-end',
@@ -465,18 +509,18 @@ const styles = StyleSheet.create({
     marginRight: 10,
   },
   sectionTitle: {
-    color: THEME.textSecondary,
+    color: theme.textSecondary,
     fontSize: 13,
     fontWeight: '600',
     textTransform: 'uppercase',
     letterSpacing: 1,
     marginBottom: 6,
     borderLeftWidth: 3,
-    borderLeftColor: THEME.primary,
+    borderLeftColor: theme.primary,
     paddingLeft: 8,
   },
   avgVoltageHint: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 11,
     fontWeight: '400',
     textTransform: 'none',
@@ -491,9 +535,9 @@ const styles = StyleSheet.create({
   moduleCell: {
     width: CELL_WIDTH,
     height: CELL_HEIGHT,
-    backgroundColor: THEME.bgCard,
+    backgroundColor: theme.bgCard,
     borderWidth: 1,
-    borderRadius: THEME.radiusSm,
+    borderRadius: theme.radiusSm,
     margin: 2,
     alignItems: 'center',
     justifyContent: 'center',
@@ -501,13 +545,13 @@ const styles = StyleSheet.create({
   },
   moduleCellWorst: {
     borderWidth: 2,
-    backgroundColor: '#1a0a12',
+    backgroundColor: `${theme.accent}1a`,
   },
   moduleCellIndex: {
     position: 'absolute',
     top: 2,
     left: 4,
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 8,
     fontWeight: '500',
   },
@@ -541,7 +585,7 @@ const styles = StyleSheet.create({
     marginRight: 4,
   },
   legendText: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 10,
     fontWeight: '500',
   },
@@ -554,10 +598,10 @@ const styles = StyleSheet.create({
 
   // ── Pack Summary カード ──
   summaryCard: {
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     padding: 12,
     marginBottom: 10,
   },
@@ -567,10 +611,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 5,
     borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   summaryLabel: {
-    color: THEME.textSecondary,
+    color: theme.textSecondary,
     fontSize: 12,
     fontWeight: '500',
   },
@@ -584,7 +628,7 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'],
   },
   summaryUnit: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 10,
     fontWeight: '500',
     marginLeft: 3,
@@ -592,10 +636,10 @@ const styles = StyleSheet.create({
 
   // ── Weakest Modules カード ──
   worstCard: {
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     padding: 12,
     marginBottom: 10,
   },
@@ -604,7 +648,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 4,
     borderBottomWidth: StyleSheet.hairlineWidth,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   worstRank: {
     width: 28,
@@ -615,7 +659,7 @@ const styles = StyleSheet.create({
   },
   worstModLabel: {
     flex: 1,
-    color: THEME.text,
+    color: theme.text,
     fontSize: 12,
     fontWeight: '500',
   },
@@ -635,10 +679,10 @@ const styles = StyleSheet.create({
 
   // ── Temperature カード ──
   temperatureCard: {
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     padding: 12,
     flex: 1,
   },
@@ -650,7 +694,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   tempBarLabel: {
-    color: THEME.textSecondary,
+    color: theme.textSecondary,
     fontSize: 11,
     fontWeight: '600',
     width: 40,
@@ -658,7 +702,7 @@ const styles = StyleSheet.create({
   tempBarTrack: {
     flex: 1,
     height: 14,
-    backgroundColor: THEME.border,
+    backgroundColor: theme.border,
     borderRadius: 7,
     overflow: 'hidden',
     marginHorizontal: 8,
@@ -682,12 +726,12 @@ const styles = StyleSheet.create({
     gap: 6,
   },
   avgTempLabel: {
-    color: THEME.textSecondary,
+    color: theme.textSecondary,
     fontSize: 13,
     fontWeight: '600',
   },
   avgTempValue: {
-    color: THEME.primary,
+    color: theme.primary,
     fontSize: 20,
     fontWeight: '700',
     fontVariant: ['tabular-nums'],
@@ -0,0 +1,335 @@
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import type { CanIdStats } from '../types/obd';
+import { obdClient } from '../obd/obdClient';
+import { useCanSnifferStore } from '../store/canSnifferStore';
+import { useConnectionStore } from '../store/connectionStore';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+
+/** 11bit CAN ID / マスクの入力形式 */
+const HEX3 = /^[0-9A-F]{3}$/;
+
+const hex = (b: number): string => b.toString(16).toUpperCase().padStart(2, '0');
+
+/**
+ * 1行分のID表示 (ID / レート / 件数 / 直近ペイロード)
+ * 直近に変化したバイトはハイライトする。
+ */
+const FrameRow = React.memo(function FrameRow({ row }: { row: CanIdStats }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.frameRow}>
+      <Text style={styles.frameId}>{row.id}</Text>
+      <Text style={styles.frameRate}>{row.rateHz.toFixed(1)}</Text>
+      <Text style={styles.frameCount}>{row.count}</Text>
+      <View style={styles.payload}>
+        {row.data.map((byte, i) => (
+          <Text key={i} style={[styles.byte, row.changed[i] && styles.byteChanged]}>
+            {hex(byte)}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+});
+
+/**
+ * CANスニファ画面 (開発者向け)
+ *
+ * アダプタをモニタモード(ATMA)にしてバス上のフレームをID別に表示する。
+ * 新しいシグナルの解析用: ATCF/ATCM フィルタ、一時停止、DBへのキャプチャ記録に対応。
+ * モニタ中はポーリングが止まるため、タブを離れるとモニタも停止する。
+ */
+export function CanSnifferScreen(): React.JSX.Element {
+  const isReady = useConnectionStore((s) => s.isElm327Ready);
+  const { running, rows, filter, captureId, frameCount, error } = useCanSnifferStore();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const [filterText, setFilterText] = useState(filter?.filter ?? '');
+  const [maskText, setMaskText] = useState(filter?.mask ?? '');
+
+  // タブを離れたらモニタを止めてポーリングに戻す
+  useFocusEffect(
+    useCallback(() => {
+      return () => {
+        obdClient.stopSniffer().catch((err) => {
+          console.warn('Failed to stop the CAN sniffer:', err);
+        });
+      };
+    }, []),
+  );
+
+  /** 入力欄のフィルタを検証して返す (空欄 = 全ID、不正なら valid: false) */
+  const parseFilter = useCallback((): { valid: boolean; value: typeof filter } => {
+    const f = filterText.trim().toUpperCase();
+    const m = maskText.trim().toUpperCase();
+    if (!f && !m) {
+      return { valid: true, value: null };
+    }
+    if (!HEX3.test(f) || !HEX3.test(m)) {
+      return { valid: false, value: null };
+    }
+    return { valid: true, value: { filter: f, mask: m } };
+  }, [filterText, maskText]);
+
+  const start = useCallback(async () => {
+    const parsed = parseFilter();
+    if (!parsed.valid) {
+      Alert.alert('Invalid filter', 'Filter and mask are 3-digit hex values (e.g. 3C8 / 7FC).');
+      return;
+    }
+    try {
+      await obdClient.startSniffer(parsed.value);
+    } catch (err) {
+      Alert.alert('Sniffer', err instanceof Error ? err.message : String(err));
+    }
+  }, [parseFilter]);
+
+  const toggleRunning = useCallback(() => {
+    const toggle = running ? obdClient.stopSniffer() : start();
+    toggle.catch((err) => {
+      console.warn('Failed to toggle the CAN sniffer:', err);
+    });
+  }, [running, start]);
+
+  const toggleCapture = useCallback(() => {
+    const toggle = captureId !== null ? obdClient.stopCanCapture() : obdClient.startCanCapture();
+    toggle.catch((err) => {
+      console.warn('Failed to toggle the CAN capture:', err);
+    });
+  }, [captureId]);
+
+  const renderRow = useCallback(({ item }: { item: CanIdStats }) => <FrameRow row={item} />, []);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>CAN Sniffer</Text>
+        <Text style={styles.status}>
+          {running ? 'Monitoring' : 'Paused'} · {rows.length} IDs · {frameCount} frames
+          {captureId !== null ? ` · REC #${captureId}` : ''}
+        </Text>
+      </View>
+
+      <View style={styles.filterRow}>
+        <TextInput
+          style={styles.input}
+          value={filterText}
+          onChangeText={setFilterText}
+          placeholder="ATCF"
+          placeholderTextColor={theme.textDim}
+          autoCapitalize="characters"
+          maxLength={3}
+        />
+        <TextInput
+          style={styles.input}
+          value={maskText}
+          onChangeText={setMaskText}
+          placeholder="ATCM"
+          placeholderTextColor={theme.textDim}
+          autoCapitalize="characters"
+          maxLength={3}
+        />
+        <TouchableOpacity
+          style={styles.button}
+          onPress={start}
+          disabled={!isReady}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>Apply</Text>
+        </TouchableOpacity>
+      </View>
+      {filter && (
+        <Text style={styles.filterInfo}>
+          Filter {filter.filter} / Mask {filter.mask}
+        </Text>
+      )}
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={[styles.button, running && styles.buttonActive]}
+          onPress={toggleRunning}
+          disabled={!isReady}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>{running ? 'Pause' : 'Start'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, captureId !== null && styles.buttonRecording]}
+          onPress={toggleCapture}
+          disabled={!isReady}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>{captureId !== null ? 'Stop Rec' : 'Record'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => obdClient.clearSnifferFrames()}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!isReady && <Text style={styles.hint}>Connect to an adapter to monitor the bus.</Text>}
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.tableHeader}>
+        <Text style={styles.frameId}>ID</Text>
+        <Text style={styles.frameRate}>Hz</Text>
+        <Text style={styles.frameCount}>Count</Text>
+        <Text style={styles.headerText}>Data</Text>
+      </View>
+      <FlatList
+        data={rows}
+        keyExtractor={(row) => row.id}
+        renderItem={renderRow}
+        style={styles.list}
+      />
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.bg,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  header: {
+    marginBottom: 10,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  status: {
+    color: theme.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    fontFamily: 'monospace',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  filterInfo: {
+    color: theme.primary,
+    fontSize: 12,
+    marginTop: 6,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  button: {
+    backgroundColor: theme.bgElevated,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  buttonActive: {
+    borderColor: theme.primary,
+  },
+  buttonRecording: {
+    borderColor: theme.accent,
+    backgroundColor: theme.accent + '33',
+  },
+  buttonText: {
+    color: theme.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    color: theme.textSecondary,
+    fontSize: 12,
+    marginVertical: 4,
+  },
+  error: {
+    color: theme.accent,
+    fontSize: 12,
+    marginVertical: 4,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomColor: theme.border,
+    borderBottomWidth: 1,
+    paddingVertical: 4,
+  },
+  headerText: {
+    color: theme.textSecondary,
+    fontSize: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  frameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomColor: theme.borderSubtle,
+    borderBottomWidth: 1,
+    paddingVertical: 4,
+  },
+  frameId: {
+    width: 44,
+    color: theme.primary,
+    fontFamily: 'monospace',
+    fontSize: 13,
+  },
+  frameRate: {
+    width: 48,
+    color: theme.textSecondary,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  frameCount: {
+    width: 56,
+    color: theme.textDim,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  payload: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  byte: {
+    color: theme.text,
+    fontFamily: 'monospace',
+    fontSize: 13,
+    marginRight: 5,
+  },
+  byteChanged: {
+    color: theme.warning,
+    fontWeight: '700',
+  },
+});
@@ -14,14 +14,17 @@ import Svg, {
 import { useOBDStore } from '../store/obdStore';
 import { PriusSilhouettePath } from '../components/PriusSilhouettePath';
 import { PRIUS_SILHOUETTE_VIEWBOX } from '../components/priusSilhouettePathData';
-import { THEME } from '../utils/theme';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+import { useUnitPreferences } from '../store/settingsStore';
+import { unitConversion, type UnitConversion } from '../utils/units';
 
 // ─── 定数 ─────────────────────────────────────────────
 
 const CAR_W = PRIUS_SILHOUETTE_VIEWBOX.width;
 const CAR_H = PRIUS_SILHOUETTE_VIEWBOX.height;
 
-// 温度→色変換 (寒色→暖色グラデーション)
+// 温度→色変換 (寒色→暖色グラデーション、判定は常に°C)
 function tempToColor(temp: number): string {
   if (temp <= 10) return '#4fc3f7';
   if (temp <= 18) return '#29b6f6';
@@ -57,9 +60,12 @@ interface TempLabelProps {
   y: number;
   label: string;
   temp: number;
+  /** °C → 表示単位 */
+  temperature: UnitConversion;
 }
 
-function CabinTempLabel({ x, y, label, temp }: TempLabelProps) {
+function CabinTempLabel({ x, y, label, temp, temperature }: TempLabelProps) {
+  const theme = useTheme();
   const color = tempToColor(temp);
   const glow = tempToGlow(temp);
   const w = 68;
@@ -74,7 +80,7 @@ function CabinTempLabel({ x, y, label, temp }: TempLabelProps) {
         width={w}
         height={h}
         rx={6}
-        fill={THEME.bgCard + 'dd'}
+        fill={theme.bgCard + 'dd'}
         stroke={color}
         strokeWidth={1.2}
       />
@@ -82,7 +88,7 @@ function CabinTempLabel({ x, y, label, temp }: TempLabelProps) {
         x={x}
         y={y - h / 2 + 12}
         textAnchor="middle"
-        fill={THEME.textDim}
+        fill={theme.textDim}
         fontSize={8}
         fontWeight="600"
         letterSpacing={0.5}
@@ -97,7 +103,7 @@ function CabinTempLabel({ x, y, label, temp }: TempLabelProps) {
         fontSize={16}
         fontWeight="700"
       >
-        {temp.toFixed(1)}°C
+        {temperature.convert(temp).toFixed(1)}{temperature.unit}
       </SvgText>
     </G>
   );
@@ -106,17 +112,18 @@ function CabinTempLabel({ x, y, label, temp }: TempLabelProps) {
 // ─── ゾーン区切り線 ────────────────────────────────────
 
 function ZoneDividers() {
+  const theme = useTheme();
   return (
     <G>
       <Line
         x1={150} y1={50} x2={150} y2={100}
-        stroke={THEME.border}
+        stroke={theme.border}
         strokeWidth={0.8}
         strokeDasharray="3,3"
       />
       <Line
         x1={240} y1={50} x2={240} y2={100}
-        stroke={THEME.border}
+        stroke={theme.border}
         strokeWidth={0.8}
         strokeDasharray="3,3"
       />
@@ -135,6 +142,7 @@ interface InfoCardProps {
 }
 
 function InfoCard({ label, value, unit, color, sublabel }: InfoCardProps) {
+  const sideStyles = useThemedStyles(createSideStyles);
   return (
     <View style={sideStyles.card}>
       <Text style={sideStyles.cardLabel}>{label}</Text>
@@ -158,6 +166,9 @@ export const ClimateScreen: React.FC = () => {
   const acStatus = usePidValue('TOYOTA_AC_STATUS', 0);
   const acSetTemp = usePidValue('TOYOTA_AC_SET_TEMP', 24);
   const acPower = usePidValue('TOYOTA_AC_POWER', 0);
+  const temperature = unitConversion('°C', useUnitPreferences());
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   const minCabin = Math.min(frontTemp, midTemp, rearTemp);
   const maxCabin = Math.max(frontTemp, midTemp, rearTemp);
@@ -179,15 +190,15 @@ export const ClimateScreen: React.FC = () => {
         <View style={styles.sidePanel}>
           <InfoCard
             label="OUTSIDE"
-            value={ambientTemp.toFixed(1)}
-            unit="°C"
+            value={temperature.convert(ambientTemp).toFixed(1)}
+            unit={temperature.unit}
             color={tempToColor(ambientTemp)}
             sublabel="外気温"
           />
           <InfoCard
             label="COOLANT"
-            value={coolantTemp.toFixed(1)}
-            unit="°C"
+            value={temperature.convert(coolantTemp).toFixed(1)}
+            unit={temperature.unit}
             color={coolantToColor(coolantTemp)}
             sublabel={coolantTemp < 60 ? '暖機中' : coolantTemp <= 95 ? '正常' : '高温注意'}
           />
@@ -202,11 +213,11 @@ export const ClimateScreen: React.FC = () => {
             preserveAspectRatio="xMidYMid meet"
             style={StyleSheet.absoluteFill}
           >
-            <PriusSilhouettePath color={THEME.text} opacity={0.18} />
+            <PriusSilhouettePath color={theme.text} opacity={0.18} />
             <ZoneDividers />
-            <CabinTempLabel x={105} y={75} label="FRONT" temp={frontTemp} />
-            <CabinTempLabel x={195} y={75} label="MID" temp={midTemp} />
-            <CabinTempLabel x={280} y={75} label="REAR" temp={rearTemp} />
+            <CabinTempLabel x={105} y={75} label="FRONT" temp={frontTemp} temperature={temperature} />
+            <CabinTempLabel x={195} y={75} label="MID" temp={midTemp} temperature={temperature} />
+            <CabinTempLabel x={280} y={75} label="REAR" temp={rearTemp} temperature={temperature} />
           </Svg>
         </View>
 
@@ -214,16 +225,16 @@ export const ClimateScreen: React.FC = () => {
         <View style={styles.sidePanel}>
           <InfoCard
             label="A/C SET"
-            value={acSetTemp.toFixed(0)}
-            unit="°C"
-            color={acStatus > 0 ? THEME.primary : THEME.textDim}
+            value={temperature.convert(acSetTemp).toFixed(0)}
+            unit={temperature.unit}
+            color={acStatus > 0 ? theme.primary : theme.textDim}
             sublabel={acStatus > 0 ? 'ON' : 'OFF'}
           />
           <InfoCard
             label="A/C POWER"
             value={acPower.toFixed(1)}
             unit="kW"
-            color={acStatus > 0 ? (acPower > 2 ? THEME.warning : THEME.primary) : THEME.textDim}
+            color={acStatus > 0 ? (acPower > 2 ? theme.warning : theme.primary) : theme.textDim}
             sublabel={acStatus > 0 ? 'コンプレッサー' : '停止中'}
           />
         </View>
@@ -235,9 +246,9 @@ export const ClimateScreen: React.FC = () => {
           <Text style={styles.summaryLabel}>CABIN DELTA</Text>
           <Text style={[
             styles.summaryValue,
-            { color: delta > 3 ? THEME.warning : delta > 1.5 ? THEME.primary : THEME.success },
+            { color: delta > 3 ? theme.warning : delta > 1.5 ? theme.primary : theme.success },
           ]}>
-            {delta.toFixed(1)}°C
+            {temperature.convertDelta(delta).toFixed(1)}{temperature.unit}
           </Text>
           <Text style={styles.summaryHint}>Front-Rear差</Text>
         </View>
@@ -245,7 +256,7 @@ export const ClimateScreen: React.FC = () => {
         <View style={styles.summaryCard}>
           <Text style={styles.summaryLabel}>MIN</Text>
           <Text style={[styles.summaryValue, { color: tempToColor(minCabin) }]}>
-            {minCabin.toFixed(1)}°C
+            {temperature.convert(minCabin).toFixed(1)}{temperature.unit}
           </Text>
           <Text style={styles.summaryHint}>キャビン最低</Text>
         </View>
@@ -253,7 +264,7 @@ export const ClimateScreen: React.FC = () => {
         <View style={styles.summaryCard}>
           <Text style={styles.summaryLabel}>MAX</Text>
           <Text style={[styles.summaryValue, { color: tempToColor(maxCabin) }]}>
-            {maxCabin.toFixed(1)}°C
+            {temperature.convert(maxCabin).toFixed(1)}{temperature.unit}
           </Text>
           <Text style={styles.summaryHint}>キャビン最高</Text>
         </View>
@@ -262,9 +273,10 @@ export const ClimateScreen: React.FC = () => {
           <Text style={styles.summaryLabel}>OUT vs IN</Text>
           <Text style={[
             styles.summaryValue,
-            { color: ambientTemp > midTemp ? THEME.accent : THEME.primary },
+            { color: ambientTemp > midTemp ? theme.accent : theme.primary },
           ]}>
-            {ambientTemp > midTemp ? '+' : ''}{(ambientTemp - midTemp).toFixed(1)}°C
+            {ambientTemp > midTemp ? '+' : ''}
+            {temperature.convertDelta(ambientTemp - midTemp).toFixed(1)}{temperature.unit}
           </Text>
           <Text style={styles.summaryHint}>外気-車内差</Text>
         </View>
@@ -275,19 +287,19 @@ export const ClimateScreen: React.FC = () => {
 
 // ─── サイドパネル用スタイル ────────────────────────────
 
-const sideStyles = StyleSheet.create({
+const createSideStyles = (theme: ThemeColors) => StyleSheet.create({
   card: {
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     paddingVertical: 14,
     paddingHorizontal: 10,
     alignItems: 'center',
     marginBottom: 8,
   },
   cardLabel: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 9,
     fontWeight: '600',
     letterSpacing: 0.8,
@@ -304,7 +316,7 @@ const sideStyles = StyleSheet.create({
     marginTop: 1,
   },
   cardSublabel: {
-    color: THEME.textMuted,
+    color: theme.textMuted,
     fontSize: 9,
     marginTop: 4,
   },
@@ -312,38 +324,38 @@ const sideStyles = StyleSheet.create({
 
 // ─── メインスタイル ───────────────────────────────────
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   screen: {
     flex: 1,
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
   },
 
   header: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    backgroundColor: THEME.bgElevated,
+    backgroundColor: theme.bgElevated,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderBottomWidth: 1,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   headerTitle: {
-    color: THEME.text,
+    color: theme.text,
     fontSize: 15,
     fontWeight: '700',
     letterSpacing: 1,
   },
   headerBadge: {
-    backgroundColor: THEME.primary + '20',
+    backgroundColor: theme.primary + '20',
     paddingHorizontal: 10,
     paddingVertical: 3,
     borderRadius: 8,
     borderWidth: 1,
-    borderColor: THEME.primary + '40',
+    borderColor: theme.primary + '40',
   },
   headerBadgeText: {
-    color: THEME.primary,
+    color: theme.primary,
     fontSize: 10,
     fontWeight: '700',
     letterSpacing: 1,
@@ -365,10 +377,10 @@ const styles = StyleSheet.create({
   // 中央車エリア
   carArea: {
     flex: 1,
-    borderRadius: THEME.radiusMd,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
-    backgroundColor: THEME.bgCard,
+    borderColor: theme.border,
+    backgroundColor: theme.bgCard,
     overflow: 'hidden',
   },
 
@@ -381,16 +393,16 @@ const styles = StyleSheet.create({
   },
   summaryCard: {
     flex: 1,
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     paddingVertical: 10,
     paddingHorizontal: 8,
     alignItems: 'center',
   },
   summaryLabel: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 9,
     fontWeight: '600',
     letterSpacing: 0.5,
@@ -402,7 +414,7 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'] as any,
   },
   summaryHint: {
-    color: THEME.textMuted,
+    color: theme.textMuted,
     fontSize: 8,
     marginTop: 2,
   },
@@ -1,5 +1,6 @@
 import React, { useCallback, useEffect } from 'react';
 import {
+  Alert,
   StyleSheet,
   View,
   Text,
@@ -7,6 +8,7 @@ import {
   FlatList,
   ActivityIndicator,
   StatusBar,
+  TextInput,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -23,41 +25,41 @@ import Animated, {
 
 import { useConnectionStore } from '../store/connectionStore';
 import { obdClient } from '../obd/obdClient';
-import type { BLEDevice } from '../types/obd';
-
-const COLORS = {
-  background: '#0f0f1a',
-  cardBg: '#1a1a2e',
-  primary: '#00d4ff',
-  accent: '#e94560',
-  success: '#00ff88',
-  warning: '#ffd700',
-  text: '#ffffff',
-  textDim: '#64748b',
-  border: '#16213e',
-  ripple: 'rgba(0, 212, 255, 0.1)',
-};
+import { TOYOTA_ECU_NAMES } from '../obd/pid/toyota';
+import {
+  DEFAULT_WIFI_HOST,
+  DEFAULT_WIFI_PORT,
+  formatWifiAddress,
+} from '../bluetooth/WifiManager';
+import type { BLEDevice, VehicleInfo } from '../types/obd';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
 
 // RSSI強度レベル
-const getRssiLevel = (rssi: number | null): { bars: number; color: string; label: string } => {
+const getRssiLevel = (
+  rssi: number | null,
+  theme: ThemeColors,
+): { bars: number; color: string; label: string } => {
   if (rssi === null) {
-    return { bars: 0, color: COLORS.textDim, label: 'Unknown' };
+    return { bars: 0, color: theme.textDim, label: 'Unknown' };
   }
   if (rssi >= -50) {
-    return { bars: 4, color: COLORS.success, label: 'Excellent' };
+    return { bars: 4, color: theme.success, label: 'Excellent' };
   }
   if (rssi >= -65) {
-    return { bars: 3, color: COLORS.success, label: 'Good' };
+    return { bars: 3, color: theme.success, label: 'Good' };
   }
   if (rssi >= -80) {
-    return { bars: 2, color: COLORS.warning, label: 'Fair' };
+    return { bars: 2, color: theme.warning, label: 'Fair' };
   }
-  return { bars: 1, color: COLORS.accent, label: 'Weak' };
+  return { bars: 1, color: theme.accent, label: 'Weak' };
 };
 
 /** RSSI信号強度バー表示 */
 const RssiIndicator: React.FC<{ rssi: number | null }> = ({ rssi }) => {
-  const { bars, color } = getRssiLevel(rssi);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { bars, color } = getRssiLevel(rssi, theme);
   const maxBars = 4;
   const barWidth = 4;
   const barGap = 2;
@@ -76,7 +78,7 @@ const RssiIndicator: React.FC<{ rssi: number | null }> = ({ rssi }) => {
                 width: barWidth,
                 height: barHeight,
                 marginRight: i < maxBars - 1 ? barGap : 0,
-                backgroundColor: isActive ? color : COLORS.border,
+                backgroundColor: isActive ? color : theme.border,
               },
             ]}
           />
@@ -89,22 +91,33 @@ const RssiIndicator: React.FC<{ rssi: number | null }> = ({ rssi }) => {
   );
 };
 
+/** Classic / BLE で同じMACアドレスが出ることがあるため、接続方式込みでキーにする */
+const deviceKey = (device: BLEDevice): string => `${device.transport ?? 'classic'}:${device.id}`;
+
 /** 検出デバイスカード */
 const DeviceCard: React.FC<{
   device: BLEDevice;
-  onConnect: (id: string) => void;
+  onConnect: (device: BLEDevice) => void;
   isConnecting: boolean;
-  connectedId: string | null;
-}> = ({ device, onConnect, isConnecting, connectedId }) => {
-  const isThisConnecting = isConnecting && connectedId === device.id;
-  const isConnected = !isConnecting && connectedId === device.id;
+  connectedKey: string | null;
+}> = ({ device, onConnect, isConnecting, connectedKey }) => {
+  const isThisConnecting = isConnecting && connectedKey === deviceKey(device);
+  const isConnected = !isConnecting && connectedKey === deviceKey(device);
+  const isBle = device.transport === 'ble';
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   return (
     <Animated.View entering={SlideInRight.duration(300)} style={styles.deviceCard}>
       <View style={styles.deviceInfo}>
-        <Text style={styles.deviceName}>
-          {device.name ?? 'Unknown Device'}
-        </Text>
+        <View style={styles.deviceNameRow}>
+          <Text style={styles.deviceName}>
+            {device.name ?? 'Unknown Device'}
+          </Text>
+          <Text style={[styles.transportBadge, isBle && styles.transportBadgeBle]}>
+            {isBle ? 'BLE' : 'Classic'}
+          </Text>
+        </View>
         <Text style={styles.deviceId}>{device.id}</Text>
       </View>
 
@@ -116,12 +129,12 @@ const DeviceCard: React.FC<{
           isConnected && styles.connectedButton,
           isThisConnecting && styles.connectingButton,
         ]}
-        onPress={() => onConnect(device.id)}
+        onPress={() => onConnect(device)}
         disabled={isConnecting}
         activeOpacity={0.7}
       >
         {isThisConnecting ? (
-          <ActivityIndicator size="small" color={COLORS.text} />
+          <ActivityIndicator size="small" color={theme.text} />
         ) : (
           <Text
             style={[
@@ -137,6 +150,31 @@ const DeviceCard: React.FC<{
   );
 };
 
+/** 車両情報パネル (Mode 09: VIN、ECUごとのECU名・キャリブレーションID・CVN) */
+const VehicleInfoPanel: React.FC<{ vin: string; info: VehicleInfo | null }> = ({ vin, info }) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.vehiclePanel}>
+      <Text style={styles.vehicleText}>VIN {vin}</Text>
+      {info?.ecus.map((ecu) => (
+        <View key={ecu.ecu} style={styles.ecuRow}>
+          <Text style={styles.ecuName}>
+            {ecu.ecu} {TOYOTA_ECU_NAMES[ecu.ecu] ?? ''}
+            {ecu.name ? ` · ${ecu.name}` : ''}
+          </Text>
+          {ecu.calibrationIds.map((calId, i) => (
+            <Text key={`cal-${i}`} style={styles.ecuDetail}>
+              CAL {calId}
+              {ecu.cvns[i] ? `  CVN ${ecu.cvns[i]}` : ''}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
 interface ConnectionScreenProps {
   // react-navigation props are intentionally not typed here to keep this screen decoupled
   // from a specific navigator (tabs/stack).
@@ -144,11 +182,13 @@ interface ConnectionScreenProps {
 }
 
 /**
- * Bluetooth接続画面 (Classic SPP)
+ * Bluetooth接続画面 (Classic SPP / BLE)
  *
  * ほとんどの安価なELM327は「Bluetooth Classic」で、
  * AndroidのBluetooth設定でペアリング(PIN: 1234/0000)した後に
  * アプリから接続する必要がある。
+ * BLEアダプタ (Vgate iCar Pro BLE, OBDLink CX 等) はペアリング不要で、スキャン結果から接続する。
+ * Wi-Fiアダプタはアダプタのアクセスポイントに接続した上で、ホスト/ポートを指定して接続する。
  */
 export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
   navigation: _navigation,
@@ -156,14 +196,26 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
   const connectionState = useConnectionStore((s) => s.state);
   const connectedDevice = useConnectionStore((s) => s.device);
   const errorMessage = useConnectionStore((s) => s.error);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const demoMode = useConnectionStore((s) => s.demoMode);
+  const reconnectAttempt = useConnectionStore((s) => s.reconnectAttempt);
   const setError = useConnectionStore((s) => s.setError);
+  const vin = useConnectionStore((s) => s.vin);
+  const vehicleInfo = useConnectionStore((s) => s.vehicleInfo);
+  const signalSupport = useConnectionStore((s) => s.signalSupport);
+  const scanningSignals = useConnectionStore((s) => s.scanningSignals);
 
-  // ペアリング済みデバイス一覧はローカルステートで管理する
+  // ペアリング済み(Classic) + BLEスキャン結果はローカルステートで管理する
   const [localDevices, setLocalDevices] = React.useState<BLEDevice[]>([]);
   const [isListing, setIsListing] = React.useState(false);
 
+  // Wi-Fiアダプタの接続先 (既定: 192.168.0.10:35000)
+  const [wifiHost, setWifiHost] = React.useState(DEFAULT_WIFI_HOST);
+  const [wifiPort, setWifiPort] = React.useState(String(DEFAULT_WIFI_PORT));
+
   const isConnecting = connectionState === 'connecting';
+  const isReconnecting = connectionState === 'reconnecting';
 
   // スキャンパルスアニメーション
   const scanPulse = useSharedValue(1);
@@ -188,7 +240,7 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
     transform: [{ scale: scanPulse.value }],
   }));
 
-  // ペアリング済み一覧を取得
+  // ペアリング済み一覧を取得し、続けてBLEスキャン (検出ごとに追加)
   const handleScan = useCallback(async () => {
     if (isListing || isConnecting) { return; }
 
@@ -196,38 +248,78 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
     setLocalDevices([]);
     setIsListing(true);
 
+    const errors: string[] = [];
     try {
       const devices = await obdClient.listPairedDevices();
       setLocalDevices(devices);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load paired devices';
-      // setError はストア側で state を 'error' に設定する
-      setError(message);
+      errors.push(err instanceof Error ? err.message : 'Failed to load paired devices');
+    }
+
+    try {
+      await obdClient.scanBleDevices((device) => {
+        setLocalDevices((prev) =>
+          prev.some((d) => deviceKey(d) === deviceKey(device)) ? prev : [...prev, device],
+        );
+      });
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : 'BLE scan failed');
     } finally {
       setIsListing(false);
     }
+
+    if (errors.length > 0) {
+      // setError はストア側で state を 'error' に設定する
+      setError(errors.join('\n'));
+    }
   }, [isListing, isConnecting, setError]);
 
-  // デバイス接続
+  // デバイス接続 (接続方式はデバイスごとに obdClient が選ぶ)
   const handleConnect = useCallback(
-    async (deviceId: string) => {
-      const device = localDevices.find((d) => d.id === deviceId);
+    async (device: BLEDevice) => {
       setError(null);
 
       try {
-        await obdClient.connect(device ?? { id: deviceId, name: null, rssi: null });
+        await obdClient.connect(device);
       } catch {
         // obdClient 側でエラー状態/メッセージをセットする
       }
     },
-    [localDevices, setError],
+    [setError],
   );
 
+  // Wi-Fi (TCP) 接続。デバイスIDは "host:port"
+  const handleWifiConnect = useCallback(() => {
+    const host = wifiHost.trim();
+    const port = Number(wifiPort);
+    if (!host || !Number.isInteger(port) || port <= 0 || port > 65535) {
+      setError('Enter a valid host and port (e.g. 192.168.0.10 : 35000)');
+      return;
+    }
+
+    // 接続エラーは handleConnect 内で処理済み (obdClient がエラー状態をセットする)
+    handleConnect({
+      id: formatWifiAddress({ host, port }),
+      name: 'Wi-Fi ELM327',
+      rssi: null,
+      transport: 'wifi',
+    });
+  }, [wifiHost, wifiPort, handleConnect, setError]);
+
   const handleDisconnect = useCallback(() => {
     setError(null);
     void obdClient.disconnect();
   }, [setError]);
 
+  // 車両のシグナル対応状況を調べ直す (キャッシュを作り直してポーリング対象を更新する)
+  const handleRescan = useCallback(async () => {
+    try {
+      await obdClient.rescanSignals();
+    } catch (err) {
+      Alert.alert('Re-scan', err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
   // デモモード開始
   const handleDemoMode = useCallback(() => {
     setError(null);
@@ -243,23 +335,26 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
         device={item}
         onConnect={handleConnect}
         isConnecting={isConnecting}
-        connectedId={connectedDevice?.id ?? null}
+        connectedKey={connectedDevice ? deviceKey(connectedDevice) : null}
       />
     ),
     [handleConnect, isConnecting, connectedDevice],
   );
 
-  const keyExtractor = useCallback((item: BLEDevice) => item.id, []);
+  const keyExtractor = useCallback((item: BLEDevice) => deviceKey(item), []);
 
   return (
     <View style={styles.screen}>
-      <StatusBar barStyle="light-content" backgroundColor={COLORS.background} />
+      <StatusBar
+        barStyle={theme.dark ? 'light-content' : 'dark-content'}
+        backgroundColor={theme.bg}
+      />
 
       {/* ヘッダー */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Connect to ELM327</Text>
         <Text style={styles.headerSubtitle}>
-          Show paired Bluetooth (PIN: 1234/0000) OBD adapters
+          Paired Bluetooth (PIN: 1234/0000), nearby BLE and Wi-Fi OBD adapters
         </Text>
       </View>
 
@@ -278,18 +373,55 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
           >
             {isScanning ? (
               <View style={styles.scanningRow}>
-                <ActivityIndicator size="small" color={COLORS.text} />
-                <Text style={styles.scanButtonText}>Loading...</Text>
+                <ActivityIndicator size="small" color={theme.text} />
+                <Text style={styles.scanButtonText}>Scanning...</Text>
               </View>
             ) : (
               <Text style={styles.scanButtonText}>
-                {localDevices.length > 0 ? 'Refresh' : 'Show Paired Devices'}
+                {localDevices.length > 0 ? 'Refresh' : 'Find Adapters'}
               </Text>
             )}
           </TouchableOpacity>
         </Animated.View>
       </View>
 
+      {/* Wi-Fiアダプタ */}
+      <View style={styles.wifiSection}>
+        <Text style={styles.sectionTitle}>Wi-Fi Adapter</Text>
+        <View style={styles.wifiRow}>
+          <TextInput
+            style={[styles.wifiInput, styles.wifiHostInput]}
+            value={wifiHost}
+            onChangeText={setWifiHost}
+            placeholder={DEFAULT_WIFI_HOST}
+            placeholderTextColor={theme.textDim}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+            editable={!isConnecting}
+          />
+          <Text style={styles.wifiColon}>:</Text>
+          <TextInput
+            style={[styles.wifiInput, styles.wifiPortInput]}
+            value={wifiPort}
+            onChangeText={setWifiPort}
+            placeholder={String(DEFAULT_WIFI_PORT)}
+            placeholderTextColor={theme.textDim}
+            keyboardType="number-pad"
+            maxLength={5}
+            editable={!isConnecting}
+          />
+          <TouchableOpacity
+            style={[styles.connectButton, isConnecting && styles.scanButtonDisabled]}
+            onPress={handleWifiConnect}
+            disabled={isConnecting}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.connectButtonText}>Connect</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
       {/* エラー表示 */}
       {errorMessage && (
         <Animated.View
@@ -316,6 +448,40 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
           <Text style={styles.successSubtext}>
             Open the Dashboard tab to view live data
           </Text>
+          {vin && <VehicleInfoPanel vin={vin} info={vehicleInfo} />}
+          {scanningSignals ? (
+            <View style={styles.scanningRow}>
+              <ActivityIndicator size="small" color={theme.textDim} />
+              <Text style={styles.successSubtext}>Scanning supported signals...</Text>
+            </View>
+          ) : (
+            signalSupport && (
+              <Text style={styles.successSubtext}>
+                {signalSupport.supported}/{signalSupport.total} requests answered · scanned{' '}
+                {new Date(signalSupport.scannedAt).toLocaleDateString()}
+              </Text>
+            )
+          )}
+          {vin && !scanningSignals && (
+            <TouchableOpacity onPress={handleRescan} activeOpacity={0.7}>
+              <Text style={styles.rescanText}>Re-scan signals</Text>
+            </TouchableOpacity>
+          )}
+        </Animated.View>
+      )}
+
+      {/* 再接続中バナー */}
+      {isReconnecting && (
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          style={styles.reconnectBanner}
+        >
+          <Text style={styles.reconnectText}>
+            Connection lost. Reconnecting to {connectedDevice?.name ?? 'ELM327'}...
+          </Text>
+          <Text style={styles.successSubtext}>
+            Attempt {reconnectAttempt} - logging resumes when the adapter is back
+          </Text>
         </Animated.View>
       )}
 
@@ -331,8 +497,8 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
         </TouchableOpacity>
       </View>
 
-      {/* 切断ボタン */}
-      {connectionState === 'connected' && (
+      {/* 切断ボタン (再接続中はリトライを中止する) */}
+      {(connectionState === 'connected' || isReconnecting) && (
         <View style={styles.disconnectSection}>
           <TouchableOpacity
             style={styles.disconnectButton}
@@ -341,7 +507,7 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
             activeOpacity={0.7}
           >
             <Text style={styles.disconnectButtonText}>
-              {demoMode ? 'Stop Demo' : 'Disconnect'}
+              {isReconnecting ? 'Cancel Reconnect' : demoMode ? 'Stop Demo' : 'Disconnect'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -365,10 +531,10 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
             !isScanning ? (
               <View style={styles.emptyState}>
                 <Text style={styles.emptyText}>
-                  Pair your OBD adapter in Android Bluetooth settings first
+                  Pair Classic adapters in Android Bluetooth settings first
                 </Text>
                 <Text style={styles.emptyHint}>
-                  Then tap "Show Paired Devices" to connect
+                  BLE adapters need no pairing. Tap "Find Adapters" to list both
                 </Text>
               </View>
             ) : null
@@ -379,10 +545,10 @@ export const ConnectionScreen: React.FC<ConnectionScreenProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   screen: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: theme.bg,
   },
 
   // ヘッダー
@@ -392,12 +558,12 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
   },
   headerTitle: {
-    color: COLORS.text,
+    color: theme.text,
     fontSize: 28,
     fontWeight: '700',
   },
   headerSubtitle: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 14,
     fontWeight: '400',
     marginTop: 4,
@@ -409,7 +575,7 @@ const styles = StyleSheet.create({
     paddingVertical: 20,
   },
   scanButton: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: theme.primary,
     paddingHorizontal: 40,
     paddingVertical: 14,
     borderRadius: 28,
@@ -417,14 +583,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   scanButtonActive: {
-    backgroundColor: '#0099bb',
+    backgroundColor: theme.primaryDim,
   },
   scanButtonDisabled: {
-    backgroundColor: COLORS.border,
+    backgroundColor: theme.border,
     opacity: 0.6,
   },
   scanButtonText: {
-    color: COLORS.text,
+    color: theme.text,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -434,15 +600,48 @@ const styles = StyleSheet.create({
     gap: 10,
   },
 
+  // Wi-Fi
+  wifiSection: {
+    paddingHorizontal: 24,
+    marginBottom: 16,
+  },
+  wifiRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  wifiInput: {
+    backgroundColor: theme.bgCard,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 8,
+    color: theme.text,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  wifiHostInput: {
+    flex: 1,
+  },
+  wifiPortInput: {
+    width: 72,
+    marginRight: 12,
+  },
+  wifiColon: {
+    color: theme.textDim,
+    fontSize: 16,
+    marginHorizontal: 6,
+  },
+
   // デモモード
   demoSection: {
     alignItems: 'center',
     marginBottom: 12,
   },
   demoButton: {
-    backgroundColor: 'rgba(255, 215, 0, 0.1)',
+    backgroundColor: `${theme.warning}1a`,
     borderWidth: 1,
-    borderColor: COLORS.warning,
+    borderColor: theme.warning,
     borderRadius: 12,
     paddingHorizontal: 24,
     paddingVertical: 10,
@@ -450,12 +649,12 @@ const styles = StyleSheet.create({
     minWidth: 200,
   },
   demoButtonText: {
-    color: COLORS.warning,
+    color: theme.warning,
     fontSize: 14,
     fontWeight: '600',
   },
   demoButtonHint: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 11,
     marginTop: 2,
   },
@@ -466,9 +665,9 @@ const styles = StyleSheet.create({
     marginBottom: 12,
   },
   disconnectButton: {
-    backgroundColor: 'rgba(233, 69, 96, 0.12)',
+    backgroundColor: `${theme.accent}1f`,
     borderWidth: 1,
-    borderColor: COLORS.accent,
+    borderColor: theme.accent,
     borderRadius: 12,
     paddingHorizontal: 24,
     paddingVertical: 10,
@@ -476,7 +675,7 @@ const styles = StyleSheet.create({
     minWidth: 200,
   },
   disconnectButtonText: {
-    color: COLORS.accent,
+    color: theme.accent,
     fontSize: 14,
     fontWeight: '700',
   },
@@ -486,9 +685,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    backgroundColor: 'rgba(233, 69, 96, 0.15)',
+    backgroundColor: `${theme.accent}26`,
     borderLeftWidth: 3,
-    borderLeftColor: COLORS.accent,
+    borderLeftColor: theme.accent,
     marginHorizontal: 24,
     marginBottom: 12,
     paddingHorizontal: 16,
@@ -496,13 +695,13 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
   errorText: {
-    color: COLORS.accent,
+    color: theme.accent,
     fontSize: 13,
     fontWeight: '500',
     flex: 1,
   },
   errorDismiss: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 12,
     fontWeight: '600',
     marginLeft: 12,
@@ -512,9 +711,9 @@ const styles = StyleSheet.create({
   // 成功バナー
   successBanner: {
     alignItems: 'center',
-    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+    backgroundColor: `${theme.success}1a`,
     borderLeftWidth: 3,
-    borderLeftColor: COLORS.success,
+    borderLeftColor: theme.success,
     marginHorizontal: 24,
     marginBottom: 12,
     paddingHorizontal: 16,
@@ -522,15 +721,61 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
   successText: {
-    color: COLORS.success,
+    color: theme.success,
     fontSize: 15,
     fontWeight: '600',
   },
   successSubtext: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 12,
     marginTop: 2,
   },
+  vehiclePanel: {
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  vehicleText: {
+    color: theme.text,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  ecuRow: {
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  ecuName: {
+    color: theme.textSecondary,
+    fontSize: 12,
+  },
+  ecuDetail: {
+    color: theme.textDim,
+    fontFamily: 'monospace',
+    fontSize: 11,
+  },
+  rescanText: {
+    color: theme.primary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+
+  // 再接続バナー
+  reconnectBanner: {
+    alignItems: 'center',
+    backgroundColor: `${theme.warning}1a`,
+    borderLeftWidth: 3,
+    borderLeftColor: theme.warning,
+    marginHorizontal: 24,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  reconnectText: {
+    color: theme.warning,
+    fontSize: 15,
+    fontWeight: '600',
+  },
 
   // デバイス一覧
   deviceListContainer: {
@@ -538,7 +783,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
   },
   sectionTitle: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 12,
     fontWeight: '600',
     textTransform: 'uppercase',
@@ -556,22 +801,42 @@ const styles = StyleSheet.create({
   deviceCard: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS.cardBg,
+    backgroundColor: theme.bgCard,
     borderRadius: 12,
     padding: 16,
     borderWidth: 1,
-    borderColor: COLORS.border,
+    borderColor: theme.border,
   },
   deviceInfo: {
     flex: 1,
   },
+  deviceNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   deviceName: {
-    color: COLORS.text,
+    color: theme.text,
     fontSize: 15,
     fontWeight: '600',
   },
+  transportBadge: {
+    color: theme.textDim,
+    fontSize: 10,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 4,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  transportBadgeBle: {
+    color: theme.primary,
+    borderColor: theme.primary,
+  },
   deviceId: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 11,
     fontWeight: '400',
     marginTop: 2,
@@ -597,7 +862,7 @@ const styles = StyleSheet.create({
 
   // 接続ボタン
   connectButton: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: theme.primary,
     paddingHorizontal: 20,
     paddingVertical: 8,
     borderRadius: 20,
@@ -605,18 +870,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   connectingButton: {
-    backgroundColor: COLORS.warning,
+    backgroundColor: theme.warning,
   },
   connectedButton: {
-    backgroundColor: COLORS.success,
+    backgroundColor: theme.success,
   },
   connectButtonText: {
-    color: COLORS.text,
+    color: theme.text,
     fontSize: 13,
     fontWeight: '600',
   },
   connectedButtonText: {
-    color: '#0f0f1a',
+    color: theme.onPrimary,
   },
 
   // 空の状態
@@ -625,13 +890,13 @@ const styles = StyleSheet.create({
     paddingVertical: 40,
   },
   emptyText: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 14,
     fontWeight: '500',
     textAlign: 'center',
   },
   emptyHint: {
-    color: COLORS.textDim,
+    color: theme.textDim,
     fontSize: 12,
     fontWeight: '400',
     marginTop: 8,
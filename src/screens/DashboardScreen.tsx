@@ -1,10 +1,15 @@
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ScrollView,
   StyleSheet,
   View,
   Text,
   StatusBar,
   Platform,
+  TouchableOpacity,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -14,15 +19,18 @@ import Animated, {
   Easing,
 } from 'react-native-reanimated';
 
-import { GaugeMeter } from '../components/meters/GaugeMeter';
-import { BarMeter } from '../components/meters/BarMeter';
-import { DigitalMeter } from '../components/meters/DigitalMeter';
-import { BatteryIndicator } from '../components/meters/BatteryIndicator';
+import { MeterGrid } from '../components/dashboard/MeterGrid';
+import { MeterEditor } from '../components/dashboard/MeterEditor';
+import { PageManager } from '../components/dashboard/PageManager';
 import { PriusSilhouette } from '../components/PriusSilhouette';
 import { useOBDStore } from '../store/obdStore';
 import { useConnectionStore } from '../store/connectionStore';
-import { useSettingsStore } from '../store/settingsStore';
-import { THEME } from '../utils/theme';
+import { useSettingsStore, useUnitPreferences } from '../store/settingsStore';
+import { obdClient } from '../obd/obdClient';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+import { unitConversion } from '../utils/units';
+import type { MeterConfig } from '../types/obd';
 
 /**
  * KeepAwake: 画面常時点灯を制御する。
@@ -31,12 +39,20 @@ import { THEME } from '../utils/theme';
  */
 
 // 接続状態に応じたドットカラー
-const CONNECTION_COLORS: Record<string, string> = {
-  connected: THEME.success,
-  connecting: THEME.warning,
-  scanning: THEME.primary,
-  disconnected: THEME.textDim,
-  error: THEME.accent,
+const connectionColor = (state: string, theme: ThemeColors): string => {
+  switch (state) {
+    case 'connected':
+      return theme.success;
+    case 'connecting':
+    case 'reconnecting':
+      return theme.warning;
+    case 'scanning':
+      return theme.primary;
+    case 'error':
+      return theme.accent;
+    default:
+      return theme.textDim;
+  }
 };
 
 /**
@@ -53,18 +69,70 @@ const usePidValue = (pid: string, defaultValue = 0): number => {
  *
  * 10インチ横向きタブレットに最適化したメーターダッシュボード。
  * OBDストアからリアルタイムデータを購読し、各メーターに反映する。
- * settingsStoreのレイアウト情報に基づいてメーターを配置する。
+ * settingsStoreのページ (DashboardLayout) ごとにメーターを配置し、左右スワイプで切り替える。
+ * EDITで表示中ページの編集モードに入り、メーターの追加・削除・移動・リサイズ・設定変更ができる。
+ * PAGESでページの追加・並べ替え・名前変更・複製・削除とJSONの入出力を行う。
  */
 export const DashboardScreen: React.FC = () => {
   const connectionState = useConnectionStore((s) => s.state);
   const connectedDevice = useConnectionStore((s) => s.device);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const keepScreenOn = useSettingsStore((s) => s.keepScreenOn);
+  const pages = useSettingsStore((s) => s.dashboardPages);
+  const activePageId = useSettingsStore((s) => s.activePageId);
+  const setActivePage = useSettingsStore((s) => s.setActivePage);
+  const updateMeterConfig = useSettingsStore((s) => s.updateMeterConfig);
+  const addMeter = useSettingsStore((s) => s.addMeter);
+  const removeMeter = useSettingsStore((s) => s.removeMeter);
+
+  // 保存済みのIDが見つからない場合は先頭ページを表示する
+  const activeIndex = Math.max(0, pages.findIndex((page) => page.id === activePageId));
+  const activePage = pages[activeIndex];
+
+  // レイアウト編集モード
+  const [editing, setEditing] = useState(false);
+  const [pageManagerVisible, setPageManagerVisible] = useState(false);
+
+  // ページ切替用の横スクロール
+  const pagerRef = useRef<ScrollView>(null);
+  const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
+  const pageWidth = pageSize.width;
+
+  // 並べ替え・削除・追加などでページ位置が変わったら表示位置を合わせる
+  useEffect(() => {
+    if (pageWidth > 0) {
+      pagerRef.current?.scrollTo({ x: activeIndex * pageWidth, animated: false });
+    }
+  }, [activeIndex, pageWidth]);
+
+  const handlePagerLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setPageSize({ width, height });
+  };
+
+  const handlePageScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (pageWidth <= 0) {
+      return;
+    }
+    const index = Math.round(event.nativeEvent.contentOffset.x / pageWidth);
+    const page = pages[Math.max(0, Math.min(pages.length - 1, index))];
+    if (page && page.id !== activePage.id) {
+      setActivePage(page.id);
+    }
+  };
+  // 編集モーダル (null = 閉じている、meter: null = 新規追加)
+  const [editorTarget, setEditorTarget] = useState<{ meter: MeterConfig | null } | null>(null);
 
   // 接続ドットの点滅 (connecting/scanning時)
   const dotOpacity = useSharedValue(1);
 
   useEffect(() => {
-    if (connectionState === 'connecting' || connectionState === 'scanning') {
+    if (
+      connectionState === 'connecting' ||
+      connectionState === 'reconnecting' ||
+      connectionState === 'scanning'
+    ) {
       dotOpacity.value = withRepeat(
         withTiming(0.2, { duration: 600, easing: Easing.inOut(Easing.ease) }),
         -1,
@@ -87,37 +155,61 @@ export const DashboardScreen: React.FC = () => {
     }
   }, [keepScreenOn]);
 
-  // リアルタイムOBDデータの取得
-  const rpm = usePidValue('010C', 0);
-  const speed = usePidValue('010D', 0);
-  const coolantTemp = usePidValue('0105', 0);
-  const throttle = usePidValue('0111', 0);
-
-  // HVバッテリーデータ (Toyota固有PID)
-  const hvSoc = usePidValue('TOYOTA_HV_SOC', 0);
-  const hvVoltage = usePidValue('TOYOTA_HV_VOLTAGE', 201.6);
-  const hvCurrent = usePidValue('TOYOTA_HV_CURRENT', 0);
-  const hvTemp = usePidValue('TOYOTA_HV_TEMP', 25);
-
-  // 燃費データ (計算値)
-  const instantFuel = usePidValue('CALC_INSTANT_FUEL', 0);
-  const averageFuel = usePidValue('CALC_AVG_FUEL', 0);
-  const evRatio = usePidValue('CALC_EV_RATIO', 0);
-
-  // 環境データ
+  // 環境データ (表示は設定の単位系に変換する)
+  const unitPrefs = useUnitPreferences();
+  const temperature = unitConversion('\u00B0C', unitPrefs);
   const ambientTemp = usePidValue('0146', 20);
   const cabinTemp = usePidValue('TOYOTA_CABIN_TEMP', 22);
   const acStatus = usePidValue('TOYOTA_AC_STATUS', 0);
   const acSetTemp = usePidValue('TOYOTA_AC_SET_TEMP', 24);
 
   const demoMode = useConnectionStore((s) => s.demoMode);
+  const reconnectAttempt = useConnectionStore((s) => s.reconnectAttempt);
+  const recording = useOBDStore((s) => s.recording);
+  const canRecord = connectionState === 'connected';
+
+  // 手動ログ記録の開始/停止 (autoLogと同じobdClientの経路を使う)
+  const handleToggleRecording = () => {
+    const toggle = recording ? obdClient.stopRecording() : obdClient.startRecording();
+    toggle.catch((err) => {
+      console.warn('Failed to toggle recording:', err);
+    });
+  };
+
+  const handleMeterChange = useCallback(
+    (meter: MeterConfig) => {
+      const { id, ...updates } = meter;
+      updateMeterConfig(activePage.id, id, updates);
+    },
+    [activePage.id, updateMeterConfig],
+  );
+
+  const handleMeterRemove = useCallback(
+    (meterId: string) => removeMeter(activePage.id, meterId),
+    [activePage.id, removeMeter],
+  );
+
+  const handleMeterEdit = useCallback((meter: MeterConfig) => {
+    setEditorTarget({ meter });
+  }, []);
+
+  const handleEditorSubmit = (meter: MeterConfig) => {
+    if (editorTarget?.meter) {
+      handleMeterChange(meter);
+    } else {
+      addMeter(activePage.id, meter);
+    }
+    setEditorTarget(null);
+  };
 
   const connectionLabel =
     demoMode
       ? 'Demo Mode'
       : connectionState === 'connected'
         ? connectedDevice?.name ?? 'ELM327'
-        : connectionState.charAt(0).toUpperCase() + connectionState.slice(1);
+        : connectionState === 'reconnecting'
+          ? `Reconnecting (${reconnectAttempt})`
+          : connectionState.charAt(0).toUpperCase() + connectionState.slice(1);
 
   return (
     <View style={styles.screen}>
@@ -129,7 +221,7 @@ export const DashboardScreen: React.FC = () => {
           <Animated.View
             style={[
               styles.connectionDot,
-              { backgroundColor: CONNECTION_COLORS[connectionState] ?? THEME.textDim },
+              { backgroundColor: connectionColor(connectionState, theme) },
               dotAnimatedStyle,
             ]}
           />
@@ -139,6 +231,58 @@ export const DashboardScreen: React.FC = () => {
         <Text style={styles.headerTitle}>OBD Meter</Text>
 
         <View style={styles.headerRight}>
+          {!editing && (
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => setPageManagerVisible(true)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.editText}>PAGES</Text>
+            </TouchableOpacity>
+          )}
+          {editing && (
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => setEditorTarget({ meter: null })}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.editText}>+ ADD</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.editButton, editing && styles.editButtonActive]}
+            onPress={() => setEditing((prev) => !prev)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.editText, editing && styles.editTextActive]}>
+              {editing ? 'DONE' : 'EDIT'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.recordButton,
+              recording && styles.recordButtonActive,
+              !canRecord && !recording && styles.recordButtonDisabled,
+            ]}
+            onPress={handleToggleRecording}
+            disabled={!canRecord && !recording}
+            activeOpacity={0.7}
+          >
+            <View
+              style={[
+                styles.recordDot,
+                { backgroundColor: recording ? theme.accent : theme.textDim },
+              ]}
+            />
+            <Text
+              style={[
+                styles.recordText,
+                { color: recording ? theme.accent : theme.textSecondary },
+              ]}
+            >
+              {recording ? 'STOP' : 'REC'}
+            </Text>
+          </TouchableOpacity>
           <Text style={styles.vehicleText}>ZVW30 Prius</Text>
         </View>
       </View>
@@ -147,21 +291,21 @@ export const DashboardScreen: React.FC = () => {
       <View style={styles.envBar}>
         <View style={styles.envItem}>
           <Text style={styles.envLabel}>OUT</Text>
-          <Text style={styles.envValue}>{ambientTemp.toFixed(1)}</Text>
-          <Text style={styles.envUnit}>{'\u00B0C'}</Text>
+          <Text style={styles.envValue}>{temperature.convert(ambientTemp).toFixed(1)}</Text>
+          <Text style={styles.envUnit}>{temperature.unit}</Text>
         </View>
         <View style={styles.envSeparator} />
         <View style={styles.envItem}>
           <Text style={styles.envLabel}>IN</Text>
-          <Text style={styles.envValue}>{cabinTemp.toFixed(1)}</Text>
-          <Text style={styles.envUnit}>{'\u00B0C'}</Text>
+          <Text style={styles.envValue}>{temperature.convert(cabinTemp).toFixed(1)}</Text>
+          <Text style={styles.envUnit}>{temperature.unit}</Text>
         </View>
         <View style={styles.envSeparator} />
         <View style={styles.envItem}>
           <Text style={styles.envLabel}>A/C</Text>
           <Text style={[
             styles.envValue,
-            { color: acStatus > 0 ? THEME.primary : THEME.textDim },
+            { color: acStatus > 0 ? theme.primary : theme.textDim },
           ]}>
             {acStatus > 0 ? 'ON' : 'OFF'}
           </Text>
@@ -169,126 +313,80 @@ export const DashboardScreen: React.FC = () => {
         <View style={styles.envSeparator} />
         <View style={styles.envItem}>
           <Text style={styles.envLabel}>SET</Text>
-          <Text style={styles.envValue}>{acSetTemp.toFixed(0)}</Text>
-          <Text style={styles.envUnit}>{'\u00B0C'}</Text>
+          <Text style={styles.envValue}>{temperature.convert(acSetTemp).toFixed(0)}</Text>
+          <Text style={styles.envUnit}>{temperature.unit}</Text>
         </View>
       </View>
 
       {/* プリウス線画背景 */}
       <View style={styles.silhouetteContainer} pointerEvents="none">
-        <PriusSilhouette width={700} height={334} opacity={0.12} />
+        <PriusSilhouette width={700} height={334} color={theme.text} opacity={0.12} />
       </View>
 
-      {/* メインメーターエリア */}
-      <View style={styles.meterArea}>
-        {/* 上段: 大ゲージ2つ (RPM, Speed) */}
-        <View style={styles.topRow}>
-          <View style={styles.largeGaugeContainer}>
-            <GaugeMeter
-              value={rpm}
-              min={0}
-              max={6000}
-              unit="rpm"
-              label="ENGINE RPM"
-              size={220}
-              warningThreshold={4500}
-              dangerThreshold={5500}
-            />
-          </View>
-
-          <View style={styles.largeGaugeContainer}>
-            <GaugeMeter
-              value={speed}
-              min={0}
-              max={180}
-              unit="km/h"
-              label="SPEED"
-              size={220}
-              warningThreshold={120}
-              dangerThreshold={140}
-            />
-          </View>
-        </View>
-
-        {/* 中段: 冷却水温ゲージ, HVバッテリー, スロットルバー */}
-        <View style={styles.middleRow}>
-          <View style={styles.smallGaugeContainer}>
-            <GaugeMeter
-              value={coolantTemp}
-              min={0}
-              max={130}
-              unit={'\u00B0C'}
-              label="COOLANT"
-              size={140}
-              warningThreshold={100}
-              dangerThreshold={110}
-            />
-          </View>
-
-          <View style={styles.batteryContainer}>
-            <BatteryIndicator
-              soc={hvSoc}
-              voltage={hvVoltage}
-              current={hvCurrent}
-              temperature={hvTemp}
-            />
-          </View>
-
-          <View style={styles.barContainer}>
-            <BarMeter
-              value={throttle}
-              min={0}
-              max={100}
-              unit="%"
-              label="THROTTLE"
-              width={200}
-              height={80}
-              warningThreshold={80}
-            />
-          </View>
-        </View>
+      {/* メインメーターエリア (ページごとに横スワイプ、編集中は表示中ページに固定) */}
+      <View style={styles.meterArea} onLayout={handlePagerLayout}>
+        {pageWidth > 0 && (
+          <ScrollView
+            ref={pagerRef}
+            horizontal
+            pagingEnabled
+            scrollEnabled={!editing}
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={handlePageScrollEnd}
+            contentOffset={{ x: activeIndex * pageWidth, y: 0 }}
+          >
+            {pages.map((page) => (
+              <View key={page.id} style={[styles.page, pageSize]}>
+                <MeterGrid
+                  meters={page.meters}
+                  editing={editing && page.id === activePage.id}
+                  onChange={handleMeterChange}
+                  onRemove={handleMeterRemove}
+                  onEdit={handleMeterEdit}
+                />
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
 
-        {/* 下段: デジタルメーター3つ (瞬間燃費, 平均燃費, EV率) */}
-        <View style={styles.bottomRow}>
-          <View style={styles.digitalContainer}>
-            <DigitalMeter
-              value={instantFuel}
-              unit="km/L"
-              label="INSTANT"
-              decimals={1}
-              fontSize={28}
-            />
-          </View>
-
-          <View style={styles.digitalContainer}>
-            <DigitalMeter
-              value={averageFuel}
-              unit="km/L"
-              label="AVERAGE"
-              decimals={1}
-              fontSize={28}
-            />
-          </View>
-
-          <View style={styles.digitalContainer}>
-            <DigitalMeter
-              value={evRatio}
-              unit="%"
-              label="EV RATIO"
-              decimals={0}
-              fontSize={28}
-            />
-          </View>
-        </View>
+      {/* ページインジケータ */}
+      <View style={styles.pageIndicator}>
+        {pages.map((page) => (
+          <TouchableOpacity
+            key={page.id}
+            style={[styles.pageTab, page.id === activePage.id && styles.pageTabActive]}
+            onPress={() => setActivePage(page.id)}
+            disabled={editing}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[styles.pageTabText, page.id === activePage.id && styles.pageTabTextActive]}
+              numberOfLines={1}
+            >
+              {page.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
+
+      <MeterEditor
+        visible={editorTarget !== null}
+        meter={editorTarget?.meter ?? null}
+        existing={activePage.meters}
+        onSubmit={handleEditorSubmit}
+        onClose={() => setEditorTarget(null)}
+      />
+
+      <PageManager visible={pageManagerVisible} onClose={() => setPageManagerVisible(false)} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   screen: {
     flex: 1,
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
   },
 
   // ヘッダー
@@ -296,11 +394,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    backgroundColor: THEME.bgElevated,
+    backgroundColor: theme.bgElevated,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderBottomWidth: 1,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   headerLeft: {
     flexDirection: 'row',
@@ -314,12 +412,12 @@ const styles = StyleSheet.create({
     marginRight: 8,
   },
   connectionText: {
-    color: THEME.text,
+    color: theme.text,
     fontSize: 13,
     fontWeight: '500',
   },
   headerTitle: {
-    color: THEME.primary,
+    color: theme.primary,
     fontSize: 15,
     fontWeight: '700',
     letterSpacing: 1.5,
@@ -328,10 +426,61 @@ const styles = StyleSheet.create({
   },
   headerRight: {
     flex: 1,
-    alignItems: 'flex-end',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  editButton: {
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginRight: 8,
+  },
+  editButtonActive: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primaryGlow,
+  },
+  editText: {
+    color: theme.textSecondary,
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  editTextActive: {
+    color: theme.primary,
+  },
+  recordButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginRight: 12,
+  },
+  recordButtonActive: {
+    borderColor: theme.accent,
+    backgroundColor: `${theme.accent}1f`,
+  },
+  recordButtonDisabled: {
+    opacity: 0.4,
+  },
+  recordDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 5,
+  },
+  recordText: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1,
   },
   vehicleText: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 12,
     fontWeight: '500',
   },
@@ -352,11 +501,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: THEME.bgElevated,
+    backgroundColor: theme.bgElevated,
     paddingVertical: 6,
     paddingHorizontal: 24,
     borderBottomWidth: 1,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   envItem: {
     flexDirection: 'row',
@@ -364,83 +513,61 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
   },
   envLabel: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 10,
     fontWeight: '600',
     letterSpacing: 0.5,
     marginRight: 6,
   },
   envValue: {
-    color: THEME.text,
+    color: theme.text,
     fontSize: 14,
     fontWeight: '700',
     fontVariant: ['tabular-nums'] as any,
   },
   envUnit: {
-    color: THEME.textDim,
+    color: theme.textDim,
     fontSize: 10,
     marginLeft: 2,
   },
   envSeparator: {
     width: 1,
     height: 16,
-    backgroundColor: THEME.border,
+    backgroundColor: theme.border,
   },
 
   // メーターエリア
   meterArea: {
     flex: 1,
+  },
+  page: {
     paddingHorizontal: 16,
     paddingVertical: 10,
-    justifyContent: 'space-between',
   },
 
-  // 上段 (大ゲージ)
-  topRow: {
+  // ページインジケータ
+  pageIndicator: {
     flexDirection: 'row',
-    justifyContent: 'space-around',
-    alignItems: 'center',
-    flex: 3,
-  },
-  largeGaugeContainer: {
-    alignItems: 'center',
     justifyContent: 'center',
+    gap: 6,
+    paddingBottom: 6,
   },
-
-  // 中段
-  middleRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    flex: 2,
-    paddingHorizontal: 16,
-  },
-  smallGaugeContainer: {
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  batteryContainer: {
-    alignItems: 'center',
-    justifyContent: 'center',
-    flex: 1,
-    marginHorizontal: 8,
+  pageTab: {
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    maxWidth: 160,
   },
-  barContainer: {
-    alignItems: 'center',
-    justifyContent: 'center',
+  pageTabActive: {
+    backgroundColor: theme.primaryGlow,
   },
-
-  // 下段 (デジタル)
-  bottomRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-evenly',
-    alignItems: 'center',
-    flex: 1,
-    paddingBottom: 4,
+  pageTabText: {
+    color: theme.textDim,
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.5,
   },
-  digitalContainer: {
-    alignItems: 'center',
-    justifyContent: 'center',
-    flex: 1,
+  pageTabTextActive: {
+    color: theme.primary,
   },
 });
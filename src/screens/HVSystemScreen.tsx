@@ -1,5 +1,6 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+  Alert,
   StyleSheet,
   View,
   Text,
@@ -22,10 +23,18 @@ import Svg, {
 } from 'react-native-svg';
 import { useBatteryHealthStore } from '../store/batteryHealthStore';
 import { useOBDStore } from '../store/obdStore';
+import { useConnectionStore } from '../store/connectionStore';
+import { useUnitPreferences } from '../store/settingsStore';
+import { obdClient } from '../obd/obdClient';
 import { BarMeter } from '../components/meters/BarMeter';
 import { PriusSilhouettePath } from '../components/PriusSilhouettePath';
 import { PRIUS_SILHOUETTE_VIEWBOX } from '../components/priusSilhouettePathData';
-import { THEME } from '../utils/theme';
+import { TOYOTA_ECU_NAMES } from '../obd/pid/toyota';
+import { STANDARD_PIDS } from '../obd/pid/standard';
+import { formatPidValue } from '../utils/formatter';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+import { signalConversion, unitConversion } from '../utils/units';
 import type { DiagnosticTroubleCode } from '../types/obd';
 
 // ─── 定数 ─────────────────────────────────────────────
@@ -34,6 +43,9 @@ import type { DiagnosticTroubleCode } from '../types/obd';
 const CAR_W = PRIUS_SILHOUETTE_VIEWBOX.width;
 const CAR_H = PRIUS_SILHOUETTE_VIEWBOX.height;
 
+// フリーズフレーム展開時に表示するPID (RPM / 車速 / 水温 / 負荷)
+const FREEZE_FRAME_DISPLAY_PIDS = ['010C', '010D', '0105', '0104'] as const;
+
 /**
  * ZVW30 Prius 物理レイアウトに基づくコンポーネント位置
  * (car viewBox座標系: 0,0=左上, 398x190)
@@ -65,17 +77,9 @@ function formatMMSS(totalSeconds: number): string {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 }
 
-function generateDemoDTCs(): DiagnosticTroubleCode[] {
-  const pool: DiagnosticTroubleCode[] = [
-    { code: 'P0301', description: 'Cylinder 1 Misfire Detected', isPending: false },
-    { code: 'P0A80', description: 'Replace Hybrid Battery Pack', isPending: false },
-    { code: 'P3000', description: 'HV Battery Malfunction', isPending: true },
-    { code: 'C1234', description: 'ABS Sensor Malfunction', isPending: true },
-    { code: 'P0171', description: 'System Too Lean Bank 1', isPending: false },
-    { code: 'P0420', description: 'Catalyst Efficiency Below Threshold', isPending: true },
-  ];
-  const shuffled = [...pool].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, 2);
+function dtcStatusLabel(dtc: DiagnosticTroubleCode): string {
+  if (dtc.isPermanent) return 'permanent';
+  return dtc.isPending ? 'pending' : 'stored';
 }
 
 // ─── パワーフロー車体オーバーレイ ──────────────────────
@@ -100,6 +104,8 @@ function PowerFlowCarOverlay({
 }: PowerFlowProps): React.JSX.Element {
   const AnimatedLine = Animated.createAnimatedComponent(Line);
   const dashAnim = useSharedValue(0);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
 
   useEffect(() => {
     dashAnim.value = withRepeat(
@@ -174,7 +180,7 @@ function PowerFlowCarOverlay({
         ) : (
           <Line
             x1={x1} y1={y1} x2={x2} y2={y2}
-            stroke={THEME.textMuted} strokeWidth={1}
+            stroke={theme.textMuted} strokeWidth={1}
             opacity={0.3} strokeDasharray="3,6"
           />
         )}
@@ -190,19 +196,19 @@ function PowerFlowCarOverlay({
         {/* ラベル背景 + テキスト */}
         <Rect
           x={lx - 22} y={ly - 9} width={44} height={18} rx={3}
-          fill={THEME.bgCard} stroke={active ? color : THEME.textMuted}
+          fill={theme.bgCard} stroke={active ? color : theme.textMuted}
           strokeWidth={0.4} opacity={0.92}
         />
         <SvgText
           x={lx} y={ly - 1.5}
-          fill={THEME.textSecondary} fontSize={5.5}
+          fill={theme.textSecondary} fontSize={5.5}
           fontWeight="600" textAnchor="middle"
         >
           {label}
         </SvgText>
         <SvgText
           x={lx} y={ly + 6}
-          fill={active ? color : THEME.textDim} fontSize={6.5}
+          fill={active ? color : theme.textDim} fontSize={6.5}
           fontWeight="700" textAnchor="middle"
         >
           {active ? `${abskw.toFixed(1)} kW` : '---'}
@@ -261,7 +267,7 @@ function PowerFlowCarOverlay({
         style={styles.svgOverlay}
       >
         {/* 車体シルエット背景 (native/web共通) */}
-        <PriusSilhouettePath color={THEME.text} opacity={0.22} />
+        <PriusSilhouettePath color={theme.text} opacity={0.22} />
 
         {/* ── フロー矢印 (要素間を十分に離して配置) ── */}
 
@@ -269,40 +275,40 @@ function PowerFlowCarOverlay({
         <FlowArrow
           x1={POS.engine.x + 24} y1={POS.engine.y + 14}
           x2={POS.powerSplit.x - 8} y2={POS.powerSplit.y - 10}
-          kw={mg1Kw} color={THEME.engineColor} label="MG1"
+          kw={mg1Kw} color={theme.engineColor} label="MG1"
         />
 
         {/* POWER SPLIT → WHEELS (MG2): 下方向へ */}
         <FlowArrow
           x1={POS.powerSplit.x - 8} y1={POS.powerSplit.y + 12}
           x2={POS.wheels.x + 8} y2={POS.wheels.y - 14}
-          kw={mg2Kw} color={THEME.wheelColor} label="MG2"
+          kw={mg2Kw} color={theme.wheelColor} label="MG2"
         />
 
         {/* POWER SPLIT ↔ BATTERY (DC): 右後方へ */}
         <FlowArrow
           x1={POS.powerSplit.x + 14} y1={POS.powerSplit.y + 8}
           x2={POS.battery.x - 34} y2={POS.battery.y - 4}
-          kw={batteryKw} color={THEME.batteryColor} label="DC"
+          kw={batteryKw} color={theme.batteryColor} label="DC"
         />
 
         {/* ── POWER SPLIT ノード (遊星歯車) ── */}
         <Circle
           cx={POS.powerSplit.x} cy={POS.powerSplit.y}
-          r={10} fill={THEME.motorColor} opacity={0.55}
+          r={10} fill={theme.motorColor} opacity={0.55}
         />
         <Circle
           cx={POS.powerSplit.x} cy={POS.powerSplit.y}
-          r={6} fill="none" stroke={THEME.bg}
+          r={6} fill="none" stroke={theme.bg}
           strokeWidth={1.5} opacity={0.4}
         />
         <Circle
           cx={POS.powerSplit.x} cy={POS.powerSplit.y}
-          r={2.5} fill={THEME.bg} opacity={0.5}
+          r={2.5} fill={theme.bg} opacity={0.5}
         />
         <SvgText
           x={POS.powerSplit.x + 16} y={POS.powerSplit.y + 4}
-          fill={THEME.textDim} fontSize={4}
+          fill={theme.textDim} fontSize={4}
           fontWeight="600" textAnchor="start"
         >
           P.SPLIT
@@ -315,8 +321,8 @@ function PowerFlowCarOverlay({
           cx={POS.engine.x} cy={POS.engine.y}
           label="ENGINE"
           value={evMode ? 'OFF' : `${engineKw.toFixed(1)} kW`}
-          bgColor={evMode ? '#2a2a38' : THEME.engineColor}
-          textColor={evMode ? '#666' : '#fff'}
+          bgColor={evMode ? theme.idleColor : theme.engineColor}
+          textColor={evMode ? theme.textDim : '#fff'}
           w={58} h={26}
         />
 
@@ -325,7 +331,7 @@ function PowerFlowCarOverlay({
           cx={POS.battery.x} cy={POS.battery.y}
           label="BATTERY"
           value={`${batteryKw >= 0 ? '+' : ''}${batteryKw.toFixed(1)} kW`}
-          bgColor={THEME.batteryColor}
+          bgColor={theme.batteryColor}
           textColor="#fff"
           w={66} h={26}
         />
@@ -335,7 +341,7 @@ function PowerFlowCarOverlay({
           cx={POS.wheels.x} cy={POS.wheels.y}
           label="WHEELS"
           value={`${wheelKw.toFixed(1)} kW`}
-          bgColor={THEME.wheelColor}
+          bgColor={theme.wheelColor}
           textColor="#000"
           w={54} h={26}
         />
@@ -343,13 +349,13 @@ function PowerFlowCarOverlay({
         {/* ── ホイール強調リング ── */}
         <Circle
           cx={POS.frontWheel.x} cy={POS.frontWheel.y}
-          r={15} fill="none" stroke={THEME.wheelColor}
+          r={15} fill="none" stroke={theme.wheelColor}
           strokeWidth={1.2} opacity={0.3}
           strokeDasharray="3,3"
         />
         <Circle
           cx={POS.rearWheel.x} cy={POS.rearWheel.y}
-          r={15} fill="none" stroke={THEME.wheelColor}
+          r={15} fill="none" stroke={theme.wheelColor}
           strokeWidth={0.6} opacity={0.15}
           strokeDasharray="3,3"
         />
@@ -359,7 +365,7 @@ function PowerFlowCarOverlay({
           <G>
             <Rect
               x={340} y={22} width={36} height={16}
-              rx={8} fill={THEME.success}
+              rx={8} fill={theme.success}
             />
             <SvgText
               x={358} y={34}
@@ -375,7 +381,7 @@ function PowerFlowCarOverlay({
         {Math.abs(batteryKw) > 0.05 && (
           <SvgText
             x={POS.battery.x + 38} y={POS.battery.y + 3}
-            fill={batteryKw > 0 ? THEME.success : THEME.warning}
+            fill={batteryKw > 0 ? theme.success : theme.warning}
             fontSize={8} fontWeight="bold" textAnchor="start"
           >
             {batteryKw > 0 ? '▲' : '▼'}
@@ -386,6 +392,69 @@ function PowerFlowCarOverlay({
   );
 }
 
+// ─── DTC行 (フリーズフレーム展開) ──────────────────────
+
+function DtcRow({ dtc }: { dtc: DiagnosticTroubleCode }): React.JSX.Element {
+  const [expanded, setExpanded] = useState(false);
+  const unitPrefs = useUnitPreferences();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const frame = dtc.freezeFrame;
+
+  return (
+    <TouchableOpacity
+      style={styles.dtcRow}
+      onPress={() => setExpanded((v) => !v)}
+      disabled={!frame}
+      activeOpacity={0.7}
+    >
+      <View style={styles.dtcRowMain}>
+        <Text style={styles.dtcCode}>{dtc.code}</Text>
+        {dtc.ecu && (
+          <Text style={styles.dtcEcu}>{TOYOTA_ECU_NAMES[dtc.ecu] ?? dtc.ecu}</Text>
+        )}
+        <Text style={styles.dtcDesc} numberOfLines={1}>
+          {dtc.description}
+        </Text>
+        <Text
+          style={[
+            styles.dtcStatus,
+            {
+              color: dtc.isPermanent
+                ? theme.accent
+                : dtc.isPending
+                  ? theme.warning
+                  : theme.textSecondary,
+            },
+          ]}
+        >
+          {frame ? (expanded ? '▾ ' : '▸ ') : ''}
+          {dtcStatusLabel(dtc)}
+        </Text>
+      </View>
+      {frame && expanded && (
+        <View style={styles.freezeFrame}>
+          {FREEZE_FRAME_DISPLAY_PIDS.map((pid) => {
+            const def = STANDARD_PIDS[pid];
+            const value = frame.values[pid];
+            const conversion = signalConversion(pid, unitPrefs);
+            return (
+              <View key={pid} style={styles.freezeFrameItem}>
+                <Text style={styles.freezeFrameLabel}>{def.shortName}</Text>
+                <Text style={styles.freezeFrameValue}>
+                  {value === undefined
+                    ? '--'
+                    : `${formatPidValue(conversion.convert(value), pid)} ${conversion.unit}`}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
 // ─── メイン画面 ──────────────────────────────────────
 
 export function HVSystemScreen(): React.JSX.Element {
@@ -394,8 +463,17 @@ export function HVSystemScreen(): React.JSX.Element {
   const evThresholdLog = useBatteryHealthStore((s) => s.evThresholdLog);
   const dtcList = useBatteryHealthStore((s) => s.dtcList);
   const setDTCs = useBatteryHealthStore((s) => s.setDTCs);
+  const elm327Ready = useConnectionStore((s) => s.isElm327Ready);
+  const demoMode = useConnectionStore((s) => s.demoMode);
+  const [dtcAction, setDtcAction] = useState<'read' | 'scan' | 'clear' | null>(null);
+  const [dtcError, setDtcError] = useState<string | null>(null);
+  const [dtcReadDone, setDtcReadDone] = useState(false);
+  const [scanSummary, setScanSummary] = useState<string | null>(null);
 
   const obdData = useOBDStore((s) => s.data);
+  const temperature = unitConversion('\u00B0C', useUnitPreferences());
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
   const coolantTemp = obdData['0105']?.value ?? 0;
 
   const evThreshold = useMemo(() => {
@@ -407,16 +485,87 @@ export function HVSystemScreen(): React.JSX.Element {
     return sum / transitions.length;
   }, [evThresholdLog]);
 
-  const handleReadDTCs = () => setDTCs(generateDemoDTCs());
-  const handleClearDTCs = () => setDTCs([]);
+  // A new connection has not been queried yet.
+  useEffect(() => {
+    if (!elm327Ready) {
+      setDtcReadDone(false);
+      setDtcError(null);
+      setScanSummary(null);
+    }
+  }, [elm327Ready]);
+
+  const handleReadDTCs = useCallback(async () => {
+    setDtcAction('read');
+    setDtcError(null);
+    setScanSummary(null);
+    try {
+      setDTCs(await obdClient.readDTCs());
+      setDtcReadDone(true);
+    } catch (err) {
+      setDtcError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDtcAction(null);
+    }
+  }, [setDTCs]);
+
+  const handleScanDTCs = useCallback(async () => {
+    setDtcAction('scan');
+    setDtcError(null);
+    try {
+      const results = await obdClient.scanAllDTCs();
+      setDTCs(results.flatMap((r) => r.dtcs));
+      const responded = results.filter((r) => r.responded).length;
+      setScanSummary(`${responded}/${results.length} ECUs responded`);
+      setDtcReadDone(true);
+    } catch (err) {
+      setDtcError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDtcAction(null);
+    }
+  }, [setDTCs]);
+
+  const handleClearDTCs = useCallback(() => {
+    Alert.alert(
+      'Clear DTCs',
+      'Clear all trouble codes and turn off the MIL?\nFreeze frame data and readiness monitors will also be reset.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            setDtcAction('clear');
+            setDtcError(null);
+            setScanSummary(null);
+            try {
+              const ok = await obdClient.clearDTCs();
+              if (!ok) {
+                setDtcError('ECU did not acknowledge the clear request');
+                return;
+              }
+              // Re-read so the list reflects what the ECU still reports.
+              setDTCs(await obdClient.readDTCs());
+              setDtcReadDone(true);
+            } catch (err) {
+              setDtcError(err instanceof Error ? err.message : String(err));
+            } finally {
+              setDtcAction(null);
+            }
+          },
+        },
+      ],
+    );
+  }, [setDTCs]);
+
+  const dtcEnabled = elm327Ready && dtcAction === null;
 
   const thresholdStatus = useMemo(() => {
     if (evThreshold === null) return null;
     if (coolantTemp >= evThreshold) {
-      return { label: 'EV Available', color: THEME.success };
+      return { label: 'EV Available', color: theme.success };
     }
-    return { label: 'Engine Required', color: THEME.accent };
-  }, [coolantTemp, evThreshold]);
+    return { label: 'Engine Required', color: theme.accent };
+  }, [coolantTemp, evThreshold, theme]);
 
   return (
     <View style={styles.screen}>
@@ -476,14 +625,14 @@ export function HVSystemScreen(): React.JSX.Element {
           <View style={styles.statsRow}>
             <Text style={styles.statsLabel}>Coolant</Text>
             <Text style={styles.statsValue}>
-              {coolantTemp.toFixed(0)}{'\u00B0'}C
+              {temperature.convert(coolantTemp).toFixed(0)}{temperature.unit}
             </Text>
           </View>
           <View style={styles.statsRow}>
             <Text style={styles.statsLabel}>Threshold</Text>
             <Text style={styles.statsValue}>
               {evThreshold !== null
-                ? `~${evThreshold.toFixed(0)}\u00B0C`
+                ? `~${temperature.convert(evThreshold).toFixed(0)}${temperature.unit}`
                 : 'Observing...'}
             </Text>
           </View>
@@ -516,39 +665,48 @@ export function HVSystemScreen(): React.JSX.Element {
             <Text style={styles.cardTitle}>DTC</Text>
             <View style={styles.dtcButtons}>
               <TouchableOpacity
-                style={styles.dtcButton}
+                style={[styles.dtcButton, !dtcEnabled && styles.dtcButtonDisabled]}
                 onPress={handleReadDTCs}
+                disabled={!dtcEnabled}
                 activeOpacity={0.7}
               >
-                <Text style={styles.dtcButtonText}>Read</Text>
+                <Text style={styles.dtcButtonText}>{dtcAction === 'read' ? '...' : 'Read'}</Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.dtcButton, styles.dtcClearButton]}
+                style={[styles.dtcButton, !dtcEnabled && styles.dtcButtonDisabled]}
+                onPress={handleScanDTCs}
+                disabled={!dtcEnabled}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.dtcButtonText}>{dtcAction === 'scan' ? '...' : 'Scan All'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dtcButton,
+                  styles.dtcClearButton,
+                  !dtcEnabled && styles.dtcButtonDisabled,
+                ]}
                 onPress={handleClearDTCs}
+                disabled={!dtcEnabled}
                 activeOpacity={0.7}
               >
                 <Text style={styles.dtcButtonText}>Clear</Text>
               </TouchableOpacity>
             </View>
           </View>
+          {dtcError && <Text style={styles.dtcErrorText}>{dtcError}</Text>}
+          {scanSummary && <Text style={styles.dtcSummaryText}>{scanSummary}</Text>}
           {dtcList.length === 0 ? (
-            <Text style={styles.noDtcText}>No DTCs found (demo mode)</Text>
+            <Text style={styles.noDtcText}>
+              {!elm327Ready
+                ? 'Connect to read DTCs'
+                : dtcReadDone
+                  ? `No DTCs found${demoMode ? ' (demo mode)' : ''}`
+                  : 'Tap Read to query the ECU'}
+            </Text>
           ) : (
             dtcList.map((dtc, index) => (
-              <View key={`${dtc.code}-${index}`} style={styles.dtcRow}>
-                <Text style={styles.dtcCode}>{dtc.code}</Text>
-                <Text style={styles.dtcDesc} numberOfLines={1}>
-                  {dtc.description}
-                </Text>
-                <Text
-                  style={[
-                    styles.dtcStatus,
-                    { color: dtc.isPending ? THEME.warning : THEME.textSecondary },
-                  ]}
-                >
-                  {dtc.isPending ? 'pending' : 'stored'}
-                </Text>
-              </View>
+              <DtcRow key={`${dtc.ecu ?? ''}-${dtc.code}-${index}`} dtc={dtc} />
             ))
           )}
         </View>
@@ -559,38 +717,38 @@ export function HVSystemScreen(): React.JSX.Element {
 
 // ─── スタイル ────────────────────────────────────────
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   screen: {
     flex: 1,
-    backgroundColor: THEME.bg,
+    backgroundColor: theme.bg,
   },
 
   // ヘッダー
   headerBar: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: THEME.bgElevated,
+    backgroundColor: theme.bgElevated,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderBottomWidth: 1,
-    borderBottomColor: THEME.border,
+    borderBottomColor: theme.border,
   },
   headerTitle: {
     fontSize: 20,
     fontWeight: '700',
-    color: THEME.text,
+    color: theme.text,
   },
   headerBadge: {
-    backgroundColor: THEME.motorColor + '22',
+    backgroundColor: theme.motorColor + '22',
     borderWidth: 1,
-    borderColor: THEME.motorColor + '44',
+    borderColor: theme.motorColor + '44',
     borderRadius: 10,
     paddingHorizontal: 10,
     paddingVertical: 2,
     marginLeft: 12,
   },
   headerBadgeText: {
-    color: THEME.motorColor,
+    color: theme.motorColor,
     fontSize: 11,
     fontWeight: '700',
     letterSpacing: 0.5,
@@ -609,15 +767,15 @@ const styles = StyleSheet.create({
   sectionLabel: {
     fontSize: 11,
     fontWeight: '700',
-    color: THEME.textDim,
+    color: theme.textDim,
     letterSpacing: 1,
   },
   powerFlowArea: {
     height: 380,
-    borderRadius: THEME.radiusMd,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
-    backgroundColor: THEME.bgCard,
+    borderColor: theme.border,
+    backgroundColor: theme.bgCard,
     overflow: 'hidden',
   },
   svgOverlay: {
@@ -634,20 +792,20 @@ const styles = StyleSheet.create({
 
   // カード共通
   card: {
-    backgroundColor: THEME.bgCard,
-    borderRadius: THEME.radiusMd,
+    backgroundColor: theme.bgCard,
+    borderRadius: theme.radiusMd,
     borderWidth: 1,
-    borderColor: THEME.border,
+    borderColor: theme.border,
     padding: 10,
   },
   cardTitle: {
     fontSize: 12,
     fontWeight: '600',
-    color: THEME.textSecondary,
+    color: theme.textSecondary,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
     borderLeftWidth: 3,
-    borderLeftColor: THEME.primary,
+    borderLeftColor: theme.primary,
     paddingLeft: 8,
     marginBottom: 6,
   },
@@ -667,12 +825,12 @@ const styles = StyleSheet.create({
   },
   statsLabel: {
     fontSize: 12,
-    color: THEME.textDim,
+    color: theme.textDim,
   },
   statsValue: {
     fontSize: 14,
     fontWeight: '600',
-    color: THEME.text,
+    color: theme.text,
     fontVariant: ['tabular-nums'],
   },
 
@@ -697,7 +855,7 @@ const styles = StyleSheet.create({
   },
   observingText: {
     fontSize: 11,
-    color: THEME.textDim,
+    color: theme.textDim,
     fontStyle: 'italic',
   },
 
@@ -716,46 +874,70 @@ const styles = StyleSheet.create({
     gap: 6,
   },
   dtcButton: {
-    backgroundColor: THEME.primary,
+    backgroundColor: theme.primary,
     paddingHorizontal: 12,
     paddingVertical: 4,
-    borderRadius: THEME.radiusSm,
+    borderRadius: theme.radiusSm,
   },
   dtcClearButton: {
-    backgroundColor: THEME.accent,
+    backgroundColor: theme.accent,
+  },
+  dtcButtonDisabled: {
+    opacity: 0.4,
   },
   dtcButtonText: {
     color: '#ffffff',
     fontSize: 11,
     fontWeight: '600',
   },
+  dtcErrorText: {
+    fontSize: 11,
+    color: theme.accent,
+    paddingVertical: 2,
+  },
+  dtcSummaryText: {
+    fontSize: 10,
+    color: theme.textSecondary,
+    paddingBottom: 2,
+  },
   noDtcText: {
     fontSize: 12,
-    color: THEME.textDim,
+    color: theme.textDim,
     fontStyle: 'italic',
     paddingVertical: 4,
   },
   dtcRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: THEME.bgInput,
-    borderRadius: THEME.radiusSm,
+    backgroundColor: theme.bgInput,
+    borderRadius: theme.radiusSm,
     paddingHorizontal: 8,
     paddingVertical: 6,
     marginBottom: 3,
+  },
+  dtcRowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 8,
   },
   dtcCode: {
     fontSize: 12,
     fontWeight: '700',
-    color: THEME.primary,
+    color: theme.primary,
     fontVariant: ['tabular-nums'],
     minWidth: 48,
   },
+  dtcEcu: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    backgroundColor: theme.bgElevated,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
   dtcDesc: {
     flex: 1,
     fontSize: 11,
-    color: THEME.text,
+    color: theme.text,
   },
   dtcStatus: {
     fontSize: 10,
@@ -763,4 +945,26 @@ const styles = StyleSheet.create({
     minWidth: 48,
     textAlign: 'right',
   },
+  freezeFrame: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+    paddingTop: 6,
+    borderTopWidth: 1,
+    borderTopColor: theme.borderSubtle,
+  },
+  freezeFrameItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  freezeFrameLabel: {
+    fontSize: 9,
+    color: theme.textDim,
+  },
+  freezeFrameValue: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: theme.text,
+    fontVariant: ['tabular-nums'],
+  },
 });
@@ -11,19 +11,11 @@ import {
 } from 'react-native';
 import type { LogSession, DataPoint } from '../types/obd';
 import { database } from '../storage/database';
-
-// --- 定数 ---
-
-const COLORS = {
-  background: '#0f0f1a',
-  card: '#1a1a2e',
-  cardBorder: '#2a2a4a',
-  primary: '#00d4ff',
-  danger: '#ff4466',
-  text: '#e0e0ff',
-  textSecondary: '#8888aa',
-  overlay: '#0f0f1a99',
-} as const;
+import { useOBDStore } from '../store/obdStore';
+import { useUnitPreferences } from '../store/settingsStore';
+import { signalConversion } from '../utils/units';
+import type { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../components/ThemeProvider';
 
 // --- ヘルパー関数 ---
 
@@ -63,10 +55,13 @@ interface SessionDetailProps {
 /**
  * セッション詳細表示コンポーネント
  * タップしたセッションのPID別データポイントを簡易グラフ(横棒)で表示する
+ * 統計値は設定の表示単位に変換してから算出する
  */
 function SessionDetail({ session, onClose }: SessionDetailProps) {
   const [dataPoints, setDataPoints] = useState<DataPoint[]>([]);
   const [loading, setLoading] = useState(true);
+  const unitPrefs = useUnitPreferences();
+  const styles = useThemedStyles(createStyles);
 
   useEffect(() => {
     let cancelled = false;
@@ -97,35 +92,44 @@ function SessionDetail({ session, onClose }: SessionDetailProps) {
       string,
       { min: number; max: number; sum: number; count: number; values: number[] }
     >();
+    const conversions = new Map<string, ReturnType<typeof signalConversion>>();
 
     for (const point of dataPoints) {
+      let conversion = conversions.get(point.pid);
+      if (!conversion) {
+        conversion = signalConversion(point.pid, unitPrefs);
+        conversions.set(point.pid, conversion);
+      }
+      const value = conversion.convert(point.value);
+
       const existing = map.get(point.pid);
       if (existing) {
-        existing.min = Math.min(existing.min, point.value);
-        existing.max = Math.max(existing.max, point.value);
-        existing.sum += point.value;
+        existing.min = Math.min(existing.min, value);
+        existing.max = Math.max(existing.max, value);
+        existing.sum += value;
         existing.count += 1;
-        existing.values.push(point.value);
+        existing.values.push(value);
       } else {
         map.set(point.pid, {
-          min: point.value,
-          max: point.value,
-          sum: point.value,
+          min: value,
+          max: value,
+          sum: value,
           count: 1,
-          values: [point.value],
+          values: [value],
         });
       }
     }
 
     return Array.from(map.entries()).map(([pid, stats]) => ({
       pid,
+      unit: conversions.get(pid)?.unit ?? '',
       min: stats.min,
       max: stats.max,
       avg: stats.sum / stats.count,
       count: stats.count,
       values: stats.values,
     }));
-  }, [dataPoints]);
+  }, [dataPoints, unitPrefs]);
 
   return (
     <View style={styles.detailOverlay}>
@@ -141,6 +145,7 @@ function SessionDetail({ session, onClose }: SessionDetailProps) {
 
         <Text style={styles.detailSubtitle}>
           {formatDuration(session.startTime, session.endTime)} | {session.dataPointCount} points
+          {session.vin ? ` | VIN ${session.vin}` : ''}
         </Text>
 
         {loading ? (
@@ -154,7 +159,10 @@ function SessionDetail({ session, onClose }: SessionDetailProps) {
             style={styles.pidList}
             renderItem={({ item }) => (
               <View style={styles.pidCard}>
-                <Text style={styles.pidName}>{item.pid}</Text>
+                <Text style={styles.pidName}>
+                  {item.pid}
+                  {item.unit ? ` (${item.unit})` : ''}
+                </Text>
                 <Text style={styles.pidStatsText}>
                   Min: {item.min.toFixed(1)} | Max: {item.max.toFixed(1)} | Avg:{' '}
                   {item.avg.toFixed(1)} | {item.count} pts
@@ -201,6 +209,7 @@ interface SwipeableRowProps {
  * 左スワイプで削除・エクスポートボタンを表示する
  */
 function SwipeableRow({ session, onPress, onDelete, onExport }: SwipeableRowProps) {
+  const styles = useThemedStyles(createStyles);
   const translateX = useRef(new Animated.Value(0)).current;
   const startX = useRef(0);
   const currentX = useRef(0);
@@ -305,6 +314,9 @@ export function LogScreen() {
   const [sessions, setSessions] = useState<LogSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<LogSession | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const recording = useOBDStore((s) => s.recording);
+  const unitPrefs = useUnitPreferences();
+  const styles = useThemedStyles(createStyles);
 
   const loadSessions = useCallback(async () => {
     try {
@@ -315,9 +327,10 @@ export function LogScreen() {
     }
   }, []);
 
+  // 記録の開始/終了時にも一覧を再読み込みする
   useEffect(() => {
     loadSessions();
-  }, [loadSessions]);
+  }, [loadSessions, recording]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -353,7 +366,7 @@ export function LogScreen() {
 
   const handleExport = useCallback(async (session: LogSession) => {
     try {
-      const csv = await database.exportSessionToCSV(session.id);
+      const csv = await database.exportSessionToCSV(session.id, unitPrefs);
       const fileName = `obd_session_${session.id}_${formatDateTime(session.startTime).replace(/[/:]/g, '-')}.csv`;
 
       await Share.share({
@@ -366,7 +379,7 @@ export function LogScreen() {
         console.warn('Export session failed:', err);
       }
     }
-  }, []);
+  }, [unitPrefs]);
 
   const renderSession = useCallback(
     ({ item }: { item: LogSession }) => (
@@ -393,7 +406,7 @@ export function LogScreen() {
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyText}>No log sessions recorded yet.</Text>
           <Text style={styles.emptySubtext}>
-            Start recording from the dashboard to create a log session.
+            Tap REC on the dashboard (or enable auto logging) to create a log session.
           </Text>
         </View>
       ) : (
@@ -420,15 +433,15 @@ export function LogScreen() {
 
 // --- スタイル ---
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: theme.bg,
   },
   headerTitle: {
     fontSize: 24,
     fontWeight: '700',
-    color: COLORS.text,
+    color: theme.text,
     paddingHorizontal: 16,
     paddingTop: 16,
     paddingBottom: 12,
@@ -461,10 +474,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   exportButton: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: theme.primary,
   },
   deleteButton: {
-    backgroundColor: COLORS.danger,
+    backgroundColor: theme.accent,
   },
   actionButtonText: {
     color: '#ffffff',
@@ -474,16 +487,16 @@ const styles = StyleSheet.create({
 
   // --- Session Card ---
   sessionCard: {
-    backgroundColor: COLORS.card,
+    backgroundColor: theme.bgCard,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
     padding: 16,
   },
   sessionDateTime: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: theme.text,
     marginBottom: 6,
   },
   sessionMeta: {
@@ -493,23 +506,23 @@ const styles = StyleSheet.create({
   },
   sessionDuration: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     fontVariant: ['tabular-nums'],
   },
   sessionPoints: {
     fontSize: 13,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
   },
   recordingBadge: {
     marginTop: 8,
     alignSelf: 'flex-start',
-    backgroundColor: '#ff444433',
+    backgroundColor: `${theme.accent}33`,
     borderRadius: 4,
     paddingHorizontal: 8,
     paddingVertical: 2,
   },
   recordingBadgeText: {
-    color: COLORS.danger,
+    color: theme.accent,
     fontSize: 11,
     fontWeight: '700',
     letterSpacing: 1,
@@ -524,19 +537,19 @@ const styles = StyleSheet.create({
   },
   emptyText: {
     fontSize: 16,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     textAlign: 'center',
   },
   emptySubtext: {
     fontSize: 13,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     textAlign: 'center',
     marginTop: 8,
     opacity: 0.7,
   },
   loadingText: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     textAlign: 'center',
     marginTop: 24,
   },
@@ -548,16 +561,16 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
     bottom: 0,
-    backgroundColor: COLORS.overlay,
+    backgroundColor: theme.overlay,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 16,
   },
   detailContainer: {
-    backgroundColor: COLORS.card,
+    backgroundColor: theme.bgCard,
     borderRadius: 16,
     borderWidth: 1,
-    borderColor: COLORS.cardBorder,
+    borderColor: theme.border,
     width: '100%',
     maxHeight: '80%',
     padding: 20,
@@ -571,24 +584,24 @@ const styles = StyleSheet.create({
   detailTitle: {
     fontSize: 18,
     fontWeight: '700',
-    color: COLORS.text,
+    color: theme.text,
   },
   closeButton: {
     width: 32,
     height: 32,
     borderRadius: 16,
-    backgroundColor: '#ffffff15',
+    backgroundColor: theme.bgElevated,
     justifyContent: 'center',
     alignItems: 'center',
   },
   closeButtonText: {
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     fontSize: 14,
     fontWeight: '600',
   },
   detailSubtitle: {
     fontSize: 13,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     marginBottom: 16,
   },
 
@@ -597,7 +610,7 @@ const styles = StyleSheet.create({
     flexGrow: 0,
   },
   pidCard: {
-    backgroundColor: '#0f0f1a',
+    backgroundColor: theme.bg,
     borderRadius: 8,
     padding: 12,
     marginBottom: 8,
@@ -605,12 +618,12 @@ const styles = StyleSheet.create({
   pidName: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.primary,
+    color: theme.primary,
     marginBottom: 4,
   },
   pidStatsText: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: theme.textSecondary,
     marginBottom: 6,
   },
   sparkContainer: {
@@ -621,7 +634,7 @@ const styles = StyleSheet.create({
   },
   sparkBar: {
     width: 4,
-    backgroundColor: COLORS.primary,
+    backgroundColor: theme.primary,
     borderRadius: 1,
     opacity: 0.8,
   },
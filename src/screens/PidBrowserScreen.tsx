@@ -0,0 +1,390 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { PidDefinition } from '../types/obd';
+import { obdClient } from '../obd/obdClient';
+import { PRIUSCHAT_METRIC_PIDS } from '../obd/pid/priuschatMetric';
+import type { PollSignalStats } from '../obd/pollScheduler';
+import { useConnectionStore } from '../store/connectionStore';
+import { useOBDStore } from '../store/obdStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { formatPidValue } from '../utils/formatter';
+import { meterSignal } from '../utils/meterLayout';
+import { groupSignalsByHeader } from '../utils/signalBrowser';
+import type { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../components/ThemeProvider';
+
+/** PriusChat由来の全シグナル (PC_*) */
+const ALL_SIGNALS: PidDefinition[] = Object.values(PRIUSCHAT_METRIC_PIDS);
+
+/** ポーリング状況を取り直す間隔 */
+const POLLING_STATS_REFRESH_MS = 1000;
+
+/** 単発読み取りの結果 (読み取り中 / 値と生レスポンス / エラー) */
+type ReadState =
+  | { status: 'reading' }
+  | { status: 'done'; value: number; raw: string }
+  | { status: 'error'; message: string };
+
+interface SignalRowProps {
+  signal: PidDefinition;
+  watched: boolean;
+  read: ReadState | undefined;
+  onRead: (pid: string) => Promise<void>;
+  onToggleWatch: (pid: string) => void;
+}
+
+/**
+ * シグナル1行分 (名前・ID・単位・範囲、タップで単発読み取り、★でウォッチリスト)
+ */
+const SignalRow = React.memo(function SignalRow({
+  signal,
+  watched,
+  read,
+  onRead,
+  onToggleWatch,
+}: SignalRowProps) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <TouchableOpacity
+      style={styles.signalRow}
+      onPress={() => onRead(signal.pid)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.signalInfo}>
+        <Text style={styles.signalName}>{signal.name}</Text>
+        <Text style={styles.signalMeta}>
+          {signal.pid} · {signal.unit || '-'} · {signal.min}〜{signal.max}
+        </Text>
+        {read?.status === 'reading' && <Text style={styles.reading}>Reading…</Text>}
+        {read?.status === 'done' && (
+          <Text style={styles.readValue}>
+            {formatPidValue(read.value, signal.pid)} {signal.unit}
+            <Text style={styles.raw}>  {read.raw}</Text>
+          </Text>
+        )}
+        {read?.status === 'error' && <Text style={styles.readError}>{read.message}</Text>}
+      </View>
+      <TouchableOpacity
+        onPress={() => onToggleWatch(signal.pid)}
+        hitSlop={8}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.star, watched && styles.starActive]}>{watched ? '★' : '☆'}</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+});
+
+/**
+ * ウォッチリスト (ポーリング中の現在値)
+ * 値の更新で一覧全体を再描画しないよう、ストアの購読はここに閉じる。
+ */
+function WatchList({ pids }: { pids: string[] }): React.JSX.Element {
+  const data = useOBDStore((s) => s.data);
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.sectionTitle}>WATCH LIST</Text>
+      {pids.map((pid) => {
+        const signal = PRIUSCHAT_METRIC_PIDS[pid];
+        const current = data[pid];
+        return (
+          <View key={pid} style={styles.watchRow}>
+            <Text style={styles.watchName} numberOfLines={1}>
+              {signal?.name ?? pid}
+            </Text>
+            <Text style={styles.watchValue}>
+              {current ? `${formatPidValue(current.value, pid)} ${signal?.unit ?? ''}` : '---'}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * ポーリング状況 (シグナルごとの実測レート / 目標レート)
+ * 開いている間だけ定期的に取り直す。NO DATA が続いて間引かれているグループは警告色で示す。
+ */
+function PollingStats(): React.JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<Record<string, PollSignalStats>>({});
+  const styles = useThemedStyles(createStyles);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const refresh = () => setStats(obdClient.getPollingStats());
+    refresh();
+    const timer = setInterval(refresh, POLLING_STATS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const pids = Object.keys(stats).sort();
+  return (
+    <View style={styles.panel}>
+      <TouchableOpacity onPress={() => setOpen((current) => !current)} activeOpacity={0.7}>
+        <Text style={styles.sectionTitle}>
+          {open ? '▾' : '▸'} POLLING{open ? ` · ${pids.length} signals` : ''}
+        </Text>
+      </TouchableOpacity>
+      {open && pids.length === 0 && <Text style={styles.hint}>Not polling.</Text>}
+      {open && pids.length > 0 && (
+        <ScrollView style={styles.pollingList} nestedScrollEnabled>
+          {pids.map((pid) => {
+            const entry = stats[pid];
+            return (
+              <View key={pid} style={styles.watchRow}>
+                <Text style={styles.watchName} numberOfLines={1}>
+                  {meterSignal(pid)?.name ?? pid}
+                </Text>
+                <Text style={[styles.pollingRate, entry.backedOff && styles.pollingBackedOff]}>
+                  {entry.achievedHz.toFixed(1)} / {entry.targetHz.toFixed(1)} Hz
+                </Text>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+/**
+ * PIDブラウザ画面 (開発者向け)
+ *
+ * PriusChat由来の全シグナルをECU (送信ヘッダー) ごとに一覧し、名前・ID・単位で検索できる。
+ * タップでポーリングを一時停止して単発読み取りし、デコード値と生レスポンスを表示する。
+ * ★を付けたシグナルはウォッチリストとしてポーリング対象に追加され、先頭に現在値を表示する。
+ * POLLING を開くと、ポーリング中の全シグナルの実測レートを確認できる。
+ */
+export function PidBrowserScreen(): React.JSX.Element {
+  const isReady = useConnectionStore((s) => s.isElm327Ready);
+  const watchedPids = useSettingsStore((s) => s.watchedPids);
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const [query, setQuery] = useState('');
+  const [reads, setReads] = useState<Record<string, ReadState>>({});
+
+  const groups = useMemo(() => groupSignalsByHeader(ALL_SIGNALS, query), [query]);
+  const sections = useMemo(
+    () => groups.map((group) => ({ key: group.header, title: group.title, data: group.signals })),
+    [groups],
+  );
+  const watchedSet = useMemo(() => new Set(watchedPids), [watchedPids]);
+
+  const read = useCallback(async (pid: string) => {
+    setReads((current) => ({ ...current, [pid]: { status: 'reading' } }));
+    try {
+      const result = await obdClient.readPid(pid);
+      setReads((current) => ({ ...current, [pid]: { status: 'done', ...result } }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setReads((current) => ({ ...current, [pid]: { status: 'error', message } }));
+    }
+  }, []);
+
+  const toggleWatch = useCallback((pid: string) => obdClient.toggleWatchedPid(pid), []);
+
+  const renderItem = useCallback(
+    ({ item }: { item: PidDefinition }) => (
+      <SignalRow
+        signal={item}
+        watched={watchedSet.has(item.pid)}
+        read={reads[item.pid]}
+        onRead={read}
+        onToggleWatch={toggleWatch}
+      />
+    ),
+    [watchedSet, reads, read, toggleWatch],
+  );
+
+  const signalCount = groups.reduce((sum, group) => sum + group.signals.length, 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>PID Browser</Text>
+        <Text style={styles.status}>
+          {signalCount} / {ALL_SIGNALS.length} signals · {watchedPids.length} watched
+        </Text>
+      </View>
+
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search name, ID, unit or request"
+        placeholderTextColor={theme.textDim}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+
+      {!isReady && <Text style={styles.hint}>Connect to an adapter to read signals.</Text>}
+
+      <PollingStats />
+
+      {watchedPids.length > 0 && <WatchList pids={watchedPids} />}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(signal) => signal.pid}
+        renderItem={renderItem}
+        renderSectionHeader={({ section }) => (
+          <Text style={[styles.sectionTitle, styles.sectionHeader]}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        stickySectionHeadersEnabled
+        keyboardShouldPersistTaps="handled"
+        style={styles.list}
+      />
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.bg,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  header: {
+    marginBottom: 10,
+  },
+  title: {
+    color: theme.text,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  status: {
+    color: theme.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  input: {
+    backgroundColor: theme.bgInput,
+    borderColor: theme.border,
+    borderWidth: 1,
+    borderRadius: theme.radiusSm,
+    color: theme.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  hint: {
+    color: theme.textSecondary,
+    fontSize: 12,
+    marginVertical: 4,
+  },
+  panel: {
+    backgroundColor: theme.bgElevated,
+    borderRadius: theme.radiusSm,
+    paddingHorizontal: 10,
+    paddingBottom: 6,
+    marginTop: 10,
+  },
+  watchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  watchName: {
+    flex: 1,
+    color: theme.text,
+    fontSize: 13,
+  },
+  watchValue: {
+    color: theme.primary,
+    fontFamily: 'monospace',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  pollingList: {
+    maxHeight: 200,
+  },
+  pollingRate: {
+    color: theme.textSecondary,
+    fontFamily: 'monospace',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  pollingBackedOff: {
+    color: theme.warning,
+  },
+  list: {
+    flex: 1,
+    marginTop: 6,
+  },
+  sectionTitle: {
+    color: theme.textDim,
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    paddingTop: 8,
+    paddingBottom: 4,
+  },
+  sectionHeader: {
+    backgroundColor: theme.bg,
+  },
+  signalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomColor: theme.borderSubtle,
+    borderBottomWidth: 1,
+    paddingVertical: 6,
+  },
+  signalInfo: {
+    flex: 1,
+  },
+  signalName: {
+    color: theme.text,
+    fontSize: 14,
+  },
+  signalMeta: {
+    color: theme.textSecondary,
+    fontFamily: 'monospace',
+    fontSize: 11,
+    marginTop: 1,
+  },
+  reading: {
+    color: theme.textDim,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  readValue: {
+    color: theme.success,
+    fontFamily: 'monospace',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  raw: {
+    color: theme.textDim,
+    fontSize: 11,
+  },
+  readError: {
+    color: theme.accent,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  star: {
+    color: theme.textDim,
+    fontSize: 20,
+    paddingHorizontal: 8,
+  },
+  starActive: {
+    color: theme.warning,
+  },
+});
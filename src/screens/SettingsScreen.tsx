@@ -1,4 +1,4 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   Alert,
   GestureResponderEvent,
@@ -13,26 +13,47 @@ import {
   View,
 } from 'react-native';
 import { useSettingsStore } from '../store/settingsStore';
+import { obdClient } from '../obd/obdClient';
+import { BUILTIN_DERIVED_SIGNALS } from '../obd/pid/derived';
+import { pidPacks, type PidPackSummary } from '../obd/pidPacks';
+import type {
+  AcquisitionMode,
+  DerivedSignalDefinition,
+  FuelEconomyUnit,
+  ThemeMode,
+} from '../types/obd';
 import { database } from '../storage/database';
-import { THEME } from '../utils/theme';
-
-/** カラーパレット (THEMEからマッピング) */
-const Colors = {
-  background: THEME.bg,
-  section: THEME.bgElevated,
-  primary: THEME.primary,
-  accent: THEME.accent,
-  success: THEME.success,
-  warning: THEME.warning,
-  text: THEME.text,
-  subText: THEME.textSecondary,
-  border: THEME.border,
-} as const;
+import type { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../components/ThemeProvider';
+import { DerivedSignalEditor } from '../components/settings/DerivedSignalEditor';
+import { PidPackImporter } from '../components/settings/PidPackImporter';
+
+/** データ取得方式の選択肢 (SegmentedControl の並び順) */
+const ACQUISITION_MODES: AcquisitionMode[] = ['polling', 'sniffing', 'combined'];
+
+/** テーマの選択肢 (SegmentedControl の並び順) */
+const THEME_MODES: ThemeMode[] = ['dark', 'light', 'high-contrast'];
+
+/** 燃費単位の選択肢 (SegmentedControl の並び順) */
+const FUEL_ECONOMY_UNITS: FuelEconomyUnit[] = ['km/L', 'L/100km', 'mpg-us', 'mpg-uk'];
+
+/** カラーパレット (テーマからマッピング) */
+const createColors = (theme: ThemeColors) => ({
+  background: theme.bg,
+  section: theme.bgElevated,
+  primary: theme.primary,
+  accent: theme.accent,
+  success: theme.success,
+  warning: theme.warning,
+  text: theme.text,
+  subText: theme.textSecondary,
+  border: theme.border,
+});
 
 /**
  * 設定画面
  *
- * セクション分け: 接続設定 / 表示設定 / データ設定
+ * セクション分け: 接続設定 / 表示設定 / データ設定 / 派生シグナル / PIDパック
  * settingsStore を使って設定値の読み書きを行う。
  */
 export function SettingsScreen(): React.JSX.Element {
@@ -40,20 +61,66 @@ export function SettingsScreen(): React.JSX.Element {
     pollingInterval,
     autoReconnect,
     theme,
+    nightDimming,
     unit,
+    fuelEconomyUnit,
     keepScreenOn,
     autoLog,
+    acquisitionMode,
+    derivedSignals,
     logBufferSize,
     setPollingInterval,
     setAutoReconnect,
     setTheme,
+    setNightDimming,
     setUnit,
+    setFuelEconomyUnit,
     toggleKeepScreen,
     setAutoLog,
     clearData,
   } = useSettingsStore();
+  const colors = useThemedStyles(createColors);
+  const styles = useThemedStyles(createStyles);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingSignal, setEditingSignal] = useState<DerivedSignalDefinition | null>(null);
+
+  const [importerVisible, setImporterVisible] = useState(false);
+  const [packs, setPacks] = useState<PidPackSummary[]>(() => pidPacks.list());
+
+  const openSignalEditor = (signal: DerivedSignalDefinition | null) => {
+    setEditingSignal(signal);
+    setEditorVisible(true);
+  };
+
+  // 起動時の読み込みが画面表示より後に終わることがあるため、表示時にも取り直す
+  const refreshPacks = useCallback(() => setPacks(pidPacks.list()), []);
+  useEffect(() => {
+    refreshPacks();
+  }, [refreshPacks]);
 
-  const isDark = theme === 'dark';
+  const handleRemovePack = useCallback(
+    (pack: PidPackSummary) => {
+      Alert.alert('PIDパック削除', `「${pack.name}」を削除しますか?`, [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await pidPacks.remove(pack.id);
+              refreshPacks();
+            } catch (err) {
+              Alert.alert(
+                'エラー',
+                `PIDパックの削除に失敗しました: ${err instanceof Error ? err.message : String(err)}`,
+              );
+            }
+          },
+        },
+      ]);
+    },
+    [refreshPacks],
+  );
 
   const handleClearData = useCallback(() => {
     Alert.alert(
@@ -113,8 +180,20 @@ export function SettingsScreen(): React.JSX.Element {
           <Switch
             value={autoReconnect}
             onValueChange={setAutoReconnect}
-            trackColor={{ false: Colors.border, true: Colors.primary }}
-            thumbColor={autoReconnect ? Colors.text : Colors.subText}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={autoReconnect ? colors.text : colors.subText}
+          />
+        </View>
+
+        <View style={styles.separator} />
+
+        {/* Sniffing: ZVW30のCANブロードキャストを受信 (Combined は残りをポーリング) */}
+        <View style={styles.row}>
+          <Text style={styles.label}>データ取得方式</Text>
+          <SegmentedControl
+            options={['Polling', 'Sniffing', 'Combined']}
+            selectedIndex={ACQUISITION_MODES.indexOf(acquisitionMode)}
+            onSelect={(index) => obdClient.setAcquisitionMode(ACQUISITION_MODES[index])}
           />
         </View>
       </View>
@@ -122,13 +201,26 @@ export function SettingsScreen(): React.JSX.Element {
       {/* 表示設定 */}
       <SectionHeader title="表示設定" />
       <View style={styles.section}>
+        {/* High Contrast: 直射日光下でも読める白地・黒文字のパレット */}
+        <View style={styles.row}>
+          <Text style={styles.label}>テーマ</Text>
+          <SegmentedControl
+            options={['Dark', 'Light', 'High Contrast']}
+            selectedIndex={THEME_MODES.indexOf(theme)}
+            onSelect={(index) => setTheme(THEME_MODES[index])}
+          />
+        </View>
+
+        <View style={styles.separator} />
+
+        {/* 有効にすると19時〜6時は選択中のテーマに関係なく減光パレットで表示する */}
         <View style={styles.switchRow}>
-          <Text style={styles.label}>ダークテーマ</Text>
+          <Text style={styles.label}>夜間減光</Text>
           <Switch
-            value={isDark}
-            onValueChange={(value) => setTheme(value ? 'dark' : 'light')}
-            trackColor={{ false: Colors.border, true: Colors.primary }}
-            thumbColor={isDark ? Colors.text : Colors.subText}
+            value={nightDimming}
+            onValueChange={setNightDimming}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={nightDimming ? colors.text : colors.subText}
           />
         </View>
 
@@ -145,13 +237,25 @@ export function SettingsScreen(): React.JSX.Element {
 
         <View style={styles.separator} />
 
+        {/* 単位系を切り替えると標準の燃費単位 (km/L / mpg US) に戻る */}
+        <View style={styles.row}>
+          <Text style={styles.label}>燃費単位</Text>
+          <SegmentedControl
+            options={['km/L', 'L/100km', 'MPG US', 'MPG UK']}
+            selectedIndex={FUEL_ECONOMY_UNITS.indexOf(fuelEconomyUnit)}
+            onSelect={(index) => setFuelEconomyUnit(FUEL_ECONOMY_UNITS[index])}
+          />
+        </View>
+
+        <View style={styles.separator} />
+
         <View style={styles.switchRow}>
           <Text style={styles.label}>画面常時点灯</Text>
           <Switch
             value={keepScreenOn}
             onValueChange={toggleKeepScreen}
-            trackColor={{ false: Colors.border, true: Colors.primary }}
-            thumbColor={keepScreenOn ? Colors.text : Colors.subText}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={keepScreenOn ? colors.text : colors.subText}
           />
         </View>
       </View>
@@ -164,8 +268,8 @@ export function SettingsScreen(): React.JSX.Element {
           <Switch
             value={autoLog}
             onValueChange={setAutoLog}
-            trackColor={{ false: Colors.border, true: Colors.primary }}
-            thumbColor={autoLog ? Colors.text : Colors.subText}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={autoLog ? colors.text : colors.subText}
           />
         </View>
 
@@ -188,6 +292,56 @@ export function SettingsScreen(): React.JSX.Element {
           <Text style={styles.dangerButtonText}>データをクリア</Text>
         </TouchableOpacity>
       </View>
+
+      {/* 派生シグナル: 他のシグナルから式で計算し、メーター・ログで通常のシグナルと同様に使える */}
+      <SectionHeader title="派生シグナル" />
+      <View style={styles.section}>
+        {BUILTIN_DERIVED_SIGNALS.map((signal) => (
+          <DerivedSignalRow key={signal.pid} signal={signal} builtIn />
+        ))}
+        {derivedSignals.map((signal) => (
+          <DerivedSignalRow
+            key={signal.pid}
+            signal={signal}
+            onPress={() => openSignalEditor(signal)}
+          />
+        ))}
+
+        <TouchableOpacity
+          style={styles.outlineButton}
+          onPress={() => openSignalEditor(null)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.outlineButtonText}>+ 派生シグナルを追加</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* PIDパック: Torque形式のカスタムPID CSVをインポートし、ポーリング・メーターで使える */}
+      <SectionHeader title="PIDパック" />
+      <View style={styles.section}>
+        {packs.map((pack) => (
+          <PidPackRow key={pack.id} pack={pack} onRemove={() => handleRemovePack(pack)} />
+        ))}
+
+        <TouchableOpacity
+          style={styles.outlineButton}
+          onPress={() => setImporterVisible(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.outlineButtonText}>+ CSVをインポート</Text>
+        </TouchableOpacity>
+      </View>
+
+      <DerivedSignalEditor
+        visible={editorVisible}
+        signal={editingSignal}
+        onClose={() => setEditorVisible(false)}
+      />
+      <PidPackImporter
+        visible={importerVisible}
+        onClose={() => setImporterVisible(false)}
+        onImported={refreshPacks}
+      />
     </ScrollView>
   );
 }
@@ -195,6 +349,7 @@ export function SettingsScreen(): React.JSX.Element {
 // --- Sub-components ---
 
 function SectionHeader({ title }: { title: string }): React.JSX.Element {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.sectionHeader}>
       <Text style={styles.sectionHeaderText}>{title}</Text>
@@ -202,6 +357,61 @@ function SectionHeader({ title }: { title: string }): React.JSX.Element {
   );
 }
 
+/** 派生シグナル1行分 (組み込みは編集不可) */
+function DerivedSignalRow({
+  signal,
+  builtIn = false,
+  onPress,
+}: {
+  signal: DerivedSignalDefinition;
+  builtIn?: boolean;
+  onPress?: () => void;
+}): React.JSX.Element {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <TouchableOpacity
+      style={styles.signalRow}
+      onPress={onPress}
+      disabled={builtIn}
+      activeOpacity={0.7}
+    >
+      <View style={styles.rowLabelContainer}>
+        <Text style={styles.label}>{signal.name}</Text>
+        <Text style={styles.subText}>
+          {builtIn ? '組み込み' : signal.pid} · {signal.unit || '-'}
+        </Text>
+      </View>
+      <Text style={styles.expressionText} numberOfLines={1}>
+        {signal.expression}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/** PIDパック1行分 (名前・PID数・インポート日時と削除ボタン) */
+function PidPackRow({
+  pack,
+  onRemove,
+}: {
+  pack: PidPackSummary;
+  onRemove: () => void;
+}): React.JSX.Element {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={[styles.signalRow, styles.packRow]}>
+      <View style={styles.packInfo}>
+        <Text style={styles.label}>{pack.name}</Text>
+        <Text style={styles.subText}>
+          {pack.pids.length} PID · {new Date(pack.importedAt).toLocaleString()}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={onRemove} activeOpacity={0.7}>
+        <Text style={styles.removeText}>削除</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 interface SegmentedControlProps {
   options: string[];
   selectedIndex: number;
@@ -213,6 +423,7 @@ function SegmentedControl({
   selectedIndex,
   onSelect,
 }: SegmentedControlProps): React.JSX.Element {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.segmentedContainer}>
       {options.map((option, index) => {
@@ -264,6 +475,7 @@ function CustomSlider({
   value,
   onValueChange,
 }: CustomSliderProps): React.JSX.Element {
+  const sliderStyles = useThemedStyles(createSliderStyles);
   const trackWidthRef = useRef(0);
   const [localValue, setLocalValue] = useState(value);
   const isDragging = useRef(false);
@@ -364,7 +576,7 @@ function CustomSlider({
   );
 }
 
-const sliderStyles = StyleSheet.create({
+const createSliderStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     height: 40,
     justifyContent: 'center',
@@ -372,13 +584,13 @@ const sliderStyles = StyleSheet.create({
   },
   track: {
     height: TRACK_HEIGHT,
-    backgroundColor: Colors.border,
+    backgroundColor: theme.border,
     borderRadius: TRACK_HEIGHT / 2,
     overflow: 'hidden',
   },
   trackFilled: {
     height: TRACK_HEIGHT,
-    backgroundColor: Colors.primary,
+    backgroundColor: theme.primary,
     borderRadius: TRACK_HEIGHT / 2,
   },
   thumb: {
@@ -386,7 +598,7 @@ const sliderStyles = StyleSheet.create({
     width: THUMB_SIZE,
     height: THUMB_SIZE,
     borderRadius: THUMB_SIZE / 2,
-    backgroundColor: Colors.primary,
+    backgroundColor: theme.primary,
     top: (40 - THUMB_SIZE) / 2,
     elevation: 3,
     shadowColor: '#000',
@@ -398,29 +610,29 @@ const sliderStyles = StyleSheet.create({
 
 // --- Styles ---
 
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: Colors.background,
+    backgroundColor: theme.bg,
   },
   contentContainer: {
     paddingBottom: 40,
   },
   sectionHeader: {
-    backgroundColor: Colors.section,
+    backgroundColor: theme.bgElevated,
     paddingHorizontal: 16,
     paddingVertical: 10,
     marginTop: 16,
   },
   sectionHeaderText: {
-    color: Colors.subText,
+    color: theme.textSecondary,
     fontSize: 13,
     fontWeight: '600',
     textTransform: 'uppercase',
     letterSpacing: 1,
   },
   section: {
-    backgroundColor: Colors.section,
+    backgroundColor: theme.bgElevated,
     marginHorizontal: 0,
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -441,16 +653,16 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
   },
   label: {
-    color: Colors.text,
+    color: theme.text,
     fontSize: 16,
   },
   valueText: {
-    color: Colors.primary,
+    color: theme.primary,
     fontSize: 16,
     fontWeight: '600',
   },
   subText: {
-    color: Colors.subText,
+    color: theme.textSecondary,
     fontSize: 12,
   },
   sliderLabels: {
@@ -460,26 +672,62 @@ const styles = StyleSheet.create({
   },
   separator: {
     height: StyleSheet.hairlineWidth,
-    backgroundColor: Colors.border,
+    backgroundColor: theme.border,
   },
   dangerButton: {
-    backgroundColor: Colors.accent,
+    backgroundColor: theme.accent,
     borderRadius: 8,
     paddingVertical: 14,
     alignItems: 'center',
     marginVertical: 12,
   },
   dangerButtonText: {
-    color: Colors.text,
+    color: theme.text,
     fontSize: 16,
     fontWeight: '700',
   },
+  signalRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.border,
+  },
+  expressionText: {
+    color: theme.textDim,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  packRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  packInfo: {
+    flex: 1,
+  },
+  removeText: {
+    color: theme.accent,
+    fontSize: 14,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+  },
+  outlineButton: {
+    borderColor: theme.primary,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  outlineButtonText: {
+    color: theme.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   segmentedContainer: {
     flexDirection: 'row',
     borderRadius: 8,
     overflow: 'hidden',
     borderWidth: 1,
-    borderColor: Colors.primary,
+    borderColor: theme.primary,
   },
   segmentedOption: {
     paddingVertical: 8,
@@ -495,14 +743,14 @@ const styles = StyleSheet.create({
     borderBottomRightRadius: 7,
   },
   segmentedOptionSelected: {
-    backgroundColor: Colors.primary,
+    backgroundColor: theme.primary,
   },
   segmentedText: {
-    color: Colors.primary,
+    color: theme.primary,
     fontSize: 14,
     fontWeight: '600',
   },
   segmentedTextSelected: {
-    color: Colors.background,
+    color: theme.bg,
   },
 });
@@ -0,0 +1,132 @@
+import { database } from './database';
+
+/**
+ * CANスニファの受信フレームをバッファリングしてDBに書き込むクラス
+ *
+ * モニタ中は数百フレーム/秒が届くため、LogWriterと同様にメモリに貯めて
+ * BUFFER_SIZE件に達するかFLUSH_INTERVAL経過でバッチ挿入する。
+ */
+class CanCaptureWriter {
+  private captureId: number | null = null;
+  private buffer: Array<{ id: string; data: number[]; timestamp: number }> = [];
+  private flushInterval: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+  private inFlightWrite: Promise<void> | null = null;
+
+  /** バッファがこの件数に達したらバッチ書き込みを実行する */
+  private readonly BUFFER_SIZE = 500;
+
+  /** この間隔(ms)ごとにバッファを強制フラッシュする */
+  private readonly FLUSH_INTERVAL = 2000;
+
+  /**
+   * 新しいCANキャプチャを開始する。
+   *
+   * @param filter - 受信フィルタ ("filter/mask")、全ID受信時はnull
+   * @returns 作成されたキャプチャID
+   * @throws 既にキャプチャが記録中の場合
+   */
+  async startCapture(filter: string | null): Promise<number> {
+    if (this.captureId !== null) {
+      throw new Error('A CAN capture is already active. Stop it before starting a new one.');
+    }
+
+    const id = await database.createCanCapture(filter);
+    this.captureId = id;
+    this.buffer = [];
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((err) => {
+        console.warn('CanCaptureWriter periodic flush failed:', err);
+      });
+    }, this.FLUSH_INTERVAL);
+
+    return id;
+  }
+
+  /**
+   * フレームをバッファに追加する。キャプチャ中でなければ何もしない。
+   */
+  addFrame(id: string, data: number[]): void {
+    if (this.captureId === null) {
+      return;
+    }
+
+    this.buffer.push({ id, data, timestamp: Date.now() });
+
+    if (this.buffer.length >= this.BUFFER_SIZE) {
+      this.flush().catch((err) => {
+        console.warn('CanCaptureWriter buffer flush failed:', err);
+      });
+    }
+  }
+
+  /**
+   * 現在のキャプチャを終了する。残りのバッファを書き込み、end_timeを設定する。
+   */
+  async stopCapture(): Promise<void> {
+    if (this.captureId === null) {
+      return;
+    }
+
+    if (this.flushInterval !== null) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    const captureId = this.captureId;
+
+    try {
+      if (this.inFlightWrite) {
+        await this.inFlightWrite.catch(() => undefined);
+      }
+      await this.flush();
+      await database.endCanCapture(captureId);
+    } finally {
+      // DB書き込みに失敗してもキャプチャ状態は必ず閉じる
+      this.captureId = null;
+      this.buffer = [];
+    }
+  }
+
+  /**
+   * バッファの内容をDBにバッチ挿入する (flushingフラグで排他制御)。
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+
+    if (this.captureId === null || this.buffer.length === 0) {
+      return;
+    }
+
+    this.flushing = true;
+
+    const framesToWrite = [...this.buffer];
+    this.buffer = [];
+
+    const write = database.insertCanFrames(this.captureId, framesToWrite);
+    this.inFlightWrite = write;
+
+    try {
+      await write;
+    } catch (err) {
+      // 書き込み失敗時はバッファ先頭に戻して次回再試行する
+      this.buffer = [...framesToWrite, ...this.buffer];
+      throw err;
+    } finally {
+      this.flushing = false;
+      this.inFlightWrite = null;
+    }
+  }
+
+  /**
+   * 現在キャプチャ中かどうかを返す
+   */
+  isCapturing(): boolean {
+    return this.captureId !== null;
+  }
+}
+
+export const canCaptureWriter = new CanCaptureWriter();
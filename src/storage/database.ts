@@ -1,6 +1,15 @@
-import type { LogSession, DataPoint } from '../types/obd';
+import type {
+  BatteryHealthSummary,
+  CanCapture,
+  LogSession,
+  DataPoint,
+  DiagnosticTroubleCode,
+  TorquePidRow,
+  VehicleInfo,
+} from '../types/obd';
 import type { SQLiteDatabase } from 'expo-sqlite';
 import { TurboModuleRegistry } from 'react-native';
+import { signalConversion, type UnitPreferences } from '../utils/units';
 
 const DB_NAME = 'obd_meter.db';
 
@@ -35,20 +44,101 @@ function getExpoSQLite(): ExpoSQLiteModule | null {
   return cachedSQLite;
 }
 
+/** 保存済みDTC読み取り結果 */
+export interface DtcReadRecord {
+  id: number;
+  timestamp: number;
+  dtcs: DiagnosticTroubleCode[];
+}
+
+/** 保存済みPIDパック (インポートしたTorque形式のカスタムPID) */
+export interface PidPackRecord {
+  id: number;
+  name: string;
+  importedAt: number;
+  rows: TorquePidRow[];
+}
+
+/** 車両 (VIN) ごとに記録したリクエストグループの対応状況 */
+export interface SignalSupportRecord {
+  /** 送信ヘッダー (e.g. "7E2") */
+  header: string;
+  /** リクエスト (e.g. "2181") */
+  request: string;
+  supported: boolean;
+  /** 調べた日時 (epoch ms) */
+  scannedAt: number;
+}
+
+/** 車両 (VIN) ごとに保存したバッテリー状態 (接続を終えた時点の値) */
+export interface BatterySnapshotRecord {
+  id: number;
+  vin: string;
+  /** 保存した日時 (epoch ms) */
+  takenAt: number;
+  summary: BatteryHealthSummary;
+}
+
+/** 車両プロファイル (VINごとの車両情報と車両依存の設定) */
+export interface VehicleRecord {
+  vin: string;
+  /** 最後に読んだ Mode 09 の車両情報 */
+  info: VehicleInfo | null;
+  /** 車両依存の設定 (キー → JSON文字列、settings テーブルと同じ形式)。未保存なら null */
+  settings: Record<string, string> | null;
+  /** 初めて接続した日時 (epoch ms) */
+  firstSeen: number;
+  /** 最後に接続した日時 (epoch ms) */
+  lastSeen: number;
+}
+
 /**
  * OBDデータログ用SQLiteデータベース管理クラス
  *
  * sessions テーブルでログセッションを管理し、
  * data_points テーブルで各PIDの計測値を時系列で保存する。
+ * dtc_reads / dtc_codes / freeze_frames テーブルにはDTC読み取り結果と
+ * フリーズフレームを保存する (DTC消去後も参照できるように)。
+ * can_captures / can_frames テーブルにはCANスニファで記録した生フレームを保存する
+ * (PIDログとは別種のキャプチャとして扱う)。
+ * settings テーブルはアプリ設定のキー・値ストア (値はJSON文字列)。
+ * pid_packs / pack_pids テーブルにはインポートしたPIDパックとその行を保存する。
+ * signal_support テーブルは車両 (VIN) ごとに応答するリクエストをキャッシュする。
+ * vehicles テーブルは車両プロファイル (VINごと) で、セッションは sessions.vin、
+ * バッテリー状態のスナップショット (battery_snapshots) は vin 列で紐づける。
  */
 class Database {
   private db: SQLiteDatabase | null = null;
+  /** initialize() が終わったら (失敗した場合も) 解決する */
+  private readonly initialized: Promise<void>;
+  private markInitialized: () => void = () => undefined;
+
+  constructor() {
+    this.initialized = new Promise((resolve) => {
+      this.markInitialized = resolve;
+    });
+  }
 
   /**
    * データベースを開き、テーブルとインデックスを作成する。
    * アプリ起動時に一度呼ぶこと。
    */
   async initialize(): Promise<void> {
+    try {
+      await this.open();
+    } finally {
+      this.markInitialized();
+    }
+  }
+
+  /**
+   * initialize() の完了を待つ (失敗した場合も完了する)。initialize() より前に呼んでもよい。
+   */
+  whenInitialized(): Promise<void> {
+    return this.initialized;
+  }
+
+  private async open(): Promise<void> {
     const SQLite = getExpoSQLite();
     if (!SQLite) {
       return;
@@ -79,7 +169,116 @@ class Database {
 
       CREATE INDEX IF NOT EXISTS idx_data_points_pid
         ON data_points(pid);
+
+      CREATE TABLE IF NOT EXISTS dtc_reads (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS dtc_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        read_id INTEGER REFERENCES dtc_reads(id) ON DELETE CASCADE,
+        code TEXT NOT NULL,
+        description TEXT NOT NULL,
+        ecu TEXT,
+        is_pending INTEGER NOT NULL DEFAULT 0,
+        is_permanent INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS freeze_frames (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dtc_id INTEGER REFERENCES dtc_codes(id) ON DELETE CASCADE,
+        pid TEXT NOT NULL,
+        value REAL NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dtc_codes_read
+        ON dtc_codes(read_id);
+
+      CREATE INDEX IF NOT EXISTS idx_freeze_frames_dtc
+        ON freeze_frames(dtc_id);
+
+      CREATE TABLE IF NOT EXISTS can_captures (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER,
+        filter TEXT,
+        frame_count INTEGER DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS can_frames (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        capture_id INTEGER REFERENCES can_captures(id) ON DELETE CASCADE,
+        timestamp INTEGER NOT NULL,
+        can_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_can_frames_capture_time
+        ON can_frames(capture_id, timestamp);
+
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS pid_packs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        imported_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS pack_pids (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pack_id INTEGER REFERENCES pid_packs(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        short_name TEXT NOT NULL,
+        mode_and_pid TEXT NOT NULL,
+        equation TEXT NOT NULL,
+        min REAL NOT NULL,
+        max REAL NOT NULL,
+        units TEXT NOT NULL,
+        header TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pack_pids_pack
+        ON pack_pids(pack_id);
+
+      CREATE TABLE IF NOT EXISTS signal_support (
+        vin TEXT NOT NULL,
+        header TEXT NOT NULL,
+        request TEXT NOT NULL,
+        supported INTEGER NOT NULL,
+        scanned_at INTEGER NOT NULL,
+        PRIMARY KEY (vin, header, request)
+      );
+
+      CREATE TABLE IF NOT EXISTS vehicles (
+        vin TEXT PRIMARY KEY,
+        info TEXT,
+        settings TEXT,
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS battery_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        vin TEXT NOT NULL,
+        taken_at INTEGER NOT NULL,
+        summary TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_battery_snapshots_vin
+        ON battery_snapshots(vin, taken_at);
     `);
+
+    // sessions.vin は後から追加した列のため、既存のDBには ALTER TABLE で足す
+    const sessionColumns = await this.db.getAllAsync<{ name: string }>(
+      'PRAGMA table_info(sessions)',
+    );
+    if (!sessionColumns.some((column) => column.name === 'vin')) {
+      await this.db.execAsync('ALTER TABLE sessions ADD COLUMN vin TEXT');
+    }
   }
 
   /**
@@ -95,13 +294,16 @@ class Database {
   /**
    * 新しいログセッションを作成し、そのIDを返す。
    * start_time は現在時刻(Unix ms)で自動設定される。
+   *
+   * @param vin - 記録する車両のVIN (不明なら null)
    */
-  async createSession(): Promise<number> {
+  async createSession(vin: string | null = null): Promise<number> {
     const db = this.getDbInternal();
     const now = Date.now();
     const result = await db.runAsync(
-      'INSERT INTO sessions (start_time) VALUES (?)',
+      'INSERT INTO sessions (start_time, vin) VALUES (?, ?)',
       now,
+      vin,
     );
     return result.lastInsertRowId;
   }
@@ -196,13 +398,18 @@ class Database {
       start_time: number;
       end_time: number | null;
       data_point_count: number;
-    }>('SELECT id, start_time, end_time, data_point_count FROM sessions ORDER BY start_time DESC');
+      vin: string | null;
+    }>(
+      `SELECT id, start_time, end_time, data_point_count, vin FROM sessions
+        ORDER BY start_time DESC`,
+    );
 
     return rows.map((row) => ({
       id: row.id,
       startTime: row.start_time,
       endTime: row.end_time,
       dataPointCount: row.data_point_count,
+      vin: row.vin,
     }));
   }
 
@@ -262,6 +469,489 @@ class Database {
     });
   }
 
+  /**
+   * DTC読み取り結果を保存し、そのIDを返す。
+   * フリーズフレームを持つDTCは freeze_frames にPIDごとの値も保存する。
+   */
+  async saveDtcRead(dtcs: DiagnosticTroubleCode[]): Promise<number> {
+    const db = this.getDbInternal();
+    let readId = 0;
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const read = await txn.runAsync(
+        'INSERT INTO dtc_reads (timestamp) VALUES (?)',
+        Date.now(),
+      );
+      readId = read.lastInsertRowId;
+
+      for (const dtc of dtcs) {
+        const row = await txn.runAsync(
+          'INSERT INTO dtc_codes (read_id, code, description, ecu, is_pending, is_permanent) VALUES (?, ?, ?, ?, ?, ?)',
+          readId,
+          dtc.code,
+          dtc.description,
+          dtc.ecu ?? null,
+          dtc.isPending ? 1 : 0,
+          dtc.isPermanent ? 1 : 0,
+        );
+
+        for (const [pid, value] of Object.entries(dtc.freezeFrame?.values ?? {})) {
+          await txn.runAsync(
+            'INSERT INTO freeze_frames (dtc_id, pid, value) VALUES (?, ?, ?)',
+            row.lastInsertRowId,
+            pid,
+            value,
+          );
+        }
+      }
+    });
+
+    return readId;
+  }
+
+  /**
+   * 保存済みDTC読み取り結果を新しい順に取得する (フリーズフレーム付き)。
+   */
+  async getDtcReads(limit = 20): Promise<DtcReadRecord[]> {
+    const db = this.getDbInternal();
+    const reads = await db.getAllAsync<{ id: number; timestamp: number }>(
+      'SELECT id, timestamp FROM dtc_reads ORDER BY timestamp DESC LIMIT ?',
+      limit,
+    );
+
+    const records: DtcReadRecord[] = [];
+    for (const read of reads) {
+      const codes = await db.getAllAsync<{
+        id: number;
+        code: string;
+        description: string;
+        ecu: string | null;
+        is_pending: number;
+        is_permanent: number;
+      }>(
+        'SELECT id, code, description, ecu, is_pending, is_permanent FROM dtc_codes WHERE read_id = ? ORDER BY id ASC',
+        read.id,
+      );
+
+      const dtcs: DiagnosticTroubleCode[] = [];
+      for (const code of codes) {
+        const frameRows = await db.getAllAsync<{ pid: string; value: number }>(
+          'SELECT pid, value FROM freeze_frames WHERE dtc_id = ?',
+          code.id,
+        );
+
+        dtcs.push({
+          code: code.code,
+          description: code.description,
+          isPending: code.is_pending !== 0,
+          isPermanent: code.is_permanent !== 0,
+          ecu: code.ecu ?? undefined,
+          freezeFrame:
+            frameRows.length > 0
+              ? {
+                  dtcCode: code.code,
+                  values: Object.fromEntries(frameRows.map((r) => [r.pid, r.value])),
+                }
+              : undefined,
+        });
+      }
+
+      records.push({ id: read.id, timestamp: read.timestamp, dtcs });
+    }
+
+    return records;
+  }
+
+  /**
+   * 新しいCANキャプチャを作成し、そのIDを返す。
+   * @param filter - 受信フィルタ ("filter/mask")、全ID受信時はnull
+   */
+  async createCanCapture(filter: string | null): Promise<number> {
+    const db = this.getDbInternal();
+    const result = await db.runAsync(
+      'INSERT INTO can_captures (start_time, filter) VALUES (?, ?)',
+      Date.now(),
+      filter,
+    );
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * CANキャプチャを終了する。end_time を現在時刻に設定する。
+   */
+  async endCanCapture(captureId: number): Promise<void> {
+    const db = this.getDbInternal();
+    await db.runAsync(
+      'UPDATE can_captures SET end_time = ? WHERE id = ?',
+      Date.now(),
+      captureId,
+    );
+  }
+
+  /**
+   * CANフレームをバッチ挿入する。
+   * data はスペースなしの16進文字列 (例: "0000008E000000") で保存する。
+   */
+  async insertCanFrames(
+    captureId: number,
+    frames: Array<{ id: string; data: number[]; timestamp: number }>,
+  ): Promise<void> {
+    if (frames.length === 0) {
+      return;
+    }
+
+    const db = this.getDbInternal();
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const stmt = await txn.prepareAsync(
+        'INSERT INTO can_frames (capture_id, timestamp, can_id, data) VALUES ($captureId, $timestamp, $canId, $data)',
+      );
+
+      try {
+        for (const frame of frames) {
+          await stmt.executeAsync({
+            $captureId: captureId,
+            $timestamp: frame.timestamp,
+            $canId: frame.id,
+            $data: frame.data.map((b) => b.toString(16).toUpperCase().padStart(2, '0')).join(''),
+          });
+        }
+      } finally {
+        await stmt.finalizeAsync();
+      }
+
+      await txn.runAsync(
+        'UPDATE can_captures SET frame_count = frame_count + ? WHERE id = ?',
+        frames.length,
+        captureId,
+      );
+    });
+  }
+
+  /**
+   * CANキャプチャ一覧を開始時刻の降順で取得する。
+   */
+  async getCanCaptures(): Promise<CanCapture[]> {
+    const db = this.getDbInternal();
+    const rows = await db.getAllAsync<{
+      id: number;
+      start_time: number;
+      end_time: number | null;
+      frame_count: number;
+      filter: string | null;
+    }>('SELECT id, start_time, end_time, frame_count, filter FROM can_captures ORDER BY start_time DESC');
+
+    return rows.map((row) => ({
+      id: row.id,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      frameCount: row.frame_count,
+      filter: row.filter,
+    }));
+  }
+
+  /**
+   * CANキャプチャとそのフレームを削除する。
+   */
+  async deleteCanCapture(captureId: number): Promise<void> {
+    const db = this.getDbInternal();
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync('DELETE FROM can_frames WHERE capture_id = ?', captureId);
+      await txn.runAsync('DELETE FROM can_captures WHERE id = ?', captureId);
+    });
+  }
+
+  /**
+   * 保存済みの設定を全て取得する (キー → JSON文字列)。
+   */
+  async getSettings(): Promise<Record<string, string>> {
+    const db = this.getDbInternal();
+    const rows = await db.getAllAsync<{ key: string; value: string }>(
+      'SELECT key, value FROM settings',
+    );
+    return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+  }
+
+  /**
+   * 設定をまとめて保存する (既存キーは上書き)。
+   */
+  async saveSettings(entries: Record<string, string>): Promise<void> {
+    const keys = Object.keys(entries);
+    if (keys.length === 0) {
+      return;
+    }
+
+    const db = this.getDbInternal();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const key of keys) {
+        await txn.runAsync(
+          'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+          key,
+          entries[key],
+        );
+      }
+    });
+  }
+
+  /**
+   * PIDパックを保存し、そのIDを返す。
+   * @param name - パック名 (表示用)
+   * @param rows - 検証済みの行 (ファイル内の順序を保つ)
+   */
+  async savePidPack(name: string, rows: TorquePidRow[]): Promise<number> {
+    const db = this.getDbInternal();
+    let packId = 0;
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const result = await txn.runAsync(
+        'INSERT INTO pid_packs (name, imported_at) VALUES (?, ?)',
+        name,
+        Date.now(),
+      );
+      packId = result.lastInsertRowId;
+
+      const stmt = await txn.prepareAsync(
+        `INSERT INTO pack_pids
+          (pack_id, name, short_name, mode_and_pid, equation, min, max, units, header)
+          VALUES ($packId, $name, $shortName, $modeAndPid, $equation, $min, $max, $units, $header)`,
+      );
+      try {
+        for (const row of rows) {
+          await stmt.executeAsync({
+            $packId: packId,
+            $name: row.name,
+            $shortName: row.shortName,
+            $modeAndPid: row.modeAndPid,
+            $equation: row.equation,
+            $min: row.min,
+            $max: row.max,
+            $units: row.units,
+            $header: row.header,
+          });
+        }
+      } finally {
+        await stmt.finalizeAsync();
+      }
+    });
+
+    return packId;
+  }
+
+  /**
+   * 保存済みのPIDパックを行とともにインポート順で取得する。
+   */
+  async getPidPacks(): Promise<PidPackRecord[]> {
+    const db = this.getDbInternal();
+    const packs = await db.getAllAsync<{ id: number; name: string; imported_at: number }>(
+      'SELECT id, name, imported_at FROM pid_packs ORDER BY id ASC',
+    );
+    const rows = await db.getAllAsync<{
+      pack_id: number;
+      name: string;
+      short_name: string;
+      mode_and_pid: string;
+      equation: string;
+      min: number;
+      max: number;
+      units: string;
+      header: string;
+    }>(
+      `SELECT pack_id, name, short_name, mode_and_pid, equation, min, max, units, header
+        FROM pack_pids ORDER BY id ASC`,
+    );
+
+    return packs.map((pack) => ({
+      id: pack.id,
+      name: pack.name,
+      importedAt: pack.imported_at,
+      rows: rows
+        .filter((row) => row.pack_id === pack.id)
+        .map((row) => ({
+          name: row.name,
+          shortName: row.short_name,
+          modeAndPid: row.mode_and_pid,
+          equation: row.equation,
+          min: row.min,
+          max: row.max,
+          units: row.units,
+          header: row.header,
+        })),
+    }));
+  }
+
+  /**
+   * PIDパックとその行を削除する。
+   */
+  async deletePidPack(packId: number): Promise<void> {
+    const db = this.getDbInternal();
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync('DELETE FROM pack_pids WHERE pack_id = ?', packId);
+      await txn.runAsync('DELETE FROM pid_packs WHERE id = ?', packId);
+    });
+  }
+
+  /**
+   * 車両のリクエストグループ対応状況を保存する (その車両の既存の結果は置き換える)。
+   * @param vin - 車両のVIN
+   * @param groups - 調べたグループ (非対応のものも含める)
+   */
+  async saveSignalSupport(
+    vin: string,
+    groups: ReadonlyArray<{ header: string; request: string; supported: boolean }>,
+  ): Promise<void> {
+    const db = this.getDbInternal();
+    const scannedAt = Date.now();
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync('DELETE FROM signal_support WHERE vin = ?', vin);
+
+      const stmt = await txn.prepareAsync(
+        `INSERT OR REPLACE INTO signal_support (vin, header, request, supported, scanned_at)
+          VALUES ($vin, $header, $request, $supported, $scannedAt)`,
+      );
+      try {
+        for (const group of groups) {
+          await stmt.executeAsync({
+            $vin: vin,
+            $header: group.header,
+            $request: group.request,
+            $supported: group.supported ? 1 : 0,
+            $scannedAt: scannedAt,
+          });
+        }
+      } finally {
+        await stmt.finalizeAsync();
+      }
+    });
+  }
+
+  /**
+   * 車両のリクエストグループ対応状況を取得する (未調査なら空配列)。
+   */
+  async getSignalSupport(vin: string): Promise<SignalSupportRecord[]> {
+    const db = this.getDbInternal();
+    const rows = await db.getAllAsync<{
+      header: string;
+      request: string;
+      supported: number;
+      scanned_at: number;
+    }>(
+      `SELECT header, request, supported, scanned_at FROM signal_support
+        WHERE vin = ? ORDER BY header ASC, request ASC`,
+      vin,
+    );
+
+    return rows.map((row) => ({
+      header: row.header,
+      request: row.request,
+      supported: row.supported === 1,
+      scannedAt: row.scanned_at,
+    }));
+  }
+
+  /**
+   * 接続した車両のプロファイルを作成または更新する (車両情報と最終接続日時)。
+   * @returns 更新後のプロファイル
+   */
+  async upsertVehicle(vin: string, info: VehicleInfo | null): Promise<VehicleRecord> {
+    const db = this.getDbInternal();
+    const now = Date.now();
+    await db.runAsync(
+      `INSERT INTO vehicles (vin, info, first_seen, last_seen) VALUES (?, ?, ?, ?)
+        ON CONFLICT(vin) DO UPDATE SET info = COALESCE(excluded.info, info), last_seen = ?`,
+      vin,
+      info ? JSON.stringify(info) : null,
+      now,
+      now,
+      now,
+    );
+
+    const vehicle = await this.getVehicle(vin);
+    if (!vehicle) {
+      throw new Error(`Vehicle ${vin} was not saved`);
+    }
+    return vehicle;
+  }
+
+  /**
+   * 車両プロファイルを取得する (未登録なら null)。
+   */
+  async getVehicle(vin: string): Promise<VehicleRecord | null> {
+    const db = this.getDbInternal();
+    const row = await db.getFirstAsync<{
+      vin: string;
+      info: string | null;
+      settings: string | null;
+      first_seen: number;
+      last_seen: number;
+    }>('SELECT vin, info, settings, first_seen, last_seen FROM vehicles WHERE vin = ?', vin);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      vin: row.vin,
+      info: row.info ? (JSON.parse(row.info) as VehicleInfo) : null,
+      settings: row.settings ? (JSON.parse(row.settings) as Record<string, string>) : null,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+    };
+  }
+
+  /**
+   * 車両依存の設定を保存する (その車両の既存の値は置き換える)。
+   * @param entries - キー → JSON文字列
+   */
+  async saveVehicleSettings(vin: string, entries: Record<string, string>): Promise<void> {
+    const db = this.getDbInternal();
+    await db.runAsync(
+      'UPDATE vehicles SET settings = ? WHERE vin = ?',
+      JSON.stringify(entries),
+      vin,
+    );
+  }
+
+  /**
+   * 車両のバッテリー状態を保存し、そのIDを返す。
+   */
+  async saveBatterySnapshot(vin: string, summary: BatteryHealthSummary): Promise<number> {
+    const db = this.getDbInternal();
+    const result = await db.runAsync(
+      'INSERT INTO battery_snapshots (vin, taken_at, summary) VALUES (?, ?, ?)',
+      vin,
+      Date.now(),
+      JSON.stringify(summary),
+    );
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * 車両のバッテリー状態のスナップショットを新しい順に取得する。
+   */
+  async getBatterySnapshots(vin: string, limit = 20): Promise<BatterySnapshotRecord[]> {
+    const db = this.getDbInternal();
+    const rows = await db.getAllAsync<{
+      id: number;
+      vin: string;
+      taken_at: number;
+      summary: string;
+    }>(
+      `SELECT id, vin, taken_at, summary FROM battery_snapshots
+        WHERE vin = ? ORDER BY taken_at DESC, id DESC LIMIT ?`,
+      vin,
+      limit,
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      vin: row.vin,
+      takenAt: row.taken_at,
+      summary: JSON.parse(row.summary) as BatteryHealthSummary,
+    }));
+  }
+
   /**
    * 初期化済みのDBインスタンスを外部に公開する。
    * 未初期化の場合はエラーを投げる。
@@ -271,22 +961,30 @@ class Database {
   }
 
   /**
-   * 全データを削除する (全セッション・全データポイント)
+   * 全データを削除する (全セッション・全データポイント・DTC履歴・CANキャプチャ・バッテリー状態の履歴)
    */
   async clearAllData(): Promise<void> {
     const db = this.getDbInternal();
     await db.execAsync(`
       DELETE FROM data_points;
       DELETE FROM sessions;
+      DELETE FROM freeze_frames;
+      DELETE FROM dtc_codes;
+      DELETE FROM dtc_reads;
+      DELETE FROM can_frames;
+      DELETE FROM can_captures;
+      DELETE FROM battery_snapshots;
     `);
   }
 
   /**
    * セッションデータをCSV文字列としてエクスポートする。
-   * ヘッダ行: timestamp,pid,value
-   * 各行: Unixタイムスタンプ(ms), PID文字列, 数値
+   * ヘッダ行: timestamp,pid,value,unit
+   * 各行: Unixタイムスタンプ(ms), PID文字列, 数値, 単位
+   *
+   * @param units - 表示単位の設定。指定時は値をその単位に変換して出力する (DB上は常にメートル法)
    */
-  async exportSessionToCSV(sessionId: number): Promise<string> {
+  async exportSessionToCSV(sessionId: number, units?: UnitPreferences): Promise<string> {
     const db = this.getDbInternal();
 
     // セッション情報を取得
@@ -312,14 +1010,18 @@ class Database {
 
     // CSVヘッダとデータ行を構築
     const lines: string[] = [];
-    lines.push('timestamp,pid,value');
+    lines.push('timestamp,pid,value,unit');
 
+    const metric: UnitPreferences = { system: 'metric', fuelEconomy: 'km/L' };
     for (const row of rows) {
       // 値に特殊文字が含まれる場合はクオート（PIDに","は通常含まれないが安全策）
       const pidEscaped = row.pid.includes(',')
         ? `"${row.pid}"`
         : row.pid;
-      lines.push(`${row.timestamp},${pidEscaped},${row.value}`);
+      const conversion = signalConversion(row.pid, units ?? metric);
+      lines.push(
+        `${row.timestamp},${pidEscaped},${conversion.convert(row.value)},${conversion.unit}`,
+      );
     }
 
     return lines.join('\n');
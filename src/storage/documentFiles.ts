@@ -0,0 +1,104 @@
+import { TurboModuleRegistry } from 'react-native';
+
+type DocumentPickerModule = typeof import('expo-document-picker');
+type FileSystemModule = typeof import('expo-file-system');
+
+interface FileModules {
+  picker: DocumentPickerModule;
+  fileSystem: FileSystemModule;
+}
+
+let cachedModules: FileModules | null | undefined;
+
+function getFileModules(): FileModules | null {
+  if (cachedModules !== undefined) {
+    return cachedModules;
+  }
+
+  // database.ts の expo-sqlite と同じく、ネイティブ側が無いときは読み込まない
+  const hasExpoModulesCore = TurboModuleRegistry.get('ExpoModulesCore') != null;
+  const hasDocumentPicker = TurboModuleRegistry.get('ExpoDocumentPicker') != null;
+  const hasFileSystem = TurboModuleRegistry.get('FileSystem') != null;
+
+  if (!hasExpoModulesCore || !hasDocumentPicker || !hasFileSystem) {
+    cachedModules = null;
+    return cachedModules;
+  }
+
+  cachedModules = {
+    picker: require('expo-document-picker') as DocumentPickerModule,
+    fileSystem: require('expo-file-system') as FileSystemModule,
+  };
+
+  return cachedModules;
+}
+
+/** ファイル選択が使えないときは、ボタンを出さないので通常は到達しない */
+function requireFileModules(): FileModules {
+  const modules = getFileModules();
+  if (!modules) {
+    throw new Error('File access is not available on this device');
+  }
+  return modules;
+}
+
+/** フォルダ選択をキャンセルした (Android: ERR_PICKER_CANCELLED, iOS: ERR_FILE_PICKING_CANCELLED) */
+const isPickerCancelled = (err: unknown): boolean =>
+  err instanceof Error && 'code' in err && /CANCELLED$/.test(String(err.code));
+
+/** 端末のファイルを読み書きできるか (できないときはファイル選択のボタンを出さない) */
+export function isFileAccessAvailable(): boolean {
+  return getFileModules() !== null;
+}
+
+/** 読み込んだテキストファイル */
+export interface PickedTextFile {
+  /** ファイル名 (拡張子付き) */
+  name: string;
+  text: string;
+}
+
+/**
+ * 端末のファイルを1つ選ばせて、テキストとして読む
+ * @param mimeTypes - 選べるファイルの MIME タイプ
+ * @returns 選ばれたファイル (キャンセルされたら null)
+ */
+export async function pickTextFile(mimeTypes: string[]): Promise<PickedTextFile | null> {
+  const modules = requireFileModules();
+  const result = await modules.picker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const text = await new modules.fileSystem.File(asset.uri).text();
+  return { name: asset.name, text };
+}
+
+/**
+ * 保存先のフォルダを選ばせて、テキストファイルを書き出す
+ * @param fileName - 拡張子付きのファイル名 (同名のファイルがあれば Android は番号を付ける)
+ * @returns 書き出したら true (キャンセルされたら false)
+ */
+export async function saveTextFile(
+  fileName: string,
+  mimeType: string,
+  text: string,
+): Promise<boolean> {
+  const modules = requireFileModules();
+  let directory;
+  try {
+    directory = await modules.fileSystem.Directory.pickDirectoryAsync();
+  } catch (err) {
+    if (isPickerCancelled(err)) {
+      return false;
+    }
+    throw err;
+  }
+
+  directory.createFile(fileName, mimeType).write(text);
+  return true;
+}
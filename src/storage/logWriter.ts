@@ -12,6 +12,7 @@ class LogWriter {
   private buffer: Array<{ pid: string; value: number; timestamp: number }> = [];
   private flushInterval: ReturnType<typeof setInterval> | null = null;
   private flushing = false;
+  private inFlightWrite: Promise<void> | null = null;
 
   /** バッファがこの件数に達したらバッチ書き込みを実行する */
   private readonly BUFFER_SIZE = 50;
@@ -23,15 +24,16 @@ class LogWriter {
    * 新しいログセッションを開始する。
    * DBにセッションレコードを作成し、定期フラッシュタイマーを開始する。
    *
+   * @param vin - 記録する車両のVIN (セッションを車両プロファイルに紐づける。不明なら null)
    * @returns 作成されたセッションID
    * @throws 既にセッションが記録中の場合
    */
-  async startSession(): Promise<number> {
+  async startSession(vin: string | null = null): Promise<number> {
     if (this.sessionId !== null) {
       throw new Error('A recording session is already active. Stop it before starting a new one.');
     }
 
-    const id = await database.createSession();
+    const id = await database.createSession(vin);
     this.sessionId = id;
     this.buffer = [];
 
@@ -86,14 +88,25 @@ class LogWriter {
       this.flushInterval = null;
     }
 
-    // 残りのバッファを全てDBに書き込む
-    await this.flush();
+    const sessionId = this.sessionId;
 
-    // セッション終了をDBに記録
-    await database.endSession(this.sessionId);
-
-    this.sessionId = null;
-    this.buffer = [];
+    try {
+      // 進行中のバッチ書き込みを待ってから、残りのバッファを全てDBに書き込む
+      // (書き込み中に追加されたデータポイントも残さないよう、バッファが空になるまで繰り返す)
+      do {
+        if (this.inFlightWrite) {
+          await this.inFlightWrite.catch(() => undefined);
+        }
+        await this.flush();
+      } while (this.buffer.length > 0);
+
+      // セッション終了をDBに記録
+      await database.endSession(sessionId);
+    } finally {
+      // DB書き込みに失敗してもセッション状態は必ず閉じる
+      this.sessionId = null;
+      this.buffer = [];
+    }
   }
 
   /**
@@ -117,14 +130,18 @@ class LogWriter {
     const pointsToWrite = [...this.buffer];
     this.buffer = [];
 
+    const write = database.insertDataPoints(this.sessionId, pointsToWrite);
+    this.inFlightWrite = write;
+
     try {
-      await database.insertDataPoints(this.sessionId, pointsToWrite);
+      await write;
     } catch (err) {
       // 書き込み失敗時はデータをバッファ先頭に戻す（次回フラッシュで再試行）
       this.buffer = [...pointsToWrite, ...this.buffer];
       throw err;
     } finally {
       this.flushing = false;
+      this.inFlightWrite = null;
     }
   }
 
@@ -0,0 +1,227 @@
+import { useSettingsStore, type PersistedSettings } from '../store/settingsStore';
+import { isDashboardLayout } from '../utils/dashboardPages';
+import { database } from './database';
+
+/**
+ * 設定の保存形式バージョン。
+ * 保存形式を変えたら上げて、旧形式からの変換を SETTINGS_MIGRATIONS に追加する。
+ */
+export const SETTINGS_SCHEMA_VERSION = 3;
+
+/** settings テーブル上でバージョンを保持するキー */
+const VERSION_KEY = 'schemaVersion';
+
+/** 変更をまとめて書き込むまでの待ち時間 (スライダー操作中の連続書き込みを抑える) */
+const SAVE_DEBOUNCE_MS = 500;
+
+/** 保存済み設定 (キー → JSONパース済みの値) */
+export type StoredSettings = Record<string, unknown>;
+
+/** version n の保存形式を n+1 に変換する関数 (キー: 変換元バージョン) */
+export type SettingsMigration = (settings: StoredSettings) => StoredSettings;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {
+  // 1 → 2: メーター配置が編集可能になった。旧デフォルトの空レイアウトは新デフォルトに置き換える
+  1: (settings) => {
+    const layout = settings.dashboardLayout;
+    if (isObject(layout) && Array.isArray(layout.meters) && layout.meters.length === 0) {
+      const rest = { ...settings };
+      delete rest.dashboardLayout;
+      return rest;
+    }
+    return settings;
+  },
+  // 2 → 3: ダッシュボードが複数ページになった。単一レイアウトを1ページ目にする
+  2: (settings) => {
+    const { dashboardLayout, ...rest } = settings;
+    if (isObject(dashboardLayout)) {
+      rest.dashboardPages = [{ ...dashboardLayout, id: 'page-1' }];
+      rest.activePageId = 'page-1';
+    }
+    return rest;
+  },
+};
+
+/** ページが1つ以上あり、IDが重複していないこと */
+const isDashboardPages = (v: unknown): boolean =>
+  Array.isArray(v) &&
+  v.length > 0 &&
+  v.every(isDashboardLayout) &&
+  new Set(v.map((page) => page.id)).size === v.length;
+
+/** 派生シグナル定義の形をしていること (式の妥当性は derivedSignals がコンパイル時に確認する) */
+const isDerivedSignal = (v: unknown): boolean =>
+  isObject(v) &&
+  typeof v.pid === 'string' &&
+  typeof v.name === 'string' &&
+  typeof v.shortName === 'string' &&
+  typeof v.unit === 'string' &&
+  isNumber(v.min) &&
+  isNumber(v.max) &&
+  typeof v.expression === 'string';
+
+/** 保存対象キーごとの妥当性チェック (不正な値は読み捨ててデフォルトを使う) */
+const VALIDATORS: { [K in keyof PersistedSettings]: (v: unknown) => boolean } = {
+  dashboardPages: isDashboardPages,
+  activePageId: (v) => typeof v === 'string',
+  theme: (v) => v === 'light' || v === 'dark' || v === 'high-contrast',
+  nightDimming: (v) => typeof v === 'boolean',
+  unit: (v) => v === 'metric' || v === 'imperial',
+  fuelEconomyUnit: (v) => v === 'km/L' || v === 'L/100km' || v === 'mpg-us' || v === 'mpg-uk',
+  keepScreenOn: (v) => typeof v === 'boolean',
+  pollingInterval: (v) => isNumber(v) && v >= 100 && v <= 1000,
+  autoReconnect: (v) => typeof v === 'boolean',
+  autoLog: (v) => typeof v === 'boolean',
+  acquisitionMode: (v) => v === 'polling' || v === 'sniffing' || v === 'combined',
+  derivedSignals: (v) => Array.isArray(v) && v.every(isDerivedSignal),
+  watchedPids: (v) => Array.isArray(v) && v.every((pid) => typeof pid === 'string'),
+};
+
+const PERSISTED_KEYS = Object.keys(VALIDATORS) as Array<keyof PersistedSettings>;
+
+/**
+ * 保存済みの行 (キー → JSON文字列) を現在の形式の設定に変換する。
+ * 旧バージョンは順にマイグレーションし、壊れた値・不正な値・未知のキーは捨てる。
+ *
+ * @param rows - settings テーブルの内容
+ * @param migrations - バージョンごとの変換 (テスト用に差し替え可)
+ */
+export function restoreSettings(
+  rows: Record<string, string>,
+  migrations: Record<number, SettingsMigration> = SETTINGS_MIGRATIONS,
+): Partial<PersistedSettings> {
+  let stored: StoredSettings = {};
+  for (const [key, json] of Object.entries(rows)) {
+    if (key === VERSION_KEY) continue;
+    try {
+      stored[key] = JSON.parse(json);
+    } catch {
+      // 壊れた行は読み捨てる
+    }
+  }
+
+  // バージョン行がない = 最初の形式 (version 1)
+  const savedVersion = Number(rows[VERSION_KEY] ?? 1);
+  for (let version = savedVersion; version < SETTINGS_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (migrate) {
+      stored = migrate(stored);
+    }
+  }
+
+  const settings: Partial<PersistedSettings> = {};
+  for (const key of PERSISTED_KEYS) {
+    if (key in stored && VALIDATORS[key](stored[key])) {
+      Object.assign(settings, { [key]: stored[key] });
+    }
+  }
+  return settings;
+}
+
+/**
+ * 設定を保存形式 (キー → JSON文字列、現在のバージョン行付き) に変換する。
+ * restoreSettings() の逆変換。
+ */
+export function serializeSettings(settings: Partial<PersistedSettings>): Record<string, string> {
+  const entries: Record<string, string> = {
+    [VERSION_KEY]: String(SETTINGS_SCHEMA_VERSION),
+  };
+  for (const [key, value] of Object.entries(settings)) {
+    entries[key] = JSON.stringify(value);
+  }
+  return entries;
+}
+
+/**
+ * useSettingsStore の内容を database の settings テーブルに保存・復元するクラス
+ *
+ * 起動時に hydrate() で保存値をストアへ反映し、以降はストアの変更を購読して
+ * 変更されたキーだけを SAVE_DEBOUNCE_MS ごとにまとめて書き込む。
+ * obdClient は接続前に ready() を待ち、保存済みのポーリング間隔等で開始する。
+ * 起動直後の接続 (自動再接続や素早いタップ) も待たせるため、復元のPromiseは最初から用意しておく。
+ */
+class SettingsPersistence {
+  private readonly hydration: Promise<void>;
+  private startHydration: () => void = () => undefined;
+  private pending: Partial<PersistedSettings> = {};
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.hydration = new Promise<void>((resolve) => {
+      this.startHydration = resolve;
+    }).then(() => this.load());
+  }
+
+  /**
+   * 保存済み設定を読み込んでストアに反映し、変更の保存を開始する。
+   * 起動時に一度呼ぶこと (database.initialize() の完了は内部で待つ。2回目以降は同じPromiseを返す)。
+   */
+  hydrate(): Promise<void> {
+    this.startHydration();
+    return this.hydration;
+  }
+
+  /**
+   * 復元が終わるまで待つ (hydrate() 前に呼んだ場合も復元を待つ。失敗した場合は完了する)。
+   */
+  ready(): Promise<void> {
+    return this.hydration;
+  }
+
+  private async load(): Promise<void> {
+    await database.whenInitialized();
+    try {
+      const rows = await database.getSettings();
+      useSettingsStore.setState(restoreSettings(rows));
+    } catch (err) {
+      // DBが使えない場合はデフォルト設定のまま動かす (保存もしない)
+      console.warn(
+        'Failed to load settings (using defaults):',
+        err instanceof Error ? err.message : String(err),
+      );
+      return;
+    }
+
+    useSettingsStore.subscribe((state, prev) => {
+      for (const key of PERSISTED_KEYS) {
+        if (state[key] !== prev[key]) {
+          Object.assign(this.pending, { [key]: state[key] });
+        }
+      }
+      this.scheduleSave();
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer !== null || Object.keys(this.pending).length === 0) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((err) => {
+        console.warn('Failed to save settings:', err);
+      });
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async save(): Promise<void> {
+    const changes = this.pending;
+    this.pending = {};
+
+    try {
+      await database.saveSettings(serializeSettings(changes));
+    } catch (err) {
+      // 次の変更時に再試行する (新しい値が優先)
+      this.pending = { ...changes, ...this.pending };
+      throw err;
+    }
+  }
+}
+
+export const settingsPersistence = new SettingsPersistence();
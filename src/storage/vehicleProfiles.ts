@@ -0,0 +1,101 @@
+import type { BatteryHealthSummary, VehicleInfo } from '../types/obd';
+import { useSettingsStore, type PersistedSettings } from '../store/settingsStore';
+import { database, type BatterySnapshotRecord } from './database';
+import { restoreSettings, serializeSettings } from './settingsPersistence';
+
+/** 車両ごとに保持する設定 (ECU構成やCANバスなど車両に依存するもの) */
+export const VEHICLE_SETTING_KEYS = [
+  'acquisitionMode',
+  'watchedPids',
+] as const satisfies ReadonlyArray<keyof PersistedSettings>;
+
+type VehicleSettings = Pick<PersistedSettings, (typeof VEHICLE_SETTING_KEYS)[number]>;
+
+/** 設定から車両依存のキーだけを取り出す */
+function pickVehicleSettings(settings: Partial<PersistedSettings>): Partial<VehicleSettings> {
+  const picked: Partial<VehicleSettings> = {};
+  for (const key of VEHICLE_SETTING_KEYS) {
+    if (settings[key] !== undefined) {
+      Object.assign(picked, { [key]: settings[key] });
+    }
+  }
+  return picked;
+}
+
+/**
+ * 車両プロファイル (VINごと) の切り替えを行うクラス
+ *
+ * obdClient は接続した車両のVINを読んだら attach() を呼ぶ。保存済みの車両依存設定を
+ * ストアへ反映し (初めての車両は現在の値でプロファイルを作る)、以降の変更をその車両に保存する。
+ * ログセッションは currentVin() で記録した車両に紐づけ、バッテリー状態のスナップショットも
+ * 接続中の車両に保存する。
+ * アプリ全体の設定の保存 (settingsPersistence) はこれまで通り行われ、次に接続する車両の初期値になる。
+ */
+class VehicleProfiles {
+  private vin: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  /** 接続中の車両のVIN (プロファイル未適用なら null) */
+  currentVin(): string | null {
+    return this.vin;
+  }
+
+  /**
+   * 車両のプロファイルに切り替える。DBが使えない場合は設定をそのままにする。
+   * @param info - 読み取った車両情報 (読めなかった場合は null、保存済みの値を残す)
+   */
+  async attach(vin: string, info: VehicleInfo | null): Promise<void> {
+    this.detach();
+    this.vin = vin;
+
+    try {
+      const vehicle = await database.upsertVehicle(vin, info);
+      if (this.vin !== vin) return; // 待っている間に切断された
+      if (vehicle.settings) {
+        useSettingsStore.setState(pickVehicleSettings(restoreSettings(vehicle.settings)));
+      } else {
+        await this.save(vin, useSettingsStore.getState());
+      }
+    } catch (err) {
+      console.warn(
+        'Failed to load vehicle profile:',
+        err instanceof Error ? err.message : String(err),
+      );
+      return;
+    }
+
+    if (this.vin !== vin) return;
+    this.unsubscribe = useSettingsStore.subscribe((state, prev) => {
+      if (VEHICLE_SETTING_KEYS.some((key) => state[key] !== prev[key])) {
+        this.save(vin, state).catch((err) => {
+          console.warn('Failed to save vehicle settings:', err);
+        });
+      }
+    });
+  }
+
+  /** 接続中の車両のバッテリー状態を保存する (プロファイル未適用なら何もしない)。 */
+  async saveBatterySnapshot(summary: BatteryHealthSummary): Promise<void> {
+    if (this.vin) {
+      await database.saveBatterySnapshot(this.vin, summary);
+    }
+  }
+
+  /** 接続中の車両のバッテリー状態のスナップショット (新しい順、プロファイル未適用なら空) */
+  async batterySnapshots(limit?: number): Promise<BatterySnapshotRecord[]> {
+    return this.vin ? database.getBatterySnapshots(this.vin, limit) : [];
+  }
+
+  /** 切断時に呼ぶ。以降の設定変更は車両に保存しない。 */
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.vin = null;
+  }
+
+  private save(vin: string, settings: Partial<PersistedSettings>): Promise<void> {
+    return database.saveVehicleSettings(vin, serializeSettings(pickVehicleSettings(settings)));
+  }
+}
+
+export const vehicleProfiles = new VehicleProfiles();
@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import type { CanIdStats } from '../types/obd';
+import type { CanFilter } from '../obd/protocol';
+
+interface CanSnifferStoreState {
+  /** モニタ実行中フラグ (一時停止中はfalse) */
+  running: boolean;
+  /** ID別の集計 (ID昇順) */
+  rows: CanIdStats[];
+  /** 適用中の受信フィルタ (null = 全ID) */
+  filter: CanFilter | null;
+  /** 記録中のCANキャプチャID (記録していなければnull) */
+  captureId: number | null;
+  /** 受信フレーム総数 */
+  frameCount: number;
+  /** エラーメッセージ */
+  error: string | null;
+}
+
+interface CanSnifferStoreActions {
+  setRunning: (running: boolean) => void;
+  /** 集計スナップショットを反映する */
+  setRows: (rows: CanIdStats[]) => void;
+  setFilter: (filter: CanFilter | null) => void;
+  setCaptureId: (captureId: number | null) => void;
+  setError: (error: string | null) => void;
+  /** 集計をクリアする (フィルタは保持) */
+  clearRows: () => void;
+}
+
+type CanSnifferStore = CanSnifferStoreState & CanSnifferStoreActions;
+
+const initialState: CanSnifferStoreState = {
+  running: false,
+  rows: [],
+  filter: null,
+  captureId: null,
+  frameCount: 0,
+  error: null,
+};
+
+/**
+ * CANスニファ画面の状態を管理するZustandストア
+ *
+ * 受信フレームそのものは obdClient 側の CanFrameTable で集計し、
+ * 一定間隔のスナップショットだけをここに反映する (再描画負荷を抑えるため)。
+ */
+export const useCanSnifferStore = create<CanSnifferStore>(set => ({
+  ...initialState,
+
+  setRunning: (running: boolean) =>
+    set({ running }),
+
+  setRows: (rows: CanIdStats[]) =>
+    set({ rows, frameCount: rows.reduce((sum, row) => sum + row.count, 0) }),
+
+  setFilter: (filter: CanFilter | null) =>
+    set({ filter }),
+
+  setCaptureId: (captureId: number | null) =>
+    set({ captureId }),
+
+  setError: (error: string | null) =>
+    set({ error }),
+
+  clearRows: () =>
+    set({ rows: [], frameCount: 0 }),
+}));
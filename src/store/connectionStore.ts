@@ -1,5 +1,10 @@
 import { create } from 'zustand';
-import type { BLEDevice, ConnectionState } from '../types/obd';
+import type {
+  BLEDevice,
+  ConnectionState,
+  SignalSupportSummary,
+  VehicleInfo,
+} from '../types/obd';
 
 interface ConnectionStoreState {
   /** BLE接続状態 */
@@ -12,6 +17,18 @@ interface ConnectionStoreState {
   error: string | null;
   /** デモモード有効フラグ */
   demoMode: boolean;
+  /** 自動再接続の試行回数 (0 = 再接続中でない) */
+  reconnectAttempt: number;
+  /** 次の再接続試行の予定時刻 (epoch ms) */
+  nextReconnectAt: number | null;
+  /** 接続中の車両のVIN (読めなければ null) */
+  vin: string | null;
+  /** 接続中の車両の Mode 09 車両情報 (未取得なら null) */
+  vehicleInfo: VehicleInfo | null;
+  /** 接続中の車両のシグナル対応状況 (未調査なら null) */
+  signalSupport: SignalSupportSummary | null;
+  /** シグナル対応状況を調査中か */
+  scanningSignals: boolean;
 }
 
 interface ConnectionStoreActions {
@@ -20,6 +37,12 @@ interface ConnectionStoreActions {
   setElm327Ready: (ready: boolean) => void;
   setError: (error: string | null) => void;
   setDemoMode: (enabled: boolean) => void;
+  setReconnectStatus: (attempt: number, nextAttemptAt: number | null) => void;
+  setVin: (vin: string | null) => void;
+  /** 車両情報を設定する (VINも併せて更新) */
+  setVehicleInfo: (info: VehicleInfo | null) => void;
+  setSignalSupport: (support: SignalSupportSummary | null) => void;
+  setScanningSignals: (scanning: boolean) => void;
   reset: () => void;
 }
 
@@ -31,6 +54,12 @@ const initialState: ConnectionStoreState = {
   isElm327Ready: false,
   error: null,
   demoMode: false,
+  reconnectAttempt: 0,
+  nextReconnectAt: null,
+  vin: null,
+  vehicleInfo: null,
+  signalSupport: null,
+  scanningSignals: false,
 };
 
 /**
@@ -69,5 +98,20 @@ export const useConnectionStore = create<ConnectionStore>(set => ({
   setDemoMode: (enabled: boolean) =>
     set({ demoMode: enabled }),
 
+  setReconnectStatus: (attempt: number, nextAttemptAt: number | null) =>
+    set({ reconnectAttempt: attempt, nextReconnectAt: nextAttemptAt }),
+
+  setVin: (vin: string | null) =>
+    set({ vin }),
+
+  setVehicleInfo: (info: VehicleInfo | null) =>
+    set({ vehicleInfo: info, vin: info?.vin ?? null }),
+
+  setSignalSupport: (support: SignalSupportSummary | null) =>
+    set({ signalSupport: support }),
+
+  setScanningSignals: (scanning: boolean) =>
+    set({ scanningSignals: scanning }),
+
   reset: () => set(initialState),
 }));
@@ -17,6 +17,8 @@ interface OBDStoreState {
   pollingActive: boolean;
   /** ポーリング間隔(ms) */
   pollingInterval: number;
+  /** ログ記録中かどうか (logWriterのセッション状態を反映) */
+  recording: boolean;
 }
 
 interface OBDStoreActions {
@@ -40,6 +42,9 @@ interface OBDStoreActions {
    */
   setPollingInterval: (intervalMs: number) => void;
 
+  /** ログ記録状態を設定する */
+  setRecording: (recording: boolean) => void;
+
   /** 全PIDデータをクリアする */
   clearData: () => void;
 }
@@ -50,6 +55,7 @@ const initialState: OBDStoreState = {
   data: {},
   pollingActive: false,
   pollingInterval: DEFAULT_POLLING_INTERVAL_MS,
+  recording: false,
 };
 
 /**
@@ -88,5 +94,7 @@ export const useOBDStore = create<OBDStore>(set => ({
     set({ pollingInterval: clamped });
   },
 
+  setRecording: (recording: boolean) => set({ recording }),
+
   clearData: () => set({ data: {} }),
 }));
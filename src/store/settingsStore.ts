@@ -1,18 +1,31 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import type {
+  AcquisitionMode,
   DashboardLayout,
+  DerivedSignalDefinition,
+  FuelEconomyUnit,
   MeterConfig,
   ThemeMode,
   UnitSystem,
 } from '../types/obd';
+import { DEFAULT_METERS } from '../utils/meterLayout';
+import { copyPage } from '../utils/dashboardPages';
+import { defaultFuelEconomyUnit, type UnitPreferences } from '../utils/units';
 
 interface SettingsStoreState {
-  /** ダッシュボードレイアウト設定 */
-  dashboardLayout: DashboardLayout;
-  /** テーマ (light / dark) */
+  /** ダッシュボードのページ (スワイプ順) */
+  dashboardPages: DashboardLayout[];
+  /** 表示中のページID */
+  activePageId: string;
+  /** テーマ (light / dark / high-contrast) */
   theme: ThemeMode;
+  /** 夜間 (19時〜6時) は減光パレットに切り替える */
+  nightDimming: boolean;
   /** 単位系 (metric / imperial) */
   unit: UnitSystem;
+  /** 燃費の表示単位 */
+  fuelEconomyUnit: FuelEconomyUnit;
   /** 画面スリープ防止 */
   keepScreenOn: boolean;
   /** ポーリング間隔 (ms) - 100~1000 */
@@ -21,17 +34,39 @@ interface SettingsStoreState {
   autoReconnect: boolean;
   /** 自動ログ記録 */
   autoLog: boolean;
+  /** データ取得方式 (polling / sniffing / combined) */
+  acquisitionMode: AcquisitionMode;
+  /** ユーザー定義の派生シグナル (組み込みの派生シグナルは含まない) */
+  derivedSignals: DerivedSignalDefinition[];
+  /** PIDブラウザでウォッチリストに追加したシグナル (ポーリング対象に追加される) */
+  watchedPids: string[];
   /** ログバッファサイズ (件数) */
   logBufferSize: number;
 }
 
 interface SettingsStoreActions {
-  /** ダッシュボードレイアウト全体を設定する */
-  setLayout: (layout: DashboardLayout) => void;
+  /** 表示中のページを切り替える */
+  setActivePage: (pageId: string) => void;
+  /** ページを末尾に追加して表示する */
+  addPage: (page: DashboardLayout) => void;
+  /** ページ名を変更する */
+  renamePage: (pageId: string, name: string) => void;
+  /** ページを複製して直後に挿入する */
+  duplicatePage: (pageId: string) => void;
+  /** ページを削除する (最後の1ページは削除しない) */
+  removePage: (pageId: string) => void;
+  /** ページを指定位置へ移動する */
+  movePage: (pageId: string, toIndex: number) => void;
+  /** インポートしたページを末尾に追加する */
+  importPages: (pages: DashboardLayout[]) => void;
   /** テーマを変更する */
   setTheme: (theme: ThemeMode) => void;
-  /** 単位系を変更する */
+  /** 夜間減光を切り替える */
+  setNightDimming: (enabled: boolean) => void;
+  /** 単位系を変更する (燃費単位もその単位系の標準に合わせる) */
   setUnit: (unit: UnitSystem) => void;
+  /** 燃費の表示単位を変更する */
+  setFuelEconomyUnit: (unit: FuelEconomyUnit) => void;
   /** 画面スリープ防止を切り替える */
   toggleKeepScreen: () => void;
   /** ポーリング間隔を設定する (100-1000ms) */
@@ -40,17 +75,34 @@ interface SettingsStoreActions {
   setAutoReconnect: (enabled: boolean) => void;
   /** 自動ログ記録を切り替える */
   setAutoLog: (enabled: boolean) => void;
+  /** データ取得方式を変更する */
+  setAcquisitionMode: (mode: AcquisitionMode) => void;
+  /**
+   * 派生シグナルを保存する (同じIDがあれば置き換え、なければ末尾に追加)
+   * @param previousPid - 編集前のID (IDを変更した場合は旧定義を置き換える)
+   */
+  saveDerivedSignal: (signal: DerivedSignalDefinition, previousPid?: string) => void;
+  /** 派生シグナルを削除する */
+  removeDerivedSignal: (pid: string) => void;
+  /** シグナルをウォッチリストに追加・削除する */
+  toggleWatchedPid: (pid: string) => void;
   /** ログバッファサイズを更新する */
   setLogBufferSize: (size: number) => void;
   /** データをクリアする (ログバッファリセット) */
   clearData: () => void;
+  /** ページにメーターを追加する */
+  addMeter: (pageId: string, meter: MeterConfig) => void;
+  /** ページからメーターを削除する */
+  removeMeter: (pageId: string, meterId: string) => void;
   /**
    * 特定のメーター設定を更新する。
    * 対象メーターが存在しない場合は何もしない。
+   * @param pageId - メーターがあるページのID
    * @param meterId - 更新対象のメーターID
    * @param updates - 更新するフィールド (部分更新可)
    */
   updateMeterConfig: (
+    pageId: string,
     meterId: string,
     updates: Partial<Omit<MeterConfig, 'id'>>,
   ) => void;
@@ -58,23 +110,44 @@ interface SettingsStoreActions {
 
 type SettingsStore = SettingsStoreState & SettingsStoreActions;
 
+/** 再起動後も保持する設定 (settingsPersistence がDBに保存する) */
+export type PersistedSettings = Omit<SettingsStoreState, 'logBufferSize'>;
+
 /** デフォルトのダッシュボードレイアウト */
 const defaultLayout: DashboardLayout = {
+  id: 'page-1',
   name: 'Default',
-  meters: [],
+  meters: DEFAULT_METERS,
 };
 
 const initialState: SettingsStoreState = {
-  dashboardLayout: defaultLayout,
+  dashboardPages: [defaultLayout],
+  activePageId: defaultLayout.id,
   theme: 'dark',
+  nightDimming: false,
   unit: 'metric',
+  fuelEconomyUnit: 'km/L',
   keepScreenOn: true,
   pollingInterval: 250,
   autoReconnect: true,
   autoLog: false,
+  acquisitionMode: 'polling',
+  derivedSignals: [],
+  watchedPids: [],
   logBufferSize: 0,
 };
 
+/** 指定ページのメーター一覧を置き換えた pages を返す */
+function updatePageMeters(
+  pages: DashboardLayout[],
+  pageId: string,
+  update: (meters: MeterConfig[]) => MeterConfig[],
+): DashboardLayout[] {
+  return pages.map(page =>
+    page.id === pageId ? { ...page, meters: update(page.meters) } : page,
+  );
+}
+
 /**
  * アプリ設定を管理するZustandストア
  *
@@ -84,14 +157,77 @@ const initialState: SettingsStoreState = {
 export const useSettingsStore = create<SettingsStore>((set) => ({
   ...initialState,
 
-  setLayout: (layout: DashboardLayout) =>
-    set({ dashboardLayout: layout }),
+  setActivePage: (pageId: string) =>
+    set({ activePageId: pageId }),
+
+  addPage: (page: DashboardLayout) =>
+    set(current => ({
+      dashboardPages: [...current.dashboardPages, page],
+      activePageId: page.id,
+    })),
+
+  renamePage: (pageId: string, name: string) =>
+    set(current => ({
+      dashboardPages: current.dashboardPages.map(page =>
+        page.id === pageId ? { ...page, name } : page,
+      ),
+    })),
+
+  duplicatePage: (pageId: string) =>
+    set(current => {
+      const index = current.dashboardPages.findIndex(page => page.id === pageId);
+      if (index === -1) {
+        return current;
+      }
+      const copy = copyPage(current.dashboardPages[index]);
+      const pages = [...current.dashboardPages];
+      pages.splice(index + 1, 0, copy);
+      return { dashboardPages: pages };
+    }),
+
+  removePage: (pageId: string) =>
+    set(current => {
+      const index = current.dashboardPages.findIndex(page => page.id === pageId);
+      if (index === -1 || current.dashboardPages.length <= 1) {
+        return current;
+      }
+      const pages = current.dashboardPages.filter(page => page.id !== pageId);
+      // 表示中のページを消した場合は隣のページを表示する
+      const activePageId =
+        current.activePageId === pageId
+          ? pages[Math.min(index, pages.length - 1)].id
+          : current.activePageId;
+      return { dashboardPages: pages, activePageId };
+    }),
+
+  movePage: (pageId: string, toIndex: number) =>
+    set(current => {
+      const index = current.dashboardPages.findIndex(page => page.id === pageId);
+      if (index === -1) {
+        return current;
+      }
+      const pages = [...current.dashboardPages];
+      const [page] = pages.splice(index, 1);
+      pages.splice(Math.max(0, Math.min(pages.length, toIndex)), 0, page);
+      return { dashboardPages: pages };
+    }),
+
+  importPages: (pages: DashboardLayout[]) =>
+    set(current => ({
+      dashboardPages: [...current.dashboardPages, ...pages],
+    })),
 
   setTheme: (theme: ThemeMode) =>
     set({ theme }),
 
+  setNightDimming: (enabled: boolean) =>
+    set({ nightDimming: enabled }),
+
   setUnit: (unit: UnitSystem) =>
-    set({ unit }),
+    set({ unit, fuelEconomyUnit: defaultFuelEconomyUnit(unit) }),
+
+  setFuelEconomyUnit: (unit: FuelEconomyUnit) =>
+    set({ fuelEconomyUnit: unit }),
 
   toggleKeepScreen: () =>
     set(current => ({ keepScreenOn: !current.keepScreenOn })),
@@ -105,41 +241,78 @@ export const useSettingsStore = create<SettingsStore>((set) => ({
   setAutoLog: (enabled: boolean) =>
     set({ autoLog: enabled }),
 
+  setAcquisitionMode: (mode: AcquisitionMode) =>
+    set({ acquisitionMode: mode }),
+
+  saveDerivedSignal: (signal: DerivedSignalDefinition, previousPid?: string) =>
+    set(current => {
+      const target = previousPid ?? signal.pid;
+      const index = current.derivedSignals.findIndex(s => s.pid === target);
+      // IDを変更した結果、別の定義と重複する場合はそちらを取り除く
+      const others = current.derivedSignals.filter(
+        (s, i) => i === index || s.pid !== signal.pid,
+      );
+      if (index === -1) {
+        return { derivedSignals: [...others, signal] };
+      }
+      return {
+        derivedSignals: others.map(s => (s.pid === target ? signal : s)),
+      };
+    }),
+
+  removeDerivedSignal: (pid: string) =>
+    set(current => ({
+      derivedSignals: current.derivedSignals.filter(s => s.pid !== pid),
+    })),
+
+  toggleWatchedPid: (pid: string) =>
+    set(current => ({
+      watchedPids: current.watchedPids.includes(pid)
+        ? current.watchedPids.filter(p => p !== pid)
+        : [...current.watchedPids, pid],
+    })),
+
   setLogBufferSize: (size: number) =>
     set({ logBufferSize: size }),
 
   clearData: () =>
     set({ logBufferSize: 0 }),
 
+  addMeter: (pageId: string, meter: MeterConfig) =>
+    set(current => ({
+      dashboardPages: updatePageMeters(current.dashboardPages, pageId, meters => [
+        ...meters,
+        meter,
+      ]),
+    })),
+
+  removeMeter: (pageId: string, meterId: string) =>
+    set(current => ({
+      dashboardPages: updatePageMeters(current.dashboardPages, pageId, meters =>
+        meters.filter(m => m.id !== meterId),
+      ),
+    })),
+
   updateMeterConfig: (
+    pageId: string,
     meterId: string,
     updates: Partial<Omit<MeterConfig, 'id'>>,
   ) =>
-    set(current => {
-      const meterIndex = current.dashboardLayout.meters.findIndex(
-        m => m.id === meterId,
-      );
-
-      // 対象メーターが存在しない場合は変更なし
-      if (meterIndex === -1) {
-        return current;
-      }
-
-      const existingMeter = current.dashboardLayout.meters[meterIndex];
-      const updatedMeter: MeterConfig = {
-        ...existingMeter,
-        ...updates,
-        id: existingMeter.id, // idは上書き不可
-      };
-
-      const updatedMeters = [...current.dashboardLayout.meters];
-      updatedMeters[meterIndex] = updatedMeter;
-
-      return {
-        dashboardLayout: {
-          ...current.dashboardLayout,
-          meters: updatedMeters,
-        },
-      };
-    }),
+    set(current => ({
+      dashboardPages: updatePageMeters(current.dashboardPages, pageId, meters =>
+        meters.map(m =>
+          // 対象メーターが存在しない場合は変更なし (idは上書き不可)
+          m.id === meterId ? { ...m, ...updates, id: m.id } : m,
+        ),
+      ),
+    })),
 }));
+
+/**
+ * 表示単位の設定を購読するフック (単位変換 unitConversion / signalConversion に渡す)
+ */
+export function useUnitPreferences(): UnitPreferences {
+  const system = useSettingsStore(s => s.unit);
+  const fuelEconomy = useSettingsStore(s => s.fuelEconomyUnit);
+  return useMemo(() => ({ system, fuelEconomy }), [system, fuelEconomy]);
+}
@@ -4,6 +4,7 @@ export type ConnectionState =
   | 'scanning'
   | 'connecting'
   | 'connected'
+  | 'reconnecting'
   | 'error';
 
 // OBD PID定義
@@ -36,8 +37,55 @@ export interface PidDefinition {
    * If omitted, the protocol layer will use functional header "7DF".
    */
   header?: string;
+
+  /**
+   * Number of data bytes after the PID byte in a Mode 01 response (e.g. 2 for "41 0C 1A F8").
+   * Needed to split a combined multi-PID reply ("41 0C 1A F8 0D 3C") back into signals.
+   */
+  responseBytes?: number;
+
+  /**
+   * Target polling rate in Hz (e.g. 10 for speed, 0.2 for cabin temperature).
+   * Signals sharing a request are polled at the highest rate among them.
+   * If omitted, the signal is polled at the app's polling interval.
+   */
+  pollRateHz?: number;
 }
 
+// 受動モニタ(ATMA)で受信するブロードキャストフレームのシグナル定義 (PidDefinitionと同じ形)
+export interface CanSignalDefinition
+  extends Pick<PidDefinition, 'pid' | 'name' | 'shortName' | 'unit' | 'min' | 'max'> {
+  /** 11-bit arbitration ID of the periodic frame, e.g. "3CB". */
+  canId: string;
+  /** Decode the frame's data bytes (all 0-8 of them, no PCI). */
+  decode: (bytes: number[]) => number;
+}
+
+// Torque Pro形式のカスタムPID (CSVの1行。PIDパックとしてインポートしDBに保存する)
+export interface TorquePidRow {
+  name: string;
+  shortName: string;
+  /** Request bytes, e.g. "2181" or "220138". */
+  modeAndPid: string;
+  /** Torque equation, e.g. "(A * 256 + B) / 100". */
+  equation: string;
+  min: number;
+  max: number;
+  units: string;
+  /** CAN TX header, e.g. "7E2" (empty = functional 7DF). */
+  header: string;
+}
+
+// 他のシグナルから式で計算する派生シグナルの定義 (ユーザー定義は設定に保存される)
+export interface DerivedSignalDefinition
+  extends Pick<PidDefinition, 'pid' | 'name' | 'shortName' | 'unit' | 'min' | 'max'> {
+  /** Torque-style expression over other signals, e.g. "VAL{TOYOTA_HV_VOLTAGE} * 2". */
+  expression: string;
+}
+
+// データ取得方式: ポーリング / 受動モニタ / 併用
+export type AcquisitionMode = 'polling' | 'sniffing' | 'combined';
+
 // リアルタイムOBDデータ（PIDごとの最新値）
 export interface OBDData {
   [pid: string]: {
@@ -52,14 +100,19 @@ export interface BLEDevice {
   id: string;
   name: string | null;
   rssi: number | null;
+  transport?: DeviceTransport; // 接続方式 (省略時は classic)
 }
 
+// アダプタ接続方式
+export type DeviceTransport = 'classic' | 'ble' | 'wifi' | 'virtual';
+
 // ログセッション
 export interface LogSession {
   id: number;
   startTime: number;
   endTime: number | null;
   dataPointCount: number;
+  vin: string | null;  // 記録した車両 (VIN不明・旧セッションは null)
 }
 
 // データポイント (ログ用)
@@ -70,6 +123,27 @@ export interface DataPoint {
   value: number;
 }
 
+// CANキャプチャ (スニファで記録した生フレームのセッション)
+export interface CanCapture {
+  id: number;
+  startTime: number;
+  endTime: number | null;
+  frameCount: number;
+  /** 記録時の受信フィルタ ("filter/mask"、null = 全ID) */
+  filter: string | null;
+}
+
+// CANスニファのID別集計
+export interface CanIdStats {
+  id: string;
+  count: number;
+  rateHz: number;
+  data: number[];
+  /** 直近に値が変化したバイト */
+  changed: boolean[];
+  lastSeen: number;
+}
+
 // メーター表示タイプ
 export type MeterType = 'gauge' | 'bar' | 'digital';
 
@@ -78,12 +152,24 @@ export interface MeterConfig {
   id: string;
   pid: string;
   type: MeterType;
+  /** ダッシュボードグリッド上の位置 (セル単位) */
   position: { x: number; y: number };
+  /** 幅・高さ (セル単位) */
   size: { width: number; height: number };
+  /** 表示ラベル (省略時は PidDefinition.shortName) */
+  label?: string;
+  /** レンジ・単位 (省略時は PidDefinition の値) */
+  min?: number;
+  max?: number;
+  unit?: string;
+  /** 警告色/危険色にする閾値 (gauge/bar) */
+  warningThreshold?: number;
+  dangerThreshold?: number;
 }
 
-// ダッシュボードレイアウト
+// ダッシュボードレイアウト (1ページ分)
 export interface DashboardLayout {
+  id: string;
   name: string;
   meters: MeterConfig[];
 }
@@ -97,12 +183,15 @@ export interface FuelEconomyData {
   fuelUsedL: number;
 }
 
-// テーマ設定
-export type ThemeMode = 'light' | 'dark';
+// テーマ設定 (high-contrast は直射日光下向け)
+export type ThemeMode = 'light' | 'dark' | 'high-contrast';
 
 // 単位系
 export type UnitSystem = 'metric' | 'imperial';
 
+// 燃費の表示単位 (mpg-us / mpg-uk はそれぞれ米ガロン・英ガロン)
+export type FuelEconomyUnit = 'km/L' | 'L/100km' | 'mpg-us' | 'mpg-uk';
+
 // バッテリーモジュールデータ (28モジュール)
 export interface BatteryModuleData {
   moduleIndex: number;     // 0-27
@@ -129,6 +218,43 @@ export interface DiagnosticTroubleCode {
   code: string;          // e.g. "P0301"
   description: string;   // e.g. "Cylinder 1 Misfire Detected"
   isPending: boolean;    // 保留中のDTCか
+  isPermanent?: boolean; // Mode 0A 永続DTCか
+  ecu?: string;          // 応答したECUの送信ヘッダー (e.g. "7E2")
+  freezeFrame?: FreezeFrame; // このDTCが記録させたフリーズフレーム (Mode 02)
+}
+
+// フリーズフレーム (Mode 02): DTC確定時のスナップショット
+export interface FreezeFrame {
+  dtcCode: string;                 // フレームを記録させたDTC
+  values: Record<string, number>;  // Mode 01 PID ('010C' 等) → デコード値
+}
+
+// ECU単位のDTCスキャン結果
+export interface EcuDtcScanResult {
+  ecu: string;                 // 送信ヘッダー (e.g. "7B0")
+  responded: boolean;          // Mode 03/07/0A のいずれかに肯定応答したか
+  dtcs: DiagnosticTroubleCode[];
+}
+
+// Mode 09 で読んだECUごとの識別情報
+export interface EcuVehicleInfo {
+  ecu: string;                 // 送信ヘッダー (e.g. "7E0")
+  name: string | null;         // ECU名 (090A, e.g. "ECM-EngineControl")
+  calibrationIds: string[];    // キャリブレーションID (0904)
+  cvns: string[];              // キャリブレーション検証番号 (0906, 8桁の16進)
+}
+
+// 車両情報 (Mode 09)
+export interface VehicleInfo {
+  vin: string | null;          // 0902 (読めなければ Mode 22 F190)
+  ecus: EcuVehicleInfo[];
+}
+
+// 車両ごとのシグナル対応状況 (リクエストグループ単位、VINごとにDBへキャッシュ)
+export interface SignalSupportSummary {
+  supported: number;   // 応答したグループ数
+  total: number;       // 調べたグループ数
+  scannedAt: number;   // 調べた日時 (epoch ms)
 }
 
 // パワーフロー状態
@@ -0,0 +1,103 @@
+import type { DashboardLayout, MeterConfig } from '../types/obd';
+import { clampMeter } from './meterLayout';
+
+// Marker for exported page files so an unrelated JSON file is rejected with a clear message.
+const EXPORT_FORMAT = 'obd-meter-dashboard';
+const EXPORT_VERSION = 1;
+
+let pageCounter = 0;
+
+/** A page id that is unique on this device (pages created in the same ms still differ). */
+export function createPageId(): string {
+  pageCounter += 1;
+  return `page-${Date.now().toString(36)}-${pageCounter}`;
+}
+
+export function createPage(name: string, meters: MeterConfig[] = []): DashboardLayout {
+  return { id: createPageId(), name, meters };
+}
+
+/** Copy of a page under a new id; meter ids only need to be unique within a page. */
+export function copyPage(page: DashboardLayout): DashboardLayout {
+  return createPage(`${page.name} copy`, page.meters.map((meter) => ({ ...meter })));
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isOptional = (v: unknown, check: (value: unknown) => boolean): boolean =>
+  v === undefined || check(v);
+
+export function isMeterConfig(v: unknown): v is MeterConfig {
+  return (
+    isObject(v) &&
+    typeof v.id === 'string' &&
+    typeof v.pid === 'string' &&
+    (v.type === 'gauge' || v.type === 'bar' || v.type === 'digital') &&
+    isObject(v.position) &&
+    isNumber(v.position.x) &&
+    isNumber(v.position.y) &&
+    isObject(v.size) &&
+    isNumber(v.size.width) &&
+    isNumber(v.size.height) &&
+    isOptional(v.label, (x) => typeof x === 'string') &&
+    isOptional(v.unit, (x) => typeof x === 'string') &&
+    isOptional(v.min, isNumber) &&
+    isOptional(v.max, isNumber) &&
+    isOptional(v.warningThreshold, isNumber) &&
+    isOptional(v.dangerThreshold, isNumber)
+  );
+}
+
+/** Page content without the id check (imported pages get fresh ids). */
+function isPageContent(v: unknown): v is Omit<DashboardLayout, 'id'> {
+  return (
+    isObject(v) &&
+    typeof v.name === 'string' &&
+    Array.isArray(v.meters) &&
+    v.meters.every(isMeterConfig)
+  );
+}
+
+export function isDashboardLayout(v: unknown): v is DashboardLayout {
+  return isPageContent(v) && typeof (v as Record<string, unknown>).id === 'string';
+}
+
+/** Serialize pages for sharing as a .json file. */
+export function exportPages(pages: DashboardLayout[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, pages }, null, 2);
+}
+
+/**
+ * Parse an exported page file. Accepts the export envelope or a single page object.
+ * Imported pages get new ids (so they never collide with existing pages) and their
+ * meters are clamped to the grid.
+ *
+ * @throws Error with a user-facing message when the JSON is not a page file
+ */
+export function importPages(json: string): DashboardLayout[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let pages: unknown[];
+  if (isObject(parsed) && parsed.format === EXPORT_FORMAT) {
+    if (!isNumber(parsed.version) || parsed.version > EXPORT_VERSION) {
+      throw new Error('The file was exported by a newer version of the app.');
+    }
+    pages = Array.isArray(parsed.pages) ? parsed.pages : [];
+  } else {
+    pages = [parsed];
+  }
+
+  if (pages.length === 0 || !pages.every(isPageContent)) {
+    throw new Error('The file does not contain dashboard pages.');
+  }
+
+  return pages.map((page) => createPage(page.name, page.meters.map(clampMeter)));
+}
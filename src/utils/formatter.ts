@@ -1,8 +1,5 @@
-import type { UnitSystem } from '../types/obd';
-
-// Unit conversion constants
-const KMH_TO_MPH = 0.621371192237334;
-const KM_PER_L_TO_MPG_US = 2.3521458333333335;
+import type { FuelEconomyUnit, UnitSystem } from '../types/obd';
+import { defaultFuelEconomyUnit, unitConversion } from './units';
 
 // PID -> default decimals for meter display.
 // Keep this focused on PIDs used by this app; fallback heuristics handle unknowns.
@@ -39,7 +36,8 @@ const PID_DECIMALS: Record<string, number> = {
   '210A': 0, // HV Battery Temp Distribution (°C)
   '210B': 1, // 12V Auxiliary Battery (V)
 
-  // --- App-calculated keys (if used by store/UI) ---
+  // --- App-calculated keys (derived signals / fuel analysis) ---
+  CALC_HV_POWER: 1,
   CALC_INSTANT_FUEL: 1,
   CALC_AVG_FUEL: 1,
   CALC_EV_RATIO: 0,
@@ -85,6 +83,11 @@ function guessDecimals(value: number): number {
   return 3;
 }
 
+/** Decimals a meter shows for a PID when no value-based guess is wanted (e.g. DigitalMeter). */
+export function pidDecimals(pid: string): number {
+  return PID_DECIMALS[normalizePid(pid)] ?? 1;
+}
+
 /**
  * Format a decoded PID value for meter display with PID-appropriate decimals.
  * This function does not append units.
@@ -105,37 +108,39 @@ export function formatPidValue(value: number, pid: string): string {
 export function formatSpeed(kmh: number, unit: UnitSystem): string {
   if (!Number.isFinite(kmh)) return '--';
 
-  const kmhClamped = Math.max(0, kmh);
-  if (unit === 'imperial') {
-    const mph = kmhClamped * KMH_TO_MPH;
-    return `${Math.round(mph)} mph`;
-  }
-
-  return `${Math.round(kmhClamped)} km/h`;
+  const conversion = unitConversion('km/h', { system: unit, fuelEconomy: 'km/L' });
+  return `${Math.round(conversion.convert(Math.max(0, kmh)))} ${conversion.unit}`;
 }
 
 /** Format temperature from Celsius into the configured unit system. */
 export function formatTemperature(celsius: number, unit: UnitSystem): string {
   if (!Number.isFinite(celsius)) return '--';
 
-  if (unit === 'imperial') {
-    const f = (celsius * 9) / 5 + 32;
-    return `${Math.round(f)}\u00B0F`;
-  }
-
-  return `${Math.round(celsius)}\u00B0C`;
+  const conversion = unitConversion('\u00B0C', { system: unit, fuelEconomy: 'km/L' });
+  return `${Math.round(conversion.convert(celsius))}${conversion.unit}`;
 }
 
-/** Format fuel economy from km/L into the configured unit system (mpg = US). */
-export function formatFuelEconomy(kmPerL: number, unit: UnitSystem): string {
+/**
+ * Format fuel economy from km/L. The unit defaults to the one that goes with the unit
+ * system (mpg = US).
+ */
+export function formatFuelEconomy(
+  kmPerL: number,
+  unit: UnitSystem,
+  fuelEconomy: FuelEconomyUnit = defaultFuelEconomyUnit(unit),
+): string {
   if (!Number.isFinite(kmPerL) || kmPerL <= 0) return '--';
 
-  if (unit === 'imperial') {
-    const mpg = kmPerL * KM_PER_L_TO_MPG_US;
-    return `${toFixedSafe(mpg, 1)} mpg`;
-  }
+  const conversion = unitConversion('km/L', { system: unit, fuelEconomy });
+  return `${toFixedSafe(conversion.convert(kmPerL), 1)} ${conversion.unit}`;
+}
+
+/** Format a distance from km into the configured unit system (e.g. "12.34 mi"). */
+export function formatDistance(km: number, unit: UnitSystem, decimals = 2): string {
+  if (!Number.isFinite(km)) return '--';
 
-  return `${toFixedSafe(kmPerL, 1)} km/L`;
+  const conversion = unitConversion('km', { system: unit, fuelEconomy: 'km/L' });
+  return `${toFixedSafe(conversion.convert(km), decimals)} ${conversion.unit}`;
 }
 
 /** Format HV battery SOC (%) as a clamped integer percentage string. */
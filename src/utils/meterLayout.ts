@@ -0,0 +1,223 @@
+import type { MeterConfig, MeterType, PidDefinition } from '../types/obd';
+import { BUILTIN_DERIVED_SIGNALS } from '../obd/pid/derived';
+import { STANDARD_PIDS } from '../obd/pid/standard';
+import { TOYOTA_PIDS } from '../obd/pid/toyota';
+
+// Dashboard grid: the meter area is split into equal cells; MeterConfig position/size are in
+// cells so a layout fits any screen size.
+export const DASHBOARD_COLUMNS = 12;
+export const DASHBOARD_ROWS = 6;
+
+/** Smallest meter per type (cells), so gauges stay readable. */
+const MIN_SIZE: Record<MeterType, { width: number; height: number }> = {
+  gauge: { width: 2, height: 2 },
+  bar: { width: 2, height: 1 },
+  digital: { width: 2, height: 1 },
+};
+
+/** Size of a newly added meter (cells). */
+const NEW_METER_SIZE: Record<MeterType, { width: number; height: number }> = {
+  gauge: { width: 3, height: 3 },
+  bar: { width: 4, height: 1 },
+  digital: { width: 3, height: 1 },
+};
+
+/** What the dashboard needs to know about a signal, whether polled or derived. */
+export type MeterSignal = Pick<PidDefinition, 'pid' | 'name' | 'shortName' | 'unit' | 'min' | 'max'>;
+
+/** Every built-in signal a meter can show, keyed by signal id. */
+export const METER_SIGNALS: Record<string, MeterSignal> = {
+  ...STANDARD_PIDS,
+  ...TOYOTA_PIDS,
+  ...Object.fromEntries(BUILTIN_DERIVED_SIGNALS.map((signal) => [signal.pid, signal])),
+};
+
+export type UserSignalSource = 'derived' | 'packs';
+
+/**
+ * User-defined signals registered at runtime, per source ("derived" signals from the settings,
+ * "packs" from imported PID packs).
+ */
+const userSignals: Record<UserSignalSource, Record<string, MeterSignal>> = {
+  derived: {},
+  packs: {},
+};
+
+/**
+ * Replace the user-defined signals of one source. Ids that collide with a built-in signal
+ * are ignored; the built-in definition wins.
+ */
+export function registerUserSignals(
+  source: UserSignalSource,
+  signals: ReadonlyArray<MeterSignal>,
+): void {
+  userSignals[source] = Object.fromEntries(
+    signals.filter((signal) => !METER_SIGNALS[signal.pid]).map((signal) => [signal.pid, signal]),
+  );
+}
+
+/** Look up a built-in or user-defined signal. */
+export function meterSignal(pid: string): MeterSignal | undefined {
+  return METER_SIGNALS[pid] ?? userSignals.derived[pid] ?? userSignals.packs[pid];
+}
+
+/** All signals a meter can show: built-in first, then user-defined. */
+export function meterSignalList(): MeterSignal[] {
+  return [
+    ...Object.values(METER_SIGNALS),
+    ...Object.values(userSignals.derived),
+    ...Object.values(userSignals.packs).filter((signal) => !userSignals.derived[signal.pid]),
+  ];
+}
+
+/**
+ * Layout shown until the user edits it: the former fixed dashboard (RPM and speed gauges,
+ * coolant, HV battery, throttle) on the grid.
+ */
+export const DEFAULT_METERS: MeterConfig[] = [
+  {
+    id: 'rpm',
+    pid: '010C',
+    type: 'gauge',
+    position: { x: 0, y: 0 },
+    size: { width: 6, height: 3 },
+    label: 'ENGINE RPM',
+    max: 6000,
+    warningThreshold: 4500,
+    dangerThreshold: 5500,
+  },
+  {
+    id: 'speed',
+    pid: '010D',
+    type: 'gauge',
+    position: { x: 6, y: 0 },
+    size: { width: 6, height: 3 },
+    label: 'SPEED',
+    max: 180,
+    warningThreshold: 120,
+    dangerThreshold: 140,
+  },
+  {
+    id: 'coolant',
+    pid: '0105',
+    type: 'gauge',
+    position: { x: 0, y: 3 },
+    size: { width: 3, height: 2 },
+    label: 'COOLANT',
+    min: 0,
+    max: 130,
+    warningThreshold: 100,
+    dangerThreshold: 110,
+  },
+  {
+    id: 'soc',
+    pid: 'TOYOTA_HV_SOC',
+    type: 'bar',
+    position: { x: 3, y: 3 },
+    size: { width: 5, height: 1 },
+    label: 'HV SOC',
+  },
+  {
+    id: 'hv-current',
+    pid: 'TOYOTA_HV_CURRENT',
+    type: 'digital',
+    position: { x: 3, y: 4 },
+    size: { width: 5, height: 1 },
+    label: 'HV CURRENT',
+  },
+  {
+    id: 'throttle',
+    pid: '0111',
+    type: 'bar',
+    position: { x: 8, y: 3 },
+    size: { width: 4, height: 2 },
+    label: 'THROTTLE',
+    warningThreshold: 80,
+  },
+  {
+    id: 'hv-voltage',
+    pid: 'TOYOTA_HV_VOLTAGE',
+    type: 'digital',
+    position: { x: 0, y: 5 },
+    size: { width: 4, height: 1 },
+    label: 'HV VOLTAGE',
+  },
+  {
+    id: 'hv-temp',
+    pid: 'TOYOTA_HV_TEMP',
+    type: 'digital',
+    position: { x: 4, y: 5 },
+    size: { width: 4, height: 1 },
+    label: 'HV TEMP',
+  },
+  {
+    id: 'ambient',
+    pid: '0146',
+    type: 'digital',
+    position: { x: 8, y: 5 },
+    size: { width: 4, height: 1 },
+    label: 'AMBIENT',
+  },
+];
+
+/** What a meter displays: its overrides, falling back to the signal's PidDefinition. */
+export interface ResolvedMeter {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+}
+
+export function resolveMeter(meter: MeterConfig): ResolvedMeter {
+  const def = meterSignal(meter.pid);
+  return {
+    label: meter.label ?? def?.shortName ?? meter.pid,
+    unit: meter.unit ?? def?.unit ?? '',
+    min: meter.min ?? def?.min ?? 0,
+    max: meter.max ?? def?.max ?? 100,
+  };
+}
+
+/** Keep a meter inside the grid and at least its type's minimum size. */
+export function clampMeter(meter: MeterConfig): MeterConfig {
+  const minSize = MIN_SIZE[meter.type];
+  const width = Math.round(Math.min(DASHBOARD_COLUMNS, Math.max(minSize.width, meter.size.width)));
+  const height = Math.round(Math.min(DASHBOARD_ROWS, Math.max(minSize.height, meter.size.height)));
+  const x = Math.round(Math.min(DASHBOARD_COLUMNS - width, Math.max(0, meter.position.x)));
+  const y = Math.round(Math.min(DASHBOARD_ROWS - height, Math.max(0, meter.position.y)));
+  return { ...meter, position: { x, y }, size: { width, height } };
+}
+
+function overlaps(a: MeterConfig, b: MeterConfig): boolean {
+  return (
+    a.position.x < b.position.x + b.size.width &&
+    b.position.x < a.position.x + a.size.width &&
+    a.position.y < b.position.y + b.size.height &&
+    b.position.y < a.position.y + a.size.height
+  );
+}
+
+/**
+ * A new meter for `pid`, placed in the first free spot (top-left first), or at the origin
+ * on top of the others when the grid is full.
+ */
+export function createMeter(pid: string, type: MeterType, existing: MeterConfig[]): MeterConfig {
+  const size = NEW_METER_SIZE[type];
+  const meter: MeterConfig = {
+    id: `${pid}-${Date.now().toString(36)}`,
+    pid,
+    type,
+    position: { x: 0, y: 0 },
+    size: { ...size },
+  };
+
+  for (let y = 0; y + size.height <= DASHBOARD_ROWS; y++) {
+    for (let x = 0; x + size.width <= DASHBOARD_COLUMNS; x++) {
+      const candidate = { ...meter, position: { x, y } };
+      if (!existing.some((other) => overlaps(candidate, other))) {
+        return candidate;
+      }
+    }
+  }
+  return meter;
+}
@@ -0,0 +1,49 @@
+import type { PidDefinition } from '../types/obd';
+import { TOYOTA_ECU_NAMES } from '../obd/pid/toyota';
+
+/** Signals of one ECU (CAN TX header) in the PID browser. */
+export interface SignalGroup {
+  header: string;
+  /** ECU display name, or the header if unknown. */
+  title: string;
+  signals: PidDefinition[];
+}
+
+/** Signal matches every whitespace-separated term of the query (id, name, unit or request). */
+function matches(signal: PidDefinition, terms: string[]): boolean {
+  const text = [signal.pid, signal.name, signal.shortName, signal.unit, signal.request ?? '']
+    .join(' ')
+    .toUpperCase();
+  return terms.every((term) => text.includes(term));
+}
+
+/**
+ * Filter signals by a search query and group them by ECU header (sorted by header, then by
+ * request and name). Signals without a header go to the functional "7DF" group.
+ */
+export function groupSignalsByHeader(
+  signals: ReadonlyArray<PidDefinition>,
+  query: string,
+): SignalGroup[] {
+  const terms = query.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  const groups = new Map<string, PidDefinition[]>();
+
+  for (const signal of signals) {
+    if (!matches(signal, terms)) {
+      continue;
+    }
+    const header = (signal.header ?? '7DF').trim().toUpperCase();
+    const list = groups.get(header) ?? [];
+    list.push(signal);
+    groups.set(header, list);
+  }
+
+  return [...groups.keys()].sort().map((header) => ({
+    header,
+    title: TOYOTA_ECU_NAMES[header] ? `${header} ${TOYOTA_ECU_NAMES[header]}` : header,
+    signals: (groups.get(header) ?? []).sort(
+      (a, b) =>
+        (a.request ?? a.pid).localeCompare(b.request ?? b.pid) || a.name.localeCompare(b.name),
+    ),
+  }));
+}
@@ -1,53 +1,261 @@
 /**
- * OBD Meter - 統一テーマ定数
+ * OBD Meter - 統一テーマ定義
  *
- * 全画面・全コンポーネントでこのファイルのカラーを使用する。
- * Dark Mode (OLED) ベースの車載ダッシュボード向けパレット。
+ * 全画面・全コンポーネントはこのファイルのパレットを ThemeProvider 経由で使用する。
+ * 直接インポートせず、useTheme() / useThemedStyles() で現在のパレットを取得すること。
  */
 
-export const THEME = {
+import type { ThemeMode } from '../types/obd';
+
+export interface ThemeColors {
+  /** 暗い背景のパレットか (キーボード・ステータスバーの配色切り替え用) */
+  dark: boolean;
+
   // ── 背景 ──
-  bg: '#0a0a14',          // 最深背景 (OLED black寄り)
-  bgCard: '#12122a',      // カード背景
-  bgElevated: '#1a1a35',  // 浮き上がりカード / ヘッダー
-  bgInput: '#0e0e20',     // 入力フィールド背景
+  bg: string;          // 最深背景
+  bgCard: string;      // カード背景
+  bgElevated: string;  // 浮き上がりカード / ヘッダー
+  bgInput: string;     // 入力フィールド背景
+  overlay: string;     // モーダル背後の半透明レイヤー
 
   // ── ボーダー ──
-  border: '#1e1e3a',       // 通常ボーダー
-  borderSubtle: '#16162e', // 薄いボーダー
-  borderFocus: '#00d4ff33', // フォーカス時ボーダー
+  border: string;       // 通常ボーダー
+  borderSubtle: string; // 薄いボーダー
+  borderFocus: string;  // フォーカス時ボーダー
 
   // ── プライマリ / アクセント ──
-  primary: '#00d4ff',       // メインアクセント (シアン)
-  primaryDim: '#00a8cc',    // 暗めプライマリ
-  primaryGlow: '#00d4ff22', // グロー効果用
+  primary: string;     // メインアクセント
+  primaryDim: string;  // 暗めプライマリ
+  primaryGlow: string; // グロー効果用
+  onPrimary: string;   // プライマリ背景上のテキスト
 
-  accent: '#e94560',       // 危険・エラー (赤系)
-  success: '#00ff88',      // 成功・正常 (緑)
-  warning: '#ffd700',      // 警告 (イエロー)
+  accent: string;  // 危険・エラー (赤系)
+  success: string; // 成功・正常 (緑)
+  warning: string; // 警告 (イエロー)
 
   // ── テキスト ──
-  text: '#e8eaf6',         // プライマリテキスト (やや青味白)
-  textSecondary: '#8892a4', // セカンダリテキスト
-  textDim: '#5a6478',       // 薄い補助テキスト
-  textMuted: '#3a4258',     // 非常に薄いテキスト
+  text: string;          // プライマリテキスト
+  textSecondary: string; // セカンダリテキスト
+  textDim: string;       // 薄い補助テキスト
+  textMuted: string;     // 非常に薄いテキスト
 
   // ── セマンティック ──
-  engineColor: '#ff6b35',   // エンジン表示
-  batteryColor: '#00d4ff',  // バッテリー表示
-  motorColor: '#00ff88',    // モーター表示
-  wheelColor: '#ffd700',    // 駆動輪表示
+  engineColor: string;  // エンジン表示
+  batteryColor: string; // バッテリー表示
+  motorColor: string;   // モーター表示
+  wheelColor: string;   // 駆動輪表示
+  idleColor: string;    // 停止中の要素 (EV走行中のエンジンなど)
 
   // ── 共通寸法 ──
+  radiusSm: number;
+  radiusMd: number;
+  radiusLg: number;
+
+  // ── タブバー ──
+  tabBarBg: string;
+  tabBarBorder: string;
+  tabActive: string;
+  tabInactive: string;
+}
+
+const RADIUS = {
   radiusSm: 6,
   radiusMd: 10,
   radiusLg: 14,
+};
+
+/** Dark Mode (OLED) ベースの車載ダッシュボード向けパレット (既定) */
+export const DARK_THEME: ThemeColors = {
+  dark: true,
+
+  bg: '#0a0a14',          // OLED black寄り
+  bgCard: '#12122a',
+  bgElevated: '#1a1a35',
+  bgInput: '#0e0e20',
+  overlay: 'rgba(0, 0, 0, 0.6)',
+
+  border: '#1e1e3a',
+  borderSubtle: '#16162e',
+  borderFocus: '#00d4ff33',
+
+  primary: '#00d4ff',       // シアン
+  primaryDim: '#00a8cc',
+  primaryGlow: '#00d4ff22',
+  onPrimary: '#0a0a14',
+
+  accent: '#e94560',
+  success: '#00ff88',
+  warning: '#ffd700',
+
+  text: '#e8eaf6',          // やや青味白
+  textSecondary: '#8892a4',
+  textDim: '#5a6478',
+  textMuted: '#3a4258',
+
+  engineColor: '#ff6b35',
+  batteryColor: '#00d4ff',
+  motorColor: '#00ff88',
+  wheelColor: '#ffd700',
+  idleColor: '#2a2a38',
+
+  ...RADIUS,
 
-  // ── タブバー ──
   tabBarBg: '#0c0c1a',
   tabBarBorder: '#1a1a30',
   tabActive: '#00d4ff',
   tabInactive: '#4a5068',
-} as const;
+};
+
+/** 昼間・明るい車内向けのライトパレット */
+export const LIGHT_THEME: ThemeColors = {
+  dark: false,
+
+  bg: '#f2f4f8',
+  bgCard: '#ffffff',
+  bgElevated: '#e8ecf3',
+  bgInput: '#f7f8fb',
+  overlay: 'rgba(20, 26, 46, 0.4)',
+
+  border: '#d2d8e4',
+  borderSubtle: '#e2e6ee',
+  borderFocus: '#0088cc33',
+
+  primary: '#0088cc',
+  primaryDim: '#006a9e',
+  primaryGlow: '#0088cc1f',
+  onPrimary: '#ffffff',
+
+  accent: '#d7263d',
+  success: '#0a9a55',
+  warning: '#c28a00',
+
+  text: '#141a2e',
+  textSecondary: '#4a5468',
+  textDim: '#6b7488',
+  textMuted: '#a6aec0',
+
+  engineColor: '#e0561f',
+  batteryColor: '#0088cc',
+  motorColor: '#0a9a55',
+  wheelColor: '#c28a00',
+  idleColor: '#c9ceda',
+
+  ...RADIUS,
+
+  tabBarBg: '#ffffff',
+  tabBarBorder: '#d2d8e4',
+  tabActive: '#0088cc',
+  tabInactive: '#8a93a8',
+};
+
+/** 直射日光下向けの高コントラストパレット (白地に黒・濃い原色) */
+export const HIGH_CONTRAST_THEME: ThemeColors = {
+  dark: false,
 
-export type ThemeColors = typeof THEME;
+  bg: '#ffffff',
+  bgCard: '#ffffff',
+  bgElevated: '#ececec',
+  bgInput: '#ffffff',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+
+  border: '#000000',
+  borderSubtle: '#555555',
+  borderFocus: '#0047a3',
+
+  primary: '#0047a3',
+  primaryDim: '#003377',
+  primaryGlow: '#0047a326',
+  onPrimary: '#ffffff',
+
+  accent: '#c00000',
+  success: '#00682c',
+  warning: '#9c5700',
+
+  text: '#000000',
+  textSecondary: '#1a1a1a',
+  textDim: '#333333',
+  textMuted: '#5c5c5c',
+
+  engineColor: '#c23b00',
+  batteryColor: '#0047a3',
+  motorColor: '#00682c',
+  wheelColor: '#9c5700',
+  idleColor: '#9a9a9a',
+
+  ...RADIUS,
+
+  tabBarBg: '#ffffff',
+  tabBarBorder: '#000000',
+  tabActive: '#0047a3',
+  tabInactive: '#333333',
+};
+
+/** 夜間減光パレット (輝度を落として眩しさを抑える) */
+export const NIGHT_THEME: ThemeColors = {
+  dark: true,
+
+  bg: '#000000',
+  bgCard: '#07070e',
+  bgElevated: '#0c0c18',
+  bgInput: '#05050b',
+  overlay: 'rgba(0, 0, 0, 0.75)',
+
+  border: '#121222',
+  borderSubtle: '#0c0c18',
+  borderFocus: '#00708a33',
+
+  primary: '#00708a',
+  primaryDim: '#005566',
+  primaryGlow: '#00708a22',
+  onPrimary: '#000000',
+
+  accent: '#8c2a3a',
+  success: '#007a45',
+  warning: '#8a7400',
+
+  text: '#8a8d9c',
+  textSecondary: '#5a6070',
+  textDim: '#3e4452',
+  textMuted: '#272b38',
+
+  engineColor: '#8c3c1e',
+  batteryColor: '#00708a',
+  motorColor: '#007a45',
+  wheelColor: '#8a7400',
+  idleColor: '#16161e',
+
+  ...RADIUS,
+
+  tabBarBg: '#000000',
+  tabBarBorder: '#0c0c18',
+  tabActive: '#00708a',
+  tabInactive: '#2e3344',
+};
+
+const PALETTES: Record<ThemeMode, ThemeColors> = {
+  dark: DARK_THEME,
+  light: LIGHT_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME,
+};
+
+/** 夜間減光を行う時間帯 (ローカル時刻, 開始時 <= h または h < 終了時) */
+export const NIGHT_START_HOUR = 19;
+export const NIGHT_END_HOUR = 6;
+
+export function isNightTime(date: Date): boolean {
+  const hour = date.getHours();
+  return hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+}
+
+/**
+ * 表示に使うパレットを決める
+ *
+ * 減光中 (夜間減光が有効かつ夜間) は選択中のテーマに関係なく減光パレットを使う
+ * (日中に高コントラストを選んでいても夜は眩しくないようにする)。
+ */
+export function resolveTheme(mode: ThemeMode, dimmed: boolean): ThemeColors {
+  if (dimmed) {
+    return NIGHT_THEME;
+  }
+  return PALETTES[mode] ?? DARK_THEME;
+}
@@ -0,0 +1,122 @@
+import type { FuelEconomyUnit, UnitSystem } from '../types/obd';
+import { meterSignal } from './meterLayout';
+
+// Every signal is decoded, logged and stored in metric (the PidDefinition unit). Conversion to
+// the user's units happens only at the edges: displays, gauge ranges and exports.
+
+const KMH_TO_MPH = 0.621371192237334;
+const KM_TO_MI = 0.621371192237334;
+const KPA_TO_PSI = 0.1450377377302092;
+const MPA_TO_PSI = 145.0377377302092;
+const L_TO_GAL_US = 0.264172052358148;
+const L_TO_GAL_UK = 0.219969248299088;
+const KM_PER_L_TO_MPG_US = 2.3521458333333335;
+const KM_PER_L_TO_MPG_UK = 2.824809363318222;
+
+/** Upper end of an L/100km gauge whose km/L range starts at 0 (which would be infinite). */
+const MAX_L_PER_100KM = 30;
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  fuelEconomy: FuelEconomyUnit;
+}
+
+export interface UnitConversion {
+  /** Unit label to display. */
+  unit: string;
+  /** Convert a value from the source (metric) unit. */
+  convert: (value: number) => number;
+  /** Convert a displayed value back to the source unit (for user-entered ranges). */
+  revert: (value: number) => number;
+  /** Convert a difference between two values (no offset: a 2°C delta is 3.6°F). */
+  convertDelta: (value: number) => number;
+  /** Convert a gauge range; stays ordered when the conversion reverses the order. */
+  convertRange: (min: number, max: number) => { min: number; max: number };
+  /**
+   * Convert a "higher is worse" threshold. Undefined when the conversion reverses the order
+   * (an above-X km/L threshold has no above-Y L/100km equivalent).
+   */
+  convertThreshold: (value: number | undefined) => number | undefined;
+}
+
+function linear(unit: string, factor: number, offset = 0): UnitConversion {
+  const convert = (value: number) => value * factor + offset;
+  return {
+    unit,
+    convert,
+    revert: (value) => (value - offset) / factor,
+    convertDelta: (value) => value * factor,
+    convertRange: (min, max) => ({ min: convert(min), max: convert(max) }),
+    convertThreshold: (value) => (value === undefined ? undefined : convert(value)),
+  };
+}
+
+/** km/L -> L/100km. 0 km/L (standing still, no data) is shown as 0 rather than infinity. */
+function perHundredKm(): UnitConversion {
+  const convert = (value: number) => (value > 0 ? 100 / value : 0);
+  return {
+    unit: 'L/100km',
+    convert,
+    revert: convert,
+    convertDelta: (value) => value,
+    convertRange: (min, max) => ({
+      min: convert(max),
+      max: min > 0 ? convert(min) : MAX_L_PER_100KM,
+    }),
+    convertThreshold: () => undefined,
+  };
+}
+
+function fuelEconomyConversion(unit: FuelEconomyUnit): UnitConversion {
+  switch (unit) {
+    case 'L/100km':
+      return perHundredKm();
+    case 'mpg-us':
+      return linear('mpg', KM_PER_L_TO_MPG_US);
+    case 'mpg-uk':
+      return linear('mpg UK', KM_PER_L_TO_MPG_UK);
+    default:
+      return linear('km/L', 1);
+  }
+}
+
+/** The fuel economy unit that goes with a unit system (used when the system is switched). */
+export function defaultFuelEconomyUnit(system: UnitSystem): FuelEconomyUnit {
+  return system === 'imperial' ? 'mpg-us' : 'km/L';
+}
+
+/**
+ * Conversion for values in `sourceUnit` (a PidDefinition unit such as "km/h" or "°C").
+ * Units without an imperial counterpart (rpm, %, V, A, ...) pass through unchanged.
+ */
+export function unitConversion(sourceUnit: string, prefs: UnitPreferences): UnitConversion {
+  if (sourceUnit === 'km/L') {
+    return fuelEconomyConversion(prefs.fuelEconomy);
+  }
+  if (prefs.system === 'imperial') {
+    switch (sourceUnit) {
+      case 'km/h':
+        return linear('mph', KMH_TO_MPH);
+      case '°C':
+      case 'C': // PriusChat / Toyota tables
+        return linear('°F', 9 / 5, 32);
+      case 'kPa':
+        return linear('psi', KPA_TO_PSI);
+      case 'MPaG': // gauge pressure (PriusChat A/C refrigerant)
+        return linear('psi', MPA_TO_PSI);
+      case 'km':
+        return linear('mi', KM_TO_MI);
+      case 'L':
+      case 'Liter': // PriusChat fuel level
+        return prefs.fuelEconomy === 'mpg-uk'
+          ? linear('gal UK', L_TO_GAL_UK)
+          : linear('gal', L_TO_GAL_US);
+    }
+  }
+  return linear(sourceUnit, 1);
+}
+
+/** Conversion for a signal id, using its definition's unit (unknown signals pass through). */
+export function signalConversion(pid: string, prefs: UnitPreferences): UnitConversion {
+  return unitConversion(meterSignal(pid)?.unit ?? '', prefs);
+}
@@ -1,17 +1,16 @@
 /**
- * デモモード用モックデータプロバイダー
+ * ZVW30プリウス走行シミュレーター
  *
- * OBD2接続なしでUIを確認するために、ZVW30プリウスの
- * リアルな走行データをシミュレーションする。
+ * OBD2接続なしで動作確認するために、ZVW30プリウスの
+ * リアルな走行データ(物理量)をシミュレーションする。
+ * ストアには書き込まない。値はELM327エミュレーター (`Elm327Emulator`) が
+ * ECU応答バイト列にエンコードし、実機と同じプロトコル/デコード経路で画面に届く。
  */
 
-import { useOBDStore } from '../store/obdStore';
-import { useBatteryHealthStore } from '../store/batteryHealthStore';
-
 /** シミュレーション走行シナリオ */
-type DrivingPhase = 'idle' | 'accel' | 'cruise' | 'decel' | 'ev_cruise' | 'stop';
+export type DrivingPhase = 'idle' | 'accel' | 'cruise' | 'decel' | 'ev_cruise' | 'stop';
 
-interface MockState {
+export interface VehicleState {
   phase: DrivingPhase;
   phaseTime: number;      // 現フェーズ経過時間 (ms)
   phaseDuration: number;  // 現フェーズ持続時間 (ms)
@@ -29,7 +28,6 @@ interface MockState {
   aux12v: number;               // 12V補機バッテリー電圧
   engineOnTime: number;         // エンジンON累計(ms)
   totalTime: number;            // 総走行時間(ms)
-  lastEvObservationTemp: number; // 最後のEV閾値観測温度
   ambientTemp: number;          // 外気温 (°C)
   cabinTempFront: number;       // 内気温 フロント (°C)
   cabinTempMid: number;         // 内気温 ミドル (°C)
@@ -38,6 +36,17 @@ interface MockState {
   acSetTemp: number;            // エアコン設定温度 (°C)
 }
 
+/** シミュレーション値から導出したパワートレイン量 (ECU応答のエンコード用) */
+export interface PowertrainState {
+  engineRunning: boolean;
+  engineTorque: number;  // Nm
+  mg1Rpm: number;
+  mg2Rpm: number;
+  mg1Torque: number;     // Nm (負 = 発電)
+  mg2Torque: number;     // Nm (正 = 駆動)
+  acPowerKw: number;     // A/Cコンプレッサー電力
+}
+
 const PHASE_SEQUENCE: DrivingPhase[] = [
   'idle', 'accel', 'cruise', 'decel', 'ev_cruise', 'accel', 'cruise', 'decel', 'stop',
 ];
@@ -71,9 +80,23 @@ function jitter(value: number, amount: number): number {
   return value + (Math.random() - 0.5) * amount;
 }
 
-class MockDataProvider {
-  private intervalId: ReturnType<typeof setInterval> | null = null;
-  private state: MockState;
+/** 遊星歯車: サンギア(MG1)歯数 / リングギア歯数 */
+const PLANETARY_RATIO = 30 / 78;
+/** MG2 回転数 / 車速 (rpm per km/h, 減速比込みの概算) */
+const MG2_RPM_PER_KMH = 65;
+/** リングギア回転数 / MG2 回転数 (MG2減速機構) */
+const RING_PER_MG2 = 1 / 2.636;
+/** 1.8L 2ZR-FXE の概算最大トルク (Nm) */
+const ENGINE_MAX_TORQUE = 142;
+
+/** 出力(kW)と回転数(rpm)からトルク(Nm) */
+function torqueFromPower(kw: number, rpm: number): number {
+  if (Math.abs(rpm) < 1) return 0;
+  return (kw * 1000 * 60) / (2 * Math.PI * rpm);
+}
+
+export class VehicleSimulator {
+  private state: VehicleState;
   private phaseIndex = 0;
   private targetRpm = 0;
   private targetSpeed = 0;
@@ -98,7 +121,6 @@ class MockDataProvider {
       aux12v: 12.6,
       engineOnTime: 0,
       totalTime: 0,
-      lastEvObservationTemp: 0,
       ambientTemp: 18,        // 春秋の外気温
       cabinTempFront: 22,     // フロント内気温
       cabinTempMid: 23,       // ミドル内気温
@@ -125,7 +147,11 @@ class MockDataProvider {
     this.setPhaseTargets();
   }
 
-  private tick(dt: number): void {
+  /**
+   * シミュレーションを進める
+   * @param dt - 経過時間 (ms)
+   */
+  tick(dt: number): void {
     this.state.phaseTime += dt;
 
     // フェーズ終了判定
@@ -228,114 +254,69 @@ class MockDataProvider {
     if (this.state.rpm > 100) {
       this.state.engineOnTime += dt;
     }
-
-    this.pushToStore(dt);
   }
 
-  private pushToStore(dt: number): void {
-    const store = useOBDStore.getState();
-
-    // 標準PID
-    store.updatePidValue('010C', jitter(this.state.rpm, 30), 'MOCK');
-    store.updatePidValue('010D', jitter(Math.max(0, this.state.speed), 1), 'MOCK');
-    store.updatePidValue('0105', jitter(this.state.coolant, 0.5), 'MOCK');
-    store.updatePidValue('0111', jitter(Math.max(0, this.state.throttle), 1), 'MOCK');
-
-    // Toyota固有PID
-    store.updatePidValue('TOYOTA_HV_SOC', jitter(this.state.soc, 0.3), 'MOCK');
-    store.updatePidValue('TOYOTA_HV_VOLTAGE', jitter(this.state.hvVoltage, 0.5), 'MOCK');
-    store.updatePidValue('TOYOTA_HV_CURRENT', jitter(this.state.hvCurrent, 2), 'MOCK');
-    store.updatePidValue('TOYOTA_HV_TEMP', jitter(this.state.hvTemp, 0.3), 'MOCK');
-
-    // 環境データ
-    store.updatePidValue('0146', jitter(this.state.ambientTemp, 0.3), 'MOCK');          // 外気温
-    const cabinAvg = (this.state.cabinTempFront + this.state.cabinTempMid + this.state.cabinTempRear) / 3;
-    store.updatePidValue('TOYOTA_CABIN_TEMP', jitter(cabinAvg, 0.2), 'MOCK');               // 平均内気温
-    store.updatePidValue('CABIN_TEMP_FRONT', jitter(this.state.cabinTempFront, 0.2), 'MOCK'); // フロント
-    store.updatePidValue('CABIN_TEMP_MID', jitter(this.state.cabinTempMid, 0.2), 'MOCK');     // ミドル
-    store.updatePidValue('CABIN_TEMP_REAR', jitter(this.state.cabinTempRear, 0.2), 'MOCK');   // リア
-    store.updatePidValue('TOYOTA_AC_STATUS', this.state.acOn ? 1 : 0, 'MOCK');           // AC ON/OFF
-    store.updatePidValue('TOYOTA_AC_SET_TEMP', this.state.acSetTemp, 'MOCK');             // AC設定温度
-    // A/Cコンプレッサー電力: ON時は温度差に応じて0.5-2.5kW
-    const acPower = this.state.acOn
-      ? Math.max(0.3, Math.min(3.0, Math.abs(cabinAvg - this.state.acSetTemp) * 0.4 + 0.5))
-      : 0;
-    store.updatePidValue('TOYOTA_AC_POWER', jitter(acPower, 0.15), 'MOCK');              // AC電力(kW)
-
-    // 計算値 (燃費系)
-    const instantFuel = this.state.speed > 5 && this.state.rpm > 0
-      ? 10 + this.state.speed / this.state.rpm * 30 + (Math.random() - 0.5) * 3
-      : 0;
-    const avgFuel = instantFuel > 0 ? instantFuel * 0.8 + 5 : 0;
-    const evRatio = this.state.evMode ? rand(60, 90) : rand(10, 30);
-
-    store.updatePidValue('CALC_INSTANT_FUEL', Math.max(0, instantFuel), 'MOCK');
-    store.updatePidValue('CALC_AVG_FUEL', Math.max(0, avgFuel), 'MOCK');
-    store.updatePidValue('CALC_EV_RATIO', evRatio, 'MOCK');
-
-    // batteryHealthStore にデータプッシュ
-    const bhStore = useBatteryHealthStore.getState();
-    bhStore.updateModuleVoltages(this.state.moduleVoltages);
-    bhStore.updateTemperatures(this.state.batteryTemps);
-    bhStore.update12V(this.state.aux12v);
-    bhStore.updatePackElectrical(this.state.hvVoltage, this.state.hvCurrent);
-
-    // エンジン稼働統計
-    bhStore.tickEngineStats(this.state.rpm > 100, dt);
-
-    // パワーフロー計算
-    const engineKw = this.state.rpm > 100 ? (this.state.rpm / 6000) * 57 * (this.state.throttle / 100) : 0;
-    const mg2Kw = this.state.hvCurrent < 0
-      ? Math.abs(this.state.hvCurrent) * this.state.hvVoltage / 1000 * 0.85 // 放電→駆動
-      : -(this.state.hvCurrent * this.state.hvVoltage / 1000 * 0.9);         // 充電→回生
-    const batteryKw = -(this.state.hvCurrent * this.state.hvVoltage / 1000);
-    const mg1Kw = this.state.rpm > 100 ? engineKw * 0.3 : 0; // エンジンの30%がMG1で発電
-    const wheelKw = Math.max(0, mg2Kw + (this.state.rpm > 100 ? engineKw * 0.7 : 0));
-
-    bhStore.updatePowerFlow({
-      engineKw: jitter(engineKw, 0.5),
-      mg1Kw: jitter(mg1Kw, 0.3),
-      mg2Kw: jitter(mg2Kw, 0.3),
-      batteryKw: jitter(batteryKw, 0.5),
-      wheelKw: jitter(Math.max(0, wheelKw), 0.3),
-      evMode: this.state.evMode,
-    });
-
-    // EV閾値観測: 冷却水温が変化したタイミングで記録
-    if (Math.abs(this.state.coolant - this.state.lastEvObservationTemp) > 2) {
-      bhStore.addEvThresholdObservation({
-        coolantTemp: this.state.coolant,
-        engineRpm: this.state.rpm,
-        timestamp: Date.now(),
-        wasEvMode: this.state.evMode,
-      });
-      this.state.lastEvObservationTemp = this.state.coolant;
-    }
+  /** 現時点の状態を複製する (フリーズフレーム用) */
+  clone(): VehicleSimulator {
+    const copy = new VehicleSimulator();
+    copy.state = {
+      ...this.state,
+      moduleVoltages: [...this.state.moduleVoltages],
+      batteryTemps: [...this.state.batteryTemps],
+    };
+    copy.phaseIndex = this.phaseIndex;
+    copy.targetRpm = this.targetRpm;
+    copy.targetSpeed = this.targetSpeed;
+    copy.targetThrottle = this.targetThrottle;
+    return copy;
   }
 
-  /** デモデータのポーリング開始 */
-  start(intervalMs = 200): void {
-    if (this.intervalId !== null) return;
-
-    const store = useOBDStore.getState();
-    store.startPolling();
+  /** 現在のシミュレーション状態 (読み取り専用) */
+  get current(): Readonly<VehicleState> {
+    return this.state;
+  }
 
-    this.intervalId = setInterval(() => {
-      this.tick(intervalMs);
-    }, intervalMs);
+  /** 平均内気温 (A/C ECU の室温センサー相当) */
+  get cabinTemp(): number {
+    return (this.state.cabinTempFront + this.state.cabinTempMid + this.state.cabinTempRear) / 3;
   }
 
-  /** デモデータのポーリング停止 */
-  stop(): void {
-    if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+  /**
+   * 現在の状態からパワートレイン量を導出する。
+   * 電流は負 = 放電 (シミュレーション内の符号)。
+   */
+  powertrain(): PowertrainState {
+    const s = this.state;
+    const engineRunning = s.rpm > 100;
+
+    const engineKw = engineRunning ? (s.rpm / 6000) * 57 * (s.throttle / 100) : 0;
+    const mg2Kw = s.hvCurrent < 0
+      ? Math.abs(s.hvCurrent) * s.hvVoltage / 1000 * 0.85 // 放電→駆動
+      : -(s.hvCurrent * s.hvVoltage / 1000 * 0.9);         // 充電→回生
+    const mg1Kw = engineRunning ? engineKw * 0.3 : 0;     // エンジンの30%がMG1で発電
+
+    // 遊星歯車の回転数関係: Ne * (1 + ρ) = Ns * ρ + Nr
+    const mg2Rpm = s.speed * MG2_RPM_PER_KMH;
+    const ringRpm = mg2Rpm * RING_PER_MG2;
+    const mg1Rpm = (s.rpm * (1 + PLANETARY_RATIO) - ringRpm) / PLANETARY_RATIO;
+
+    // A/Cコンプレッサー電力: ON時は温度差に応じて0.3-3.0kW
+    const acPowerKw = s.acOn
+      ? Math.max(0.3, Math.min(3.0, Math.abs(this.cabinTemp - s.acSetTemp) * 0.4 + 0.5))
+      : 0;
 
-    const store = useOBDStore.getState();
-    store.stopPolling();
-    store.clearData();
-    useBatteryHealthStore.getState().reset();
+    return {
+      engineRunning,
+      engineTorque: engineRunning
+        ? Math.min(ENGINE_MAX_TORQUE, torqueFromPower(engineKw, s.rpm))
+        : 0,
+      mg1Rpm,
+      mg2Rpm,
+      // MG1 は発電時に回転方向と逆向きのトルク
+      mg1Torque: -torqueFromPower(mg1Kw, mg1Rpm),
+      mg2Torque: torqueFromPower(mg2Kw, mg2Rpm),
+      acPowerKw,
+    };
   }
 
   /** 現在の走行フェーズ */
@@ -343,6 +324,3 @@ class MockDataProvider {
     return this.state.phase;
   }
 }
-
-/** シングルトンインスタンス */
-export const mockDataProvider = new MockDataProvider();
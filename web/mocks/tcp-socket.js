@@ -0,0 +1,15 @@
+// react-native-tcp-socket Web mock
+//
+// Browsers cannot open raw TCP sockets. For web builds we expose a minimal API
+// so the UI can render (Demo Mode still works).
+
+const createConnection = () => {
+  throw new Error('Wi-Fi (TCP) adapters are not supported on web');
+};
+
+const TcpSocket = {
+  createConnection,
+  connect: createConnection,
+};
+
+export default TcpSocket;